@@ -0,0 +1,58 @@
+import jwt from 'jsonwebtoken';
+import { afterEach, describe, expect, it, vi } from 'vitest';
+import { readAccessToken, signAccessToken } from './accessTokens';
+import { createMagicLinkToken } from './magicLink';
+import { signMfaChallenge, signMfaEnrollment } from './mfa';
+import { revokeAccessToken, revokeUserAccessTokens } from './tokenRevocation';
+
+const claims = { email: 'ann@example.com', departments: ['Sales'], role: 'viewer' as const };
+
+describe('access tokens', () => {
+  afterEach(() => {
+    vi.useRealTimers();
+  });
+
+  it('are read back with their claims and session', () => {
+    const result = readAccessToken(signAccessToken(claims, 'session-1'));
+    expect(result.status).toBe('ok');
+    expect(result.status === 'ok' && result.payload).toMatchObject({ ...claims, sid: 'session-1' });
+  });
+
+  it('refuses the other tokens signed with the same secret', () => {
+    expect(readAccessToken(signMfaChallenge('user-1', 'verify')).status).toBe('wrong-audience');
+    expect(readAccessToken(signMfaEnrollment('user-1', 'SECRET')).status).toBe('wrong-audience');
+    expect(readAccessToken(createMagicLinkToken('user-1').token).status).toBe('wrong-audience');
+    expect(readAccessToken(jwt.sign({ ...claims }, process.env.JWT_SECRET!, { audience: 'sso-login' })).status).toBe('wrong-audience');
+  });
+
+  it('refuses tokens without an audience, as issued before audiences were checked', () => {
+    expect(readAccessToken(jwt.sign({ ...claims }, process.env.JWT_SECRET!)).status).toBe('wrong-audience');
+  });
+
+  it('refuses access tokens without an email claim', () => {
+    expect(readAccessToken(jwt.sign({ role: 'super-admin' }, process.env.JWT_SECRET!, { audience: 'insights-access' })).status).toBe('wrong-audience');
+  });
+
+  it('refuses tokens signed with another secret', () => {
+    expect(readAccessToken(jwt.sign({ ...claims }, 'another-secret', { audience: 'insights-access' })).status).toBe('invalid');
+    expect(readAccessToken('not-a-token').status).toBe('invalid');
+  });
+
+  it('reports expired tokens', () => {
+    vi.useFakeTimers({ toFake: ['Date'] });
+    const token = signAccessToken(claims, 'session-1');
+    vi.advanceTimersByTime(16 * 60 * 1000);
+    expect(readAccessToken(token).status).toBe('expired');
+  });
+
+  it('reports revoked tokens', () => {
+    const token = signAccessToken(claims, 'session-1');
+    const { jti, exp } = jwt.decode(token) as jwt.JwtPayload;
+    revokeAccessToken(jti!, new Date(exp! * 1000));
+    expect(readAccessToken(token).status).toBe('revoked');
+
+    const other = signAccessToken({ ...claims, email: 'bob@example.com' }, 'session-2');
+    revokeUserAccessTokens('BOB@example.com', 15 * 60 * 1000);
+    expect(readAccessToken(other).status).toBe('revoked');
+  });
+});
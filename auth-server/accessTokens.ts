@@ -0,0 +1,69 @@
+import crypto from 'crypto';
+import jwt from 'jsonwebtoken';
+import type { SessionClaims } from './refreshTokens';
+import type { Role } from './shared/permissions';
+import { isAccessTokenRevoked } from './tokenRevocation';
+
+/**
+ * Short-lived access tokens sent as `Authorization: Bearer` on API calls. The other
+ * tokens signed with JWT_SECRET (MFA challenges and enrolments, sign-in links, the SSO
+ * login cookie) carry audiences of their own, so only tokens with the access token
+ * audience are accepted here.
+ */
+
+export interface JwtPayload {
+  email: string;
+  departments: string[];
+  department?: string; // Only in tokens issued before users could have several departments
+  role: Role;
+  isAdmin?: boolean; // Only in tokens issued before roles existed; verifyJWT maps it to a role
+  name?: string;
+  upn?: string; // Azure AD user principal name, used as the RLS identity when present
+  groups?: string[]; // Azure AD groups of SSO users, matched against report ACLs
+  uid?: string; // Directory user of password logins
+  idp?: string; // Identity provider of SSO sign-ins
+  sid?: string; // Session (refresh token family) the token was issued for
+  jti?: string;
+  iat?: number;
+  exp?: number;
+}
+
+export type AccessTokenResult =
+  | { status: 'ok'; payload: JwtPayload }
+  | { status: 'expired' | 'wrong-audience' | 'revoked' | 'invalid' };
+
+const ACCESS_TOKEN_AUDIENCE = 'insights-access';
+
+// Read lazily so values from .env are picked up
+export const accessTokenTtlSeconds = () => Math.round(Number(process.env.ACCESS_TOKEN_TTL_MINUTES || 15) * 60);
+
+/**
+ * Signs a short-lived access token for a session. Clients renew it with the
+ * session's refresh token at /auth/refresh.
+ */
+export const signAccessToken = (claims: SessionClaims, sessionId: string): string =>
+  jwt.sign({ ...claims, sid: sessionId }, process.env.JWT_SECRET!, {
+    audience: ACCESS_TOKEN_AUDIENCE,
+    expiresIn: accessTokenTtlSeconds(),
+    jwtid: crypto.randomUUID(),
+  });
+
+/**
+ * Checks the signature, expiry, audience and revocation of an access token. Tokens
+ * without the access token audience include those issued before it existed, which
+ * the client replaces with its refresh token like expired ones.
+ */
+export const readAccessToken = (token: string): AccessTokenResult => {
+  let payload: JwtPayload;
+  try {
+    payload = jwt.verify(token, process.env.JWT_SECRET!, { audience: ACCESS_TOKEN_AUDIENCE }) as JwtPayload;
+  } catch (error) {
+    if ((error as Error).name === 'TokenExpiredError') return { status: 'expired' };
+    if ((error as Error).message.startsWith('jwt audience invalid')) return { status: 'wrong-audience' };
+    return { status: 'invalid' };
+  }
+
+  if (typeof payload.email !== 'string' || !payload.email) return { status: 'wrong-audience' };
+  if (isAccessTokenRevoked(payload)) return { status: 'revoked' };
+  return { status: 'ok', payload };
+};
@@ -0,0 +1,594 @@
+import { extendZodWithOpenApi } from '@asteasolutions/zod-to-openapi';
+import { z } from 'zod';
+import type { RouteDoc } from './openapiDocument';
+import { GRAPH_ATTRIBUTES, reportSchema, roleSchema } from './shared/schemas';
+
+/**
+ * Summaries and response bodies of the API routes, keyed by `METHOD /express/path`.
+ * Everything else in the OpenAPI document comes from the routes themselves; see
+ * openapiDocument.ts. `npm run openapi` fails while a route is missing here.
+ */
+
+extendZodWithOpenApi(z); // For the .openapi() component names below
+
+const timestamp = z.string().openapi({ format: 'date-time' });
+
+// ---------------------------------------------------------------------------
+// Response bodies
+// ---------------------------------------------------------------------------
+
+export const errorSchema = z.object({
+  error: z.string().openapi({ description: 'Message to show the user' }),
+  fieldErrors: z.record(z.string(), z.array(z.string())).optional()
+    .openapi({ description: 'Invalid request fields by dotted path (`400` only)' }),
+  reason: z.enum(['delay', 'account-locked', 'ip-locked']).optional()
+    .openapi({ description: 'Why a sign-in was refused (`429` from sign-in routes only)' }),
+  retryAfter: z.number().int().optional().openapi({ description: 'Seconds until the request may be retried (`429` only)' }),
+}).openapi('Error');
+
+const message = z.object({ message: z.string() }).openapi('Message');
+
+const report = reportSchema.openapi('Report');
+
+const reportsData = z.record(z.string(), z.array(report)).openapi('ReportsData', {
+  description: 'Reports per department',
+});
+
+// What users who cannot edit a department see of its reports
+const departmentReport = reportSchema.pick({
+  id: true,
+  title: true,
+  description: true,
+  icon: true,
+  powerBIReportId: true,
+  isActive: true,
+  embedUrl: true,
+  embedToken: true,
+  reportId: true,
+  clientId: true,
+  tenantId: true,
+  datasetId: true,
+  sharedDatasetId: true,
+}).openapi('DepartmentReport');
+
+const embedDetails = z.object({
+  embedToken: z.string(),
+  embedUrl: z.string(),
+  expiration: timestamp.openapi({ description: 'When Power BI stops accepting the embed token' }),
+}).openapi('EmbedDetails');
+
+const revisionInfo = z.object({
+  revision: z.number().int(),
+  createdAt: timestamp,
+  actor: z.string().optional(),
+  summary: z.string().optional(),
+}).openapi('RevisionInfo');
+
+const revision = revisionInfo.extend({ data: reportsData }).openapi('Revision');
+
+const change = z.object({
+  path: z.string(),
+  before: z.unknown().optional(),
+  after: z.unknown().optional(),
+}).openapi('Change', { description: 'A before/after difference; `before` is absent for additions, `after` for removals' });
+
+const auditEntry = z.object({
+  id: z.string(),
+  timestamp,
+  actor: z.string(),
+  action: z.string(),
+  target: z.string(),
+  changes: z.array(change),
+}).openapi('AuditEntry');
+
+const auditPage = z.object({
+  entries: z.array(auditEntry),
+  total: z.number().int(),
+  page: z.number().int(),
+  pageSize: z.number().int(),
+}).openapi('AuditPage');
+
+const user = z.object({
+  id: z.string(),
+  email: z.string(),
+  phone: z.string(),
+  name: z.string().optional(),
+  departments: z.array(z.string()),
+  role: roleSchema,
+  disabled: z.boolean(),
+  mfaEnabled: z.boolean(),
+  createdAt: timestamp,
+  updatedAt: timestamp,
+}).openapi('User');
+
+const adminUser = user.extend({
+  mfaRequired: z.boolean(),
+  lockedUntil: timestamp.optional().openapi({ description: 'Set while failed sign-ins keep the account locked' }),
+}).openapi('AdminUser');
+
+const ssoMappingRule = z.object({
+  id: z.string(),
+  provider: z.string().openapi({ description: 'Identity provider ID the rule applies to' }),
+  source: z.enum(['group', 'app-role', 'attribute']),
+  attribute: z.enum(GRAPH_ATTRIBUTES).optional(),
+  value: z.string(),
+  departments: z.array(z.string()),
+  role: roleSchema.optional(),
+}).openapi('SsoMappingRule');
+
+const ssoMapping = z.object({
+  rules: z.array(ssoMappingRule),
+  useGraphDepartment: z.boolean(),
+  fallbackDepartment: z.string(),
+  defaultRole: roleSchema,
+}).openapi('SsoMapping');
+
+const ssoIdentity = z.object({
+  provider: z.string(),
+  groups: z.array(z.string()),
+  appRoles: z.array(z.string()),
+  attributes: z.record(z.enum(GRAPH_ATTRIBUTES), z.string()),
+}).openapi('SsoIdentity');
+
+const ssoMappingResult = z.object({
+  departments: z.array(z.string()),
+  role: roleSchema,
+  matchedRuleIds: z.array(z.string()),
+}).openapi('SsoMappingResult');
+
+const rateLimitPolicy = z.object({
+  limit: z.number().int(),
+  windowSeconds: z.number().int(),
+  key: z.enum(['user', 'ip', 'account']).openapi({ description: '`account` counts both the client IP and the account the request is for' }),
+  ipLimit: z.number().int().optional().openapi({ description: 'Requests per client IP of `account` policies' }),
+}).openapi('RateLimitPolicy');
+
+const rateLimitPolicyName = z.enum(['login', 'mfa', 'sms', 'email', 'sso', 'embed', 'admin']);
+
+const throttledPrincipal = z.object({
+  policy: rateLimitPolicyName,
+  principal: z.string().openapi({ description: '`user:<email>`, `ip:<address>` or `account:<identifier>`' }),
+  requests: z.number().int(),
+  limit: z.number().int(),
+  resetAt: timestamp,
+}).openapi('ThrottledPrincipal');
+
+const cacheCounters = { hits: z.number().int(), misses: z.number().int() };
+
+const powerBICacheStats = z.object({
+  accessToken: z.object({ ...cacheCounters, expiresAt: timestamp.nullable() }),
+  embedTokens: z.object({ ...cacheCounters, size: z.number().int() }),
+  embedUrls: z.object({ ...cacheCounters, size: z.number().int() }),
+}).openapi('PowerBICacheStats');
+
+const signInResult = z.object({
+  token: z.string().optional().openapi({ description: 'Access token, when sign-in is complete' }),
+  refreshToken: z.string().optional(),
+  mfaRequired: z.boolean().optional().openapi({ description: 'Continue at `/auth/mfa/verify` with `mfaToken`' }),
+  mfaEnrollmentRequired: z.boolean().optional().openapi({ description: 'Set up MFA at `/auth/mfa/enroll` with `mfaToken` first' }),
+  mfaToken: z.string().optional(),
+}).openapi('SignInResult', { description: 'Either a session (`token` and `refreshToken`) or the next sign-in step' });
+
+const sessionTokens = z.object({ token: z.string(), refreshToken: z.string() }).openapi('SessionTokens');
+
+// ---------------------------------------------------------------------------
+// Route documentation
+// ---------------------------------------------------------------------------
+
+const etagHeader = z.object({ ETag: z.string().openapi({ description: 'Catalog revision, to send back in `If-Match`' }) });
+
+const ifMatchHeader = z.object({
+  'If-Match': z.string().openapi({ description: 'ETag of the catalog the change is based on, or `*` to overwrite' }),
+});
+
+const catalogConflict = {
+  description: 'The catalog changed since it was loaded; the current catalog is returned to reload or merge',
+  schema: z.object({ error: z.string(), currentRevision: z.number().int(), reportsData }).openapi('CatalogConflict'),
+};
+
+const ifMatchMissing = 'The `If-Match` header is missing';
+
+export const ROUTE_DOCS: Record<string, RouteDoc> = {
+  // Reports
+  'POST /api/reports/generate-embed': {
+    tag: 'Reports',
+    summary: 'Embed a report',
+    description: 'Embed token and URL for a catalog report the user may see, under the report\'s row-level security roles.',
+    success: { description: 'Embed details', schema: embedDetails },
+    errors: { 403: 'Row-level security roles could not be resolved', 404: 'Report not found', 500: 'Power BI refused the request' },
+  },
+  'GET /api/reports/:department': {
+    tag: 'Reports',
+    summary: 'List the reports of a department',
+    description: 'Active reports the user may see.',
+    success: { description: 'Reports', schema: z.object({ reports: z.array(departmentReport) }) },
+    errors: { 403: 'The user may not view this department' },
+  },
+
+  // Departments
+  'GET /api/admin/departments': {
+    tag: 'Departments',
+    summary: 'List the departments the user may edit',
+    success: { description: 'Department names', schema: z.object({ departments: z.array(z.string()) }) },
+  },
+  'POST /api/admin/departments': {
+    tag: 'Departments',
+    summary: 'Add a department',
+    success: { description: 'Department added', schema: message },
+    errors: { 400: 'Department already exists', 500: 'Save failed; the catalog is unchanged', 503: 'Catalog is busy' },
+  },
+  'DELETE /api/admin/departments/:departmentName': {
+    tag: 'Departments',
+    summary: 'Delete a department and its reports',
+    success: { description: 'Department deleted', schema: message },
+    errors: { 404: 'Department not found', 500: 'Save failed; the catalog is unchanged', 503: 'Catalog is busy' },
+  },
+
+  // Catalog
+  'POST /api/admin/generate-embed': {
+    tag: 'Catalog',
+    summary: 'Preview a report',
+    description: 'Embed details for any report of the user\'s departments, or with `datasetId` for any report not in the catalog yet, under the given (unsaved) RLS settings. Datasets sent in the request replace those of the catalog entry.',
+    success: { description: 'Embed details', schema: embedDetails },
+    errors: {
+      400: 'The catalog entry has no dataset',
+      403: 'The report belongs to another department, or RLS roles could not be resolved',
+      404: 'The report is not in the catalog and no dataset was given',
+      500: 'Power BI refused the request',
+    },
+  },
+  'GET /api/admin/reports': {
+    tag: 'Catalog',
+    summary: 'Get the catalog',
+    description: 'Departments the user may edit, with every report.',
+    success: { description: 'Catalog', schema: reportsData, headers: etagHeader },
+    errors: { 500: 'The catalog could not be read', 503: 'Catalog is busy' },
+  },
+  'GET /api/admin/all-reports': {
+    tag: 'Catalog',
+    summary: 'List every report with its department',
+    success: {
+      description: 'Reports',
+      schema: z.object({ reports: z.array(report.extend({ department: z.string() }).openapi('CatalogReport')) }),
+    },
+  },
+  'PUT /api/admin/reports': {
+    tag: 'Catalog',
+    summary: 'Save the catalog',
+    description: 'Replaces the departments the user may edit and saves a new revision.',
+    headers: ifMatchHeader,
+    success: {
+      description: 'Saved',
+      schema: z.object({ message: z.string(), revision: z.number().int() }),
+      headers: etagHeader,
+    },
+    errors: { 403: 'The catalog changes departments the user may not edit', 409: catalogConflict, 428: ifMatchMissing, 500: 'Save failed; the catalog is unchanged', 503: 'Catalog is busy' },
+  },
+  'GET /api/admin/reports/revisions': {
+    tag: 'Catalog',
+    summary: 'List catalog revisions',
+    success: {
+      description: 'Revisions, newest first',
+      schema: z.object({ current: z.number().int(), revisions: z.array(revisionInfo) }),
+    },
+  },
+  'GET /api/admin/reports/revisions/diff': {
+    tag: 'Catalog',
+    summary: 'Compare two revisions',
+    success: {
+      description: 'Changes from `from` to `to`',
+      schema: z.object({ from: z.number().int(), to: z.number().int(), changes: z.array(change) }),
+    },
+    errors: { 404: 'Revision not found' },
+  },
+  'GET /api/admin/reports/revisions/:revision': {
+    tag: 'Catalog',
+    summary: 'Get a revision',
+    success: { description: 'The revision and its catalog', schema: revision },
+    errors: { 404: 'Revision not found' },
+  },
+  'POST /api/admin/reports/revisions/:revision/restore': {
+    tag: 'Catalog',
+    summary: 'Restore a revision',
+    description: 'Saves the revision\'s catalog as a new revision.',
+    headers: ifMatchHeader,
+    success: {
+      description: 'Restored',
+      schema: z.object({ message: z.string(), revision: z.number().int() }),
+      headers: etagHeader,
+    },
+    errors: {
+      404: 'Revision not found',
+      409: catalogConflict,
+      428: ifMatchMissing,
+      500: 'Save failed; the catalog is unchanged',
+      503: 'Catalog is busy',
+    },
+  },
+  'PUT /api/admin/reports/:department/:reportId': {
+    tag: 'Catalog',
+    summary: 'Update a report',
+    description: 'Changes the given fields of one report.',
+    headers: ifMatchHeader,
+    success: {
+      description: 'Updated',
+      schema: z.object({ message: z.string(), report }),
+      headers: etagHeader,
+    },
+    errors: {
+      403: 'The user may not edit this department',
+      404: 'Department or report not found',
+      409: catalogConflict,
+      428: ifMatchMissing,
+      500: 'Save failed; the catalog is unchanged',
+      503: 'Catalog is busy',
+    },
+  },
+
+  // Administration
+  'GET /api/admin/stats': {
+    tag: 'Administration',
+    summary: 'Portal statistics',
+    success: {
+      description: 'Counts; the Power BI cache only for users who may manage it',
+      schema: z.object({
+        totalUsers: z.number().int(),
+        totalReports: z.number().int(),
+        activeReports: z.number().int(),
+        powerBICache: powerBICacheStats.optional(),
+      }).openapi('AdminStats'),
+    },
+  },
+  'DELETE /api/admin/powerbi-cache': {
+    tag: 'Administration',
+    summary: 'Clear cached Power BI tokens',
+    success: { description: 'Cleared', schema: z.object({ message: z.string(), powerBICache: powerBICacheStats }) },
+  },
+  'GET /api/admin/rate-limits': {
+    tag: 'Administration',
+    summary: 'Rate limit policies and throttled principals',
+    success: {
+      description: 'Policies and the principals at or over a limit',
+      schema: z.object({ policies: z.record(rateLimitPolicyName, rateLimitPolicy), throttled: z.array(throttledPrincipal) }),
+    },
+  },
+  'GET /api/admin/audit': {
+    tag: 'Administration',
+    summary: 'Browse the audit log',
+    success: { description: 'One page of entries, newest first', schema: auditPage },
+  },
+
+  // Users
+  'GET /api/admin/users': {
+    tag: 'Users',
+    summary: 'List users',
+    success: { description: 'Users', schema: z.object({ users: z.array(adminUser) }) },
+  },
+  'POST /api/admin/users': {
+    tag: 'Users',
+    summary: 'Create a user',
+    success: { status: 201, description: 'Created', schema: z.object({ user }) },
+    errors: { 400: 'The email or phone number is already in use' },
+  },
+  'PUT /api/admin/users/:id': {
+    tag: 'Users',
+    summary: 'Update a user',
+    success: { description: 'Updated', schema: z.object({ user }) },
+    errors: { 400: 'Users cannot disable or demote themselves, or the phone number is in use', 404: 'User not found' },
+  },
+  'POST /api/admin/users/:id/reset-password': {
+    tag: 'Users',
+    summary: 'Reset a user\'s password',
+    description: 'Sets the given password, or generates a temporary one and returns it.',
+    success: {
+      description: 'Password changed',
+      schema: z.object({ message: z.string(), temporaryPassword: z.string().optional() }),
+    },
+    errors: { 404: 'User not found' },
+  },
+  'POST /api/admin/users/:id/unlock': {
+    tag: 'Users',
+    summary: 'Lift a sign-in lockout',
+    success: { description: 'Unlocked', schema: message },
+    errors: { 404: 'User not found' },
+  },
+  'POST /api/admin/users/:id/reset-mfa': {
+    tag: 'Users',
+    summary: 'Turn off a user\'s two-factor authentication',
+    success: { description: 'Reset', schema: message },
+    errors: { 400: 'The user has no two-factor authentication', 404: 'User not found' },
+  },
+
+  // SSO mapping
+  'GET /api/admin/sso-mapping': {
+    tag: 'SSO mapping',
+    summary: 'Get the SSO mapping',
+    success: { description: 'Mapping', schema: z.object({ mapping: ssoMapping }) },
+  },
+  'PUT /api/admin/sso-mapping': {
+    tag: 'SSO mapping',
+    summary: 'Save the SSO mapping',
+    description: 'Applies from the next SSO sign-in. New rules get an ID.',
+    success: { description: 'The saved mapping', schema: z.object({ mapping: ssoMapping }) },
+    errors: { 500: 'Save failed' },
+  },
+  'POST /api/admin/sso-mapping/test': {
+    tag: 'SSO mapping',
+    summary: 'Preview an SSO sign-in',
+    description: 'What a sign-in with the given identity would be mapped to, by the given rules or the saved ones.',
+    success: { description: 'Result', schema: z.object({ identity: ssoIdentity, result: ssoMappingResult }) },
+  },
+
+  // Sign-in
+  'GET /auth/providers': {
+    tag: 'Sign-in',
+    summary: 'List SSO providers',
+    success: {
+      description: 'Providers for the login page',
+      schema: z.object({ providers: z.array(z.object({ id: z.string(), name: z.string() }).openapi('SsoProvider')) }),
+    },
+  },
+  'GET /auth/login/:provider': {
+    tag: 'Sign-in',
+    summary: 'Start an SSO sign-in',
+    description: 'Browser navigation: redirects to the identity provider, which returns to `/auth/callback`.',
+    query: z.object({ returnTo: z.string().optional().openapi({ description: 'Frontend path to land on afterwards' }) }),
+    success: { status: 302, description: 'Redirect to the identity provider' },
+    errors: { 404: 'Unknown provider', 502: 'The identity provider is unavailable' },
+    textErrors: true,
+  },
+  'GET /auth/callback': {
+    tag: 'Sign-in',
+    summary: 'Finish an SSO sign-in',
+    description: 'Called by the identity provider. Redirects to the frontend with a one-time `ssoCode` in the query string, which the frontend exchanges at `/auth/sso/exchange`.',
+    success: { status: 302, description: 'Redirect to the frontend' },
+    errors: {
+      400: 'Sign-in expired or was started in another browser',
+      403: 'The provider did not confirm the email, or it is outside the provider\'s allowed domains',
+      500: 'Sign-in failed',
+    },
+    textErrors: true,
+  },
+  'POST /auth/sso/exchange': {
+    tag: 'Sign-in',
+    summary: 'Exchange the SSO sign-in code for a session',
+    description: 'Trades the one-time `ssoCode` of the callback redirect for the session. Codes expire after `SSO_CODE_TTL_SECONDS` and work once.',
+    success: { description: 'Session tokens', schema: sessionTokens },
+    errors: { 400: 'The code is invalid, expired or already used', 503: 'Session store unavailable' },
+  },
+  'POST /auth/manual-login': {
+    tag: 'Sign-in',
+    summary: 'Sign in with a password',
+    success: { description: 'Session or next step', schema: signInResult },
+    errors: { 401: 'Invalid credentials', 429: 'Sign-in delayed or locked after failed attempts' },
+  },
+  'POST /auth/sms/request': {
+    tag: 'Sign-in',
+    summary: 'Text a sign-in code',
+    description: 'The response is the same whether or not the number belongs to an account.',
+    success: {
+      description: 'Request accepted',
+      schema: z.object({ message: z.string(), resendAfter: z.number().int().openapi({ description: 'Seconds before another code is sent' }) }),
+    },
+  },
+  'POST /auth/sms/verify': {
+    tag: 'Sign-in',
+    summary: 'Sign in with a texted code',
+    success: { description: 'Session or next step', schema: signInResult },
+    errors: { 401: 'Invalid, expired or missing code', 429: 'Sign-in delayed or locked after failed attempts' },
+  },
+  'POST /auth/magic-link/request': {
+    tag: 'Sign-in',
+    summary: 'Email a sign-in link',
+    description: 'The response is the same whether or not the account exists.',
+    success: { description: 'Request accepted', schema: message },
+  },
+  'POST /auth/magic-link/verify': {
+    tag: 'Sign-in',
+    summary: 'Sign in with an emailed link',
+    success: { description: 'Session or next step', schema: signInResult },
+    errors: { 400: 'The link is invalid, expired or already used' },
+  },
+  'POST /auth/forgot-password': {
+    tag: 'Sign-in',
+    summary: 'Email a password reset link',
+    description: 'The response is the same whether or not the account exists.',
+    success: { description: 'Request accepted', schema: message },
+  },
+  'POST /auth/reset-password': {
+    tag: 'Sign-in',
+    summary: 'Set a new password with a reset link',
+    description: 'Ends every session of the user.',
+    success: { description: 'Password reset', schema: message },
+    errors: { 400: 'The reset link is invalid or expired' },
+  },
+
+  // MFA
+  'POST /auth/mfa/verify': {
+    tag: 'MFA',
+    summary: 'Finish a sign-in with an authenticator or recovery code',
+    success: { description: 'Session', schema: sessionTokens },
+    errors: { 401: 'Invalid code, or the sign-in expired', 429: 'Sign-in delayed or locked after failed attempts' },
+  },
+  'GET /auth/mfa': {
+    tag: 'MFA',
+    summary: 'Two-factor authentication status',
+    success: {
+      description: 'Status',
+      schema: z.object({
+        enabled: z.boolean(),
+        required: z.boolean(),
+        enabledAt: timestamp.optional(),
+        recoveryCodesRemaining: z.number().int().optional(),
+      }).openapi('MfaStatus'),
+    },
+    errors: { 400: 'SSO users manage two-factor authentication with their identity provider' },
+  },
+  'POST /auth/mfa/enroll': {
+    tag: 'MFA',
+    summary: 'Start setting up an authenticator',
+    description: 'Signed-in users send their access token; users finishing a sign-in send `mfaToken` instead.',
+    success: {
+      description: 'New secret, to confirm with a code at `/auth/mfa/enroll/confirm`',
+      schema: z.object({
+        secret: z.string(),
+        otpauthUri: z.string(),
+        qrCode: z.string().openapi({ description: 'PNG data URL of `otpauthUri`' }),
+        enrollmentToken: z.string(),
+      }).openapi('MfaEnrollment'),
+    },
+    errors: { 401: 'The sign-in expired', 409: 'Two-factor authentication is already enabled', 500: 'QR code generation failed' },
+  },
+  'POST /auth/mfa/enroll/confirm': {
+    tag: 'MFA',
+    summary: 'Turn on two-factor authentication',
+    success: {
+      description: 'Recovery codes, and the session when finishing a sign-in',
+      schema: z.object({
+        recoveryCodes: z.array(z.string()),
+        token: z.string().optional(),
+        refreshToken: z.string().optional(),
+      }).openapi('MfaEnrollmentResult'),
+    },
+    errors: { 400: 'Invalid code, or setup expired', 401: 'The sign-in expired', 409: 'Two-factor authentication is already enabled' },
+  },
+  'POST /auth/mfa/recovery-codes': {
+    tag: 'MFA',
+    summary: 'Replace the recovery codes',
+    success: { description: 'New recovery codes', schema: z.object({ recoveryCodes: z.array(z.string()) }) },
+    errors: { 400: 'Invalid code, or two-factor authentication is off', 429: 'Sign-in delayed or locked after failed attempts' },
+  },
+  'POST /auth/mfa/disable': {
+    tag: 'MFA',
+    summary: 'Turn off two-factor authentication',
+    success: { description: 'Turned off', schema: message },
+    errors: {
+      400: 'Invalid code, or two-factor authentication is off',
+      403: 'The user\'s role requires two-factor authentication',
+      429: 'Sign-in delayed or locked after failed attempts',
+    },
+  },
+
+  // Sessions
+  'POST /auth/refresh': {
+    tag: 'Sessions',
+    summary: 'Renew the access token',
+    description: 'Rotates the refresh token; using a refresh token twice revokes the session.',
+    success: { description: 'New tokens', schema: sessionTokens },
+    errors: { 401: 'Session expired, revoked or disabled', 503: 'Session store is busy' },
+  },
+  'POST /auth/logout': {
+    tag: 'Sessions',
+    summary: 'Sign out',
+    description: 'Revokes the access token and its session, or with `everywhere` every session of the user.',
+    success: { description: 'Signed out', schema: z.object({ success: z.boolean() }) },
+    errors: { 503: 'Session store is busy' },
+  },
+
+  // Documentation
+  'GET /api/openapi.json': {
+    tag: 'Documentation',
+    summary: 'This OpenAPI document',
+    success: { description: 'OpenAPI 3 document', schema: z.record(z.string(), z.unknown()) },
+  },
+};
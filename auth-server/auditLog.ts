@@ -0,0 +1,132 @@
+import crypto from 'crypto';
+import fs from 'fs';
+import path from 'path';
+import type { Change } from './diff';
+import { logger } from './logger';
+
+export type AuditAction =
+  | 'reports.replace'
+  | 'reports.restore'
+  | 'report.update'
+  | 'department.create'
+  | 'department.delete'
+  | 'user.create'
+  | 'user.update'
+  | 'user.reset-password'
+  | 'user.locked'
+  | 'user.unlock'
+  | 'user.reset-mfa'
+  | 'password-reset.request'
+  | 'password-reset.complete'
+  | 'mfa.enroll'
+  | 'mfa.disable'
+  | 'mfa.recovery-codes'
+  | 'mfa.recovery-code-used'
+  | 'login.ip-locked'
+  | 'sso-mapping.update'
+  | 'session.refresh-reuse'
+  | 'session.logout-all';
+
+export interface AuditEntry {
+  id: string;
+  timestamp: string;
+  actor: string;
+  action: AuditAction;
+  target: string;
+  changes: Change[];
+}
+
+export interface AuditQuery {
+  actor?: string;
+  action?: string;
+  target?: string;
+  from?: string;
+  to?: string;
+  page?: number;
+  pageSize?: number;
+}
+
+export interface AuditPage {
+  entries: AuditEntry[];
+  total: number;
+  page: number;
+  pageSize: number;
+}
+
+const AUDIT_FILE = process.env.AUDIT_LOG_FILE || path.join(__dirname, 'audit-log.jsonl');
+const DEFAULT_PAGE_SIZE = 50;
+const MAX_PAGE_SIZE = 200;
+
+/**
+ * Appends an entry to the audit log. The log is a JSON-lines file that is only
+ * ever appended to. A failed write is logged but never fails the admin request,
+ * since the change it describes has already been saved.
+ */
+export const recordAudit = (entry: Omit<AuditEntry, 'id' | 'timestamp'>): void => {
+  const fullEntry: AuditEntry = {
+    id: crypto.randomUUID(),
+    timestamp: new Date().toISOString(),
+    ...entry,
+  };
+
+  try {
+    fs.appendFileSync(AUDIT_FILE, JSON.stringify(fullEntry) + '\n');
+  } catch (error) {
+    logger.error('Error writing audit entry', { error, entry: fullEntry });
+  }
+};
+
+const readEntries = (): AuditEntry[] => {
+  let contents: string;
+  try {
+    contents = fs.readFileSync(AUDIT_FILE, 'utf-8');
+  } catch (error) {
+    if ((error as NodeJS.ErrnoException).code !== 'ENOENT') {
+      logger.error('Error reading audit log', { error });
+    }
+    return [];
+  }
+
+  return contents
+    .split('\n')
+    .filter(line => line.trim())
+    .flatMap(line => {
+      try {
+        return [JSON.parse(line) as AuditEntry];
+      } catch {
+        // Skip a line truncated by a crash mid-append rather than hiding the whole log
+        return [];
+      }
+    });
+};
+
+/**
+ * Returns audit entries, newest first, filtered by actor/target (substring,
+ * case-insensitive), exact action and an inclusive timestamp range.
+ */
+export const queryAudit = (query: AuditQuery): AuditPage => {
+  const actor = query.actor?.toLowerCase();
+  const target = query.target?.toLowerCase();
+  const from = query.from ? new Date(query.from).toISOString() : undefined;
+  const to = query.to ? new Date(query.to).toISOString() : undefined;
+
+  const matching = readEntries()
+    .filter(entry =>
+      (!actor || entry.actor.toLowerCase().includes(actor)) &&
+      (!query.action || entry.action === query.action) &&
+      (!target || entry.target.toLowerCase().includes(target)) &&
+      (!from || entry.timestamp >= from) &&
+      (!to || entry.timestamp <= to)
+    )
+    .reverse();
+
+  const pageSize = Math.min(Math.max(query.pageSize || DEFAULT_PAGE_SIZE, 1), MAX_PAGE_SIZE);
+  const page = Math.max(query.page || 1, 1);
+
+  return {
+    entries: matching.slice((page - 1) * pageSize, page * pageSize),
+    total: matching.length,
+    page,
+    pageSize,
+  };
+};
@@ -0,0 +1,219 @@
+import { afterAll, beforeAll, describe, expect, it, vi } from 'vitest';
+import { startTestServer, TestServer } from './testServer';
+
+let api: TestServer;
+let adminToken: string;
+
+const report = (id: string, fields: Record<string, unknown> = {}) => ({ id, title: `Report ${id}`, ...fields });
+
+const getCatalog = async () => {
+  const response = await api.request('/api/admin/reports', { token: adminToken });
+  return { etag: response.headers.get('ETag')!, reportsData: await response.json() };
+};
+
+const saveCatalog = (reportsData: unknown, ifMatch?: string) =>
+  api.request('/api/admin/reports', {
+    method: 'PUT',
+    token: adminToken,
+    body: { reportsData },
+    headers: ifMatch === undefined ? {} : { 'If-Match': ifMatch },
+  });
+
+beforeAll(async () => {
+  vi.stubEnv('MFA_REQUIRED_ROLES', '');
+  api = await startTestServer();
+  adminToken = await api.signIn('admin@example.com', 'super-admin');
+});
+
+afterAll(() => {
+  api.server.close();
+  vi.unstubAllEnvs();
+});
+
+describe('catalog ETags', () => {
+  it('returns the current revision as the ETag', async () => {
+    const saved = await saveCatalog({ IT: [report('e1')] }, '*');
+    const { revision } = await saved.json();
+    expect(saved.headers.get('ETag')).toBe(`"${revision}"`);
+
+    expect((await getCatalog()).etag).toBe(`"${revision}"`);
+  });
+
+  it('saves against the current ETag and moves it on', async () => {
+    const { etag } = await getCatalog();
+
+    const response = await saveCatalog({ IT: [report('e2')] }, etag);
+    expect(response.status).toBe(200);
+    expect(response.headers.get('ETag')).not.toBe(etag);
+    expect((await getCatalog()).reportsData).toEqual({ IT: [report('e2', { isActive: true })] });
+  });
+
+  it('requires If-Match', async () => {
+    const before = await getCatalog();
+
+    const response = await saveCatalog({ IT: [report('e3')] });
+    expect(response.status).toBe(428);
+    expect(await getCatalog()).toEqual(before);
+  });
+
+  it('refuses a stale If-Match with the current catalog', async () => {
+    const { etag: stale } = await getCatalog();
+    await saveCatalog({ IT: [report('e4')] }, stale);
+    const current = await getCatalog();
+
+    const response = await saveCatalog({ IT: [report('e5')] }, stale);
+    expect(response.status).toBe(409);
+    expect(response.headers.get('ETag')).toBe(current.etag);
+    expect(await response.json()).toMatchObject({ currentRevision: Number(JSON.parse(current.etag)), reportsData: current.reportsData });
+    expect(await getCatalog()).toEqual(current);
+  });
+
+  it('checks If-Match on single report updates too', async () => {
+    const { etag: stale } = await getCatalog();
+    await saveCatalog({ IT: [report('e6')] }, stale);
+    const update = (ifMatch: string) => api.request('/api/admin/reports/IT/e6', {
+      method: 'PUT',
+      token: adminToken,
+      body: { title: 'Renamed' },
+      headers: { 'If-Match': ifMatch },
+    });
+
+    expect((await update(stale)).status).toBe(409);
+    const { etag } = await getCatalog();
+    const response = await update(etag);
+    expect(response.status).toBe(200);
+    expect(response.headers.get('ETag')).toBe((await getCatalog()).etag);
+  });
+
+  it('overwrites whatever is saved with If-Match: *', async () => {
+    const { etag: stale } = await getCatalog();
+    await saveCatalog({ IT: [report('e7')] }, stale);
+
+    expect((await saveCatalog({ HR: [report('e8')] }, '*')).status).toBe(200);
+    expect((await getCatalog()).reportsData).toEqual({ HR: [report('e8', { isActive: true })] });
+  });
+});
+
+describe('POST /api/admin/reports/revisions/:revision/restore', () => {
+  const restore = (revision: number, ifMatch?: string) =>
+    api.request(`/api/admin/reports/revisions/${revision}/restore`, {
+      method: 'POST',
+      token: adminToken,
+      headers: ifMatch === undefined ? {} : { 'If-Match': ifMatch },
+    });
+
+  it('restores a revision against the current ETag and returns the new one', async () => {
+    const first = await (await saveCatalog({ IT: [report('r1')] }, '*')).json();
+    await saveCatalog({ IT: [report('r1'), report('r2')] }, '*');
+    const { etag } = await getCatalog();
+
+    const response = await restore(first.revision, etag);
+    expect(response.status).toBe(200);
+    const { revision } = await response.json();
+    expect(response.headers.get('ETag')).toBe(`"${revision}"`);
+
+    const after = await getCatalog();
+    expect(after.etag).toBe(`"${revision}"`);
+    expect(after.reportsData).toEqual({ IT: [report('r1', { isActive: true })] });
+  });
+
+  it('requires If-Match', async () => {
+    expect((await restore(1)).status).toBe(428);
+  });
+
+  it('refuses a stale If-Match and keeps the catalog', async () => {
+    const { etag } = await getCatalog();
+    await saveCatalog({ IT: [report('r3')] }, etag);
+    const before = await getCatalog();
+
+    const response = await restore(1, etag);
+    expect(response.status).toBe(409);
+    expect(response.headers.get('ETag')).toBe(before.etag);
+    expect((await getCatalog()).reportsData).toEqual(before.reportsData);
+  });
+});
+
+describe('department owners', () => {
+  let ownerToken: string;
+  let viewerToken: string;
+
+  beforeAll(async () => {
+    ownerToken = await api.signIn('owner@example.com', 'department-owner', ['IT']);
+    viewerToken = await api.signIn('viewer@example.com', 'viewer', ['IT']);
+    await saveCatalog({ IT: [report('it1')], HR: [report('hr1')] }, '*');
+  });
+
+  const ownerCatalog = async () => {
+    const response = await api.request('/api/admin/reports', { token: ownerToken });
+    return { etag: response.headers.get('ETag')!, reportsData: await response.json() };
+  };
+
+  const ownerSave = (reportsData: unknown, ifMatch: string) =>
+    api.request('/api/admin/reports', { method: 'PUT', token: ownerToken, body: { reportsData }, headers: { 'If-Match': ifMatch } });
+
+  it('only get the departments they own', async () => {
+    expect((await ownerCatalog()).reportsData).toEqual({ IT: [report('it1', { isActive: true })] });
+  });
+
+  it('save their departments and leave the others as they are', async () => {
+    const { etag } = await ownerCatalog();
+
+    const response = await ownerSave({ IT: [report('it1'), report('it2')] }, etag);
+    expect(response.status).toBe(200);
+    expect((await getCatalog()).reportsData).toEqual({
+      IT: [report('it1', { isActive: true }), report('it2', { isActive: true })],
+      HR: [report('hr1', { isActive: true })],
+    });
+  });
+
+  it('cannot change or add other departments', async () => {
+    const before = await getCatalog();
+
+    const otherDepartment = await ownerSave({ HR: [] }, before.etag);
+    expect(otherDepartment.status).toBe(403);
+    expect((await otherDepartment.json()).error).toBe('You cannot change these departments: HR');
+
+    expect((await ownerSave({ Sales: [report('s1')] }, before.etag)).status).toBe(403);
+    expect((await api.request('/api/admin/reports/HR/hr1', {
+      method: 'PUT',
+      token: ownerToken,
+      body: { title: 'Renamed' },
+      headers: { 'If-Match': '*' },
+    })).status).toBe(403);
+    expect(await getCatalog()).toEqual(before);
+  });
+
+  it('cannot use the routes of other roles', async () => {
+    expect((await api.request('/api/admin/departments/HR', { method: 'DELETE', token: ownerToken })).status).toBe(403);
+    expect((await api.request('/api/admin/reports/revisions', { token: ownerToken })).status).toBe(403);
+    expect((await api.request('/api/admin/users', { token: ownerToken })).status).toBe(403);
+    expect((await api.request('/api/admin/reports', { token: viewerToken })).status).toBe(403);
+  });
+});
+
+describe('POST /api/admin/generate-embed', () => {
+  let ownerToken: string;
+
+  beforeAll(async () => {
+    ownerToken = await api.signIn('previewer@example.com', 'department-owner', ['IT']);
+    await saveCatalog({ IT: [report('it1', { reportId: 'pbi-it', datasetId: 'ds-it' })], HR: [report('hr1', { reportId: 'pbi-hr' })] }, '*');
+  });
+
+  const preview = (body: unknown) => api.request('/api/admin/generate-embed', { method: 'POST', token: ownerToken, body });
+
+  it('refuses reports saved in departments the user may not edit, whichever datasets are named', async () => {
+    const response = await preview({ reportId: 'pbi-hr', datasetId: 'ds-any' });
+    expect(response.status).toBe(403);
+    expect((await response.json()).error).toBe('You cannot preview reports of other departments');
+  });
+
+  it('needs a dataset for reports not in the catalog', async () => {
+    expect((await preview({ reportId: 'pbi-new' })).status).toBe(404);
+  });
+
+  it('is not available to viewers', async () => {
+    const viewer = await api.signIn('preview-viewer@example.com', 'viewer', ['IT']);
+    const response = await api.request('/api/admin/generate-embed', { method: 'POST', token: viewer, body: { reportId: 'pbi-new', datasetId: 'ds-any' } });
+    expect(response.status).toBe(403);
+  });
+});
@@ -0,0 +1,110 @@
+import fs from 'fs';
+import type { AddressInfo } from 'net';
+import type { Server } from 'http';
+import { afterAll, afterEach, beforeAll, beforeEach, describe, expect, it, vi } from 'vitest';
+import { trustProxyHops } from './clientIp';
+import { createUser } from './userStore';
+
+describe('trustProxyHops', () => {
+  afterEach(() => {
+    vi.unstubAllEnvs();
+  });
+
+  it('uses TRUST_PROXY_HOPS when it is a whole number', () => {
+    vi.stubEnv('TRUST_PROXY_HOPS', '2');
+    expect(trustProxyHops()).toBe(2);
+
+    vi.stubEnv('TRUST_PROXY_HOPS', '0');
+    vi.stubEnv('WEBSITE_INSTANCE_ID', 'instance-1');
+    expect(trustProxyHops()).toBe(0);
+  });
+
+  it('trusts the front end of Azure App Service by default', () => {
+    vi.stubEnv('TRUST_PROXY_HOPS', '');
+    vi.stubEnv('WEBSITE_INSTANCE_ID', 'instance-1');
+    expect(trustProxyHops()).toBe(1);
+  });
+
+  it('is undefined when unset elsewhere or invalid', () => {
+    vi.stubEnv('TRUST_PROXY_HOPS', '');
+    vi.stubEnv('WEBSITE_INSTANCE_ID', '');
+    expect(trustProxyHops()).toBeUndefined();
+
+    vi.stubEnv('TRUST_PROXY_HOPS', 'yes');
+    expect(trustProxyHops()).toBeUndefined();
+    vi.stubEnv('TRUST_PROXY_HOPS', '-1');
+    expect(trustProxyHops()).toBeUndefined();
+  });
+});
+
+describe('manual login behind Azure App Service', () => {
+  let server: Server;
+  let baseUrl: string;
+
+  // The front end appends the address it saw to whatever X-Forwarded-For the client sent
+  const login = (email: string, password: string, clientIp: string, spoofedIp?: string) =>
+    fetch(`${baseUrl}/auth/manual-login`, {
+      method: 'POST',
+      headers: {
+        'Content-Type': 'application/json',
+        'X-Forwarded-For': [spoofedIp, clientIp].filter(Boolean).join(', '),
+      },
+      body: JSON.stringify({ email, password }),
+    });
+
+  beforeAll(async () => {
+    // Read when the server module is loaded
+    vi.stubEnv('TRUST_PROXY_HOPS', '');
+    vi.stubEnv('WEBSITE_INSTANCE_ID', 'instance-1');
+    const { app } = await import('./server');
+    server = app.listen(0);
+    baseUrl = `http://127.0.0.1:${(server.address() as AddressInfo).port}`;
+
+    createUser({ email: 'ann@example.com', password: 'Correct-horse-1', name: 'Ann', departments: ['IT'], role: 'viewer' });
+  });
+
+  afterAll(() => {
+    server.close();
+    vi.unstubAllEnvs();
+  });
+
+  beforeEach(() => {
+    fs.rmSync(process.env.LOGIN_ATTEMPTS_FILE!, { force: true });
+    vi.stubEnv('RATE_LIMIT_LOGIN', '1000/300');
+    vi.stubEnv('LOGIN_DELAY_AFTER_FAILURES', '100');
+    vi.stubEnv('LOGIN_LOCKOUT_THRESHOLD', '5');
+    vi.stubEnv('LOGIN_IP_LOCKOUT_THRESHOLD', '3');
+  });
+
+  it('locks only the client IP that keeps failing, not everyone behind the proxy', async () => {
+    for (let attempt = 0; attempt < 3; attempt++) {
+      await login(`nobody${attempt}@example.com`, 'wrong', '203.0.113.7');
+    }
+
+    const locked = await login('ann@example.com', 'Correct-horse-1', '203.0.113.7');
+    expect(locked.status).toBe(429);
+    expect((await locked.json()).reason).toBe('ip-locked');
+
+    expect((await login('ann@example.com', 'Correct-horse-1', '198.51.100.4')).status).toBe(200);
+  });
+
+  it('ignores addresses the client adds to X-Forwarded-For', async () => {
+    for (let attempt = 0; attempt < 3; attempt++) {
+      await login(`nobody${attempt}@example.com`, 'wrong', '203.0.113.7', `192.0.2.${attempt}`);
+    }
+
+    const locked = await login('ann@example.com', 'Correct-horse-1', '203.0.113.7', '192.0.2.99');
+    expect(locked.status).toBe(429);
+    expect((await locked.json()).reason).toBe('ip-locked');
+  });
+
+  it('locks the account for guesses spread over many IPs', async () => {
+    for (let attempt = 0; attempt < 5; attempt++) {
+      await login('ann@example.com', 'wrong', `203.0.113.${attempt + 10}`);
+    }
+
+    const locked = await login('ann@example.com', 'Correct-horse-1', '198.51.100.4');
+    expect(locked.status).toBe(429);
+    expect((await locked.json()).reason).toBe('account-locked');
+  });
+});
@@ -0,0 +1,25 @@
+/**
+ * Client addresses behind proxies. Per-IP rate limits and login lockouts are keyed by
+ * `req.ip`, which Express reads from X-Forwarded-For after dropping the entries added
+ * by the proxies it trusts. Trusting too few proxies gives every user the proxy's
+ * address, so one client's failures lock everyone out; trusting too many lets clients
+ * pick their own address.
+ */
+
+// Azure App Service sets WEBSITE_INSTANCE_ID and runs the app behind one front end
+const APP_SERVICE_HOPS = 1;
+
+/**
+ * Number of proxies between clients and the server: TRUST_PROXY_HOPS, else one on
+ * Azure App Service. Returns undefined when it is not set elsewhere or is not a
+ * whole number.
+ */
+export const trustProxyHops = (): number | undefined => {
+  const { TRUST_PROXY_HOPS, WEBSITE_INSTANCE_ID } = process.env;
+  if (TRUST_PROXY_HOPS === undefined || TRUST_PROXY_HOPS.trim() === '') {
+    return WEBSITE_INSTANCE_ID ? APP_SERVICE_HOPS : undefined;
+  }
+
+  const hops = Number(TRUST_PROXY_HOPS);
+  return Number.isInteger(hops) && hops >= 0 ? hops : undefined;
+};
@@ -0,0 +1,54 @@
+import { describe, expect, it } from 'vitest';
+import { diffObjects, diffReportsData } from './diff';
+import type { Report } from './reportStore';
+
+const report = (id: string, fields: object = {}) => ({ id, title: `Report ${id}`, ...fields }) as unknown as Report;
+
+describe('diffObjects', () => {
+  it('lists changed, added and removed fields', () => {
+    expect(diffObjects({ name: 'Ann', role: 'viewer', phone: '+1' }, { name: 'Ann', role: 'department-owner', departments: ['IT'] })).toEqual([
+      { path: 'role', before: 'viewer', after: 'department-owner' },
+      { path: 'phone', before: '+1' },
+      { path: 'departments', after: ['IT'] },
+    ]);
+  });
+
+  it('compares nested values by content', () => {
+    expect(diffObjects({ departments: ['IT', 'HR'] }, { departments: ['IT', 'HR'] })).toEqual([]);
+  });
+
+  it('never copies secrets', () => {
+    expect(diffObjects({ passwordHash: 'old' }, { passwordHash: 'new' })).toEqual([
+      { path: 'passwordHash', before: '[redacted]', after: '[redacted]' },
+    ]);
+  });
+});
+
+describe('diffReportsData', () => {
+  it('lists added and removed departments with their reports', () => {
+    expect(diffReportsData({ HR: [report('h1')] }, { IT: [report('i1'), report('i2')] })).toEqual([
+      { path: 'HR', before: '1 reports' },
+      { path: 'HR/h1', before: report('h1') },
+      { path: 'IT', after: '2 reports' },
+      { path: 'IT/i1', after: report('i1') },
+      { path: 'IT/i2', after: report('i2') },
+    ]);
+  });
+
+  it('lists the changed fields of reports by department and report ID', () => {
+    const before = { IT: [report('i1'), report('i2', { embedToken: 'secret' })] };
+    const after = { IT: [report('i2', { embedToken: 'rotated' }), report('i1', { title: 'Renamed' })] };
+
+    expect(diffReportsData(before, after)).toEqual([
+      { path: 'IT/i1.title', before: 'Report i1', after: 'Renamed' },
+      { path: 'IT/i2.embedToken', before: '[redacted]', after: '[redacted]' },
+    ]);
+    expect(diffReportsData(before, before)).toEqual([]);
+  });
+
+  it('redacts secrets of added reports', () => {
+    expect(diffReportsData({ IT: [] }, { IT: [report('i1', { embedToken: 'secret' })] })).toEqual([
+      { path: 'IT/i1', after: report('i1', { embedToken: '[redacted]' }) },
+    ]);
+  });
+});
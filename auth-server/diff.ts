@@ -0,0 +1,85 @@
+import type { Report, ReportsData } from './reportStore';
+
+/**
+ * A single before/after difference. `path` is `Department`, `Department/reportId`
+ * or `Department/reportId.field` for catalog changes and the field name for flat objects.
+ * `before` is absent for additions and `after` is absent for removals.
+ */
+export interface Change {
+  path: string;
+  before?: unknown;
+  after?: unknown;
+}
+
+// Values that must never be copied into audit entries or revision diffs
+const REDACTED_FIELDS = new Set(['embedToken', 'passwordHash']);
+const REDACTED = '[redacted]';
+
+const redactValue = (field: string, value: unknown) =>
+  REDACTED_FIELDS.has(field) && value ? REDACTED : value;
+
+const redactObject = (value: Record<string, unknown>) =>
+  Object.fromEntries(Object.entries(value).map(([field, v]) => [field, redactValue(field, v)]));
+
+const isEqual = (a: unknown, b: unknown) => JSON.stringify(a) === JSON.stringify(b);
+
+/**
+ * Field-level differences between two flat objects (e.g. a report or a user).
+ */
+export const diffObjects = (
+  before: Record<string, unknown>,
+  after: Record<string, unknown>,
+  prefix = ''
+): Change[] => {
+  const fields = new Set([...Object.keys(before), ...Object.keys(after)]);
+  const changes: Change[] = [];
+
+  fields.forEach(field => {
+    if (isEqual(before[field], after[field])) return;
+
+    const change: Change = { path: `${prefix}${field}` };
+    if (before[field] !== undefined) change.before = redactValue(field, before[field]);
+    if (after[field] !== undefined) change.after = redactValue(field, after[field]);
+    changes.push(change);
+  });
+
+  return changes;
+};
+
+const indexReports = (reports: Report[]) => new Map(reports.map(report => [report.id, report]));
+
+/**
+ * Departments and reports added, removed or changed between two catalog snapshots.
+ */
+export const diffReportsData = (before: ReportsData, after: ReportsData): Change[] => {
+  const departments = new Set([...Object.keys(before), ...Object.keys(after)]);
+  const changes: Change[] = [];
+
+  departments.forEach(department => {
+    if (!before[department]) {
+      changes.push({ path: department, after: `${after[department].length} reports` });
+    } else if (!after[department]) {
+      changes.push({ path: department, before: `${before[department].length} reports` });
+    }
+
+    const beforeReports = indexReports(before[department] || []);
+    const afterReports = indexReports(after[department] || []);
+    const reportIds = new Set([...beforeReports.keys(), ...afterReports.keys()]);
+
+    reportIds.forEach(reportId => {
+      const path = `${department}/${reportId}`;
+      const oldReport = beforeReports.get(reportId);
+      const newReport = afterReports.get(reportId);
+
+      if (!oldReport) {
+        changes.push({ path, after: redactObject(newReport!) });
+      } else if (!newReport) {
+        changes.push({ path, before: redactObject(oldReport) });
+      } else {
+        changes.push(...diffObjects(oldReport, newReport, `${path}.`));
+      }
+    });
+  });
+
+  return changes;
+};
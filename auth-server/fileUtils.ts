@@ -0,0 +1,72 @@
+import crypto from 'crypto';
+import fs from 'fs';
+import { logger } from './logger';
+
+const LOCK_TIMEOUT_MS = 5000;
+const LOCK_RETRY_MS = 25;
+// A lock older than this was left behind by a crashed process and may be taken over
+const STALE_LOCK_MS = 30 * 1000;
+
+const sleepSync = (ms: number) => {
+  Atomics.wait(new Int32Array(new SharedArrayBuffer(4)), 0, 0, ms);
+};
+
+/**
+ * Writes a file by writing a temp file next to it and renaming it into place,
+ * so readers (and a crash mid-write) never see a partially written file.
+ */
+export const writeFileAtomic = (filePath: string, contents: string): void => {
+  const tempPath = `${filePath}.${process.pid}.${crypto.randomBytes(4).toString('hex')}.tmp`;
+  try {
+    const fd = fs.openSync(tempPath, 'w');
+    try {
+      fs.writeFileSync(fd, contents);
+      fs.fsyncSync(fd);
+    } finally {
+      fs.closeSync(fd);
+    }
+    fs.renameSync(tempPath, filePath);
+  } catch (error) {
+    fs.rmSync(tempPath, { force: true });
+    throw error;
+  }
+};
+
+/**
+ * Runs `fn` while holding an exclusive lock file, so processes sharing the same
+ * data file cannot interleave their read-modify-write cycles. `fn` must be synchronous.
+ */
+export const withFileLock = <T>(lockPath: string, fn: () => T): T => {
+  const deadline = Date.now() + LOCK_TIMEOUT_MS;
+
+  for (;;) {
+    try {
+      fs.writeFileSync(lockPath, String(process.pid), { flag: 'wx' });
+      break;
+    } catch (error) {
+      if ((error as NodeJS.ErrnoException).code !== 'EEXIST') throw error;
+    }
+
+    try {
+      if (Date.now() - fs.statSync(lockPath).mtimeMs > STALE_LOCK_MS) {
+        logger.warn('Removing stale lock', { lockPath });
+        fs.rmSync(lockPath, { force: true });
+        continue;
+      }
+    } catch {
+      // Lock was released between our attempt and the stat - just retry
+      continue;
+    }
+
+    if (Date.now() > deadline) {
+      throw new Error(`Timed out waiting for lock ${lockPath}`);
+    }
+    sleepSync(LOCK_RETRY_MS);
+  }
+
+  try {
+    return fn();
+  } finally {
+    fs.rmSync(lockPath, { force: true });
+  }
+};
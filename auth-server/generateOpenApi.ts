@@ -0,0 +1,20 @@
+import fs from 'fs';
+import path from 'path';
+import { getOpenApiDocument } from './server';
+
+/**
+ * Writes the OpenAPI document to openapi.json, which the frontend's typed client is
+ * generated from (`npm run generate:api` in the repository root). Fails while a route
+ * is missing from ROUTE_DOCS.
+ */
+
+const OUTPUT_FILE = path.join(__dirname, 'openapi.json');
+
+const { document, undocumented } = getOpenApiDocument();
+if (undocumented.length > 0) {
+  console.error(`❌ Routes missing from ROUTE_DOCS in apiDocs.ts:\n  ${undocumented.join('\n  ')}`);
+  process.exit(1);
+}
+
+fs.writeFileSync(OUTPUT_FILE, `${JSON.stringify(document, null, 2)}\n`);
+console.log(`✅ Wrote ${OUTPUT_FILE}`);
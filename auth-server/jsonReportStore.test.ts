@@ -0,0 +1,42 @@
+import fs from 'fs';
+import path from 'path';
+import { afterEach, describe, expect, it, vi } from 'vitest';
+import { createJsonReportStore } from './jsonReportStore';
+import type { Report } from './reportStore';
+
+const report = (id: string) => ({ id, title: id }) as unknown as Report;
+
+describe('jsonReportStore', () => {
+  const catalogFile = path.join(path.dirname(process.env.REPORTS_DATA_FILE!), 'json-store-catalog.json');
+  const store = createJsonReportStore(catalogFile);
+
+  afterEach(() => {
+    vi.restoreAllMocks();
+  });
+
+  it('saves the catalog as a new revision', () => {
+    const info = store.save({ IT: [report('r1')] }, { actor: 'ann@example.com' });
+
+    expect(store.load()).toEqual({ IT: [report('r1')] });
+    expect(store.currentRevision()).toBe(info.revision);
+    expect(store.getRevision(info.revision)?.data).toEqual({ IT: [report('r1')] });
+  });
+
+  it('keeps no revision of a catalog it could not write', () => {
+    const before = store.load();
+    const revisions = store.listRevisions();
+
+    // Fail only the rename that puts the new catalog in place, after its snapshot was written
+    const rename = fs.renameSync;
+    vi.spyOn(fs, 'renameSync').mockImplementation((from, to) => {
+      if (to === catalogFile) throw Object.assign(new Error('Disk full'), { code: 'ENOSPC' });
+      rename(from, to);
+    });
+
+    expect(() => store.save({ IT: [report('r1')], HR: [report('r2')] })).toThrow('Disk full');
+
+    expect(store.load()).toEqual(before);
+    expect(store.currentRevision()).toBe(revisions[0].revision);
+    expect(store.listRevisions()).toEqual(revisions);
+  });
+});
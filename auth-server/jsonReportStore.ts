@@ -0,0 +1,98 @@
+import fs from 'fs';
+import path from 'path';
+import { writeFileAtomic, withFileLock } from './fileUtils';
+import type { ReportStore, ReportsData, Revision, RevisionInfo, SaveOptions } from './reportStore';
+
+const REVISION_FILE_PATTERN = /^(\d+)\.json$/;
+
+/**
+ * Report store backed by a single JSON file. Writes go through a temp file and
+ * rename, and are serialized across processes with a `<file>.lock` lock file.
+ *
+ * Revisions are full snapshots kept next to the catalog in `<name>-history/`,
+ * one `000001.json` file per revision.
+ */
+export const createJsonReportStore = (filePath: string): ReportStore => {
+  const lockPath = `${filePath}.lock`;
+  const historyDir = path.join(path.dirname(filePath), `${path.basename(filePath, path.extname(filePath))}-history`);
+  let lockDepth = 0;
+
+  const withLock = <T>(fn: () => T): T => {
+    if (lockDepth > 0) return fn();
+
+    return withFileLock(lockPath, () => {
+      lockDepth++;
+      try {
+        return fn();
+      } finally {
+        lockDepth--;
+      }
+    });
+  };
+
+  const load = (): ReportsData => {
+    try {
+      return JSON.parse(fs.readFileSync(filePath, 'utf-8'));
+    } catch (error) {
+      // A missing file is an empty catalog; anything else (e.g. corrupt JSON) is an error
+      if ((error as NodeJS.ErrnoException).code === 'ENOENT') return {};
+      throw error;
+    }
+  };
+
+  const revisionFile = (revision: number) => path.join(historyDir, `${String(revision).padStart(6, '0')}.json`);
+
+  const revisionNumbers = (): number[] => {
+    if (!fs.existsSync(historyDir)) return [];
+    return fs.readdirSync(historyDir)
+      .map(file => REVISION_FILE_PATTERN.exec(file))
+      .filter((match): match is RegExpExecArray => match !== null)
+      .map(match => Number(match[1]))
+      .sort((a, b) => a - b);
+  };
+
+  const currentRevision = () => revisionNumbers().pop() || 0;
+
+  const getRevision = (revision: number): Revision | undefined => {
+    try {
+      return JSON.parse(fs.readFileSync(revisionFile(revision), 'utf-8'));
+    } catch (error) {
+      if ((error as NodeJS.ErrnoException).code === 'ENOENT') return undefined;
+      throw error;
+    }
+  };
+
+  const listRevisions = (): RevisionInfo[] =>
+    revisionNumbers()
+      .reverse()
+      .map(revision => {
+        const { data, ...info } = getRevision(revision)!;
+        return info;
+      });
+
+  const save = (data: ReportsData, options: SaveOptions = {}): RevisionInfo =>
+    withLock(() => {
+      const info: RevisionInfo = { revision: currentRevision() + 1, createdAt: new Date().toISOString(), ...options };
+
+      // The snapshot is written first so every catalog on disk has a matching revision,
+      // and removed again when the catalog cannot be written so history never runs ahead of it
+      fs.mkdirSync(historyDir, { recursive: true });
+      writeFileAtomic(revisionFile(info.revision), JSON.stringify({ ...info, data }));
+      try {
+        writeFileAtomic(filePath, JSON.stringify(data, null, 2));
+      } catch (error) {
+        fs.rmSync(revisionFile(info.revision), { force: true });
+        throw error;
+      }
+      return info;
+    });
+
+  // Catalogs written before revisions existed get a baseline revision to roll back to
+  withLock(() => {
+    if (currentRevision() === 0 && fs.existsSync(filePath)) {
+      save(load(), { summary: 'Initial revision' });
+    }
+  });
+
+  return { load, save, currentRevision, listRevisions, getRevision, withLock };
+};
@@ -0,0 +1,241 @@
+import { AsyncLocalStorage } from 'async_hooks';
+import crypto from 'crypto';
+import fs from 'fs';
+import path from 'path';
+import type { Request, Response, NextFunction } from 'express';
+
+/**
+ * Structured server log: one JSON object per line with the time, level, message, the
+ * ID of the request being handled and any fields passed along. Secrets are redacted
+ * before anything is written.
+ *
+ * Configured with LOG_LEVEL (debug, info, warn or error; default info), LOG_SINKS
+ * (comma-separated `stdout` and/or `file`; default stdout) and, for the file sink,
+ * LOG_FILE, LOG_FILE_MAX_BYTES and LOG_FILE_MAX_FILES.
+ */
+
+export type LogLevel = 'debug' | 'info' | 'warn' | 'error';
+
+export type LogFields = Record<string, unknown>;
+
+const LEVELS: Record<LogLevel, number> = { debug: 10, info: 20, warn: 30, error: 40 };
+
+const DEFAULT_LOG_FILE = path.join(__dirname, 'logs', 'server.log');
+const DEFAULT_MAX_BYTES = 10 * 1024 * 1024;
+const DEFAULT_MAX_FILES = 5;
+
+export const REQUEST_ID_HEADER = 'X-Request-Id';
+
+// IDs passed in by a proxy are kept when they look like IDs, so both logs can be joined
+const INCOMING_REQUEST_ID = /^[\w.:-]{1,100}$/;
+
+// ---------------------------------------------------------------------------
+// Redaction
+// ---------------------------------------------------------------------------
+
+export const REDACTED = '[REDACTED]';
+
+// Field names whose values are never logged, at any depth
+const SECRET_KEY = /password|passwd|^pass$|secret|token|authorization|cookie|api[-_]?key|credential|recoverycodes?|^code$|^otp$/i;
+
+// JWTs (access, refresh and mfa tokens, id_tokens) and bearer credentials inside strings
+const SECRET_TEXT = /\beyJ[\w-]+\.[\w-]+\.[\w-]*|\b(Bearer|Basic)\s+[\w\-.~+/=]+/g;
+
+const MAX_DEPTH = 8;
+
+const redactText = (text: string) => text.replace(SECRET_TEXT, REDACTED);
+
+/**
+ * Copy of a value that is safe to log: secret fields and tokens in strings are replaced
+ * with `[REDACTED]`, errors become `{ name, message, stack }`, and cycles and very deep
+ * nesting are cut off.
+ */
+export const redact = (value: unknown, seen = new WeakSet<object>(), depth = 0): unknown => {
+  if (typeof value === 'string') return redactText(value);
+  if (typeof value === 'bigint') return value.toString();
+  if (value === null || typeof value !== 'object') return value;
+  if (seen.has(value)) return '[Circular]';
+  if (depth >= MAX_DEPTH) return '[Truncated]';
+  seen.add(value);
+
+  if (value instanceof Error) {
+    return {
+      name: value.name,
+      message: redactText(value.message),
+      ...(value.stack && { stack: redactText(value.stack) }),
+    };
+  }
+  if (value instanceof Date) return value.toISOString();
+  if (Array.isArray(value)) return value.map(item => redact(item, seen, depth + 1));
+
+  return Object.fromEntries(Object.entries(value).map(([key, item]) => [
+    key,
+    SECRET_KEY.test(key) && item !== undefined && item !== null && item !== '' ? REDACTED : redact(item, seen, depth + 1),
+  ]));
+};
+
+// ---------------------------------------------------------------------------
+// Sinks
+// ---------------------------------------------------------------------------
+
+/** Where log lines go. Writes are synchronous so nothing is lost when the process exits. */
+interface LogSink {
+  write(line: string, level: LogLevel): void;
+}
+
+const createStdoutSink = (): LogSink => ({
+  write(line, level) {
+    (level === 'error' || level === 'warn' ? process.stderr : process.stdout).write(`${line}\n`);
+  },
+});
+
+/**
+ * Appends to a file, rotating it once it would grow past `maxBytes`: server.log becomes
+ * server.log.1, server.log.1 becomes server.log.2 and so on, keeping `maxFiles` old files.
+ */
+const createFileSink = (file: string, maxBytes: number, maxFiles: number): LogSink => {
+  fs.mkdirSync(path.dirname(file), { recursive: true });
+  let size = fs.existsSync(file) ? fs.statSync(file).size : 0;
+
+  const rotate = () => {
+    fs.rmSync(`${file}.${maxFiles}`, { force: true });
+    for (let index = maxFiles - 1; index >= 1; index--) {
+      if (fs.existsSync(`${file}.${index}`)) fs.renameSync(`${file}.${index}`, `${file}.${index + 1}`);
+    }
+    if (maxFiles > 0) fs.renameSync(file, `${file}.1`);
+    else fs.rmSync(file, { force: true });
+    size = 0;
+  };
+
+  return {
+    write(line) {
+      const entry = `${line}\n`;
+      const bytes = Buffer.byteLength(entry);
+      if (size > 0 && size + bytes > maxBytes) rotate();
+      fs.appendFileSync(file, entry);
+      size += bytes;
+    },
+  };
+};
+
+const numberSetting = (setting: string | undefined, fallback: number, minimum: number) =>
+  setting && Number.isInteger(Number(setting)) && Number(setting) >= minimum ? Number(setting) : fallback;
+
+interface LoggerConfig {
+  level: LogLevel;
+  sinks: LogSink[];
+}
+
+let config: LoggerConfig | undefined;
+
+// Read on first use rather than at import time, so settings from .env apply
+const getConfig = (): LoggerConfig => {
+  if (config) return config;
+
+  const problems: string[] = [];
+  const levelSetting = (process.env.LOG_LEVEL || 'info').toLowerCase();
+  const level = levelSetting in LEVELS ? levelSetting as LogLevel : 'info';
+  if (level !== levelSetting) problems.push(`Invalid LOG_LEVEL "${process.env.LOG_LEVEL}", using info`);
+
+  const sinks: LogSink[] = [];
+  for (const name of (process.env.LOG_SINKS || 'stdout').split(',').map(sink => sink.trim().toLowerCase()).filter(Boolean)) {
+    if (name === 'stdout') {
+      sinks.push(createStdoutSink());
+    } else if (name === 'file') {
+      sinks.push(createFileSink(
+        process.env.LOG_FILE || DEFAULT_LOG_FILE,
+        numberSetting(process.env.LOG_FILE_MAX_BYTES, DEFAULT_MAX_BYTES, 1),
+        numberSetting(process.env.LOG_FILE_MAX_FILES, DEFAULT_MAX_FILES, 0)
+      ));
+    } else {
+      problems.push(`Unknown log sink "${name}" in LOG_SINKS`);
+    }
+  }
+  if (sinks.length === 0) sinks.push(createStdoutSink());
+
+  config = { level, sinks };
+  problems.forEach(problem => write('warn', problem));
+  return config;
+};
+
+// ---------------------------------------------------------------------------
+// Request context
+// ---------------------------------------------------------------------------
+
+interface RequestContext {
+  requestId: string;
+}
+
+const requestContext = new AsyncLocalStorage<RequestContext>();
+
+/** ID of the request being handled, if any. */
+export const currentRequestId = (): string | undefined => requestContext.getStore()?.requestId;
+
+const write = (level: LogLevel, message: string, fields?: LogFields) => {
+  const { level: minimum, sinks } = getConfig();
+  if (LEVELS[level] < LEVELS[minimum]) return;
+
+  const requestId = currentRequestId();
+  let line: string;
+  try {
+    line = JSON.stringify({
+      time: new Date().toISOString(),
+      level,
+      msg: redactText(message),
+      ...(requestId && { requestId }),
+      ...(fields && redact(fields) as LogFields),
+    });
+  } catch (error) {
+    line = JSON.stringify({ time: new Date().toISOString(), level, msg: redactText(message), logError: String(error) });
+  }
+  for (const sink of sinks) {
+    try {
+      sink.write(line, level);
+    } catch (error) {
+      process.stderr.write(`Log sink failed: ${error}\n${line}\n`);
+    }
+  }
+};
+
+export interface Logger {
+  debug(message: string, fields?: LogFields): void;
+  info(message: string, fields?: LogFields): void;
+  warn(message: string, fields?: LogFields): void;
+  error(message: string, fields?: LogFields): void;
+  log(level: LogLevel, message: string, fields?: LogFields): void;
+}
+
+export const logger: Logger = {
+  debug: (message, fields) => write('debug', message, fields),
+  info: (message, fields) => write('info', message, fields),
+  warn: (message, fields) => write('warn', message, fields),
+  error: (message, fields) => write('error', message, fields),
+  log: write,
+};
+
+/**
+ * First middleware of the app: gives each request an ID (the proxy's `X-Request-Id` or
+ * a new one), returns it in the `X-Request-Id` response header so the browser can quote
+ * it, tags every log line written while handling the request with it, and logs the
+ * request once the response is sent. Query strings are left out since they can carry
+ * sign-in codes.
+ */
+export const requestLogger = (req: Request, res: Response, next: NextFunction) => {
+  const incoming = req.get(REQUEST_ID_HEADER);
+  const requestId = incoming && INCOMING_REQUEST_ID.test(incoming) ? incoming : crypto.randomUUID();
+  const started = process.hrtime.bigint();
+  res.setHeader(REQUEST_ID_HEADER, requestId);
+
+  const context = { requestId };
+  // Listeners do not run in the request's async context, so it is entered again
+  res.on('finish', () => requestContext.run(context, () => {
+    const level: LogLevel = res.statusCode >= 500 ? 'error' : res.statusCode >= 400 ? 'warn' : 'info';
+    write(level, 'Request handled', {
+      method: req.method,
+      path: req.originalUrl.split('?')[0],
+      status: res.statusCode,
+      durationMs: Number((process.hrtime.bigint() - started) / BigInt(1000)) / 1000,
+    });
+  }));
+  requestContext.run(context, next);
+};
@@ -0,0 +1,100 @@
+import fs from 'fs';
+import { afterEach, beforeEach, describe, expect, it, vi } from 'vitest';
+import { accountKey, checkLoginAllowed, getAccountLock, recordLoginFailure, recordLoginSuccess, unlockAccount } from './loginLockout';
+
+const fail = (key: string, ip: string, times: number) => {
+  for (let attempt = 0; attempt < times; attempt++) recordLoginFailure(key, ip);
+};
+
+describe('login lockout', () => {
+  beforeEach(() => {
+    fs.rmSync(process.env.LOGIN_ATTEMPTS_FILE!, { force: true });
+    vi.useFakeTimers({ toFake: ['Date'] });
+    vi.setSystemTime(new Date('2026-01-01T00:00:00Z'));
+    vi.stubEnv('LOGIN_DELAY_AFTER_FAILURES', '3');
+    vi.stubEnv('LOGIN_LOCKOUT_THRESHOLD', '5');
+    vi.stubEnv('LOGIN_IP_LOCKOUT_THRESHOLD', '8');
+    vi.stubEnv('LOGIN_LOCKOUT_MINUTES', '15');
+  });
+
+  afterEach(() => {
+    vi.useRealTimers();
+    vi.unstubAllEnvs();
+  });
+
+  it('counts known users by ID and unknown identifiers by their normalized value', () => {
+    expect(accountKey('Ann@Example.com', { id: 'u1' })).toBe('user:u1');
+    expect(accountKey(' Ann@Example.com ')).toBe('identifier:ann@example.com');
+  });
+
+  describe('per account', () => {
+    it('delays attempts after a few failures, doubling the wait', () => {
+      const key = accountKey('ann@example.com');
+      fail(key, '10.0.0.1', 3);
+      expect(checkLoginAllowed(key, '10.0.0.1')).toEqual({ allowed: false, reason: 'delay', retryAfter: 1 });
+
+      vi.advanceTimersByTime(1000);
+      expect(checkLoginAllowed(key, '10.0.0.1')).toEqual({ allowed: true });
+
+      recordLoginFailure(key, '10.0.0.1');
+      expect(checkLoginAllowed(key, '10.0.0.1')).toEqual({ allowed: false, reason: 'delay', retryAfter: 2 });
+    });
+
+    it('locks the account at the threshold, from every IP, until the lockout ends', () => {
+      const key = accountKey('ann@example.com', { id: 'u1' });
+      fail(key, '10.0.0.1', 4);
+      expect(recordLoginFailure(key, '10.0.0.2').accountLockedUntil).toBe('2026-01-01T00:15:00.000Z');
+
+      expect(checkLoginAllowed(key, '10.0.0.3')).toEqual({ allowed: false, reason: 'account-locked', retryAfter: 900 });
+      expect(getAccountLock(key)).toBe('2026-01-01T00:15:00.000Z');
+      expect(checkLoginAllowed(accountKey('bob@example.com'), '10.0.0.3')).toEqual({ allowed: true });
+
+      vi.advanceTimersByTime(15 * 60 * 1000);
+      expect(checkLoginAllowed(key, '10.0.0.3')).toEqual({ allowed: true });
+      expect(getAccountLock(key)).toBeUndefined();
+    });
+
+    it('is lifted by an admin unlock', () => {
+      const key = accountKey('ann@example.com', { id: 'u1' });
+      fail(key, '10.0.0.1', 5);
+
+      expect(unlockAccount(key)).toBe(true);
+      expect(checkLoginAllowed(key, '10.0.0.1')).toEqual({ allowed: true });
+      expect(unlockAccount(key)).toBe(false);
+    });
+
+    it('forgets the account failures after a successful login', () => {
+      const key = accountKey('ann@example.com', { id: 'u1' });
+      fail(key, '10.0.0.1', 3);
+      recordLoginSuccess(key);
+
+      expect(checkLoginAllowed(key, '10.0.0.1')).toEqual({ allowed: true });
+    });
+  });
+
+  describe('per IP', () => {
+    it('locks an IP guessing across many accounts without locking those accounts elsewhere', () => {
+      for (let index = 0; index < 7; index++) recordLoginFailure(accountKey(`user${index}@example.com`), '10.0.0.9');
+      expect(recordLoginFailure(accountKey('user7@example.com'), '10.0.0.9').ipLockedUntil).toBe('2026-01-01T00:15:00.000Z');
+
+      expect(checkLoginAllowed(accountKey('ann@example.com'), '10.0.0.9')).toEqual({ allowed: false, reason: 'ip-locked', retryAfter: 900 });
+      expect(checkLoginAllowed(accountKey('user0@example.com'), '10.0.0.1')).toEqual({ allowed: true });
+    });
+
+    it('keeps counting the IP after a successful login', () => {
+      const ip = '10.0.0.9';
+      for (let index = 0; index < 7; index++) recordLoginFailure(accountKey(`user${index}@example.com`), ip);
+      recordLoginSuccess(accountKey('user0@example.com'));
+
+      expect(recordLoginFailure(accountKey('ann@example.com'), ip).ipLockedUntil).toBeDefined();
+    });
+
+    it('starts counting over once the failures are old', () => {
+      const ip = '10.0.0.9';
+      for (let index = 0; index < 7; index++) recordLoginFailure(accountKey(`user${index}@example.com`), ip);
+      vi.advanceTimersByTime(15 * 60 * 1000);
+
+      expect(recordLoginFailure(accountKey('ann@example.com'), ip).ipLockedUntil).toBeUndefined();
+    });
+  });
+});
@@ -0,0 +1,157 @@
+import fs from 'fs';
+import path from 'path';
+import { writeFileAtomic, withFileLock } from './fileUtils';
+import { logger } from './logger';
+
+/**
+ * Failed manual logins per account and per client IP. After a few failures an account
+ * must wait longer and longer between attempts, and too many failures lock the
+ * account or IP for a while. Counters are forgotten once an account or IP has had no
+ * failures for the lockout period.
+ */
+interface AttemptState {
+  failures: number;
+  lastFailureAt: string;
+  lockedUntil?: string;
+}
+
+interface AttemptData {
+  accounts: Record<string, AttemptState>; // Keyed by accountKey()
+  ips: Record<string, AttemptState>;
+}
+
+export type LoginGate =
+  | { allowed: true }
+  | { allowed: false; reason: 'delay' | 'account-locked' | 'ip-locked'; retryAfter: number };
+
+// Locks started by a failure, for the audit trail
+export interface NewLocks {
+  accountLockedUntil?: string;
+  ipLockedUntil?: string;
+}
+
+const LOGIN_ATTEMPTS_FILE = process.env.LOGIN_ATTEMPTS_FILE || path.join(__dirname, 'login-attempts.json');
+const MAX_DELAY_SECONDS = 60;
+
+// Read lazily so values from .env are picked up
+const delayAfter = () => Number(process.env.LOGIN_DELAY_AFTER_FAILURES || 3);
+const accountThreshold = () => Number(process.env.LOGIN_LOCKOUT_THRESHOLD || 10);
+const ipThreshold = () => Number(process.env.LOGIN_IP_LOCKOUT_THRESHOLD || 50);
+const lockoutMs = () => Number(process.env.LOGIN_LOCKOUT_MINUTES || 15) * 60 * 1000;
+
+/**
+ * The counter key for a login identifier. Known users are counted by ID, so their
+ * email and phone share one counter; unknown identifiers are counted too, so they
+ * behave like real accounts.
+ */
+export const accountKey = (identifier: string, user?: { id: string }): string =>
+  user ? `user:${user.id}` : `identifier:${identifier.trim().toLowerCase()}`;
+
+const loadAttempts = (): AttemptData => {
+  try {
+    return JSON.parse(fs.readFileSync(LOGIN_ATTEMPTS_FILE, 'utf-8'));
+  } catch (error) {
+    if ((error as NodeJS.ErrnoException).code !== 'ENOENT') {
+      logger.error('Error loading login attempts', { error });
+    }
+    return { accounts: {}, ips: {} };
+  }
+};
+
+// A counter still counts while it is locked or its last failure is recent
+const isCurrent = (state: AttemptState | undefined, now: number): state is AttemptState =>
+  !!state && (Date.parse(state.lockedUntil || '') > now || Date.parse(state.lastFailureAt) + lockoutMs() > now);
+
+const activeLock = (state: AttemptState | undefined, now: number): number =>
+  state?.lockedUntil && Date.parse(state.lockedUntil) > now ? Date.parse(state.lockedUntil) : 0;
+
+const dropStale = (entries: Record<string, AttemptState>, now: number) =>
+  Object.fromEntries(Object.entries(entries).filter(([, state]) => isCurrent(state, now)));
+
+/**
+ * Applies a change to the counters, dropping those no longer current.
+ */
+const updateAttempts = <T>(fn: (data: AttemptData, now: number) => T): T =>
+  withFileLock(`${LOGIN_ATTEMPTS_FILE}.lock`, () => {
+    const now = Date.now();
+    const data = loadAttempts();
+    const result = fn(data, now);
+    writeFileAtomic(LOGIN_ATTEMPTS_FILE, JSON.stringify({ accounts: dropStale(data.accounts, now), ips: dropStale(data.ips, now) }, null, 2));
+    return result;
+  });
+
+const secondsUntil = (timestamp: number, now: number) => Math.max(Math.ceil((timestamp - now) / 1000), 1);
+
+/**
+ * Whether a login attempt may be checked at all. Rejected attempts are not counted.
+ */
+export const checkLoginAllowed = (key: string, ip: string): LoginGate => {
+  const now = Date.now();
+  const { accounts, ips } = loadAttempts();
+
+  const ipLock = activeLock(ips[ip], now);
+  if (ipLock) return { allowed: false, reason: 'ip-locked', retryAfter: secondsUntil(ipLock, now) };
+
+  const account = accounts[key];
+  const accountLock = activeLock(account, now);
+  if (accountLock) return { allowed: false, reason: 'account-locked', retryAfter: secondsUntil(accountLock, now) };
+
+  // Progressive delay: 1s after the first few failures, doubling with each further one
+  if (isCurrent(account, now) && !account.lockedUntil && account.failures >= delayAfter()) {
+    const delaySeconds = Math.min(2 ** (account.failures - delayAfter()), MAX_DELAY_SECONDS);
+    const waitUntil = Date.parse(account.lastFailureAt) + delaySeconds * 1000;
+    if (waitUntil > now) return { allowed: false, reason: 'delay', retryAfter: secondsUntil(waitUntil, now) };
+  }
+
+  return { allowed: true };
+};
+
+const countFailure = (entries: Record<string, AttemptState>, key: string, threshold: number, now: number): string | undefined => {
+  // Counting starts over once a lock has run out
+  const previous = isCurrent(entries[key], now) && !entries[key].lockedUntil ? entries[key] : undefined;
+  const state: AttemptState = { failures: (previous?.failures || 0) + 1, lastFailureAt: new Date(now).toISOString() };
+
+  if (state.failures >= threshold) {
+    state.lockedUntil = new Date(now + lockoutMs()).toISOString();
+  }
+  entries[key] = state;
+  return state.lockedUntil;
+};
+
+/**
+ * Counts a failed login against the account and the IP. Returns the locks it started.
+ */
+export const recordLoginFailure = (key: string, ip: string): NewLocks =>
+  updateAttempts((data, now) => ({
+    accountLockedUntil: countFailure(data.accounts, key, accountThreshold(), now),
+    ipLockedUntil: countFailure(data.ips, ip, ipThreshold(), now),
+  }));
+
+/**
+ * Clears the account's failures after a successful login. The IP's failures are kept,
+ * so signing in to one's own account does not reset guesses against others.
+ */
+export const recordLoginSuccess = (key: string): void => {
+  if (!loadAttempts().accounts[key]) return;
+  updateAttempts(data => {
+    delete data.accounts[key];
+  });
+};
+
+/**
+ * When the account's lockout ends, if it is locked.
+ */
+export const getAccountLock = (key: string): string | undefined => {
+  const state = loadAttempts().accounts[key];
+  return activeLock(state, Date.now()) ? state!.lockedUntil : undefined;
+};
+
+/**
+ * Lifts an account's lockout and forgets its failures. Returns whether it was locked.
+ */
+export const unlockAccount = (key: string): boolean =>
+  updateAttempts((data, now) => {
+    const wasLocked = !!activeLock(data.accounts[key], now);
+    delete data.accounts[key];
+    return wasLocked;
+  });
@@ -0,0 +1,91 @@
+import crypto from 'crypto';
+import fs from 'fs';
+import path from 'path';
+import jwt from 'jsonwebtoken';
+import { writeFileAtomic, withFileLock } from './fileUtils';
+import { logger } from './logger';
+
+/**
+ * Emailed sign-in links for passwordless login. The link carries a signed token that
+ * expires after MAGIC_LINK_TTL_MINUTES (default 15); its ID is kept until the link is
+ * used, so each link works once. Requesting a new link invalidates the user's earlier ones.
+ */
+interface MagicLinkRecord {
+  userId: string;
+  jti: string;
+  createdAt: string;
+  expiresAt: string;
+}
+
+const MAGIC_LINKS_FILE = process.env.MAGIC_LINKS_FILE || path.join(__dirname, 'magic-links.json');
+const MAGIC_LINK_AUDIENCE = 'insights-magic-link';
+
+// Read lazily so values from .env are picked up
+const linkTtlMs = () => Number(process.env.MAGIC_LINK_TTL_MINUTES || 15) * 60 * 1000;
+
+const loadLinks = (): MagicLinkRecord[] => {
+  try {
+    return JSON.parse(fs.readFileSync(MAGIC_LINKS_FILE, 'utf-8'));
+  } catch (error) {
+    if ((error as NodeJS.ErrnoException).code !== 'ENOENT') {
+      logger.error('Error loading magic links', { error });
+    }
+    return [];
+  }
+};
+
+/**
+ * Applies a change to the outstanding links, dropping expired ones.
+ */
+const updateLinks = <T>(fn: (records: MagicLinkRecord[]) => T): T =>
+  withFileLock(`${MAGIC_LINKS_FILE}.lock`, () => {
+    const records = loadLinks();
+    const result = fn(records);
+    const now = new Date().toISOString();
+    writeFileAtomic(MAGIC_LINKS_FILE, JSON.stringify(records.filter(record => record.expiresAt > now), null, 2));
+    return result;
+  });
+
+/**
+ * Issues a sign-in token for the user, replacing any earlier ones, and returns it with its expiry.
+ */
+export const createMagicLinkToken = (userId: string): { token: string; expiresAt: string } =>
+  updateLinks(records => {
+    const jti = crypto.randomUUID();
+    const now = Date.now();
+    const record = {
+      userId,
+      jti,
+      createdAt: new Date(now).toISOString(),
+      expiresAt: new Date(now + linkTtlMs()).toISOString(),
+    };
+    const token = jwt.sign({}, process.env.JWT_SECRET!, {
+      subject: userId,
+      audience: MAGIC_LINK_AUDIENCE,
+      jwtid: jti,
+      expiresIn: Math.round(linkTtlMs() / 1000),
+    });
+    records.splice(0, records.length, ...records.filter(existing => existing.userId !== userId), record);
+    return { token, expiresAt: record.expiresAt };
+  });
+
+/**
+ * Redeems a sign-in token. Returns the user ID when the token is valid and unused; it cannot be used again.
+ */
+export const consumeMagicLinkToken = (token: unknown): string | undefined => {
+  if (typeof token !== 'string' || !token) return undefined;
+  let payload: jwt.JwtPayload;
+  try {
+    payload = jwt.verify(token, process.env.JWT_SECRET!, { audience: MAGIC_LINK_AUDIENCE }) as jwt.JwtPayload;
+  } catch {
+    return undefined;
+  }
+
+  return updateLinks(records => {
+    const index = records.findIndex(record => record.jti === payload.jti && record.userId === payload.sub);
+    if (index === -1) return undefined;
+
+    records.splice(index, 1);
+    return payload.sub;
+  });
+};
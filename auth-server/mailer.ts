@@ -0,0 +1,94 @@
+import crypto from 'crypto';
+import fs from 'fs';
+import path from 'path';
+import nodemailer from 'nodemailer';
+import { logger } from './logger';
+
+export interface MailMessage {
+  to: string;
+  subject: string;
+  text: string;
+  html?: string;
+}
+
+/**
+ * Delivers outgoing mail. Failures are thrown so callers can decide whether the user
+ * should hear about them.
+ */
+export interface MailTransport {
+  send(message: MailMessage): Promise<void>;
+}
+
+const DEFAULT_OUTBOX_DIR = path.join(__dirname, 'mail-outbox');
+
+const mailFrom = () => process.env.MAIL_FROM || 'Insights 2.0 <no-reply@localhost>';
+
+/**
+ * Sends through an SMTP server (SMTP_HOST, SMTP_PORT, SMTP_SECURE, SMTP_USER, SMTP_PASSWORD).
+ */
+const createSmtpTransport = (): MailTransport => {
+  const { SMTP_HOST, SMTP_PORT, SMTP_SECURE, SMTP_USER, SMTP_PASSWORD } = process.env;
+  if (!SMTP_HOST) throw new Error('MAIL_TRANSPORT is "smtp" but SMTP_HOST is not set');
+
+  const transporter = nodemailer.createTransport({
+    host: SMTP_HOST,
+    port: Number(SMTP_PORT || 587),
+    secure: SMTP_SECURE === 'true', // Implicit TLS (port 465); otherwise STARTTLS when the server offers it
+    auth: SMTP_USER ? { user: SMTP_USER, pass: SMTP_PASSWORD } : undefined,
+  });
+
+  return {
+    async send(message) {
+      await transporter.sendMail({ from: mailFrom(), ...message });
+    },
+  };
+};
+
+/**
+ * Refuses every message, so password reset and sign-in links fail closed when no
+ * transport is configured.
+ */
+const createDisabledTransport = (): MailTransport => ({
+  async send() {
+    throw new Error('No mail transport is configured; set MAIL_TRANSPORT to "smtp"');
+  },
+});
+
+/**
+ * Writes each message as a JSON file to a directory instead of sending it, for local
+ * development and testing. Links in password reset mails can be copied from there.
+ */
+const createOutboxTransport = (dir: string): MailTransport => ({
+  async send(message) {
+    await fs.promises.mkdir(dir, { recursive: true });
+    const sentAt = new Date().toISOString();
+    const file = path.join(dir, `${sentAt.replace(/[:.]/g, '-')}-${crypto.randomUUID().slice(0, 8)}.json`);
+    await fs.promises.writeFile(file, JSON.stringify({ from: mailFrom(), sentAt, ...message }, null, 2));
+    logger.info('Mail written to the outbox', { to: message.to, file });
+  },
+});
+
+/**
+ * Creates the transport selected by MAIL_TRANSPORT (`outbox`, `smtp` or `none`). The
+ * default is `outbox`, or `none` when NODE_ENV is production, where the outbox is
+ * refused because it keeps sign-in links on the server. MAIL_OUTBOX_DIR overrides
+ * where the outbox writes.
+ */
+export const createMailTransport = (): MailTransport => {
+  const production = process.env.NODE_ENV === 'production';
+  const kind = (process.env.MAIL_TRANSPORT || (production ? 'none' : 'outbox')).toLowerCase();
+  if (production && kind === 'outbox') {
+    throw new Error('MAIL_TRANSPORT "outbox" does not deliver mail and cannot be used when NODE_ENV is production');
+  }
+
+  switch (kind) {
+    case 'none':
+      return createDisabledTransport();
+    case 'outbox':
+      return createOutboxTransport(process.env.MAIL_OUTBOX_DIR || DEFAULT_OUTBOX_DIR);
+    case 'smtp':
+      return createSmtpTransport();
+    default:
+      throw new Error(`Unknown MAIL_TRANSPORT "${kind}" (expected "outbox", "smtp" or "none")`);
+  }
+};
@@ -0,0 +1,76 @@
+import { afterEach, beforeEach, describe, expect, it, vi } from 'vitest';
+import { consumeRecoveryCode, generateRecoveryCodes, readMfaChallenge, signMfaChallenge, verifyTotp } from './mfa';
+
+// RFC 6238 test secret ("12345678901234567890") and its SHA-1 codes, cut to 6 digits
+const SECRET = 'GEZDGNBVGY3TQOJQGEZDGNBVGY3TQOJQ';
+const CODE_AT_59S = '287082'; // Step 1
+const CODE_AT_1111111109S = '081804'; // Step 37037036
+
+describe('verifyTotp', () => {
+  beforeEach(() => {
+    vi.useFakeTimers();
+  });
+
+  afterEach(() => {
+    vi.useRealTimers();
+  });
+
+  it('returns the step of a current code', () => {
+    vi.setSystemTime(59 * 1000);
+    expect(verifyTotp(SECRET, CODE_AT_59S)).toBe(1);
+
+    vi.setSystemTime(1111111109 * 1000);
+    expect(verifyTotp(SECRET, CODE_AT_1111111109S)).toBe(37037036);
+  });
+
+  it('accepts the previous and next code for clock drift', () => {
+    vi.setSystemTime(89 * 1000); // Step 2
+    expect(verifyTotp(SECRET, CODE_AT_59S)).toBe(1);
+
+    vi.setSystemTime(29 * 1000); // Step 0
+    expect(verifyTotp(SECRET, CODE_AT_59S)).toBe(1);
+  });
+
+  it('refuses codes outside the drift window', () => {
+    vi.setSystemTime(90 * 1000); // Step 3
+    expect(verifyTotp(SECRET, CODE_AT_59S)).toBeUndefined();
+
+    vi.setSystemTime((1111111109 - 60) * 1000); // Two steps early
+    expect(verifyTotp(SECRET, CODE_AT_1111111109S)).toBeUndefined();
+  });
+
+  it('refuses codes of steps already used', () => {
+    vi.setSystemTime(59 * 1000);
+    expect(verifyTotp(SECRET, CODE_AT_59S, 1)).toBeUndefined();
+    expect(verifyTotp(SECRET, CODE_AT_59S, 0)).toBe(1);
+  });
+
+  it('ignores spaces and refuses malformed codes', () => {
+    vi.setSystemTime(59 * 1000);
+    expect(verifyTotp(SECRET, '287 082')).toBe(1);
+    expect(verifyTotp(SECRET, '28708')).toBeUndefined();
+    expect(verifyTotp(SECRET, '2870822')).toBeUndefined();
+    expect(verifyTotp(SECRET, 'abcdef')).toBeUndefined();
+  });
+});
+
+describe('recovery codes', () => {
+  it('are single-use and compared without dashes or case', () => {
+    const { codes, hashes } = generateRecoveryCodes();
+    expect(codes).toHaveLength(10);
+    codes.forEach(code => expect(code).toMatch(/^[A-Z2-7]{4}-[A-Z2-7]{4}$/));
+
+    const remaining = consumeRecoveryCode(hashes, codes[0].replace('-', '').toLowerCase());
+    expect(remaining).toHaveLength(9);
+    expect(consumeRecoveryCode(remaining!, codes[0])).toBeUndefined();
+  });
+});
+
+describe('MFA challenge tokens', () => {
+  it('are only read back for the purpose they were issued for', () => {
+    const token = signMfaChallenge('user-1', 'verify');
+    expect(readMfaChallenge(token, 'verify')).toBe('user-1');
+    expect(readMfaChallenge(token, 'enroll')).toBeUndefined();
+    expect(readMfaChallenge(`${token}x`, 'verify')).toBeUndefined();
+  });
+});
@@ -0,0 +1,150 @@
+import crypto from 'crypto';
+import jwt from 'jsonwebtoken';
+import QRCode from 'qrcode';
+import { Role } from './shared/permissions';
+
+/**
+ * Multi-factor authentication for password logins: time-based one-time passwords
+ * (RFC 6238 with SHA-1, 6 digits and 30-second steps, as authenticator apps expect)
+ * and single-use recovery codes for when the authenticator is lost.
+ */
+
+// Stored on the user record
+export interface MfaSettings {
+  secret: string; // Base32, as entered into authenticator apps
+  enabledAt: string;
+  recoveryCodeHashes: string[]; // SHA-256 of the unused recovery codes
+  lastUsedStep?: number; // Codes of this time step or earlier are refused, so each code works once
+}
+
+// What a signed-in password login is allowed to do next
+export type MfaChallengePurpose = 'verify' | 'enroll';
+
+const STEP_SECONDS = 30;
+const DIGITS = 6;
+const ALLOWED_DRIFT_STEPS = 1; // Accept the previous and next code for clock drift
+const RECOVERY_CODE_COUNT = 10;
+const CHALLENGE_TTL_SECONDS = 5 * 60;
+const ENROLLMENT_TTL_SECONDS = 10 * 60;
+const CHALLENGE_AUDIENCE = 'mfa-challenge';
+const ENROLLMENT_AUDIENCE = 'mfa-enrollment';
+const BASE32_ALPHABET = 'ABCDEFGHIJKLMNOPQRSTUVWXYZ234567';
+
+/**
+ * Roles that must use MFA, from MFA_REQUIRED_ROLES (comma-separated, default `super-admin`).
+ * Users with these roles enrol during their next password login.
+ */
+export const isMfaRequired = (role: Role): boolean =>
+  (process.env.MFA_REQUIRED_ROLES ?? 'super-admin').split(',').map(value => value.trim()).includes(role);
+
+const base32Encode = (buffer: Buffer): string => {
+  let bits = '';
+  buffer.forEach(byte => { bits += byte.toString(2).padStart(8, '0'); });
+  return (bits.match(/.{1,5}/g) || []).map(chunk => BASE32_ALPHABET[parseInt(chunk.padEnd(5, '0'), 2)]).join('');
+};
+
+const base32Decode = (value: string): Buffer => {
+  const bits = value.toUpperCase().replace(/[^A-Z2-7]/g, '')
+    .split('')
+    .map(char => BASE32_ALPHABET.indexOf(char).toString(2).padStart(5, '0'))
+    .join('');
+  return Buffer.from((bits.match(/.{8}/g) || []).map(byte => parseInt(byte, 2)));
+};
+
+export const generateTotpSecret = (): string => base32Encode(crypto.randomBytes(20));
+
+const totpAt = (secret: string, step: number): string => {
+  const counter = Buffer.alloc(8);
+  counter.writeBigUInt64BE(BigInt(step));
+  const hmac = crypto.createHmac('sha1', base32Decode(secret)).update(counter).digest();
+  const offset = hmac[hmac.length - 1] & 0xf;
+  return String((hmac.readUInt32BE(offset) & 0x7fffffff) % 10 ** DIGITS).padStart(DIGITS, '0');
+};
+
+/**
+ * The time step a code belongs to, or undefined when it does not match any step within
+ * the allowed drift. Steps up to `lastUsedStep` are not accepted.
+ */
+export const verifyTotp = (secret: string, code: string, lastUsedStep = -1): number | undefined => {
+  const normalized = code.replace(/\s/g, '');
+  if (!new RegExp(`^\\d{${DIGITS}}$`).test(normalized)) return undefined;
+
+  const current = Math.floor(Date.now() / 1000 / STEP_SECONDS);
+  for (let step = current - ALLOWED_DRIFT_STEPS; step <= current + ALLOWED_DRIFT_STEPS; step++) {
+    if (step > lastUsedStep && crypto.timingSafeEqual(Buffer.from(totpAt(secret, step)), Buffer.from(normalized))) {
+      return step;
+    }
+  }
+  return undefined;
+};
+
+/**
+ * The `otpauth://` URI authenticator apps import, labelled with MFA_ISSUER (default `Insights 2.0`).
+ */
+export const totpUri = (secret: string, accountName: string): string => {
+  const issuer = process.env.MFA_ISSUER || 'Insights 2.0';
+  const params = new URLSearchParams({ secret, issuer, algorithm: 'SHA1', digits: String(DIGITS), period: String(STEP_SECONDS) });
+  return `otpauth://totp/${encodeURIComponent(issuer)}:${encodeURIComponent(accountName)}?${params}`;
+};
+
+// PNG data URL the enrolment screen shows as is
+export const totpQrCode = (uri: string): Promise<string> => QRCode.toDataURL(uri, { margin: 1, width: 200 });
+
+// Recovery codes are compared without dashes, spaces or case
+const hashRecoveryCode = (code: string): string =>
+  crypto.createHash('sha256').update(code.replace(/[-\s]/g, '').toUpperCase()).digest('hex');
+
+/**
+ * A fresh set of recovery codes (`XXXX-XXXX`) and the hashes to store. The codes are only
+ * shown to the user once.
+ */
+export const generateRecoveryCodes = (): { codes: string[]; hashes: string[] } => {
+  const codes = Array.from({ length: RECOVERY_CODE_COUNT }, () =>
+    base32Encode(crypto.randomBytes(5)).replace(/^(.{4})(.{4})$/, '$1-$2'));
+  return { codes, hashes: codes.map(hashRecoveryCode) };
+};
+
+/**
+ * The stored hashes without the one matching `code`, or undefined when no unused code matches.
+ */
+export const consumeRecoveryCode = (hashes: string[], code: string): string[] | undefined => {
+  const hash = hashRecoveryCode(code);
+  return hashes.includes(hash) ? hashes.filter(stored => stored !== hash) : undefined;
+};
+
+/**
+ * Token handed out after a correct password when the login still needs a second step:
+ * entering a code (`verify`) or setting MFA up first (`enroll`).
+ */
+export const signMfaChallenge = (userId: string, purpose: MfaChallengePurpose): string =>
+  jwt.sign({ purpose }, process.env.JWT_SECRET!, { subject: userId, audience: CHALLENGE_AUDIENCE, expiresIn: CHALLENGE_TTL_SECONDS });
+
+/**
+ * The user ID of a valid challenge token for the purpose, else undefined.
+ */
+export const readMfaChallenge = (token: unknown, purpose: MfaChallengePurpose): string | undefined => {
+  if (typeof token !== 'string' || !token) return undefined;
+  try {
+    const payload = jwt.verify(token, process.env.JWT_SECRET!, { audience: CHALLENGE_AUDIENCE }) as jwt.JwtPayload;
+    return payload.purpose === purpose ? payload.sub : undefined;
+  } catch {
+    return undefined;
+  }
+};
+
+/**
+ * Carries a new secret from the enrolment screen to its confirmation, so nothing is
+ * stored until the user has proven their authenticator works.
+ */
+export const signMfaEnrollment = (userId: string, secret: string): string =>
+  jwt.sign({ secret }, process.env.JWT_SECRET!, { subject: userId, audience: ENROLLMENT_AUDIENCE, expiresIn: ENROLLMENT_TTL_SECONDS });
+
+export const readMfaEnrollment = (token: unknown, userId: string): string | undefined => {
+  if (typeof token !== 'string' || !token) return undefined;
+  try {
+    const payload = jwt.verify(token, process.env.JWT_SECRET!, { audience: ENROLLMENT_AUDIENCE, subject: userId }) as jwt.JwtPayload;
+    return typeof payload.secret === 'string' ? payload.secret : undefined;
+  } catch {
+    return undefined;
+  }
+};
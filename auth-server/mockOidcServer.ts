@@ -0,0 +1,191 @@
+import express from 'express';
+import crypto from 'crypto';
+import jwt from 'jsonwebtoken';
+
+/**
+ * Minimal OpenID Connect provider for trying SSO locally without a real tenant.
+ * It supports the authorization code flow with PKCE, a userinfo endpoint and RS256
+ * ID tokens, and shows a form where any user (email, groups, roles, department)
+ * can be signed in. Never expose it beyond localhost.
+ *
+ *   npm run mock-oidc
+ *
+ * then add it to oidc-providers.json:
+ *
+ *   { "id": "mock", "name": "Mock IdP", "issuer": "http://localhost:4400",
+ *     "clientId": "portal-local", "clientSecret": "portal-local-secret" }
+ */
+
+const PORT = Number(process.env.MOCK_OIDC_PORT || 4400);
+const ISSUER = process.env.MOCK_OIDC_ISSUER || `http://localhost:${PORT}`;
+const CLIENT_ID = process.env.MOCK_OIDC_CLIENT_ID || 'portal-local';
+const CLIENT_SECRET = process.env.MOCK_OIDC_CLIENT_SECRET || 'portal-local-secret';
+const CODE_TTL_MS = 60 * 1000;
+const TOKEN_TTL_SECONDS = 3600;
+
+interface MockUser {
+  sub: string;
+  email: string;
+  email_verified: boolean;
+  name: string;
+  groups: string[];
+  roles: string[];
+  department?: string;
+}
+
+interface PendingCode {
+  redirectUri: string;
+  nonce?: string;
+  codeChallenge?: string;
+  user: MockUser;
+  expiresAt: number;
+}
+
+// Keys and codes live in memory, so restarting the server invalidates every session
+const { privateKey, publicKey } = crypto.generateKeyPairSync('rsa', { modulusLength: 2048 });
+const KEY_ID = crypto.randomUUID();
+const codes = new Map<string, PendingCode>();
+const accessTokens = new Map<string, MockUser>();
+
+const app = express();
+app.use(express.urlencoded({ extended: false }));
+
+const escapeHtml = (value: string) =>
+  value.replace(/[&<>"']/g, char => `&#${char.charCodeAt(0)};`);
+
+const list = (value: unknown) =>
+  typeof value === 'string' ? value.split(',').map(item => item.trim()).filter(Boolean) : [];
+
+const base64url = (buffer: Buffer) => buffer.toString('base64url');
+
+app.get('/.well-known/openid-configuration', (_req, res) => {
+  res.json({
+    issuer: ISSUER,
+    authorization_endpoint: `${ISSUER}/authorize`,
+    token_endpoint: `${ISSUER}/token`,
+    userinfo_endpoint: `${ISSUER}/userinfo`,
+    jwks_uri: `${ISSUER}/jwks`,
+    response_types_supported: ['code'],
+    subject_types_supported: ['public'],
+    id_token_signing_alg_values_supported: ['RS256'],
+    code_challenge_methods_supported: ['S256'],
+    token_endpoint_auth_methods_supported: ['client_secret_basic', 'client_secret_post', 'none'],
+    scopes_supported: ['openid', 'profile', 'email'],
+  });
+});
+
+app.get('/jwks', (_req, res) => {
+  res.json({ keys: [{ ...publicKey.export({ format: 'jwk' }), kid: KEY_ID, alg: 'RS256', use: 'sig' }] });
+});
+
+// Sign-in form; the authorization request is carried through in hidden fields
+app.get('/authorize', (req, res) => {
+  const { client_id, redirect_uri, response_type } = req.query;
+  if (client_id !== CLIENT_ID || response_type !== 'code' || typeof redirect_uri !== 'string') {
+    return res.status(400).send('Invalid authorization request');
+  }
+
+  const hidden = ['redirect_uri', 'state', 'nonce', 'code_challenge', 'code_challenge_method']
+    .filter(name => typeof req.query[name] === 'string')
+    .map(name => `<input type="hidden" name="${name}" value="${escapeHtml(req.query[name] as string)}">`)
+    .join('');
+  const field = (name: string, label: string, value: string) =>
+    `<p><label>${label}<br><input name="${name}" value="${escapeHtml(value)}" size="40"></label></p>`;
+
+  res.send(`<!doctype html>
+<title>Mock IdP</title>
+<h1>Mock IdP sign-in</h1>
+<form method="post" action="/authorize">
+  ${hidden}
+  ${field('email', 'Email', process.env.MOCK_OIDC_EMAIL || 'jane.doe@example.com')}
+  ${field('name', 'Name', 'Jane Doe')}
+  ${field('groups', 'Groups (comma-separated)', '')}
+  ${field('roles', 'App roles (comma-separated)', '')}
+  ${field('department', 'Department', '')}
+  <button type="submit">Sign in</button>
+</form>`);
+});
+
+app.post('/authorize', (req, res) => {
+  const { redirect_uri, state, nonce, code_challenge, code_challenge_method, email, name, department } = req.body;
+  if (typeof redirect_uri !== 'string' || typeof email !== 'string' || !email) {
+    return res.status(400).send('Email is required');
+  }
+  if (code_challenge && code_challenge_method !== 'S256') {
+    return res.status(400).send('Only S256 code challenges are supported');
+  }
+
+  const code = base64url(crypto.randomBytes(24));
+  codes.set(code, {
+    redirectUri: redirect_uri,
+    nonce,
+    codeChallenge: code_challenge,
+    user: {
+      sub: crypto.createHash('sha256').update(email.toLowerCase()).digest('hex').slice(0, 24),
+      email: email.toLowerCase(),
+      email_verified: true,
+      name: name || email,
+      groups: list(req.body.groups),
+      roles: list(req.body.roles),
+      department: department || undefined,
+    },
+    expiresAt: Date.now() + CODE_TTL_MS,
+  });
+
+  const redirectUrl = new URL(redirect_uri);
+  redirectUrl.searchParams.set('code', code);
+  if (state) redirectUrl.searchParams.set('state', state);
+  res.redirect(redirectUrl.toString());
+});
+
+app.post('/token', (req, res) => {
+  // Client credentials arrive either as HTTP basic auth or in the form body
+  const basic = req.headers.authorization?.startsWith('Basic ')
+    ? Buffer.from(req.headers.authorization.slice(6), 'base64').toString().split(':').map(decodeURIComponent)
+    : [];
+  const clientId = basic[0] || req.body.client_id;
+  const clientSecret = basic[1] || req.body.client_secret;
+  const { grant_type, code, redirect_uri, code_verifier } = req.body;
+
+  if (clientId !== CLIENT_ID || (clientSecret !== undefined && clientSecret !== CLIENT_SECRET)) {
+    return res.status(401).json({ error: 'invalid_client' });
+  }
+  if (grant_type !== 'authorization_code') {
+    return res.status(400).json({ error: 'unsupported_grant_type' });
+  }
+
+  const pending = codes.get(code);
+  codes.delete(code);
+  if (!pending || pending.expiresAt < Date.now() || pending.redirectUri !== redirect_uri) {
+    return res.status(400).json({ error: 'invalid_grant' });
+  }
+  // Public clients must use PKCE; confidential ones may
+  const challenge = code_verifier ? base64url(crypto.createHash('sha256').update(code_verifier).digest()) : undefined;
+  if ((pending.codeChallenge || clientSecret === undefined) && challenge !== pending.codeChallenge) {
+    return res.status(400).json({ error: 'invalid_grant', error_description: 'PKCE verification failed' });
+  }
+
+  const { sub, ...profile } = pending.user;
+  const idToken = jwt.sign({ ...profile, ...(pending.nonce && { nonce: pending.nonce }) }, privateKey, {
+    algorithm: 'RS256',
+    keyid: KEY_ID,
+    issuer: ISSUER,
+    audience: CLIENT_ID,
+    subject: sub,
+    expiresIn: TOKEN_TTL_SECONDS,
+  });
+  const accessToken = base64url(crypto.randomBytes(24));
+  accessTokens.set(accessToken, pending.user);
+
+  res.json({ access_token: accessToken, id_token: idToken, token_type: 'Bearer', expires_in: TOKEN_TTL_SECONDS });
+});
+
+app.get('/userinfo', (req, res) => {
+  const user = accessTokens.get((req.headers.authorization || '').replace(/^Bearer /, ''));
+  if (!user) return res.status(401).json({ error: 'invalid_token' });
+  res.json(user);
+});
+
+app.listen(PORT, () => {
+  console.log(`🧪 Mock OIDC provider running at ${ISSUER} (client ${CLIENT_ID})`);
+});
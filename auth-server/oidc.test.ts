@@ -0,0 +1,55 @@
+import fs from 'fs';
+import { afterEach, describe, expect, it, vi } from 'vitest';
+import { logger } from './logger';
+import { isAllowedEmail, loadOidcProviders, warnAboutOidcProviders } from './oidc';
+
+const writeProviders = (providers: unknown[]) =>
+  fs.writeFileSync(process.env.OIDC_PROVIDERS_FILE!, JSON.stringify(providers));
+
+const contoso = {
+  id: 'contoso',
+  issuer: 'https://login.microsoftonline.com/tenant/v2.0',
+  clientId: 'client',
+  profile: 'graph',
+};
+
+describe('OIDC providers', () => {
+  afterEach(() => {
+    fs.rmSync(process.env.OIDC_PROVIDERS_FILE!, { force: true });
+    vi.restoreAllMocks();
+    vi.unstubAllEnvs();
+  });
+
+  it('warns about Graph providers without trusted domains', () => {
+    const warn = vi.spyOn(logger, 'warn').mockImplementation(() => undefined);
+    writeProviders([contoso, { ...contoso, id: 'fabrikam', trustedDomains: ['fabrikam.com'] }]);
+
+    warnAboutOidcProviders();
+
+    expect(warn).toHaveBeenCalledTimes(1);
+    expect(warn.mock.calls[0][1]).toEqual({ provider: 'contoso' });
+  });
+
+  it('warns about the Azure AD provider from the environment without AZURE_TRUSTED_DOMAINS', () => {
+    const warn = vi.spyOn(logger, 'warn').mockImplementation(() => undefined);
+    vi.stubEnv('TENANT_ID', 'tenant');
+    vi.stubEnv('CLIENT_ID', 'client');
+
+    warnAboutOidcProviders();
+    expect(warn.mock.calls[0][1]).toEqual({ provider: 'azure' });
+
+    warn.mockClear();
+    vi.stubEnv('AZURE_TRUSTED_DOMAINS', 'contoso.com');
+    warnAboutOidcProviders();
+    expect(warn).not.toHaveBeenCalled();
+  });
+
+  it('limits sign-ins to the allowed domains', () => {
+    writeProviders([{ ...contoso, allowedDomains: ['@Contoso.com'] }, { ...contoso, id: 'open' }]);
+    const [limited, open] = loadOidcProviders();
+
+    expect(isAllowedEmail(limited, 'ann@contoso.com')).toBe(true);
+    expect(isAllowedEmail(limited, 'ann@contoso.com.evil.example')).toBe(false);
+    expect(isAllowedEmail(open, 'ann@anywhere.example')).toBe(true);
+  });
+});
@@ -0,0 +1,373 @@
+import type { IncomingMessage } from 'http';
+import fs from 'fs';
+import path from 'path';
+import jwt from 'jsonwebtoken';
+import { BaseClient, Issuer, generators } from 'openid-client';
+import { SsoIdentity, toSsoIdentity } from './ssoMapping';
+import { GRAPH_ATTRIBUTES, GraphAttribute } from './shared/schemas';
+import { logger } from './logger';
+
+/**
+ * OpenID Connect sign-in (authorization code flow with PKCE) against one or more
+ * identity providers. The provider, state, nonce and PKCE verifier of a sign-in in
+ * progress travel in a short-lived signed cookie, so the callback only accepts
+ * codes from sign-ins this browser started.
+ */
+
+export const LOGIN_COOKIE = 'sso_login';
+export const LOGIN_COOKIE_MAX_AGE_MS = 10 * 60 * 1000;
+
+// Discovery documents rarely change; re-fetch them daily (openid-client refreshes signing keys itself)
+const DISCOVERY_TTL_MS = 24 * 60 * 60 * 1000;
+
+const LOGIN_AUDIENCE = 'sso-login';
+
+const OIDC_PROVIDERS_FILE = process.env.OIDC_PROVIDERS_FILE || path.join(__dirname, 'oidc-providers.json');
+
+// Portal fields filled from provider claims; the rest are the attributes SSO mapping rules match
+export type ClaimField = 'email' | 'name' | 'upn' | 'groups' | 'roles' | GraphAttribute;
+
+/**
+ * An identity provider from `oidc-providers.json`.
+ */
+export interface OidcProvider {
+  id: string; // Used in /auth/login/:provider
+  name: string; // Shown on the login button
+  issuer: string; // Discovery is read from <issuer>/.well-known/openid-configuration
+  clientId: string;
+  clientSecret?: string; // Omitted for public clients, which rely on PKCE alone
+  redirectUri?: string; // Defaults to REDIRECT_URI
+  scopes: string[];
+  profile: 'userinfo' | 'graph' | 'id-token'; // Where claims beyond the ID token come from
+  claims: Partial<Record<ClaimField, string | string[]>>; // Claim name(s) per field, the first present wins
+  trustedDomains: string[]; // Email domains the provider owns, accepted without an `email_verified` claim
+  allowedDomains: string[]; // When not empty, only users with an email in these domains may sign in
+}
+
+// What the login page needs to render a button
+export interface PublicOidcProvider {
+  id: string;
+  name: string;
+}
+
+// The signed-in user, read from the provider's claims
+export interface OidcProfile {
+  email: string; // Empty unless the provider vouches for the address
+  idp: string; // Provider the user signed in with
+  name?: string;
+  upn?: string;
+  identity: SsoIdentity;
+}
+
+interface PendingLogin {
+  provider: string;
+  state: string;
+  nonce: string;
+  codeVerifier: string;
+  returnTo: string;
+}
+
+export interface CompletedLogin {
+  provider: OidcProvider;
+  profile: OidcProfile;
+  returnTo: string;
+}
+
+const DEFAULT_SCOPES = ['openid', 'profile', 'email'];
+
+const DEFAULT_CLAIMS: OidcProvider['claims'] = {
+  email: 'email',
+  name: 'name',
+  groups: 'groups',
+  roles: 'roles',
+  ...Object.fromEntries(GRAPH_ATTRIBUTES.map(attribute => [attribute, attribute])),
+};
+
+const toDomains = (value: unknown): string[] =>
+  (Array.isArray(value) ? value : typeof value === 'string' ? value.split(',') : [])
+    .filter((domain): domain is string => typeof domain === 'string')
+    .map(domain => domain.trim().replace(/^@/, '').toLowerCase())
+    .filter(Boolean);
+
+/**
+ * The Azure AD provider configured through TENANT_ID / CLIENT_ID / CLIENT_SECRET,
+ * used when there is no providers file. Its profile comes from Graph `/me`, which
+ * has no `email_verified`, so its users need a domain in AZURE_TRUSTED_DOMAINS.
+ */
+const azureProviderFromEnv = (): OidcProvider[] => {
+  const { TENANT_ID, CLIENT_ID, CLIENT_SECRET } = process.env;
+  if (!TENANT_ID || !CLIENT_ID) return [];
+
+  return [{
+    id: 'azure',
+    name: 'Microsoft',
+    issuer: `https://login.microsoftonline.com/${TENANT_ID}/v2.0`,
+    clientId: CLIENT_ID,
+    clientSecret: CLIENT_SECRET,
+    scopes: [...DEFAULT_SCOPES, 'User.Read'],
+    profile: 'graph',
+    claims: { ...DEFAULT_CLAIMS, email: ['mail', 'userPrincipalName'], name: 'displayName', upn: 'userPrincipalName' },
+    trustedDomains: toDomains(process.env.AZURE_TRUSTED_DOMAINS),
+    allowedDomains: toDomains(process.env.AZURE_ALLOWED_DOMAINS),
+  }];
+};
+
+const isClaimNames = (value: unknown) =>
+  typeof value === 'string' || (Array.isArray(value) && value.every(name => typeof name === 'string'));
+
+/**
+ * Validates one entry of the providers file. Returns the provider or an error message.
+ */
+const parseProvider = (value: unknown): OidcProvider | string => {
+  const { id, name, issuer, clientId, clientSecret, redirectUri, scopes, profile, claims, trustedDomains, allowedDomains } = (value || {}) as Record<string, unknown>;
+
+  if (typeof id !== 'string' || !/^[a-z0-9-]+$/.test(id)) return 'id must be lowercase letters, digits and dashes';
+  if (typeof issuer !== 'string' || !issuer) return `${id}: issuer is required`;
+  if (typeof clientId !== 'string' || !clientId) return `${id}: clientId is required`;
+  if (profile !== undefined && !['userinfo', 'graph', 'id-token'].includes(profile as string)) return `${id}: unknown profile source`;
+  if (scopes !== undefined && !(Array.isArray(scopes) && scopes.every(scope => typeof scope === 'string'))) return `${id}: scopes must be a list`;
+  if (trustedDomains !== undefined && !(Array.isArray(trustedDomains) && trustedDomains.every(domain => typeof domain === 'string'))) return `${id}: trustedDomains must be a list`;
+  if (allowedDomains !== undefined && !(Array.isArray(allowedDomains) && allowedDomains.every(domain => typeof domain === 'string'))) return `${id}: allowedDomains must be a list`;
+
+  const claimOverrides = (claims && typeof claims === 'object' ? claims : {}) as Record<string, unknown>;
+  if (!Object.values(claimOverrides).every(isClaimNames)) return `${id}: claims must map fields to claim names`;
+
+  return {
+    id,
+    name: typeof name === 'string' && name ? name : id,
+    issuer,
+    clientId,
+    clientSecret: typeof clientSecret === 'string' && clientSecret ? clientSecret : undefined,
+    redirectUri: typeof redirectUri === 'string' && redirectUri ? redirectUri : undefined,
+    scopes: (scopes as string[] | undefined) || DEFAULT_SCOPES,
+    profile: (profile as OidcProvider['profile'] | undefined) || 'userinfo',
+    claims: { ...DEFAULT_CLAIMS, ...(claimOverrides as OidcProvider['claims']) },
+    trustedDomains: toDomains(trustedDomains),
+    allowedDomains: toDomains(allowedDomains),
+  };
+};
+
+/**
+ * Configured providers, in file order. Invalid entries are logged and skipped.
+ */
+export const loadOidcProviders = (): OidcProvider[] => {
+  let entries: unknown;
+  try {
+    entries = JSON.parse(fs.readFileSync(OIDC_PROVIDERS_FILE, 'utf-8'));
+  } catch (error) {
+    if ((error as NodeJS.ErrnoException).code !== 'ENOENT') {
+      logger.error('Error loading OIDC providers', { error });
+    }
+    return azureProviderFromEnv();
+  }
+
+  if (!Array.isArray(entries)) {
+    logger.error('Error loading OIDC providers: the file must contain a list');
+    return [];
+  }
+
+  return entries.flatMap(entry => {
+    const provider = parseProvider(entry);
+    if (typeof provider === 'string') {
+      logger.error('Skipping OIDC provider', { problem: provider });
+      return [];
+    }
+    return [provider];
+  });
+};
+
+/**
+ * Warns about providers nobody can sign in with: Microsoft Graph profiles never carry
+ * `email_verified`, so a Graph provider without trusted domains refuses every sign-in.
+ * Run at startup.
+ */
+export const warnAboutOidcProviders = (): void => {
+  loadOidcProviders()
+    .filter(provider => provider.profile === 'graph' && provider.trustedDomains.length === 0)
+    .forEach(provider => logger.warn(
+      `SSO provider "${provider.id}" has no trusted domains, so every sign-in through it is refused. `
+        + 'Set AZURE_TRUSTED_DOMAINS (or trustedDomains in the providers file) to the domains of your tenant',
+      { provider: provider.id }
+    ));
+};
+
+export const listOidcProviders = (): PublicOidcProvider[] =>
+  loadOidcProviders().map(({ id, name }) => ({ id, name }));
+
+const findProvider = (id: string): OidcProvider | undefined => loadOidcProviders().find(provider => provider.id === id);
+
+const redirectUriFor = (provider: OidcProvider) => provider.redirectUri || process.env.REDIRECT_URI!;
+
+const clientCache = new Map<string, { client: Promise<BaseClient>; expiresAt: number }>();
+
+/**
+ * The OIDC client for a provider, discovered once and cached. A failed discovery is
+ * not cached, so the next sign-in retries it.
+ */
+export const getOidcClient = (provider: OidcProvider): Promise<BaseClient> => {
+  // Keyed by the settings the client is built from, so edits to the providers file apply
+  const key = JSON.stringify([provider.id, provider.issuer, provider.clientId, provider.clientSecret, redirectUriFor(provider)]);
+  const cached = clientCache.get(key);
+  if (cached && cached.expiresAt > Date.now()) return cached.client;
+
+  const client = Issuer.discover(provider.issuer).then(issuer => new issuer.Client({
+    client_id: provider.clientId,
+    ...(provider.clientSecret ? { client_secret: provider.clientSecret } : { token_endpoint_auth_method: 'none' }),
+    redirect_uris: [redirectUriFor(provider)],
+    response_types: ['code'],
+  }));
+
+  const entry = { client, expiresAt: Date.now() + DISCOVERY_TTL_MS };
+  clientCache.set(key, entry);
+  client.catch(() => {
+    if (clientCache.get(key) === entry) clientCache.delete(key);
+  });
+  return client;
+};
+
+/**
+ * Where to send the user after signing in. Only paths on the frontend are allowed,
+ * so the parameter cannot be used to redirect to another site.
+ */
+export const sanitizeReturnTo = (value: unknown): string =>
+  typeof value === 'string' && value.startsWith('/') && !value.startsWith('//') && !value.includes('\\') ? value : '/';
+
+/**
+ * Starts a sign-in with a provider. Returns the provider URL to redirect to and the
+ * signed value of the login cookie, or undefined for an unknown provider.
+ */
+export const startLogin = async (providerId: string, returnTo: string): Promise<{ url: string; loginCookie: string } | undefined> => {
+  const provider = findProvider(providerId);
+  if (!provider) return undefined;
+
+  const client = await getOidcClient(provider);
+  const pending: PendingLogin = {
+    provider: provider.id,
+    state: generators.state(),
+    nonce: generators.nonce(),
+    codeVerifier: generators.codeVerifier(),
+    returnTo: sanitizeReturnTo(returnTo),
+  };
+
+  const url = client.authorizationUrl({
+    scope: provider.scopes.join(' '),
+    state: pending.state,
+    nonce: pending.nonce,
+    code_challenge: generators.codeChallenge(pending.codeVerifier),
+    code_challenge_method: 'S256',
+  });
+  const loginCookie = jwt.sign(pending, process.env.JWT_SECRET!, {
+    expiresIn: LOGIN_COOKIE_MAX_AGE_MS / 1000,
+    audience: LOGIN_AUDIENCE,
+  });
+
+  return { url, loginCookie };
+};
+
+/**
+ * Reads the login cookie. Returns undefined when it is missing, tampered with or expired.
+ */
+const readPendingLogin = (loginCookie: string | undefined): PendingLogin | undefined => {
+  if (!loginCookie) return undefined;
+  try {
+    return jwt.verify(loginCookie, process.env.JWT_SECRET!, { audience: LOGIN_AUDIENCE }) as PendingLogin;
+  } catch {
+    return undefined;
+  }
+};
+
+const claimValue = (claims: Record<string, unknown>, names: string | string[] | undefined): unknown =>
+  [names || []].flat().map(name => claims[name]).find(value => value !== undefined && value !== null && value !== '');
+
+const claimString = (claims: Record<string, unknown>, names: string | string[] | undefined): string | undefined => {
+  const value = claimValue(claims, names);
+  return typeof value === 'string' ? value : undefined;
+};
+
+const emailDomain = (email: string) => email.slice(email.lastIndexOf('@') + 1);
+
+/**
+ * Whether the provider may sign in users with this email, per its `allowedDomains`.
+ */
+export const isAllowedEmail = (provider: OidcProvider, email: string): boolean =>
+  provider.allowedDomains.length === 0 || provider.allowedDomains.includes(emailDomain(email));
+
+/**
+ * The user's email, if the provider vouches for it: the claims mark it verified, or it
+ * is in one of the provider's trusted domains. Anything else could be an address the
+ * user typed into their profile at the provider, so it is not used as their identity.
+ */
+const verifiedEmail = (provider: OidcProvider, claims: Record<string, unknown>): string => {
+  const email = (claimString(claims, provider.claims.email) || '').toLowerCase();
+  if (!email) return '';
+
+  const verified = claims.email_verified === true || claims.email_verified === 'true';
+  if (verified || provider.trustedDomains.includes(emailDomain(email))) return email;
+
+  logger.warn('SSO sign-in without a verified email', { provider: provider.id, domain: emailDomain(email) });
+  return '';
+};
+
+/**
+ * Maps provider claims to the portal's profile fields using the provider's claim names.
+ */
+const toProfile = (provider: OidcProvider, claims: Record<string, unknown>): OidcProfile => {
+  const list = (field: ClaimField) => {
+    const value = claimValue(claims, provider.claims[field]);
+    return typeof value === 'string' ? [value] : value;
+  };
+
+  return {
+    email: verifiedEmail(provider, claims),
+    idp: provider.id,
+    name: claimString(claims, provider.claims.name),
+    upn: claimString(claims, provider.claims.upn),
+    identity: toSsoIdentity(
+      provider.id,
+      { groups: list('groups'), roles: list('roles') },
+      Object.fromEntries(GRAPH_ATTRIBUTES.map(attribute => [attribute, claimString(claims, provider.claims[attribute])]))
+    ),
+  };
+};
+
+/**
+ * Claims of the signed-in user: the ID token's, plus the provider's userinfo endpoint
+ * or the Graph profile, which win over the ID token.
+ */
+const readClaims = async (provider: OidcProvider, client: BaseClient, accessToken: string | undefined, idTokenClaims: Record<string, unknown>) => {
+  if (provider.profile === 'id-token' || !accessToken) return idTokenClaims;
+
+  if (provider.profile === 'graph') {
+    const response = await fetch(`https://graph.microsoft.com/v1.0/me?$select=mail,userPrincipalName,displayName,${GRAPH_ATTRIBUTES.join(',')}`, {
+      headers: { Authorization: `Bearer ${accessToken}` },
+    });
+    // An error body must not be read as the user's profile
+    if (!response.ok) {
+      throw new Error(`Graph profile request failed: ${response.status} ${await response.text()}`);
+    }
+    return { ...idTokenClaims, ...(await response.json()) };
+  }
+
+  return { ...idTokenClaims, ...(await client.userinfo(accessToken)) };
+};
+
+/**
+ * Redeems the authorization code of a callback request, checking its state, nonce
+ * and PKCE verifier against the login cookie, and reads the user's profile. Returns
+ * undefined when the browser has no valid login cookie; provider errors are thrown.
+ */
+export const completeLogin = async (req: IncomingMessage, loginCookie: string | undefined): Promise<CompletedLogin | undefined> => {
+  const pending = readPendingLogin(loginCookie);
+  const provider = pending && findProvider(pending.provider);
+  if (!pending || !provider) return undefined;
+
+  const client = await getOidcClient(provider);
+  const tokenSet = await client.callback(redirectUriFor(provider), client.callbackParams(req), {
+    state: pending.state,
+    nonce: pending.nonce,
+    code_verifier: pending.codeVerifier,
+  });
+
+  const claims = await readClaims(provider, client, tokenSet.access_token, tokenSet.claims());
+  return { provider, profile: toProfile(provider, claims), returnTo: pending.returnTo };
+};
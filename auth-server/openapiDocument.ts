@@ -0,0 +1,204 @@
+import type { Express } from 'express';
+import { OpenAPIRegistry, OpenApiGeneratorV3, RouteConfig, extendZodWithOpenApi } from '@asteasolutions/zod-to-openapi';
+import { z, AnyZodObject, ZodTypeAny } from 'zod';
+import { REQUEST_ID_HEADER } from './logger';
+import type { Permission } from './shared/permissions';
+import type { RateLimitPolicyName } from './rateLimit';
+
+/**
+ * OpenAPI 3 document of the server, generated from the registered Express routes:
+ * methods, paths and path parameters come from the router, request bodies and query
+ * strings from the validateBody/validateQuery schemas, and security, permission and
+ * rate limit notes from the guards each route runs. Summaries and response bodies
+ * come from ROUTE_DOCS in apiDocs.ts.
+ */
+
+extendZodWithOpenApi(z);
+
+/** What a guard middleware tells the document about the routes it runs on. */
+export interface MiddlewareDoc {
+  body?: ZodTypeAny;
+  query?: ZodTypeAny;
+  auth?: 'required' | 'optional'; // Optional: MFA routes also accept an mfaToken in the body
+  permission?: Permission;
+  rateLimit?: RateLimitPolicyName;
+}
+
+const middlewareDocs = new WeakMap<object, MiddlewareDoc>();
+
+/**
+ * Records what a middleware means for the routes using it and returns the middleware.
+ */
+export const documentMiddleware = <T extends (...args: never[]) => unknown>(middleware: T, doc: MiddlewareDoc): T => {
+  middlewareDocs.set(middleware, doc);
+  return middleware;
+};
+
+// A response besides the success one, described by its meaning; the body is an Error unless a schema is given
+export type ErrorDoc = string | { description: string; schema: ZodTypeAny };
+
+/** What the router cannot tell about a route. */
+export interface RouteDoc {
+  summary: string;
+  description?: string;
+  tag: string;
+  success: {
+    status?: number; // Default 200
+    description: string;
+    schema?: ZodTypeAny; // JSON body
+    headers?: AnyZodObject;
+  };
+  errors?: Record<number, ErrorDoc>;
+  textErrors?: boolean; // Error pages are plain text (browser redirects)
+  query?: AnyZodObject; // Query parameters read without validateQuery
+  headers?: AnyZodObject; // Request headers the route requires
+}
+
+// Express router internals: enough to list routes and the middleware in front of them
+interface RouterLayer {
+  handle: object;
+  regexp: RegExp;
+  route?: { path: string; methods: Record<string, boolean>; stack: RouterLayer[] };
+}
+
+interface RouteInfo {
+  method: RouteConfig['method'];
+  path: string; // Express syntax (`/users/:id`)
+  middleware: MiddlewareDoc[];
+}
+
+/**
+ * Routes of the app in registration order, with the documented middleware that runs
+ * for them (prefix `app.use` guards registered earlier, then the route's own).
+ */
+const listRoutes = (app: Express): RouteInfo[] => {
+  const routes: RouteInfo[] = [];
+  const prefixGuards: { regexp: RegExp; doc: MiddlewareDoc }[] = [];
+
+  for (const layer of (app._router?.stack || []) as RouterLayer[]) {
+    if (!layer.route) {
+      const doc = middlewareDocs.get(layer.handle);
+      if (doc) prefixGuards.push({ regexp: layer.regexp, doc });
+      continue;
+    }
+
+    const { path, methods, stack } = layer.route;
+    const middleware = [
+      ...prefixGuards.filter(guard => guard.regexp.test(path)).map(guard => guard.doc),
+      ...stack.map(handler => middlewareDocs.get(handler.handle)).filter((doc): doc is MiddlewareDoc => !!doc),
+    ];
+    for (const method of Object.keys(methods)) {
+      routes.push({ method: method as RouteConfig['method'], path, middleware });
+    }
+  }
+  return routes;
+};
+
+/** Key of a route in ROUTE_DOCS, e.g. `PUT /api/admin/users/:id`. */
+export const routeKey = (method: string, path: string) => `${method.toUpperCase()} ${path}`;
+
+// Sent with every response; see requestLogger in logger.ts
+const requestIdHeader = z.object({
+  [REQUEST_ID_HEADER]: z.string().openapi({ description: 'ID of the request in the server log, to quote when reporting a problem' }),
+});
+
+const toOpenApiPath = (path: string) => path.replace(/:(\w+)/g, '{$1}');
+
+const pathParams = (path: string): AnyZodObject | undefined => {
+  const names = [...path.matchAll(/:(\w+)/g)].map(match => match[1]);
+  return names.length > 0 ? z.object(Object.fromEntries(names.map(name => [name, z.string()]))) : undefined;
+};
+
+// Zod objects only; refined schemas are documented as their inner object
+const asObject = (schema: ZodTypeAny | undefined): AnyZodObject | undefined => {
+  let current = schema;
+  while (current instanceof z.ZodEffects) current = current.innerType();
+  return current instanceof z.ZodObject ? current : undefined;
+};
+
+export interface GeneratedDocument {
+  document: ReturnType<OpenApiGeneratorV3['generateDocument']>;
+  undocumented: string[]; // Routes missing from ROUTE_DOCS
+}
+
+/**
+ * Builds the document for every route registered on the app so far.
+ *
+ * @param docs - Summaries and responses per route key
+ * @param errorSchema - Body of error responses
+ */
+export const buildOpenApiDocument = (
+  app: Express,
+  docs: Record<string, RouteDoc>,
+  errorSchema: ZodTypeAny,
+  info: { title: string; version: string; description?: string }
+): GeneratedDocument => {
+  const registry = new OpenAPIRegistry();
+  const bearerAuth = registry.registerComponent('securitySchemes', 'bearerAuth', {
+    type: 'http',
+    scheme: 'bearer',
+    bearerFormat: 'JWT',
+  });
+  const undocumented: string[] = [];
+
+  for (const route of listRoutes(app)) {
+    const key = routeKey(route.method, route.path);
+    const doc = docs[key];
+    if (!doc) undocumented.push(key);
+
+    const guards = Object.assign({}, ...route.middleware) as MiddlewareDoc;
+    const auth = route.middleware.some(m => m.auth === 'required') ? 'required' : guards.auth;
+
+    // Error responses of the guards, merged with the ones the handler sends
+    const errors = new Map<number, { descriptions: string[]; schema: ZodTypeAny }>();
+    const addError = (status: number, error: ErrorDoc) => {
+      const { description, schema } = typeof error === 'string' ? { description: error, schema: errorSchema } : error;
+      const entry = errors.get(status) || { descriptions: [], schema };
+      entry.descriptions.push(description);
+      errors.set(status, entry);
+    };
+    if (guards.body || guards.query) addError(400, 'Invalid request; `fieldErrors` names the invalid fields');
+    if (auth === 'required') {
+      addError(401, 'Missing, expired or revoked access token');
+      addError(403, 'Invalid access token');
+    }
+    if (guards.permission) addError(403, `Requires the \`${guards.permission}\` permission`);
+    if (guards.rateLimit) addError(429, `Rate limited by the \`${guards.rateLimit}\` policy; retry after \`Retry-After\` seconds`);
+    Object.entries(doc?.errors || {}).forEach(([status, error]) => addError(Number(status), error));
+
+    const errorContent = (schema: ZodTypeAny) => (doc?.textErrors && schema === errorSchema
+      ? { 'text/plain': { schema: z.string() } }
+      : { 'application/json': { schema } });
+
+    const success = doc?.success || { description: 'Success' };
+    const query = doc?.query || asObject(guards.query);
+    registry.registerPath({
+      method: route.method,
+      path: toOpenApiPath(route.path),
+      summary: doc?.summary || key,
+      description: doc?.description,
+      tags: [doc?.tag || 'Undocumented'],
+      security: auth === 'required' ? [{ [bearerAuth.name]: [] }] : auth === 'optional' ? [{ [bearerAuth.name]: [] }, {}] : undefined,
+      request: {
+        params: pathParams(route.path),
+        query,
+        headers: doc?.headers,
+        body: guards.body ? { required: true, content: { 'application/json': { schema: guards.body } } } : undefined,
+      },
+      responses: {
+        [success.status || 200]: {
+          description: success.description,
+          headers: success.headers ? success.headers.merge(requestIdHeader) : requestIdHeader,
+          content: success.schema ? { 'application/json': { schema: success.schema } } : undefined,
+        },
+        ...Object.fromEntries([...errors].map(([status, { descriptions, schema }]) => [
+          status,
+          { description: descriptions.join('; '), headers: requestIdHeader, content: errorContent(schema) },
+        ])),
+      },
+    });
+  }
+
+  const document = new OpenApiGeneratorV3(registry.definitions).generateDocument({ openapi: '3.0.3', info });
+  return { document, undocumented };
+};
@@ -0,0 +1,79 @@
+import crypto from 'crypto';
+import fs from 'fs';
+import path from 'path';
+import { writeFileAtomic, withFileLock } from './fileUtils';
+import { logger } from './logger';
+
+/**
+ * One-time tokens for the "forgot password" flow. A token is emailed as a link,
+ * expires after PASSWORD_RESET_TTL_MINUTES (default 30) and works once; only its
+ * hash is stored. Requesting a new link invalidates the user's earlier ones.
+ */
+interface PasswordResetRecord {
+  userId: string;
+  hash: string;
+  createdAt: string;
+  expiresAt: string;
+}
+
+const PASSWORD_RESETS_FILE = process.env.PASSWORD_RESETS_FILE || path.join(__dirname, 'password-resets.json');
+
+// Read lazily so values from .env are picked up
+const resetTtlMs = () => Number(process.env.PASSWORD_RESET_TTL_MINUTES || 30) * 60 * 1000;
+
+const hashToken = (token: string) => crypto.createHash('sha256').update(token).digest('base64url');
+
+const loadResets = (): PasswordResetRecord[] => {
+  try {
+    return JSON.parse(fs.readFileSync(PASSWORD_RESETS_FILE, 'utf-8'));
+  } catch (error) {
+    if ((error as NodeJS.ErrnoException).code !== 'ENOENT') {
+      logger.error('Error loading password reset tokens', { error });
+    }
+    return [];
+  }
+};
+
+/**
+ * Applies a change to the stored tokens, dropping expired ones.
+ */
+const updateResets = <T>(fn: (records: PasswordResetRecord[]) => T): T =>
+  withFileLock(`${PASSWORD_RESETS_FILE}.lock`, () => {
+    const records = loadResets();
+    const result = fn(records);
+    const now = new Date().toISOString();
+    writeFileAtomic(PASSWORD_RESETS_FILE, JSON.stringify(records.filter(record => record.expiresAt > now), null, 2));
+    return result;
+  });
+
+/**
+ * Issues a reset token for the user, replacing any earlier ones, and returns it with its expiry.
+ */
+export const createPasswordResetToken = (userId: string): { token: string; expiresAt: string } =>
+  updateResets(records => {
+    const token = crypto.randomBytes(32).toString('base64url');
+    const now = Date.now();
+    const record = {
+      userId,
+      hash: hashToken(token),
+      createdAt: new Date(now).toISOString(),
+      expiresAt: new Date(now + resetTtlMs()).toISOString(),
+    };
+    records.splice(0, records.length, ...records.filter(existing => existing.userId !== userId), record);
+    return { token, expiresAt: record.expiresAt };
+  });
+
+/**
+ * Redeems a reset token. Returns the user ID when the token is valid; the token cannot be used again.
+ */
+export const consumePasswordResetToken = (token: string): string | undefined => {
+  if (!token) return undefined;
+  const hash = hashToken(token);
+  return updateResets(records => {
+    const index = records.findIndex(record => record.hash === hash);
+    if (index === -1) return undefined;
+
+    const [record] = records.splice(index, 1);
+    return record.expiresAt > new Date().toISOString() ? record.userId : undefined;
+  });
+};
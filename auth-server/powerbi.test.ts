@@ -0,0 +1,81 @@
+import { afterEach, beforeEach, describe, expect, it, vi } from 'vitest';
+import { clearPowerBICaches, generatePowerBIEmbed, getPowerBICacheStats } from './powerbi';
+
+const json = (body: unknown) => new Response(JSON.stringify(body), { status: 200 });
+
+// Answers the Power BI calls; requests to URLs containing `hold` wait for `release`
+const stubPowerBI = (hold?: string) => {
+  let release = () => {};
+  const released = new Promise<void>(resolve => { release = resolve; });
+
+  const fetchMock = vi.fn(async (url: string) => {
+    if (hold && url.includes(hold)) await released;
+    if (url.includes('login.microsoftonline.com')) {
+      return json({ access_token: 'access-token', expires_in: 3600 });
+    }
+    if (url.endsWith('/GenerateToken')) {
+      return json({ token: 'embed-token', expiration: new Date(Date.now() + 60 * 60 * 1000).toISOString() });
+    }
+    return json({ embedUrl: 'https://app.powerbi.com/reportEmbed?reportId=report-1' });
+  });
+  vi.stubGlobal('fetch', fetchMock);
+  return { fetchMock, release: () => release() };
+};
+
+const embed = () => generatePowerBIEmbed('report-1', 'dataset-1', undefined, []);
+
+describe('Power BI caches', () => {
+  beforeEach(() => {
+    vi.stubEnv('POWERBI_CLIENT_ID', 'client');
+    vi.stubEnv('POWERBI_CLIENT_SECRET', 'secret');
+    vi.stubEnv('POWERBI_TENANT_ID', 'tenant');
+    vi.stubEnv('POWERBI_GROUP_ID', 'group');
+    clearPowerBICaches();
+  });
+
+  afterEach(() => {
+    vi.unstubAllGlobals();
+    vi.unstubAllEnvs();
+  });
+
+  it('reuses cached tokens and URLs', async () => {
+    const { fetchMock } = stubPowerBI();
+    await embed();
+    await embed();
+
+    expect(fetchMock).toHaveBeenCalledTimes(3);
+    expect(getPowerBICacheStats().embedTokens.size).toBe(1);
+  });
+
+  it('does not refill the caches from requests in flight when they are cleared', async () => {
+    const { fetchMock, release } = stubPowerBI('/GenerateToken');
+    const inFlight = embed();
+    await vi.waitFor(() => expect(fetchMock).toHaveBeenCalledTimes(3));
+
+    clearPowerBICaches();
+    release();
+    await expect(inFlight).resolves.toMatchObject({ embedToken: 'embed-token' });
+
+    const stats = getPowerBICacheStats();
+    expect(stats.accessToken.expiresAt).toBeNull();
+    expect(stats.embedTokens.size).toBe(0);
+    expect(stats.embedUrls.size).toBe(0);
+
+    await embed();
+    expect(fetchMock).toHaveBeenCalledTimes(6);
+  });
+
+  it('starts a new request for callers after the caches are cleared', async () => {
+    const { fetchMock, release } = stubPowerBI('login.microsoftonline.com');
+    const first = embed();
+    await vi.waitFor(() => expect(fetchMock).toHaveBeenCalledTimes(1));
+
+    clearPowerBICaches();
+    const second = embed();
+    await vi.waitFor(() => expect(fetchMock).toHaveBeenCalledTimes(2));
+
+    release();
+    await Promise.all([first, second]);
+    expect(getPowerBICacheStats().accessToken.expiresAt).not.toBeNull();
+  });
+});
@@ -0,0 +1,277 @@
+import type { EffectiveIdentity } from './rls';
+import { logger } from './logger';
+
+export interface PowerBIEmbed {
+  embedToken: string;
+  embedUrl: string;
+  expiration: string; // ISO timestamp after which Power BI rejects the embed token
+}
+
+interface CacheCounters {
+  hits: number;
+  misses: number;
+}
+
+export interface PowerBICacheStats {
+  accessToken: CacheCounters & { expiresAt: string | null };
+  embedTokens: CacheCounters & { size: number };
+  embedUrls: CacheCounters & { size: number };
+}
+
+// Cached values are treated as expired this long before they really expire, so a
+// token handed out is always usable for a while
+const EXPIRY_MARGIN_MS = 5 * 60 * 1000;
+// Embed URLs only change when a report is moved or republished
+const EMBED_URL_TTL_MS = 60 * 60 * 1000;
+const MAX_EMBED_CACHE_ENTRIES = 1000;
+
+let accessTokenCache: { token: string; expiresAt: number } | null = null;
+const embedTokenCache = new Map<string, { embedToken: string; expiration: string; expiresAt: number }>();
+const embedUrlCache = new Map<string, { embedUrl: string; expiresAt: number }>();
+// Requests already in flight, shared by concurrent callers that missed the cache
+const pendingRequests = new Map<string, Promise<unknown>>();
+// Bumped when the caches are cleared, so requests started before that do not refill them
+let cacheGeneration = 0;
+
+const counters = {
+  accessToken: { hits: 0, misses: 0 },
+  embedTokens: { hits: 0, misses: 0 },
+  embedUrls: { hits: 0, misses: 0 },
+};
+
+const getConfig = () => {
+  const { POWERBI_CLIENT_ID, POWERBI_CLIENT_SECRET, POWERBI_TENANT_ID, POWERBI_GROUP_ID } = process.env;
+
+  if (!POWERBI_CLIENT_ID || !POWERBI_CLIENT_SECRET || !POWERBI_TENANT_ID || !POWERBI_GROUP_ID) {
+    throw new Error('Missing PowerBI environment variables');
+  }
+
+  return { clientId: POWERBI_CLIENT_ID, clientSecret: POWERBI_CLIENT_SECRET, tenantId: POWERBI_TENANT_ID, groupId: POWERBI_GROUP_ID };
+};
+
+const dedupe = <T>(key: string, request: () => Promise<T>): Promise<T> => {
+  const existing = pendingRequests.get(key) as Promise<T> | undefined;
+  if (existing) return existing;
+
+  const pending: Promise<T> = request().finally(() => {
+    // The caches may have been cleared and the same request started again meanwhile
+    if (pendingRequests.get(key) === pending) pendingRequests.delete(key);
+  });
+  pendingRequests.set(key, pending);
+  return pending;
+};
+
+/**
+ * Stores a value in a bounded cache, dropping expired entries and then the oldest ones.
+ * Values from requests started before the caches were last cleared are not stored.
+ */
+const cacheSet = <V extends { expiresAt: number }>(cache: Map<string, V>, key: string, value: V, generation: number) => {
+  if (generation !== cacheGeneration) return;
+  const now = Date.now();
+  cache.forEach((entry, entryKey) => {
+    if (entry.expiresAt <= now) cache.delete(entryKey);
+  });
+  while (cache.size >= MAX_EMBED_CACHE_ENTRIES) {
+    cache.delete(cache.keys().next().value!);
+  }
+  cache.set(key, value);
+};
+
+const requestAccessToken = async (): Promise<string> => {
+  const { clientId, clientSecret, tenantId } = getConfig();
+  const generation = cacheGeneration;
+
+  const tokenUrl = `https://login.microsoftonline.com/${tenantId}/oauth2/v2.0/token`;
+  const tokenParams = new URLSearchParams({
+    client_id: clientId,
+    client_secret: clientSecret,
+    scope: 'https://analysis.windows.net/powerbi/api/.default',
+    grant_type: 'client_credentials'
+  });
+
+  const tokenResponse = await fetch(tokenUrl, {
+    method: 'POST',
+    headers: { 'Content-Type': 'application/x-www-form-urlencoded' },
+    body: tokenParams
+  });
+
+  if (!tokenResponse.ok) {
+    const tokenError = await tokenResponse.text();
+    logger.error('Token request failed', { error: tokenError });
+    throw new Error(`Token request failed: ${tokenResponse.statusText}`);
+  }
+
+  const tokenData = await tokenResponse.json();
+  if (generation === cacheGeneration) {
+    accessTokenCache = {
+      token: tokenData.access_token,
+      expiresAt: Date.now() + Number(tokenData.expires_in) * 1000 - EXPIRY_MARGIN_MS,
+    };
+  }
+  return tokenData.access_token;
+};
+
+/**
+ * Service-principal access token for the Power BI REST API, reused until shortly before it expires.
+ */
+const getAccessToken = async (): Promise<string> => {
+  if (accessTokenCache && accessTokenCache.expiresAt > Date.now()) {
+    counters.accessToken.hits++;
+    return accessTokenCache.token;
+  }
+
+  counters.accessToken.misses++;
+  return dedupe('accessToken', requestAccessToken);
+};
+
+const requestEmbedUrl = async (accessToken: string, groupId: string, reportId: string): Promise<string> => {
+  const generation = cacheGeneration;
+  const reportResponse = await fetch(`https://api.powerbi.com/v1.0/myorg/groups/${groupId}/reports/${reportId}`, {
+    headers: { 'Authorization': `Bearer ${accessToken}` }
+  });
+
+  if (!reportResponse.ok) {
+    const reportError = await reportResponse.text();
+    logger.error('Report details fetch failed', { error: reportError });
+    throw new Error(`Report details fetch failed: ${reportResponse.statusText}`);
+  }
+
+  const reportData = await reportResponse.json();
+  cacheSet(embedUrlCache, reportId, { embedUrl: reportData.embedUrl, expiresAt: Date.now() + EMBED_URL_TTL_MS }, generation);
+  return reportData.embedUrl;
+};
+
+const getEmbedUrl = async (accessToken: string, groupId: string, reportId: string): Promise<string> => {
+  const cached = embedUrlCache.get(reportId);
+  if (cached && cached.expiresAt > Date.now()) {
+    counters.embedUrls.hits++;
+    return cached.embedUrl;
+  }
+
+  counters.embedUrls.misses++;
+  return dedupe(`embedUrl:${reportId}`, () => requestEmbedUrl(accessToken, groupId, reportId));
+};
+
+const requestEmbedToken = async (
+  accessToken: string,
+  groupId: string,
+  reportId: string,
+  datasetIds: string[],
+  identities: EffectiveIdentity[]
+) => {
+  // Identities carry the viewer's RLS roles; they are omitted for reports without RLS
+  const embedTokenPayload = {
+    datasets: datasetIds.map(id => ({ id, xmlaPermissions: "ReadOnly" })),
+    reports: [{ id: reportId }],
+    targetWorkspaces: [{ id: groupId }],
+    ...(identities.length > 0 && { identities })
+  };
+
+  // Identities name the viewer, so only their number is logged
+  const payloadSummary = { reportId, datasetIds, groupId, identities: identities.length };
+  logger.debug('Requesting Power BI embed token', payloadSummary);
+
+  const embedTokenResponse = await fetch('https://api.powerbi.com/v1.0/myorg/GenerateToken', {
+    method: 'POST',
+    headers: {
+      'Authorization': `Bearer ${accessToken}`,
+      'Content-Type': 'application/json'
+    },
+    body: JSON.stringify(embedTokenPayload)
+  });
+
+  if (!embedTokenResponse.ok) {
+    const errorText = await embedTokenResponse.text();
+    logger.error('Embed token generation failed', {
+      status: embedTokenResponse.status,
+      statusText: embedTokenResponse.statusText,
+      error: errorText,
+      payload: payloadSummary
+    });
+
+    let errorMessage = `Embed token generation failed: ${embedTokenResponse.statusText}`;
+    try {
+      const errorData = JSON.parse(errorText);
+      if (errorData.error && errorData.error.message) {
+        errorMessage += ` - ${errorData.error.message}`;
+      }
+    } catch (e) {
+      errorMessage += ` - ${errorText}`;
+    }
+
+    throw new Error(errorMessage);
+  }
+
+  const embedTokenData = await embedTokenResponse.json();
+  return { embedToken: embedTokenData.token as string, expiration: embedTokenData.expiration as string };
+};
+
+/**
+ * Datasets an embed token covers: the report's dataset plus a distinct shared dataset.
+ */
+export const embedDatasetIds = (datasetId: string, sharedDatasetId?: string) =>
+  sharedDatasetId && sharedDatasetId !== datasetId ? [datasetId, sharedDatasetId] : [datasetId];
+
+/**
+ * Embed token and URL for a report. Tokens are cached per report, datasets and
+ * effective identity until shortly before they expire, so viewers with the same
+ * identity share one token instead of each costing a GenerateToken call.
+ */
+export const generatePowerBIEmbed = async (
+  reportId: string,
+  datasetId: string,
+  sharedDatasetId: string | undefined,
+  identities: EffectiveIdentity[]
+): Promise<PowerBIEmbed> => {
+  const { groupId } = getConfig();
+  const datasetIds = embedDatasetIds(datasetId, sharedDatasetId);
+
+  logger.debug('Power BI embed request', { reportId, datasetId, sharedDatasetId, groupId });
+
+  const accessToken = await getAccessToken();
+  const embedUrl = await getEmbedUrl(accessToken, groupId, reportId);
+
+  const cacheKey = JSON.stringify({ reportId, datasetIds, identities });
+  const cached = embedTokenCache.get(cacheKey);
+  if (cached && cached.expiresAt > Date.now()) {
+    counters.embedTokens.hits++;
+    return { embedToken: cached.embedToken, embedUrl, expiration: cached.expiration };
+  }
+  counters.embedTokens.misses++;
+
+  const { embedToken, expiration } = await dedupe(`embedToken:${cacheKey}`, async () => {
+    const generation = cacheGeneration;
+    const generated = await requestEmbedToken(accessToken, groupId, reportId, datasetIds, identities);
+    cacheSet(embedTokenCache, cacheKey, { ...generated, expiresAt: Date.parse(generated.expiration) - EXPIRY_MARGIN_MS }, generation);
+    return generated;
+  });
+
+  logger.debug('Power BI embed ready', { reportId, expiration });
+
+  return { embedToken, embedUrl, expiration };
+};
+
+/**
+ * Hit/miss counters and current sizes of the Power BI caches, for the admin dashboard.
+ */
+export const getPowerBICacheStats = (): PowerBICacheStats => ({
+  accessToken: {
+    ...counters.accessToken,
+    expiresAt: accessTokenCache ? new Date(accessTokenCache.expiresAt + EXPIRY_MARGIN_MS).toISOString() : null,
+  },
+  embedTokens: { ...counters.embedTokens, size: embedTokenCache.size },
+  embedUrls: { ...counters.embedUrls, size: embedUrlCache.size },
+});
+
+/**
+ * Drops all cached tokens and URLs (e.g. after changing RLS roles in Power BI). Counters
+ * are kept. Requests in flight still answer their callers but are not cached, and
+ * later callers start new ones.
+ */
+export const clearPowerBICaches = (): void => {
+  cacheGeneration++;
+  pendingRequests.clear();
+  accessTokenCache = null;
+  embedTokenCache.clear();
+  embedUrlCache.clear();
+};
@@ -0,0 +1,72 @@
+import type { Request, Response } from 'express';
+import { afterEach, beforeEach, describe, expect, it, vi } from 'vitest';
+import { getRateLimitPolicy, getThrottledPrincipals, rateLimit } from './rateLimit';
+
+// Runs the middleware for a request and returns the status it answered with (200 when it passed the request on)
+const send = (middleware: ReturnType<typeof rateLimit>, ip: string, body: Record<string, unknown> = {}): number => {
+  let status = 200;
+  const res = {
+    set: () => res,
+    status: (code: number) => {
+      status = code;
+      return res;
+    },
+    json: () => res,
+  } as unknown as Response;
+  middleware({ ip, body } as Request, res, () => undefined);
+  return status;
+};
+
+describe('rateLimit', () => {
+  beforeEach(() => {
+    vi.useFakeTimers({ toFake: ['Date'] });
+    vi.stubEnv('RATE_LIMIT_LOGIN', '3/60/account/6');
+  });
+
+  // Counters outlive each test, so every test uses IPs and accounts of its own
+  afterEach(() => {
+    vi.useRealTimers();
+    vi.unstubAllEnvs();
+  });
+
+  const loginLimit = rateLimit('login', req => req.body.email);
+
+  it('limits one IP trying many accounts', () => {
+    ['a', 'b', 'c', 'd', 'e', 'f'].forEach(name => expect(send(loginLimit, '10.0.0.1', { email: `${name}@example.com` })).toBe(200));
+
+    expect(send(loginLimit, '10.0.0.1', { email: 'g@example.com' })).toBe(429);
+    expect(send(loginLimit, '10.0.0.2', { email: 'g@example.com' })).toBe(200);
+    expect(getThrottledPrincipals()).toContainEqual(expect.objectContaining({ principal: 'ip:10.0.0.1', limit: 6 }));
+  });
+
+  it('lets users behind one IP sign in without using up each other\'s attempts', () => {
+    [1, 2, 3].forEach(() => send(loginLimit, '10.0.3.1', { email: 'cy@example.com' }));
+
+    expect(send(loginLimit, '10.0.3.1', { email: 'cy@example.com' })).toBe(429);
+    expect(send(loginLimit, '10.0.3.1', { email: 'dan@example.com' })).toBe(200);
+  });
+
+  it('limits one account tried from many IPs', () => {
+    [1, 2, 3].forEach(host => expect(send(loginLimit, `10.0.1.${host}`, { email: 'Ann@Example.com' })).toBe(200));
+
+    expect(send(loginLimit, '10.0.1.4', { email: 'ann@example.com' })).toBe(429);
+    expect(send(loginLimit, '10.0.1.4', { email: 'bob@example.com' })).toBe(200);
+    expect(getThrottledPrincipals().map(entry => entry.principal)).toContain('account:ann@example.com');
+  });
+
+  it('gives account policies configured without an IP limit a higher one', () => {
+    vi.stubEnv('RATE_LIMIT_LOGIN', '5/60');
+    expect(getRateLimitPolicy('login')).toEqual({ limit: 5, windowSeconds: 60, key: 'account', ipLimit: 200 });
+
+    vi.stubEnv('RATE_LIMIT_SSO', '5/60/account');
+    expect(getRateLimitPolicy('sso').ipLimit).toBe(100);
+  });
+
+  it('keeps separate counters per policy', () => {
+    const ssoLimit = rateLimit('sso');
+    [1, 2, 3].forEach(() => send(loginLimit, '10.0.2.1', { email: 'eve@example.com' }));
+
+    expect(send(loginLimit, '10.0.2.1', { email: 'eve@example.com' })).toBe(429);
+    expect(send(ssoLimit, '10.0.2.1')).toBe(200);
+  });
+});
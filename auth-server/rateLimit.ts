@@ -0,0 +1,187 @@
+import type { Request, Response, NextFunction } from 'express';
+import { documentMiddleware } from './openapiDocument';
+import { logger } from './logger';
+
+/**
+ * Fixed-window rate limiting for groups of routes. Counters are kept in memory, so
+ * each server instance limits on its own and a restart resets them.
+ *
+ * Policies are configured with `RATE_LIMIT_<POLICY>=<limit>/<windowSeconds>[/<key>[/<ipLimit>]]`,
+ * e.g. `RATE_LIMIT_EMBED=20/60/user` or `RATE_LIMIT_LOGIN=10/300/account/200`.
+ */
+
+export type RateLimitPolicyName = 'login' | 'mfa' | 'sms' | 'email' | 'sso' | 'embed' | 'admin';
+
+// What requests are counted by: the signed-in user (falling back to the IP for anonymous requests), the client IP,
+// or both the client IP and the account the request is for, so neither many accounts from one IP nor one account
+// from many IPs gets past the limit. The IP of an account policy has an allowance of its own (`ipLimit`), so
+// users sharing one address, e.g. behind an office NAT, do not use up each other's attempts
+export type RateLimitKey = 'user' | 'ip' | 'account';
+
+// The account a request is for, e.g. the email of a login attempt; undefined when it names none
+export type AccountOf = (req: Request) => string | undefined;
+
+export interface RateLimitPolicy {
+  limit: number;
+  windowSeconds: number;
+  key: RateLimitKey;
+  ipLimit?: number; // Requests per client IP of `account` policies
+}
+
+// A principal that used up its allowance in the current window
+export interface ThrottledPrincipal {
+  policy: RateLimitPolicyName;
+  principal: string; // `user:<email>`, `ip:<address>` or `account:<identifier>`
+  requests: number; // Including rejected ones
+  limit: number;
+  resetAt: string;
+}
+
+interface Counter {
+  count: number;
+  resetAt: number;
+}
+
+const DEFAULT_POLICIES: Record<RateLimitPolicyName, RateLimitPolicy> = {
+  login: { limit: 10, windowSeconds: 5 * 60, key: 'account', ipLimit: 200 },
+  mfa: { limit: 10, windowSeconds: 5 * 60, key: 'account', ipLimit: 200 },
+  sms: { limit: 10, windowSeconds: 15 * 60, key: 'account', ipLimit: 200 },
+  email: { limit: 10, windowSeconds: 15 * 60, key: 'account', ipLimit: 200 },
+  sso: { limit: 30, windowSeconds: 5 * 60, key: 'ip' },
+  embed: { limit: 10, windowSeconds: 60, key: 'user' },
+  admin: { limit: 120, windowSeconds: 60, key: 'user' },
+};
+
+const CLEANUP_INTERVAL_MS = 60 * 1000;
+// IP allowance of account policies configured without one, as a multiple of the per-account limit
+const DEFAULT_IP_LIMIT_FACTOR = 20;
+
+const counters = new Map<RateLimitPolicyName, Map<string, Counter>>();
+
+// Invalid settings already reported, so the log is not flooded on every request
+const reportedSettings = new Set<string>();
+
+/**
+ * The configured policy, falling back to the default for missing or malformed settings.
+ */
+export const getRateLimitPolicy = (name: RateLimitPolicyName): RateLimitPolicy => {
+  const fallback = DEFAULT_POLICIES[name];
+  const setting = process.env[`RATE_LIMIT_${name.toUpperCase()}`];
+  if (!setting) return fallback;
+
+  const [limit, windowSeconds, key, ipLimit] = setting.split('/').map(part => part.trim());
+  const policy: RateLimitPolicy = {
+    limit: Number(limit),
+    windowSeconds: windowSeconds ? Number(windowSeconds) : fallback.windowSeconds,
+    key: (key || fallback.key) as RateLimitKey,
+  };
+  if (policy.key === 'account') {
+    policy.ipLimit = ipLimit ? Number(ipLimit) : (fallback.ipLimit ?? policy.limit * DEFAULT_IP_LIMIT_FACTOR);
+  }
+  const validIpLimit = policy.ipLimit === undefined || policy.ipLimit > 0;
+  if (!(policy.limit > 0) || !(policy.windowSeconds > 0) || !['user', 'ip', 'account'].includes(policy.key) || !validIpLimit) {
+    if (!reportedSettings.has(`${name}=${setting}`)) {
+      reportedSettings.add(`${name}=${setting}`);
+      logger.warn(`Invalid RATE_LIMIT_${name.toUpperCase()} "${setting}", using the default`);
+    }
+    return fallback;
+  }
+  return policy;
+};
+
+export const getRateLimitPolicies = (): Record<RateLimitPolicyName, RateLimitPolicy> =>
+  Object.fromEntries(
+    (Object.keys(DEFAULT_POLICIES) as RateLimitPolicyName[]).map(name => [name, getRateLimitPolicy(name)])
+  ) as Record<RateLimitPolicyName, RateLimitPolicy>;
+
+// Set by verifyJWT on authenticated routes
+const signedInEmail: AccountOf = req => (req as Request & { user?: { email?: string } }).user?.email;
+
+const principalsFor = (req: Request, key: RateLimitKey, accountOf: AccountOf): string[] => {
+  const ip = `ip:${req.ip}`;
+  if (key === 'ip') return [ip];
+
+  const email = signedInEmail(req);
+  if (key === 'user') return [email ? `user:${email.toLowerCase()}` : ip];
+
+  const account = accountOf(req)?.trim().toLowerCase();
+  return account ? [ip, `account:${account}`] : [ip];
+};
+
+const principalLimit = (policy: RateLimitPolicy, principal: string): number =>
+  policy.key === 'account' && principal.startsWith('ip:') ? policy.ipLimit ?? policy.limit : policy.limit;
+
+/**
+ * Middleware enforcing a policy. Every response carries `RateLimit-Limit`,
+ * `RateLimit-Remaining`, `RateLimit-Reset` (seconds) and `RateLimit-Policy`;
+ * rejected requests get `429` with `Retry-After` and `{ error, retryAfter }`.
+ * Place it after verifyJWT for per-user policies. `accountOf` names the account of
+ * per-account policies, by default the signed-in user.
+ */
+export const rateLimit = (name: RateLimitPolicyName, accountOf: AccountOf = signedInEmail) => documentMiddleware((req: Request, res: Response, next: NextFunction) => {
+  const policy = getRateLimitPolicy(name);
+  const now = Date.now();
+
+  if (!counters.has(name)) counters.set(name, new Map());
+  const policyCounters = counters.get(name)!;
+
+  // With several principals the one with the fewest requests left decides
+  const { counter, limit } = principalsFor(req, policy.key, accountOf)
+    .map(principal => {
+      let principalCounter = policyCounters.get(principal);
+      if (!principalCounter || principalCounter.resetAt <= now) {
+        principalCounter = { count: 0, resetAt: now + policy.windowSeconds * 1000 };
+        policyCounters.set(principal, principalCounter);
+      }
+      principalCounter.count++;
+      return { counter: principalCounter, limit: principalLimit(policy, principal) };
+    })
+    .reduce((least, entry) => (entry.limit - entry.counter.count < least.limit - least.counter.count ? entry : least));
+
+  const resetSeconds = Math.ceil((counter.resetAt - now) / 1000);
+  res.set({
+    'RateLimit-Limit': String(limit),
+    'RateLimit-Remaining': String(Math.max(limit - counter.count, 0)),
+    'RateLimit-Reset': String(resetSeconds),
+    'RateLimit-Policy': `${limit};w=${policy.windowSeconds}`,
+  });
+
+  if (counter.count > limit) {
+    res.set('Retry-After', String(resetSeconds));
+    return res.status(429).json({
+      error: `Too many requests. Please try again in ${resetSeconds} seconds.`,
+      retryAfter: resetSeconds,
+    });
+  }
+  next();
+}, { rateLimit: name });
+
+/**
+ * Principals currently at or over a limit, soonest reset first.
+ */
+export const getThrottledPrincipals = (): ThrottledPrincipal[] => {
+  const now = Date.now();
+  const throttled: ThrottledPrincipal[] = [];
+
+  counters.forEach((policyCounters, policy) => {
+    const settings = getRateLimitPolicy(policy);
+    policyCounters.forEach((counter, principal) => {
+      const limit = principalLimit(settings, principal);
+      if (counter.resetAt > now && counter.count >= limit) {
+        throttled.push({ policy, principal, requests: counter.count, limit, resetAt: new Date(counter.resetAt).toISOString() });
+      }
+    });
+  });
+
+  return throttled.sort((a, b) => a.resetAt.localeCompare(b.resetAt));
+};
+
+// Drop counters of windows that have ended so the maps do not grow without bound
+setInterval(() => {
+  const now = Date.now();
+  counters.forEach(policyCounters => {
+    policyCounters.forEach((counter, principal) => {
+      if (counter.resetAt <= now) policyCounters.delete(principal);
+    });
+  });
+}, CLEANUP_INTERVAL_MS).unref();
@@ -0,0 +1,76 @@
+import { afterEach, describe, expect, it, vi } from 'vitest';
+import { createSession, revokeSession, revokeUserSessions, rotateRefreshToken } from './refreshTokens';
+
+const claims = (email: string) => ({ email, departments: ['Sales'], role: 'viewer' as const });
+
+describe('refresh tokens', () => {
+  afterEach(() => {
+    vi.useRealTimers();
+    vi.unstubAllEnvs();
+  });
+
+  it('rotate into a new token of the same session', () => {
+    const { refreshToken, family } = createSession(claims('ann@example.com'), 'user-1');
+
+    const result = rotateRefreshToken(refreshToken);
+    expect(result.status).toBe('ok');
+    expect(result.status === 'ok' && result.refreshToken).not.toBe(refreshToken);
+    expect(result.status === 'ok' && result.family).toMatchObject({ id: family.id, userId: 'user-1' });
+  });
+
+  it('revoke the whole session when a used token is presented again', () => {
+    const { refreshToken } = createSession(claims('bob@example.com'));
+    const rotated = rotateRefreshToken(refreshToken);
+
+    const replay = rotateRefreshToken(refreshToken);
+    expect(replay.status).toBe('reused');
+    expect(replay.status === 'reused' && replay.family.revokedReason).toBe('refresh-token-reuse');
+    expect(rotated.status === 'ok' && rotateRefreshToken(rotated.refreshToken).status).toBe('invalid');
+  });
+
+  it('refuse unknown tokens and wrong secrets', () => {
+    const { refreshToken } = createSession(claims('cy@example.com'));
+    const [id] = refreshToken.split('.');
+
+    expect(rotateRefreshToken('not-a-token').status).toBe('invalid');
+    expect(rotateRefreshToken(`${id}.wrong-secret`).status).toBe('invalid');
+    expect(rotateRefreshToken(refreshToken).status).toBe('ok');
+  });
+
+  it('expire when unused for the idle timeout and never outlive the session', () => {
+    vi.useFakeTimers({ toFake: ['Date'] });
+    vi.stubEnv('REFRESH_TOKEN_IDLE_DAYS', '7');
+    vi.stubEnv('SESSION_MAX_DAYS', '10');
+    const idle = createSession(claims('dan@example.com')).refreshToken;
+    let token = createSession(claims('dan@example.com')).refreshToken;
+    const rotate = () => {
+      const result = rotateRefreshToken(token);
+      if (result.status === 'ok') token = result.refreshToken;
+      return result.status;
+    };
+
+    vi.advanceTimersByTime(6 * 24 * 60 * 60 * 1000);
+    expect(rotate()).toBe('ok');
+
+    vi.advanceTimersByTime(2 * 24 * 60 * 60 * 1000);
+    expect(rotateRefreshToken(idle).status).toBe('expired');
+    expect(rotate()).toBe('ok');
+
+    // Past the 10 days of the session, although the last token is only 4 days old
+    vi.advanceTimersByTime(3 * 24 * 60 * 60 * 1000);
+    expect(rotate()).toBe('expired');
+  });
+
+  it('are revoked with their session or all sessions of the user', () => {
+    const first = createSession(claims('Fay@example.com'));
+    const second = createSession(claims('fay@example.com'));
+    const other = createSession(claims('gus@example.com'));
+
+    revokeSession(first.family.id, 'logout');
+    expect(rotateRefreshToken(first.refreshToken).status).toBe('invalid');
+
+    expect(revokeUserSessions('FAY@example.com', 'logout-all')).toBe(1);
+    expect(rotateRefreshToken(second.refreshToken).status).toBe('invalid');
+    expect(rotateRefreshToken(other.refreshToken).status).toBe('ok');
+  });
+});
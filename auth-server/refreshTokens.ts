@@ -0,0 +1,185 @@
+import crypto from 'crypto';
+import fs from 'fs';
+import path from 'path';
+import { writeFileAtomic, withFileLock } from './fileUtils';
+import type { Role } from './shared/permissions';
+import { logger } from './logger';
+
+// Claims copied into every access token issued for a session
+export interface SessionClaims {
+  email: string;
+  departments: string[];
+  name?: string;
+  role: Role;
+  upn?: string;
+  groups?: string[]; // Directory groups from the SSO sign-in, for report ACLs
+  uid?: string; // Directory user ID of password logins, for managing their own MFA
+  idp?: string; // Identity provider of SSO sign-ins; emails are only vouched for by that provider
+}
+
+/**
+ * A login session. Each refresh rotates the session's refresh token; all tokens of
+ * one login share a family so a replayed token can revoke the whole session.
+ */
+export interface RefreshFamily {
+  id: string;
+  userId?: string; // Set for users in the local directory so refreshes pick up changes
+  claims: SessionClaims;
+  createdAt: string;
+  expiresAt: string; // Absolute session lifetime, not extended by refreshes
+  revokedAt?: string;
+  revokedReason?: string;
+}
+
+interface RefreshTokenRecord {
+  id: string;
+  familyId: string;
+  hash: string;
+  expiresAt: string;
+  usedAt?: string;
+}
+
+interface SessionData {
+  families: Record<string, RefreshFamily>;
+  tokens: Record<string, RefreshTokenRecord>;
+}
+
+export type RotateResult =
+  | { status: 'ok'; refreshToken: string; family: RefreshFamily }
+  | { status: 'reused'; family: RefreshFamily }
+  | { status: 'invalid' | 'expired' };
+
+const SESSIONS_FILE = process.env.REFRESH_TOKENS_FILE || path.join(__dirname, 'refresh-tokens.json');
+const DAY_MS = 24 * 60 * 60 * 1000;
+
+// Read lazily so values from .env are picked up
+const idleTimeoutMs = () => Number(process.env.REFRESH_TOKEN_IDLE_DAYS || 7) * DAY_MS;
+const maxSessionMs = () => Number(process.env.SESSION_MAX_DAYS || 30) * DAY_MS;
+
+const hashSecret = (secret: string) => crypto.createHash('sha256').update(secret).digest('base64url');
+
+const loadSessions = (): SessionData => {
+  try {
+    return JSON.parse(fs.readFileSync(SESSIONS_FILE, 'utf-8'));
+  } catch (error) {
+    if ((error as NodeJS.ErrnoException).code !== 'ENOENT') {
+      logger.error('Error loading refresh tokens', { error });
+    }
+    return { families: {}, tokens: {} };
+  }
+};
+
+/**
+ * Saves the sessions, dropping expired tokens and sessions past their absolute lifetime.
+ */
+const saveSessions = (data: SessionData): void => {
+  const now = new Date().toISOString();
+  const families = Object.fromEntries(Object.entries(data.families).filter(([, family]) => family.expiresAt > now));
+  const tokens = Object.fromEntries(
+    Object.entries(data.tokens).filter(([, token]) => token.expiresAt > now && families[token.familyId])
+  );
+  writeFileAtomic(SESSIONS_FILE, JSON.stringify({ families, tokens }, null, 2));
+};
+
+const withSessions = <T>(fn: (data: SessionData) => T): T =>
+  withFileLock(`${SESSIONS_FILE}.lock`, () => {
+    const data = loadSessions();
+    const result = fn(data);
+    saveSessions(data);
+    return result;
+  });
+
+/**
+ * Adds a new refresh token to a family and returns it as `<id>.<secret>`. Only a
+ * hash of the secret is stored.
+ */
+const addToken = (data: SessionData, family: RefreshFamily): string => {
+  const id = crypto.randomUUID();
+  const secret = crypto.randomBytes(32).toString('base64url');
+  const idleExpiry = Date.now() + idleTimeoutMs();
+
+  data.tokens[id] = {
+    id,
+    familyId: family.id,
+    hash: hashSecret(secret),
+    expiresAt: new Date(Math.min(idleExpiry, Date.parse(family.expiresAt))).toISOString(),
+  };
+  return `${id}.${secret}`;
+};
+
+/**
+ * Starts a session after a successful login and returns its first refresh token.
+ */
+export const createSession = (claims: SessionClaims, userId?: string): { refreshToken: string; family: RefreshFamily } =>
+  withSessions(data => {
+    const now = Date.now();
+    const family: RefreshFamily = {
+      id: crypto.randomUUID(),
+      ...(userId && { userId }),
+      claims,
+      createdAt: new Date(now).toISOString(),
+      expiresAt: new Date(now + maxSessionMs()).toISOString(),
+    };
+    data.families[family.id] = family;
+    return { refreshToken: addToken(data, family), family };
+  });
+
+/**
+ * Exchanges a refresh token for a new one. A token can be used once; presenting an
+ * already used token means it was stolen or replayed, so the whole session is revoked.
+ */
+export const rotateRefreshToken = (refreshToken: string): RotateResult =>
+  withSessions((data): RotateResult => {
+    const [id, secret] = refreshToken.split('.');
+    const record = id && secret ? data.tokens[id] : undefined;
+    if (!record) return { status: 'invalid' };
+
+    const expected = Buffer.from(record.hash);
+    const actual = Buffer.from(hashSecret(secret));
+    if (expected.length !== actual.length || !crypto.timingSafeEqual(expected, actual)) {
+      return { status: 'invalid' };
+    }
+
+    const family = data.families[record.familyId];
+    if (!family || family.revokedAt) return { status: 'invalid' };
+
+    if (record.usedAt) {
+      family.revokedAt = new Date().toISOString();
+      family.revokedReason = 'refresh-token-reuse';
+      return { status: 'reused', family };
+    }
+
+    if (record.expiresAt <= new Date().toISOString()) return { status: 'expired' };
+
+    record.usedAt = new Date().toISOString();
+    return { status: 'ok', refreshToken: addToken(data, family), family };
+  });
+
+/**
+ * Revokes a session so none of its refresh tokens can be used again.
+ */
+export const revokeSession = (familyId: string, reason: string): void =>
+  withSessions(data => {
+    const family = data.families[familyId];
+    if (family && !family.revokedAt) {
+      family.revokedAt = new Date().toISOString();
+      family.revokedReason = reason;
+    }
+  });
+
+/**
+ * Revokes all of a user's sessions, e.g. for "log out everywhere".
+ * @returns Number of sessions revoked
+ */
+export const revokeUserSessions = (email: string, reason: string): number =>
+  withSessions(data => {
+    const revokedAt = new Date().toISOString();
+    const sessions = Object.values(data.families).filter(
+      family => !family.revokedAt && family.claims.email.toLowerCase() === email.toLowerCase()
+    );
+    sessions.forEach(family => {
+      family.revokedAt = revokedAt;
+      family.revokedReason = reason;
+    });
+    return sessions.length;
+  });
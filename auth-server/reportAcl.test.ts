@@ -0,0 +1,33 @@
+import { describe, expect, it } from 'vitest';
+import { canAccessReport, normalizeAcl } from './reportAcl';
+
+const viewer = { email: 'Ann@Example.com', groups: ['Finance-Team'], role: 'viewer' as const };
+const acl = (allow: Record<string, string[]> = {}, deny: Record<string, string[]> = {}) => ({ allow, deny });
+
+describe('canAccessReport', () => {
+  it('lets everyone in the department see reports without an ACL or allow list', () => {
+    expect(canAccessReport(undefined, viewer)).toBe(true);
+    expect(canAccessReport(acl(), viewer)).toBe(true);
+  });
+
+  it('limits reports with an allow list to the users, groups and roles on it', () => {
+    expect(canAccessReport(acl({ users: ['ann@example.com'] }), viewer)).toBe(true);
+    expect(canAccessReport(acl({ groups: ['finance-team'] }), viewer)).toBe(true);
+    expect(canAccessReport(acl({ roles: ['viewer'] }), viewer)).toBe(true);
+    expect(canAccessReport(acl({ users: ['bob@example.com'], roles: ['department-owner'] }), viewer)).toBe(false);
+  });
+
+  it('lets deny entries win over allow entries', () => {
+    expect(canAccessReport(acl({ users: ['ann@example.com'] }, { groups: ['Finance-Team'] }), viewer)).toBe(false);
+    expect(canAccessReport(acl({}, { roles: ['viewer'] }), viewer)).toBe(false);
+  });
+});
+
+describe('normalizeAcl', () => {
+  it('drops malformed entries and unknown roles', () => {
+    expect(normalizeAcl({ allow: { users: [' Ann@Example.com ', 'ann@example.com', 3, ''], roles: ['viewer', 'owner'] }, deny: 'nobody' })).toEqual({
+      allow: { users: ['ann@example.com'], groups: [], roles: ['viewer'] },
+      deny: { users: [], groups: [], roles: [] },
+    });
+  });
+});
@@ -0,0 +1,71 @@
+import { isRole, Role } from './shared/permissions';
+
+/**
+ * Users, directory groups and roles an ACL list applies to.
+ */
+export interface AclPrincipals {
+  users: string[]; // Emails, matched case-insensitively
+  groups: string[]; // Directory group IDs or names from the sign-in token
+  roles: Role[];
+}
+
+/**
+ * Optional access control list stored on a catalog report (`report.acl`). It narrows
+ * access within the report's department: a viewer matching any deny entry never sees
+ * the report, and when the allow list is not empty the viewer must match one of its
+ * entries. Reports without an ACL are visible to the whole department.
+ */
+export interface ReportAcl {
+  allow: AclPrincipals;
+  deny: AclPrincipals;
+}
+
+/** The viewer an ACL is checked for. */
+export interface AclSubject {
+  email: string;
+  groups?: string[];
+  role: Role;
+}
+
+const toNames = (value: unknown): string[] =>
+  Array.isArray(value)
+    ? [...new Set(value.filter((name): name is string => typeof name === 'string' && name.trim() !== '').map(name => name.trim()))]
+    : [];
+
+const normalizePrincipals = (value: unknown): AclPrincipals => {
+  const principals = (value && typeof value === 'object' ? value : {}) as Partial<Record<keyof AclPrincipals, unknown>>;
+  return {
+    users: [...new Set(toNames(principals.users).map(email => email.toLowerCase()))],
+    groups: toNames(principals.groups),
+    roles: toNames(principals.roles).filter(isRole),
+  };
+};
+
+/**
+ * Reads `report.acl`, dropping malformed entries.
+ */
+export const normalizeAcl = (value: unknown): ReportAcl => {
+  const acl = (value && typeof value === 'object' ? value : {}) as Partial<Record<keyof ReportAcl, unknown>>;
+  return { allow: normalizePrincipals(acl.allow), deny: normalizePrincipals(acl.deny) };
+};
+
+const isEmpty = ({ users, groups, roles }: AclPrincipals) => users.length + groups.length + roles.length === 0;
+
+const matches = (principals: AclPrincipals, subject: AclSubject): boolean => {
+  const groups = (subject.groups || []).map(group => group.toLowerCase());
+  return (
+    principals.users.includes(subject.email.toLowerCase()) ||
+    principals.roles.includes(subject.role) ||
+    principals.groups.some(group => groups.includes(group.toLowerCase()))
+  );
+};
+
+/**
+ * Whether the ACL lets the viewer see the report. Deny entries win over allow entries.
+ * Department membership is checked separately.
+ */
+export const canAccessReport = (value: unknown, subject: AclSubject): boolean => {
+  const { allow, deny } = normalizeAcl(value);
+  if (matches(deny, subject)) return false;
+  return isEmpty(allow) || matches(allow, subject);
+};
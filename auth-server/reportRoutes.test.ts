@@ -0,0 +1,112 @@
+import { afterAll, beforeAll, describe, expect, it, vi } from 'vitest';
+import { signAccessToken } from './accessTokens';
+import type { SessionClaims } from './refreshTokens';
+import { startTestServer, TestServer } from './testServer';
+import { findUserByIdentifier } from './userStore';
+
+let api: TestServer;
+let adminToken: string;
+
+const report = (id: string, fields: Record<string, unknown> = {}) => ({ id, title: `Report ${id}`, ...fields });
+
+// IDs of the reports the user is shown in a department, or the status when refused
+const listed = async (token: string, department: string) => {
+  const response = await api.request(`/api/reports/${encodeURIComponent(department)}`, { token });
+  if (!response.ok) return response.status;
+  return ((await response.json()).reports as { id: string }[]).map(r => r.id);
+};
+
+beforeAll(async () => {
+  vi.stubEnv('MFA_REQUIRED_ROLES', '');
+  api = await startTestServer();
+  adminToken = await api.signIn('admin@example.com', 'super-admin');
+
+  await api.request('/api/admin/reports', {
+    method: 'PUT',
+    token: adminToken,
+    body: { reportsData: { IT: [report('it1')], HR: [report('hr1')], Sales: [report('s1')] } },
+    headers: { 'If-Match': '*' },
+  });
+});
+
+afterAll(() => {
+  api.server.close();
+  vi.unstubAllEnvs();
+});
+
+describe('users in several departments', () => {
+  it('see the reports of each of their departments and no others', async () => {
+    const token = await api.signIn('multi@example.com', 'viewer', ['IT', 'HR']);
+
+    expect(await listed(token, 'IT')).toEqual(['it1']);
+    expect(await listed(token, 'HR')).toEqual(['hr1']);
+    expect(await listed(token, 'Sales')).toBe(403);
+  });
+
+  it('see every department with a role that may view any', async () => {
+    const token = await api.signIn('catalog@example.com', 'catalog-admin', ['IT']);
+    expect(await listed(token, 'Sales')).toEqual(['s1']);
+  });
+
+  it('are read from tokens issued with a single department', async () => {
+    const token = signAccessToken({ email: 'old@example.com', department: 'HR', role: 'viewer' } as unknown as SessionClaims, 'old-session');
+
+    expect(await listed(token, 'HR')).toEqual(['hr1']);
+    expect(await listed(token, 'IT')).toBe(403);
+  });
+
+  it('are assigned by admins as a list or, from older clients, a single department', async () => {
+    await api.signIn('moved@example.com', 'viewer', ['IT']);
+    const { id } = findUserByIdentifier('moved@example.com')!;
+    const update = async (body: unknown) => {
+      const response = await api.request(`/api/admin/users/${id}`, { method: 'PUT', token: adminToken, body });
+      return (await response.json()).user.departments;
+    };
+
+    expect(await update({ departments: ['HR', 'Sales', 'HR'] })).toEqual(['HR', 'Sales']);
+    expect(await update({ department: 'IT' })).toEqual(['IT']);
+  });
+});
+
+describe('report ACLs in GET /api/reports/:department', () => {
+  beforeAll(async () => {
+    const acl = (allow: Record<string, string[]>, deny: Record<string, string[]> = {}) => ({
+      allow: { users: [], groups: [], roles: [], ...allow },
+      deny: { users: [], groups: [], roles: [], ...deny },
+    });
+    await api.request('/api/admin/reports', {
+      method: 'PUT',
+      token: adminToken,
+      body: {
+        reportsData: {
+          Finance: [
+            report('open'),
+            report('named', { acl: acl({ users: ['ann@example.com'] }) }),
+            report('group', { acl: acl({ groups: ['finance-leads'] }) }),
+            report('denied', { acl: acl({}, { users: ['ann@example.com'] }) }),
+            report('inactive', { isActive: false }),
+          ],
+        },
+      },
+      headers: { 'If-Match': '*' },
+    });
+  });
+
+  it('shows viewers the reports their ACLs allow', async () => {
+    const ann = await api.signIn('ann@example.com', 'viewer', ['Finance']);
+    const bob = await api.signIn('bob@example.com', 'viewer', ['Finance']);
+
+    expect(await listed(ann, 'Finance')).toEqual(['open', 'named']);
+    expect(await listed(bob, 'Finance')).toEqual(['open', 'denied']);
+  });
+
+  it('matches the directory groups of SSO sign-ins', async () => {
+    const token = signAccessToken({ email: 'cy@example.com', departments: ['Finance'], role: 'viewer', groups: ['Finance-Leads'] }, 'sso-session');
+    expect(await listed(token, 'Finance')).toEqual(['open', 'group', 'denied']);
+  });
+
+  it('does not hide reports from users who may edit the department, except inactive ones', async () => {
+    const owner = await api.signIn('finance-owner@example.com', 'department-owner', ['Finance']);
+    expect(await listed(owner, 'Finance')).toEqual(['open', 'named', 'group', 'denied']);
+  });
+});
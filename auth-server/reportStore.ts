@@ -0,0 +1,68 @@
+import path from 'path';
+import { createJsonReportStore } from './jsonReportStore';
+import { createSqliteReportStore } from './sqliteReportStore';
+import type { Report, ReportsData } from './shared/schemas';
+
+// The persisted shapes are defined by the schemas in shared/schemas.ts
+export type { Report, ReportsData };
+
+export interface RevisionInfo {
+  revision: number;
+  createdAt: string;
+  actor?: string;
+  summary?: string;
+}
+
+export interface Revision extends RevisionInfo {
+  data: ReportsData;
+}
+
+export interface SaveOptions {
+  actor?: string;
+  summary?: string;
+}
+
+/**
+ * Persistence backend for the report catalog (departments and their reports).
+ * Every save is kept as a numbered revision so earlier catalogs can be diffed and restored.
+ * All methods are synchronous so a load/modify/save cycle can run inside `withLock`.
+ */
+export interface ReportStore {
+  /** Reads the whole catalog. Throws when the backing storage cannot be read. */
+  load(): ReportsData;
+  /** Replaces the whole catalog atomically and records it as a new revision. Throws when the write fails. */
+  save(data: ReportsData, options?: SaveOptions): RevisionInfo;
+  /** Number of the latest revision, or 0 when nothing has been saved yet. */
+  currentRevision(): number;
+  /** All revisions without their data, newest first. */
+  listRevisions(): RevisionInfo[];
+  getRevision(revision: number): Revision | undefined;
+  /**
+   * Runs `fn` while holding the store's write lock so concurrent writers
+   * (other requests or other server processes) cannot clobber each other.
+   * `fn` must be synchronous; nested calls reuse the held lock.
+   */
+  withLock<T>(fn: () => T): T;
+}
+
+const DEFAULT_JSON_FILE = path.join(__dirname, 'reports-data.json');
+const DEFAULT_SQLITE_FILE = path.join(__dirname, 'reports-data.sqlite');
+
+/**
+ * Creates the store selected by REPORT_STORE (`json`, the default, or `sqlite`).
+ * REPORTS_DATA_FILE and REPORTS_DB_FILE override the file locations. The SQLite
+ * store imports REPORTS_DATA_FILE once on first start.
+ */
+export const createReportStore = (): ReportStore => {
+  const kind = (process.env.REPORT_STORE || 'json').toLowerCase();
+  const jsonFile = process.env.REPORTS_DATA_FILE || DEFAULT_JSON_FILE;
+
+  switch (kind) {
+    case 'json':
+      return createJsonReportStore(jsonFile);
+    case 'sqlite':
+      return createSqliteReportStore(process.env.REPORTS_DB_FILE || DEFAULT_SQLITE_FILE, jsonFile);
+    default:
+      throw new Error(`Unknown REPORT_STORE "${kind}" (expected "json" or "sqlite")`);
+  }
+};
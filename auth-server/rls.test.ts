@@ -0,0 +1,45 @@
+import { afterEach, describe, expect, it, vi } from 'vitest';
+import { buildEffectiveIdentities, normalizeRls, rolesForUser } from './rls';
+
+const rls = (fields: object = {}) => normalizeRls({ enabled: true, defaultRoles: ['Staff'], departmentRoles: { Sales: ['SalesRep'], HR: ['HR', 'Staff'] }, ...fields });
+const user = (departments: string[], upn?: string) => ({ email: 'ann@example.com', departments, ...(upn && { upn }) });
+
+describe('row-level security', () => {
+  afterEach(() => {
+    vi.unstubAllEnvs();
+  });
+
+  it('keeps the default role for reports saved before RLS was configurable', () => {
+    vi.stubEnv('POWERBI_DEFAULT_RLS_ROLES', ' RM, Auditor ,');
+    expect(normalizeRls(undefined)).toEqual({ enabled: true, defaultRoles: ['RM', 'Auditor'], departmentRoles: {} });
+    expect(normalizeRls({ enabled: false })).toEqual({ enabled: false, defaultRoles: ['RM', 'Auditor'], departmentRoles: {} });
+  });
+
+  it('drops blank and malformed roles', () => {
+    expect(normalizeRls({ defaultRoles: [' Staff ', '', 7], departmentRoles: { Sales: 'SalesRep', HR: ['HR'] } })).toEqual({
+      enabled: true,
+      defaultRoles: ['Staff'],
+      departmentRoles: { Sales: [], HR: ['HR'] },
+    });
+  });
+
+  it('gives users the roles of all their departments, or the default roles', () => {
+    expect(rolesForUser(rls(), user(['Sales']))).toEqual(['SalesRep']);
+    expect(rolesForUser(rls(), user(['Sales', 'HR', 'IT']))).toEqual(['SalesRep', 'HR', 'Staff']);
+    expect(rolesForUser(rls(), user([]))).toEqual(['Staff']);
+  });
+
+  it('sends one identity per dataset, named by the UPN when there is one', () => {
+    expect(buildEffectiveIdentities(rls(), user(['Sales'], 'ann@corp.example'), ['d1', 'd2'])).toEqual([
+      { username: 'ann@corp.example', roles: ['SalesRep'], datasets: ['d1'] },
+      { username: 'ann@corp.example', roles: ['SalesRep'], datasets: ['d2'] },
+    ]);
+    expect(buildEffectiveIdentities(rls(), user(['IT']), ['d1'])[0].username).toBe('ann@example.com');
+  });
+
+  it('sends no identity when RLS is disabled and refuses users without roles', () => {
+    expect(buildEffectiveIdentities(rls({ enabled: false }), user(['IT']), ['d1'])).toEqual([]);
+    expect(() => buildEffectiveIdentities(rls({ defaultRoles: [] }), user(['IT', 'Ops']), ['d1']))
+      .toThrow('No row-level security roles are mapped for department "IT", "Ops"');
+  });
+});
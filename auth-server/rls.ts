@@ -0,0 +1,85 @@
+/**
+ * Row-level security settings stored on a catalog report (`report.rls`).
+ * When enabled, embed tokens carry the viewer's identity and the roles mapped
+ * to their departments; when disabled no effective identity is sent at all,
+ * which is what Power BI expects for datasets without RLS.
+ */
+export interface ReportRls {
+  enabled: boolean;
+  /** Roles for departments without their own entry in `departmentRoles`. */
+  defaultRoles: string[];
+  departmentRoles: Record<string, string[]>;
+}
+
+/** The viewer an embed token is generated for. */
+export interface RlsUser {
+  email: string;
+  upn?: string;
+  departments: string[];
+}
+
+export interface EffectiveIdentity {
+  username: string;
+  roles: string[];
+  datasets: string[];
+}
+
+// Reports saved before RLS became configurable keep the role they were always embedded with.
+// Read lazily so a value from .env is picked up.
+const defaultRoles = () => (process.env.POWERBI_DEFAULT_RLS_ROLES ?? 'RM')
+  .split(',')
+  .map(role => role.trim())
+  .filter(Boolean);
+
+const toRoles = (value: unknown): string[] =>
+  Array.isArray(value) ? value.filter((role): role is string => typeof role === 'string' && role.trim() !== '').map(role => role.trim()) : [];
+
+/**
+ * Reads `report.rls`, filling in defaults for reports that have none or an incomplete one.
+ */
+export const normalizeRls = (value: unknown): ReportRls => {
+  if (!value || typeof value !== 'object') {
+    return { enabled: true, defaultRoles: defaultRoles(), departmentRoles: {} };
+  }
+
+  const rls = value as Partial<ReportRls>;
+  const departmentRoles = Object.fromEntries(
+    Object.entries(rls.departmentRoles && typeof rls.departmentRoles === 'object' ? rls.departmentRoles : {})
+      .map(([department, roles]) => [department, toRoles(roles)])
+  );
+
+  return {
+    enabled: rls.enabled !== false,
+    defaultRoles: rls.defaultRoles === undefined ? defaultRoles() : toRoles(rls.defaultRoles),
+    departmentRoles,
+  };
+};
+
+/**
+ * Roles the user gets on a report: for each of their departments its mapping, else the
+ * default roles. Users in several departments get the roles of all of them.
+ */
+export const rolesForUser = (rls: ReportRls, user: RlsUser): string[] => {
+  const departments = user.departments.length > 0 ? user.departments : [''];
+  return [...new Set(departments.flatMap(department => rls.departmentRoles[department] ?? rls.defaultRoles))];
+};
+
+/**
+ * Effective identities for the GenerateToken call, one per dataset. Returns an empty
+ * list when RLS is disabled. Throws when RLS is enabled but the user has no roles,
+ * because Power BI rejects identities without roles on RLS datasets.
+ */
+export const buildEffectiveIdentities = (rls: ReportRls, user: RlsUser, datasetIds: string[]): EffectiveIdentity[] => {
+  if (!rls.enabled) return [];
+
+  const roles = rolesForUser(rls, user);
+  if (roles.length === 0) {
+    throw new Error(`No row-level security roles are mapped for department "${user.departments.join('", "')}"`);
+  }
+
+  return datasetIds.map(datasetId => ({
+    username: user.upn || user.email,
+    roles,
+    datasets: [datasetId],
+  }));
+};
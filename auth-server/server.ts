@@ -1,14 +1,104 @@
+import crypto from 'crypto';
 import express, { Request, Response, NextFunction } from 'express';
-import { Issuer } from 'openid-client';
 import cors from 'cors';
+import swaggerUi from 'swagger-ui-express';
 import dotenv from 'dotenv';
-import jwt from 'jsonwebtoken';
-import fs from 'fs';
-import path from 'path';
+import { createReportStore, Report, ReportsData } from './reportStore';
+import { recordAudit, queryAudit } from './auditLog';
+import { diffObjects, diffReportsData } from './diff';
+import { buildEffectiveIdentities, normalizeRls, EffectiveIdentity } from './rls';
+import { canAccessReport } from './reportAcl';
+import { LOGIN_COOKIE, LOGIN_COOKIE_MAX_AGE_MS, completeLogin, isAllowedEmail, listOidcProviders, sanitizeReturnTo, startLogin, warnAboutOidcProviders } from './oidc';
+import { evaluateSsoMapping, loadSsoMapping, normalizeSsoMapping, saveSsoMapping, toSsoIdentity } from './ssoMapping';
+import { generatePowerBIEmbed, embedDatasetIds, getPowerBICacheStats, clearPowerBICaches } from './powerbi';
+import { trustProxyHops } from './clientIp';
+import { createSession, rotateRefreshToken, revokeSession, revokeUserSessions, RotateResult, SessionClaims } from './refreshTokens';
+import { rateLimit, getRateLimitPolicies, getThrottledPrincipals } from './rateLimit';
+import { LoginGate, accountKey, checkLoginAllowed, getAccountLock, recordLoginFailure, recordLoginSuccess, unlockAccount } from './loginLockout';
+import {
+  consumeRecoveryCode,
+  generateRecoveryCodes,
+  generateTotpSecret,
+  isMfaRequired,
+  readMfaChallenge,
+  readMfaEnrollment,
+  signMfaChallenge,
+  signMfaEnrollment,
+  totpQrCode,
+  totpUri,
+  verifyTotp,
+} from './mfa';
+import { createMailTransport } from './mailer';
+import { createSmsSender } from './smsSender';
+import { issueSmsOtp, verifySmsOtp } from './smsOtp';
+import { consumePasswordResetToken, createPasswordResetToken } from './passwordReset';
+import { consumeMagicLinkToken, createMagicLinkToken } from './magicLink';
+import { consumeSsoCode, createSsoCode } from './ssoHandoff';
+import { revokeAccessToken, revokeUserAccessTokens } from './tokenRevocation';
+import { JwtPayload, accessTokenTtlSeconds, readAccessToken, signAccessToken } from './accessTokens';
+import { validateBody, validateQuery } from './validation';
+import { buildOpenApiDocument, documentMiddleware, GeneratedDocument } from './openapiDocument';
+import { ROUTE_DOCS, errorSchema } from './apiDocs';
+import { version } from './package.json';
+import {
+  Permission,
+  Role,
+  canEditDepartment,
+  canViewDepartment,
+  hasPermission,
+  resolveDepartments,
+  resolveRole,
+} from './shared/permissions';
+import {
+  AuditQuery,
+  adminGenerateEmbedSchema,
+  adminResetPasswordSchema,
+  auditQuerySchema,
+  createDepartmentSchema,
+  createUserSchema,
+  emailRequestSchema,
+  generateEmbedSchema,
+  logoutSchema,
+  magicLinkVerifySchema,
+  manualLoginSchema,
+  mfaCodeSchema,
+  mfaEnrollConfirmSchema,
+  mfaEnrollSchema,
+  mfaVerifySchema,
+  refreshSchema,
+  reportUpdateSchema,
+  resetPasswordSchema,
+  revisionDiffQuerySchema,
+  saveCatalogSchema,
+  saveSsoMappingSchema,
+  smsRequestSchema,
+  smsVerifySchema,
+  ssoExchangeSchema,
+  testSsoMappingSchema,
+  updateUserSchema,
+} from './shared/schemas';
+import {
+  listUsers,
+  findUserById,
+  createUser,
+  updateUser,
+  setUserPassword,
+  authenticateUser,
+  findUserByIdentifier,
+  findUserByPhone,
+  normalizePhone,
+  ensureBootstrapAdmin,
+  generateTemporaryPassword,
+  toPublicUser,
+  setUserMfa,
+  UserRecord,
+  UserUpdate,
+} from './userStore';
+import { logger, requestLogger, REQUEST_ID_HEADER } from './logger';
 
 dotenv.config();
 
-const app = express();
+export const app = express();
 const PORT = process.env.PORT || 4000;
 
 const allowedOrigins = [
@@ -16,257 +106,229 @@ const allowedOrigins = [
   process.env.FRONTEND_URL || 'https://your-frontend-app.azurewebsites.net',
 ];
 
-app.use(cors({ origin: allowedOrigins, credentials: true }));
-app.use(express.json({ limit: '10mb' }));
+// Proxies in front of the server, so per-IP rate limits and lockouts see the client address; see clientIp.ts.
+// Without a setting (refused at startup in production) requests are taken to come straight from clients
+app.set('trust proxy', trustProxyHops() ?? 0);
 
-const { CLIENT_ID, CLIENT_SECRET, TENANT_ID, REDIRECT_URI, JWT_SECRET } = process.env;
+// Request IDs and the request log; see logger.ts
+app.use(requestLogger);
 
-interface JwtPayload {
-  email: string;
-  department: string;
-  isAdmin: boolean;
-  name?: string;
-}
+app.use(cors({
+  origin: allowedOrigins,
+  credentials: true,
+  exposedHeaders: [REQUEST_ID_HEADER, 'ETag', 'RateLimit-Limit', 'RateLimit-Remaining', 'RateLimit-Reset', 'RateLimit-Policy', 'Retry-After'],
+}));
+app.use(express.json({ limit: '10mb' }));
+
+const { REDIRECT_URI } = process.env;
 
 interface AuthenticatedRequest extends Request {
   user?: JwtPayload;
 }
 
-type Report = {
-  id: string;
-  name: string;
-  isActive: boolean;
-  [key: string]: any;
-};
+interface MfaRequest extends AuthenticatedRequest {
+  mfaUser?: UserRecord;
+}
 
-type ReportsData = Record<string, Report[]>;
+const reportStore = createReportStore();
+const mailTransport = createMailTransport();
+const smsSender = createSmsSender();
 
 const loadReportsData = (): ReportsData => {
   try {
-    const data = fs.readFileSync(path.join(__dirname, 'reports-data.json'), 'utf-8');
-    return JSON.parse(data);
+    return reportStore.load();
   } catch (error) {
-    console.error('Error loading reports:', error);
+    logger.error('Error loading reports', { error });
     return {};
   }
 };
 
-const saveReportsData = (data: ReportsData): boolean => {
+/**
+ * Runs a load/modify/save cycle under the report store's write lock so two admins
+ * saving at once cannot overwrite each other. Reads and saves inside use reportStore
+ * directly and throw on failure, so an unreadable catalog aborts the write instead of
+ * being replaced and a failed save rolls the whole cycle back. Answers 503 when the
+ * lock could not be taken and 500 when the cycle failed.
+ */
+const withReportsLock = (res: Response, fn: () => Response): Response => {
+  let locked = false;
   try {
-    fs.writeFileSync(path.join(__dirname, 'reports-data.json'), JSON.stringify(data, null, 2));
-    return true;
+    return reportStore.withLock(() => {
+      locked = true;
+      return fn();
+    });
   } catch (error) {
-    console.error('Error saving reports:', error);
-    return false;
+    if (!locked) {
+      logger.error('Report catalog lock unavailable', { error });
+      return res.status(503).json({ error: 'Report catalog is busy or unavailable, please retry' });
+    }
+    logger.error('Report catalog update failed', { error });
+    return res.status(500).json({ error: 'Report catalog update failed' });
   }
 };
 
-const userDatabase = [
-  { email: 'admin@samunnati.com', phone: '', department: 'Admin', password: 'admin123', isAdmin: true },
-  { email: 'bhavya.khatri@gmail.com', phone: '9991110003', department: 'Finance', password: 'password123', isAdmin: false },
-];
+/**
+ * Unsigned `mock.<base64 JSON>` tokens made by the login form's test credentials carry
+ * whatever role the client puts in them, so they are only accepted for local development
+ * with ALLOW_MOCK_TOKENS=true, and never when NODE_ENV is production.
+ */
+const mockTokensAllowed = () => process.env.ALLOW_MOCK_TOKENS === 'true' && process.env.NODE_ENV !== 'production';
 
-const verifyJWT = (req: AuthenticatedRequest, res: Response, next: NextFunction) => {
+const verifyJWT = documentMiddleware((req: AuthenticatedRequest, res: Response, next: NextFunction) => {
   const authHeader = req.headers.authorization;
   const token = authHeader?.split(' ')[1];
   if (!token) return res.status(401).json({ error: 'Token required' });
 
-  // Handle mock tokens for testing
-  if (token.startsWith('mock.')) {
+  if (token.startsWith('mock.') && mockTokensAllowed()) {
     try {
       const payload = token.split('.')[1];
       const decoded = JSON.parse(Buffer.from(payload, 'base64').toString('utf-8'));
-      req.user = decoded as JwtPayload;
+      req.user = { ...decoded, role: resolveRole(decoded), departments: resolveDepartments(decoded) } as JwtPayload;
       return next();
     } catch (err) {
       return res.status(403).json({ error: 'Invalid mock token' });
     }
   }
 
-  // Handle real JWT tokens
-  jwt.verify(token, JWT_SECRET!, (err, decoded) => {
-    if (err) return res.status(403).json({ error: 'Invalid token' });
-    req.user = decoded as JwtPayload;
-    next();
-  });
-};
+  // 401 tells the client to renew the access token with its refresh token
+  const result = readAccessToken(token);
+  if (result.status === 'expired') return res.status(401).json({ error: 'Token expired' });
+  if (result.status === 'wrong-audience') return res.status(401).json({ error: 'Not an access token' });
+  if (result.status === 'revoked') return res.status(401).json({ error: 'Token revoked' });
+  if (result.status !== 'ok') return res.status(403).json({ error: 'Invalid token' });
 
-const verifyAdmin = (req: AuthenticatedRequest, res: Response, next: NextFunction) => {
-  if (!req.user?.isAdmin) return res.status(403).json({ error: 'Admin only' });
+  const { payload } = result;
+  req.user = { ...payload, role: resolveRole(payload), departments: resolveDepartments(payload) };
   next();
+}, { auth: 'required' });
+
+/**
+ * Route guard for one permission of the role matrix in shared/permissions.ts.
+ * Department-scoped permissions are further checked inside the route.
+ */
+const requirePermission = (permission: Permission) =>
+  documentMiddleware((req: AuthenticatedRequest, res: Response, next: NextFunction) => {
+    if (!req.user || !hasPermission(req.user, permission)) {
+      return res.status(403).json({ error: 'You do not have permission to do this' });
+    }
+    next();
+  }, { permission });
+
+/**
+ * The departments of a catalog the user may edit. Users who can edit every
+ * department get the catalog unchanged.
+ */
+const scopeCatalog = (data: ReportsData, user: JwtPayload): ReportsData =>
+  hasPermission(user, 'catalog:edit-any')
+    ? data
+    : Object.fromEntries(Object.entries(data).filter(([department]) => canEditDepartment(user, department)));
+
+/**
+ * Applies a catalog saved by a department-scoped user to the full catalog: their
+ * departments are replaced, all others are kept as they are. Returns an error
+ * message when the save touches departments the user may not edit.
+ */
+const mergeScopedCatalog = (current: ReportsData, submitted: ReportsData, user: JwtPayload): ReportsData | string => {
+  if (hasPermission(user, 'catalog:edit-any')) return submitted;
+
+  const forbidden = Object.keys(submitted).filter(department => !canEditDepartment(user, department) || !current[department]);
+  if (forbidden.length > 0) {
+    return `You cannot change these departments: ${forbidden.join(', ')}`;
+  }
+  return { ...current, ...submitted };
 };
 
-// Rate limiting for embed generation
-const embedRequestCounts = new Map<string, { count: number; resetTime: number }>();
-const EMBED_RATE_LIMIT = 10; // requests per minute
-const EMBED_RATE_WINDOW = 60 * 1000; // 1 minute
-
-const checkEmbedRateLimit = (userEmail: string): boolean => {
-  const now = Date.now();
-  const userLimit = embedRequestCounts.get(userEmail);
-  
-  if (!userLimit || now > userLimit.resetTime) {
-    embedRequestCounts.set(userEmail, { count: 1, resetTime: now + EMBED_RATE_WINDOW });
-    return true;
-  }
-  
-  if (userLimit.count >= EMBED_RATE_LIMIT) {
+/**
+ * The catalog's ETag is its revision number, so any save (by anyone) makes older copies stale.
+ */
+const catalogETag = (revision: number) => `"${revision}"`;
+
+/**
+ * Optimistic concurrency check for catalog writes. Must run inside withReportsLock.
+ * Clients send the ETag they loaded in If-Match (or `*` to force an overwrite); a
+ * missing header gets 428 and a stale one gets 409 with the current catalog so the
+ * client can reload or merge without another round trip.
+ */
+const checkCatalogPrecondition = (req: AuthenticatedRequest, res: Response): boolean => {
+  const ifMatch = req.headers['if-match'];
+  if (!ifMatch) {
+    res.status(428).json({ error: 'If-Match header with the catalog ETag is required' });
     return false;
   }
-  
-  userLimit.count++;
-  return true;
-};
-
-// Generate PowerBI embed token and URL
-const generatePowerBIEmbed = async (reportId: string, datasetId: string, sharedDatasetId?: string) => {
-  const { POWERBI_CLIENT_ID, POWERBI_CLIENT_SECRET, POWERBI_TENANT_ID, POWERBI_GROUP_ID } = process.env;
-  
-  if (!POWERBI_CLIENT_ID || !POWERBI_CLIENT_SECRET || !POWERBI_TENANT_ID || !POWERBI_GROUP_ID) {
-    throw new Error('Missing PowerBI environment variables');
-  }
-
-  console.log('PowerBI Embed Request:', { reportId, datasetId, sharedDatasetId, groupId: POWERBI_GROUP_ID });
-
-  const authority = `https://login.microsoftonline.com/${POWERBI_TENANT_ID}`;
-  const scope = 'https://analysis.windows.net/powerbi/api/.default';
-  
-  // Get access token
-  const tokenUrl = `${authority}/oauth2/v2.0/token`;
-  const tokenParams = new URLSearchParams({
-    client_id: POWERBI_CLIENT_ID,
-    client_secret: POWERBI_CLIENT_SECRET,
-    scope: scope,
-    grant_type: 'client_credentials'
-  });
 
-  const tokenResponse = await fetch(tokenUrl, {
-    method: 'POST',
-    headers: { 'Content-Type': 'application/x-www-form-urlencoded' },
-    body: tokenParams
+  const current = reportStore.currentRevision();
+  const matches = ifMatch.split(',').some(tag => {
+    const trimmed = tag.trim();
+    return trimmed === '*' || trimmed.replace(/^W\//, '') === catalogETag(current);
   });
+  if (matches) return true;
 
-  if (!tokenResponse.ok) {
-    const tokenError = await tokenResponse.text();
-    console.error('Token request failed:', tokenError);
-    throw new Error(`Token request failed: ${tokenResponse.statusText}`);
-  }
-
-  const tokenData = await tokenResponse.json();
-  const accessToken = tokenData.access_token;
-
-  // Generate embed token
-  const datasets = [{ id: datasetId, xmlaPermissions: "ReadOnly" }];
-  
-  // Only add sharedDatasetId if it's provided and different from datasetId
-  if (sharedDatasetId && sharedDatasetId !== datasetId) {
-    datasets.push({ id: sharedDatasetId, xmlaPermissions: "ReadOnly" });
-  }
-
-  // Always provide identities - PowerBI requires effective identity for RLS-enabled datasets
-  
-  // Add identity for the main dataset
-  const identities: {
-    username: string;
-    roles: string[];
-    datasets: string[];
-  }[] = [];
-
-  identities.push({
-    username: 'saineeraj.kumar@samunnati.com',
-    roles: ['RM'],
-    datasets: [datasetId]
+  res.set('ETag', catalogETag(current));
+  res.status(409).json({
+    error: 'The report catalog was changed by someone else since you loaded it',
+    currentRevision: current,
+    reportsData: scopeCatalog(reportStore.load(), req.user!),
   });
+  return false;
+};
 
-  if (sharedDatasetId && sharedDatasetId !== datasetId) {
-    identities.push({
-      username: 'saineeraj.kumar@samunnati.com',
-      roles: ['RM'],
-      datasets: [sharedDatasetId]
-    });
-  }
-
-
-  const embedTokenPayload = {
-    datasets: datasets,
-    reports: [{ id: reportId }],
-    targetWorkspaces: [{ id: POWERBI_GROUP_ID }],
-    identities: identities
-  };
-
-  console.log('PowerBI Embed Token Payload:', JSON.stringify(embedTokenPayload, null, 2));
-
-  const embedTokenResponse = await fetch('https://api.powerbi.com/v1.0/myorg/GenerateToken', {
-    method: 'POST',
-    headers: {
-      'Authorization': `Bearer ${accessToken}`,
-      'Content-Type': 'application/json'
-    },
-    body: JSON.stringify(embedTokenPayload)
-  });
+/**
+ * Whether a report is listed for the user: active and allowed by its ACL. Users who may
+ * edit the report's department see every report, since they could change the ACL anyway.
+ */
+const isReportVisible = (user: JwtPayload, department: string, report: Report): boolean =>
+  canEditDepartment(user, department) || (report.isActive !== false && canAccessReport(report.acl, user));
+
+/**
+ * Finds the catalog entry for a Power BI report among the departments the user may view.
+ * Inactive reports and reports hidden by their ACL are only found in departments the user may edit.
+ */
+const findCatalogReport = (user: JwtPayload, powerBIReportId: string): Report | undefined => {
+  const data = loadReportsData();
+  for (const department of Object.keys(data)) {
+    if (!canEditDepartment(user, department) && !canViewDepartment(user, department)) continue;
 
-  if (!embedTokenResponse.ok) {
-    const errorText = await embedTokenResponse.text();
-    console.error('Embed token generation failed:', {
-      status: embedTokenResponse.status,
-      statusText: embedTokenResponse.statusText,
-      error: errorText,
-      payload: embedTokenPayload
-    });
-    
-    let errorMessage = `Embed token generation failed: ${embedTokenResponse.statusText}`;
-    try {
-      const errorData = JSON.parse(errorText);
-      if (errorData.error && errorData.error.message) {
-        errorMessage += ` - ${errorData.error.message}`;
-      }
-    } catch (e) {
-      errorMessage += ` - ${errorText}`;
-    }
-    
-    throw new Error(errorMessage);
+    const report = data[department].find(r => r.reportId === powerBIReportId && isReportVisible(user, department, r));
+    if (report) return report;
   }
+  return undefined;
+};
 
-  const embedTokenData = await embedTokenResponse.json();
-  const embedToken = embedTokenData.token;
-
-  // Get embed URL
-  const reportResponse = await fetch(`https://api.powerbi.com/v1.0/myorg/groups/${POWERBI_GROUP_ID}/reports/${reportId}`, {
-    headers: { 'Authorization': `Bearer ${accessToken}` }
-  });
+/**
+ * The Power BI report and datasets of a catalog report, as passed to generatePowerBIEmbed.
+ */
+const catalogEmbedIds = (report: Report) => ({
+  reportId: report.reportId!,
+  datasetId: report.datasetId,
+  sharedDatasetId: report.sharedDatasetId || report.coreDatasetId,
+});
 
-  if (!reportResponse.ok) {
-    const reportError = await reportResponse.text();
-    console.error('Report details fetch failed:', reportError);
-    throw new Error(`Report details fetch failed: ${reportResponse.statusText}`);
+// 🆕 NEW ROUTE: Generate embed token and URL dynamically for any authenticated user with rate limiting
+app.post('/api/reports/generate-embed', verifyJWT, rateLimit('embed'), validateBody(generateEmbedSchema), async (req: AuthenticatedRequest, res: Response) => {
+  // Datasets and RLS roles come from the catalog entry, so only reports the user can see may be
+  // embedded, and their tokens only cover the datasets those reports use
+  const report = findCatalogReport(req.user!, req.body.reportId);
+  if (!report) {
+    return res.status(404).json({ error: 'Report not found' });
   }
 
-  const reportData = await reportResponse.json();
-  const embedUrl = reportData.embedUrl;
-
-  console.log('PowerBI Embed Success:', { reportId, embedUrl: embedUrl.substring(0, 50) + '...' });
-
-  return { embedToken, embedUrl };
-};
-
-// 🆕 NEW ROUTE: Generate embed token and URL dynamically for any authenticated user with rate limiting
-app.post('/api/reports/generate-embed', verifyJWT, async (req: AuthenticatedRequest, res: Response) => {
-  const { reportId, datasetId, sharedDatasetId } = req.body;
-  
-  if (!reportId || !datasetId) {
-    return res.status(400).json({ error: 'Missing embed parameters: reportId and datasetId are required' });
+  const { reportId, datasetId, sharedDatasetId } = catalogEmbedIds(report);
+  if (!datasetId) {
+    return res.status(400).json({ error: 'This report has no dataset configured in the catalog' });
   }
 
-  // Apply rate limiting
-  if (!checkEmbedRateLimit(req.user!.email)) {
-    return res.status(429).json({ error: 'Rate limit exceeded. Please wait before generating more embed tokens.' });
+  let identities: EffectiveIdentity[];
+  try {
+    identities = buildEffectiveIdentities(normalizeRls(report.rls), req.user!, embedDatasetIds(datasetId, sharedDatasetId));
+  } catch (error) {
+    return res.status(403).json({ error: (error as Error).message });
   }
 
   try {
-    const { embedToken, embedUrl } = await generatePowerBIEmbed(reportId, datasetId, sharedDatasetId);
-    return res.json({ embedToken, embedUrl });
+    const { embedToken, embedUrl, expiration } = await generatePowerBIEmbed(reportId, datasetId, sharedDatasetId, identities);
+    return res.json({ embedToken, embedUrl, expiration });
   } catch (error) {
-    console.error('Embed generation error:', error);
+    logger.error('Embed generation error', { error });
     return res.status(500).json({ error: 'Failed to generate embed token or URL' });
   }
 });
@@ -274,21 +336,20 @@ app.post('/api/reports/generate-embed', verifyJWT, async (req: AuthenticatedRequ
 // 📊 GET department reports - Updated to include PowerBI details for all users
 app.get('/api/reports/:department', verifyJWT, (req: AuthenticatedRequest, res: Response) => {
   const department = decodeURIComponent(req.params.department);
-  const { department: userDept, isAdmin } = req.user!;
-  
-  // Allow admins to access any department, non-admins only their own
-  if (!isAdmin && department !== userDept) {
+
+  // Users see their own department; roles with reports:view-any see every department
+  if (!canViewDepartment(req.user!, department)) {
     return res.status(403).json({ error: 'Access denied' });
   }
 
   const reports = loadReportsData();
   const departmentReports = reports[department] || [];
 
-  // Filter active reports and include all PowerBI details for ALL users
+  // Filter active reports the report ACLs let the user see and include all PowerBI details
   const filteredReports = departmentReports
-    .filter(report => report.isActive !== false)
+    .filter(report => report.isActive !== false && isReportVisible(req.user!, department, report))
     .map(report => {
-      const { id, title, description, icon, powerBIReportId, isActive, embedUrl, embedToken, reportId, clientId, tenantId, datasetId, sharedDatasetId } = report;
+      const { id, title, description, icon, powerBIReportId, isActive, embedUrl, embedToken, reportId, clientId, tenantId, datasetId, sharedDatasetId, coreDatasetId } = report;
       return { 
         id, 
         title, 
@@ -302,195 +363,1038 @@ app.get('/api/reports/:department', verifyJWT, (req: AuthenticatedRequest, res:
         clientId, 
         tenantId,
         datasetId,
-        sharedDatasetId
+        sharedDatasetId: sharedDatasetId || coreDatasetId
       };
     });
 
   return res.json({ reports: filteredReports });
 });
 
+// Every admin route requires a signed-in user and is rate limited per user, on top of its own checks
+app.use('/api/admin', verifyJWT, rateLimit('admin'));
+
 // 🔐 ADMIN - get all departments
-app.get('/api/admin/departments', verifyJWT, verifyAdmin, (_req, res) => {
+app.get('/api/admin/departments', requirePermission('catalog:edit'), (req: AuthenticatedRequest, res: Response) => {
   const reportsData = loadReportsData();
-  const departments = Object.keys(reportsData);
+  const departments = Object.keys(scopeCatalog(reportsData, req.user!));
   return res.json({ departments });
 });
 
 // 🔐 ADMIN - add department
-app.post('/api/admin/departments', verifyJWT, verifyAdmin, (req, res) => {
+app.post('/api/admin/departments', requirePermission('departments:manage'), validateBody(createDepartmentSchema), (req: AuthenticatedRequest, res: Response) => {
   const { departmentName } = req.body;
-  if (!departmentName || typeof departmentName !== 'string') {
-    return res.status(400).json({ error: 'Department name is required' });
-  }
 
-  const reportsData = loadReportsData();
-  if (reportsData[departmentName]) {
-    return res.status(400).json({ error: 'Department already exists' });
-  }
+  return withReportsLock(res, () => {
+    const reportsData = reportStore.load();
+    if (reportsData[departmentName]) {
+      return res.status(400).json({ error: 'Department already exists' });
+    }
 
-  reportsData[departmentName] = [];
-  const success = saveReportsData(reportsData);
-  
-  return success 
-    ? res.json({ message: 'Department added successfully' })
-    : res.status(500).json({ error: 'Failed to save department' });
+    reportsData[departmentName] = [];
+    reportStore.save(reportsData, { actor: req.user!.email, summary: `Added department ${departmentName}` });
+
+    recordAudit({
+      actor: req.user!.email,
+      action: 'department.create',
+      target: departmentName,
+      changes: diffReportsData({}, { [departmentName]: [] }),
+    });
+    return res.json({ message: 'Department added successfully' });
+  });
 });
 
 // 🔐 ADMIN - delete department
-app.delete('/api/admin/departments/:departmentName', verifyJWT, verifyAdmin, (req, res) => {
+app.delete('/api/admin/departments/:departmentName', requirePermission('departments:manage'), (req: AuthenticatedRequest, res: Response) => {
   const { departmentName } = req.params;
-  const reportsData = loadReportsData();
-  
-  if (!reportsData[departmentName]) {
-    return res.status(404).json({ error: 'Department not found' });
-  }
 
-  delete reportsData[departmentName];
-  const success = saveReportsData(reportsData);
-  
-  return success 
-    ? res.json({ message: 'Department deleted successfully' })
-    : res.status(500).json({ error: 'Failed to delete department' });
+  return withReportsLock(res, () => {
+    const reportsData = reportStore.load();
+    if (!reportsData[departmentName]) {
+      return res.status(404).json({ error: 'Department not found' });
+    }
+
+    const removedReports = reportsData[departmentName];
+    delete reportsData[departmentName];
+    reportStore.save(reportsData, { actor: req.user!.email, summary: `Deleted department ${departmentName}` });
+
+    recordAudit({
+      actor: req.user!.email,
+      action: 'department.delete',
+      target: departmentName,
+      changes: diffReportsData({ [departmentName]: removedReports }, {}),
+    });
+    return res.json({ message: 'Department deleted successfully' });
+  });
 });
 
 // 🔐 ADMIN - generate PowerBI embed details with rate limiting
-app.post('/api/admin/generate-embed', verifyJWT, verifyAdmin, async (req: AuthenticatedRequest, res: Response) => {
-  const { reportId, datasetId, sharedDatasetId } = req.body;
-  
-  if (!reportId || !datasetId) {
-    return res.status(400).json({ error: 'Report ID and dataset ID are required' });
+app.post('/api/admin/generate-embed', requirePermission('catalog:edit'), rateLimit('embed'), validateBody(adminGenerateEmbedSchema), async (req: AuthenticatedRequest, res: Response) => {
+  const { rls } = req.body;
+
+  // Reports saved in other departments cannot be previewed, whichever datasets are named
+  const catalog = Object.entries(loadReportsData());
+  const report = catalog
+    .filter(([department]) => canEditDepartment(req.user!, department))
+    .flatMap(([, reports]) => reports)
+    .find(r => r.reportId === req.body.reportId);
+  if (!report && catalog.some(([, reports]) => reports.some(r => r.reportId === req.body.reportId))) {
+    return res.status(403).json({ error: 'You cannot preview reports of other departments' });
+  }
+
+  // Datasets named in the request (e.g. for a report not saved yet) take the place of the catalog entry's
+  const embedIds = req.body.datasetId
+    ? { reportId: req.body.reportId, datasetId: req.body.datasetId, sharedDatasetId: req.body.sharedDatasetId }
+    : report && catalogEmbedIds(report);
+  if (!embedIds) {
+    return res.status(404).json({ error: 'Report not found in the catalog of your departments. Enter its dataset ID to preview it before saving.' });
   }
 
-  // Apply rate limiting for admins too
-  if (!checkEmbedRateLimit(req.user!.email)) {
-    return res.status(429).json({ error: 'Rate limit exceeded. Please wait before generating more embed tokens.' });
+  const { reportId, datasetId, sharedDatasetId } = embedIds;
+  if (!datasetId) {
+    return res.status(400).json({ error: 'This report has no dataset configured in the catalog' });
   }
 
+  // The editor sends the RLS settings being edited, which the user could save anyway; otherwise use the saved ones
+  const rlsSettings = normalizeRls(rls !== undefined ? rls : report?.rls);
+
+  let identities: EffectiveIdentity[];
   try {
-    const { embedToken, embedUrl } = await generatePowerBIEmbed(reportId, datasetId, sharedDatasetId);
-    return res.json({ embedToken, embedUrl });
+    identities = buildEffectiveIdentities(rlsSettings, req.user!, embedDatasetIds(datasetId, sharedDatasetId));
   } catch (error) {
-    console.error('PowerBI embed generation error:', error);
+    return res.status(403).json({ error: (error as Error).message });
+  }
+
+  try {
+    const { embedToken, embedUrl, expiration } = await generatePowerBIEmbed(reportId, datasetId, sharedDatasetId, identities);
+    return res.json({ embedToken, embedUrl, expiration });
+  } catch (error) {
+    logger.error('PowerBI embed generation error', { error });
     return res.status(500).json({ error: 'Failed to generate embed details' });
   }
 });
 
 // 🔐 ADMIN - get all
-app.get('/api/admin/reports', verifyJWT, verifyAdmin, (_req, res) => {
-  return res.json(loadReportsData());
+app.get('/api/admin/reports', requirePermission('catalog:edit'), (req: AuthenticatedRequest, res: Response) => {
+  // Read the revision and the data under the lock so the ETag always describes the body
+  return withReportsLock(res, () => {
+    res.set('ETag', catalogETag(reportStore.currentRevision()));
+    return res.json(scopeCatalog(reportStore.load(), req.user!));
+  });
 });
 
-app.get('/api/admin/all-reports', verifyJWT, verifyAdmin, (_req, res) => {
-  const reportsData = loadReportsData();
+app.get('/api/admin/all-reports', requirePermission('catalog:edit'), (req: AuthenticatedRequest, res: Response) => {
+  const reportsData = scopeCatalog(loadReportsData(), req.user!);
   const allReports = Object.entries(reportsData).flatMap(([dept, reports]) =>
     reports.map(r => ({ ...r, department: dept }))
   );
-  console.log('Sending all reports:', { reports: allReports });
+  logger.debug('Listing all reports', { count: allReports.length });
   return res.json({ reports: allReports });
 });
 
 // 🔄 ADMIN - update entire dataset
-app.put('/api/admin/reports', verifyJWT, verifyAdmin, (req, res) => {
-  const success = saveReportsData(req.body.reportsData);
-  return success ? res.json({ message: 'Saved' }) : res.status(500).json({ error: 'Save failed' });
+app.put('/api/admin/reports', requirePermission('catalog:edit'), validateBody(saveCatalogSchema), (req: AuthenticatedRequest, res: Response) => {
+  const reportsData: ReportsData = req.body.reportsData;
+
+  return withReportsLock(res, () => {
+    if (!checkCatalogPrecondition(req, res)) return res;
+
+    const before = reportStore.load();
+    const after = mergeScopedCatalog(before, reportsData, req.user!);
+    if (typeof after === 'string') return res.status(403).json({ error: after });
+
+    const revision = reportStore.save(after, { actor: req.user!.email, summary: 'Saved all reports' });
+
+    recordAudit({
+      actor: req.user!.email,
+      action: 'reports.replace',
+      target: 'catalog',
+      changes: diffReportsData(before, after),
+    });
+    res.set('ETag', catalogETag(revision.revision));
+    return res.json({ message: 'Saved', revision: revision.revision });
+  });
+});
+
+// 🕘 ADMIN - list catalog revisions, newest first
+app.get('/api/admin/reports/revisions', requirePermission('catalog:history'), (_req, res) => {
+  return res.json({ current: reportStore.currentRevision(), revisions: reportStore.listRevisions() });
+});
+
+// 🕘 ADMIN - diff two revisions (`to` defaults to the current revision)
+app.get('/api/admin/reports/revisions/diff', requirePermission('catalog:history'), validateQuery(revisionDiffQuerySchema), (req, res) => {
+  const from = Number(req.query.from);
+  const to = req.query.to === undefined ? reportStore.currentRevision() : Number(req.query.to);
+
+  const fromRevision = reportStore.getRevision(from);
+  const toRevision = reportStore.getRevision(to);
+  if (!fromRevision || !toRevision) return res.status(404).json({ error: 'Revision not found' });
+
+  return res.json({ from, to, changes: diffReportsData(fromRevision.data, toRevision.data) });
+});
+
+// 🕘 ADMIN - get one revision including its catalog
+app.get('/api/admin/reports/revisions/:revision', requirePermission('catalog:history'), (req, res) => {
+  const revision = reportStore.getRevision(Number(req.params.revision));
+  return revision ? res.json(revision) : res.status(404).json({ error: 'Revision not found' });
+});
+
+// 🕘 ADMIN - restore a revision by saving its catalog as a new revision
+app.post('/api/admin/reports/revisions/:revision/restore', requirePermission('catalog:history'), (req: AuthenticatedRequest, res: Response) => {
+  return withReportsLock(res, () => {
+    if (!checkCatalogPrecondition(req, res)) return res;
+
+    const target = reportStore.getRevision(Number(req.params.revision));
+    if (!target) return res.status(404).json({ error: 'Revision not found' });
+
+    const before = reportStore.load();
+    const revision = reportStore.save(target.data, {
+      actor: req.user!.email,
+      summary: `Restored revision ${target.revision}`,
+    });
+
+    recordAudit({
+      actor: req.user!.email,
+      action: 'reports.restore',
+      target: `revision ${target.revision}`,
+      changes: diffReportsData(before, target.data),
+    });
+    res.set('ETag', catalogETag(revision.revision));
+    return res.json({ message: `Restored revision ${target.revision}`, revision: revision.revision });
+  });
 });
 
 // 🔄 ADMIN - update single report
-app.put('/api/admin/reports/:department/:reportId', verifyJWT, verifyAdmin, (req, res) => {
+app.put('/api/admin/reports/:department/:reportId', requirePermission('catalog:edit'), validateBody(reportUpdateSchema), (req: AuthenticatedRequest, res: Response) => {
   const { department, reportId } = req.params;
-  const newData: Report = req.body;
-  const data = loadReportsData();
+  const newData: Partial<Report> = req.body;
+
+  if (!canEditDepartment(req.user!, department)) {
+    return res.status(403).json({ error: 'You cannot edit reports of this department' });
+  }
 
-  if (!data[department]) return res.status(404).json({ error: 'Department not found' });
+  return withReportsLock(res, () => {
+    if (!checkCatalogPrecondition(req, res)) return res;
 
-  const index = data[department].findIndex(r => r.id === reportId);
-  if (index === -1) return res.status(404).json({ error: 'Report not found' });
+    const data = reportStore.load();
+    if (!data[department]) return res.status(404).json({ error: 'Department not found' });
 
-  data[department][index] = { ...data[department][index], ...newData };
-  return saveReportsData(data)
-    ? res.json({ message: 'Updated', report: data[department][index] })
-    : res.status(500).json({ error: 'Save failed' });
+    const index = data[department].findIndex(r => r.id === reportId);
+    if (index === -1) return res.status(404).json({ error: 'Report not found' });
+
+    const before = data[department][index];
+    data[department][index] = { ...before, ...newData };
+    const saved = reportStore.save(data, { actor: req.user!.email, summary: `Updated report ${department}/${reportId}` });
+
+    recordAudit({
+      actor: req.user!.email,
+      action: 'report.update',
+      target: `${department}/${reportId}`,
+      changes: diffObjects(before, data[department][index], `${department}/${reportId}.`),
+    });
+    res.set('ETag', catalogETag(saved.revision));
+    return res.json({ message: 'Updated', report: data[department][index] });
+  });
 });
 
 // 📊 Admin stats
-app.get('/api/admin/stats', verifyJWT, verifyAdmin, (_req, res) => {
+app.get('/api/admin/stats', requirePermission('stats:view'), (req: AuthenticatedRequest, res: Response) => {
   const reports = loadReportsData();
   const totalReports = Object.values(reports).reduce((acc, r) => acc + r.length, 0);
   const activeReports = Object.values(reports).reduce(
     (acc, r) => acc + r.filter(x => x.isActive).length,
     0
   );
-  res.json({ totalUsers: userDatabase.length, totalReports, activeReports });
+  res.json({
+    totalUsers: listUsers().length,
+    totalReports,
+    activeReports,
+    ...(hasPermission(req.user!, 'powerbi-cache:manage') && { powerBICache: getPowerBICacheStats() }),
+  });
+});
+
+// 🔐 ADMIN - drop cached Power BI access and embed tokens
+app.delete('/api/admin/powerbi-cache', requirePermission('powerbi-cache:manage'), (_req, res) => {
+  clearPowerBICaches();
+  res.json({ message: 'Power BI cache cleared', powerBICache: getPowerBICacheStats() });
+});
+
+// 🚦 ADMIN - rate limit policies and the principals currently throttled
+app.get('/api/admin/rate-limits', requirePermission('users:manage'), (_req, res) => {
+  return res.json({ policies: getRateLimitPolicies(), throttled: getThrottledPrincipals() });
+});
+
+/**
+ * Reads a user's departments from a request body: a `departments` list, or a single
+ * `department` as sent by older clients. Returns undefined when neither is present.
+ */
+const departmentsFromBody = (body: { departments?: unknown; department?: unknown }): string[] | undefined => {
+  if (body.departments === undefined && body.department === undefined) return undefined;
+  return [...new Set(resolveDepartments(body).map(department => department.trim()).filter(Boolean))];
+};
+
+// 👥 ADMIN - list users
+app.get('/api/admin/users', requirePermission('users:manage'), (_req, res) => {
+  const users = listUsers().map(user => ({
+    ...toPublicUser(user),
+    mfaRequired: isMfaRequired(user.role),
+    lockedUntil: getAccountLock(accountKey(user.email, user)),
+  }));
+  return res.json({ users });
 });
 
-// 🔑 SSO login URL
-app.get('/auth/login-url', async (_req, res) => {
-  const issuer = await Issuer.discover(`https://login.microsoftonline.com/${TENANT_ID}/v2.0/.well-known/openid-configuration`);
-  const client = new issuer.Client({
-    client_id: CLIENT_ID!,
-    client_secret: CLIENT_SECRET!,
-    redirect_uris: [REDIRECT_URI!],
-    response_types: ['code'],
+// 👥 ADMIN - create user
+app.post('/api/admin/users', requirePermission('users:manage'), validateBody(createUserSchema), (req: AuthenticatedRequest, res: Response) => {
+  const { email, phone, name, role, password } = req.body;
+  const departments = departmentsFromBody(req.body)!;
+
+  try {
+    const user = createUser({ email, phone, name, departments, role, password });
+    recordAudit({
+      actor: req.user!.email,
+      action: 'user.create',
+      target: user.email,
+      changes: diffObjects({}, toPublicUser(user)),
+    });
+    return res.status(201).json({ user: toPublicUser(user) });
+  } catch (error) {
+    return res.status(400).json({ error: (error as Error).message });
+  }
+});
+
+// 👥 ADMIN - update departments, role, contact details or disabled state
+app.put('/api/admin/users/:id', requirePermission('users:manage'), validateBody(updateUserSchema), (req: AuthenticatedRequest, res: Response) => {
+  const existing = findUserById(req.params.id);
+  if (!existing) return res.status(404).json({ error: 'User not found' });
+
+  const { phone, name, role, disabled } = req.body;
+  const departments = departmentsFromBody(req.body);
+
+  const update: UserUpdate = {};
+  if (phone !== undefined) update.phone = phone;
+  if (name !== undefined) update.name = name;
+  if (departments) update.departments = departments;
+  if (role !== undefined) update.role = role;
+  if (disabled !== undefined) update.disabled = disabled;
+
+  // Stop admins from locking themselves out of user management
+  const isSelf = existing.email === req.user!.email;
+  if (isSelf && (update.disabled === true || (update.role && !hasPermission({ role: update.role }, 'users:manage')))) {
+    return res.status(400).json({ error: 'You cannot disable or demote your own account' });
+  }
+
+  try {
+    const user = updateUser(existing.id, update)!;
+    recordAudit({
+      actor: req.user!.email,
+      action: 'user.update',
+      target: user.email,
+      changes: diffObjects(toPublicUser(existing), toPublicUser(user)).filter(c => c.path !== 'updatedAt'),
+    });
+    return res.json({ user: toPublicUser(user) });
+  } catch (error) {
+    return res.status(400).json({ error: (error as Error).message });
+  }
+});
+
+// 👥 ADMIN - reset password (generates a temporary one when none is supplied)
+app.post('/api/admin/users/:id/reset-password', requirePermission('users:manage'), validateBody(adminResetPasswordSchema), (req: AuthenticatedRequest, res: Response) => {
+  const { password } = req.body;
+  const user = findUserById(req.params.id);
+  if (!user) return res.status(404).json({ error: 'User not found' });
+
+  const newPassword = password || generateTemporaryPassword();
+  setUserPassword(user.id, newPassword);
+  recordAudit({
+    actor: req.user!.email,
+    action: 'user.reset-password',
+    target: user.email,
+    changes: [{ path: 'password', after: password ? 'set by admin' : 'temporary password generated' }],
   });
 
-  const url = client.authorizationUrl({ scope: 'openid profile email User.Read' });
-  res.json({ url });
+  return password
+    ? res.json({ message: 'Password updated' })
+    : res.json({ message: 'Password reset', temporaryPassword: newPassword });
+});
+
+// 👥 ADMIN - lift a lockout caused by failed logins
+app.post('/api/admin/users/:id/unlock', requirePermission('users:manage'), (req: AuthenticatedRequest, res: Response) => {
+  const user = findUserById(req.params.id);
+  if (!user) return res.status(404).json({ error: 'User not found' });
+
+  const lockedUntil = getAccountLock(accountKey(user.email, user));
+  unlockAccount(accountKey(user.email, user));
+  if (lockedUntil) {
+    recordAudit({
+      actor: req.user!.email,
+      action: 'user.unlock',
+      target: user.email,
+      changes: [{ path: 'lockedUntil', before: lockedUntil }],
+    });
+  }
+  return res.json({ message: lockedUntil ? 'Account unlocked' : 'Account was not locked' });
+});
+
+// 👥 ADMIN - turn MFA off for a user who lost their authenticator and recovery codes
+app.post('/api/admin/users/:id/reset-mfa', requirePermission('users:manage'), (req: AuthenticatedRequest, res: Response) => {
+  const user = findUserById(req.params.id);
+  if (!user) return res.status(404).json({ error: 'User not found' });
+  if (!user.mfa) return res.status(400).json({ error: 'Two-factor authentication is not enabled for this user' });
+
+  setUserMfa(user.id, undefined);
+  recordAudit({
+    actor: req.user!.email,
+    action: 'user.reset-mfa',
+    target: user.email,
+    changes: [{ path: 'mfaEnabled', before: true, after: false }],
+  });
+  return res.json({
+    message: isMfaRequired(user.role)
+      ? 'Two-factor authentication reset; the user will set it up again at their next sign-in'
+      : 'Two-factor authentication reset',
+  });
+});
+
+// 📜 ADMIN - browse the audit log
+app.get('/api/admin/audit', requirePermission('audit:view'), validateQuery(auditQuerySchema), (req, res) => {
+  return res.json(queryAudit(req.query as AuditQuery));
+});
+
+// 🧭 ADMIN - SSO mapping rules (AAD groups / app roles / Graph attributes -> departments and role)
+app.get('/api/admin/sso-mapping', requirePermission('users:manage'), (_req, res) => {
+  return res.json({ mapping: loadSsoMapping() });
+});
+
+app.put('/api/admin/sso-mapping', requirePermission('users:manage'), validateBody(saveSsoMappingSchema), (req: AuthenticatedRequest, res: Response) => {
+  const mapping = normalizeSsoMapping(req.body.mapping);
+
+  const before = loadSsoMapping();
+  try {
+    saveSsoMapping(mapping);
+  } catch (error) {
+    logger.error('Error saving SSO mapping', { error });
+    return res.status(500).json({ error: 'Failed to save SSO mapping' });
+  }
+
+  recordAudit({
+    actor: req.user!.email,
+    action: 'sso-mapping.update',
+    target: 'sso-mapping',
+    changes: diffObjects({ ...before }, { ...mapping }),
+  });
+  return res.json({ mapping });
+});
+
+// 🧭 ADMIN - preview what a sign-in would be mapped to, using the submitted (unsaved) rules when given
+app.post('/api/admin/sso-mapping/test', requirePermission('users:manage'), validateBody(testSsoMappingSchema), (req: AuthenticatedRequest, res: Response) => {
+  const mapping = req.body.mapping === undefined ? loadSsoMapping() : normalizeSsoMapping(req.body.mapping);
+
+  const { provider, groups, appRoles, attributes } = req.body.identity;
+  const identity = toSsoIdentity(provider, { groups, roles: appRoles }, attributes);
+  return res.json({ identity, result: evaluateSsoMapping(mapping, identity) });
+});
+
+/**
+ * Reads a cookie from the request. Only the SSO login cookie is used, so there is
+ * no cookie-parsing middleware.
+ */
+const readCookie = (req: Request, name: string): string | undefined => {
+  const cookie = (req.headers.cookie || '').split(';').map(part => part.trim()).find(part => part.startsWith(`${name}=`));
+  return cookie ? decodeURIComponent(cookie.slice(name.length + 1)) : undefined;
+};
+
+const loginCookieOptions = () => ({
+  httpOnly: true,
+  sameSite: 'lax' as const, // Sent on the identity provider's top-level redirect back to the callback
+  secure: (REDIRECT_URI || '').startsWith('https:'),
+  path: '/auth',
+});
+
+// 🔑 SSO providers offered on the login page
+app.get('/auth/providers', (_req, res) => {
+  return res.json({ providers: listOidcProviders() });
+});
+
+// Accounts the sign-in routes are rate limited by, read before the body is validated
+const bodyText = (req: Request, field: string): string | undefined =>
+  typeof req.body?.[field] === 'string' ? req.body[field] : undefined;
+const loginAccount = (req: Request) => bodyText(req, 'email') || normalizePhone(bodyText(req, 'phone') || '') || undefined;
+const smsAccount = (req: Request) => normalizePhone(bodyText(req, 'phone') || '') || undefined;
+const mfaChallengeAccount = (req: Request) => readMfaChallenge(bodyText(req, 'mfaToken'), 'verify');
+const emailAccount = (req: Request) => bodyText(req, 'email');
+// Reset and sign-in link tokens are counted on their own, by hash so the admin view does not show them
+const tokenAccount = (req: Request) => {
+  const token = bodyText(req, 'token');
+  return token ? `token:${crypto.createHash('sha256').update(token).digest('base64url').slice(0, 16)}` : undefined;
+};
+
+// 🔑 SSO login - redirects to the identity provider; `returnTo` is the frontend path to land on afterwards
+app.get('/auth/login/:provider', rateLimit('sso'), async (req, res) => {
+  try {
+    const login = await startLogin(req.params.provider, sanitizeReturnTo(req.query.returnTo));
+    if (!login) return res.status(404).send('Unknown sign-in provider.');
+
+    const { url, loginCookie } = login;
+    res.cookie(LOGIN_COOKIE, loginCookie, { ...loginCookieOptions(), maxAge: LOGIN_COOKIE_MAX_AGE_MS });
+    res.redirect(url);
+  } catch (error) {
+    logger.error('SSO Error', { error });
+    res.status(502).send('Single sign-on is unavailable. Please try again later.');
+  }
 });
 
 // 🔁 SSO callback
 app.get('/auth/callback', async (req, res) => {
   try {
-    const issuer = await Issuer.discover(`https://login.microsoftonline.com/${TENANT_ID}/v2.0/.well-known/openid-configuration`);
-    const client = new issuer.Client({
-      client_id: CLIENT_ID!,
-      client_secret: CLIENT_SECRET!,
-      redirect_uris: [REDIRECT_URI!],
-      response_types: ['code'],
-    });
+    // The login cookie is single-use, whatever the outcome
+    const loginCookie = readCookie(req, LOGIN_COOKIE);
+    res.clearCookie(LOGIN_COOKIE, loginCookieOptions());
 
-    const params = client.callbackParams(req);
-    const tokenSet = await client.callback(REDIRECT_URI!, params);
-    const graphUser = await fetch('https://graph.microsoft.com/v1.0/me?$select=mail,userPrincipalName,displayName,department', {
-      headers: { Authorization: `Bearer ${tokenSet.access_token}` },
-    }).then(res => res.json());
+    const login = await completeLogin(req, loginCookie);
+    if (!login) {
+      return res.status(400).send('Sign-in expired or was started in another browser. Please sign in again.');
+    }
 
-    const email = (graphUser.mail || graphUser.userPrincipalName || '').toLowerCase();
-    const department = graphUser.department || 'IT';
+    const { provider, profile, returnTo } = login;
+    if (!profile.email) {
+      logger.error('SSO Error: no verified email', { provider: provider.id });
+      return res.status(403).send('Your identity provider did not confirm your email address.');
+    }
+    if (!isAllowedEmail(provider, profile.email)) {
+      logger.warn('SSO sign-in outside the allowed domains', { provider: provider.id, email: profile.email });
+      return res.status(403).send('Your account cannot sign in with this provider.');
+    }
 
-    const jwtToken = jwt.sign(
-      { email, department, name: graphUser.displayName || 'User', isAdmin: false },
-      JWT_SECRET!,
-      { expiresIn: '2h' }
-    );
+    const { departments, role } = evaluateSsoMapping(loadSsoMapping(), profile.identity);
+
+    // The frontend exchanges the code for the session's tokens at /auth/sso/exchange
+    const ssoCode = createSsoCode({
+      email: profile.email,
+      departments,
+      name: profile.name || 'User',
+      role,
+      upn: profile.upn,
+      groups: profile.identity.groups,
+      idp: profile.idp,
+    });
 
-    const redirectUrl = `${process.env.FRONTEND_URL || 'http://localhost:8080'}?token=${jwtToken}`;
-    res.redirect(redirectUrl);
+    const redirectUrl = new URL(returnTo, process.env.FRONTEND_URL || 'http://localhost:8080');
+    redirectUrl.searchParams.set('ssoCode', ssoCode);
+    res.redirect(redirectUrl.toString());
   } catch (error) {
-    console.error('SSO Error:', error);
+    logger.error('SSO Error', { error });
     res.status(500).send('Authentication failed.');
   }
 });
 
+// 🔁 SSO callback, last step - trades the one-time code from the redirect for the session's tokens
+app.post('/auth/sso/exchange', rateLimit('sso'), validateBody(ssoExchangeSchema), (req, res) => {
+  let claims: SessionClaims | undefined;
+  try {
+    claims = consumeSsoCode(req.body.code);
+  } catch (error) {
+    logger.error('SSO code exchange failed', { error });
+    return res.status(503).json({ error: 'Session store is busy or unavailable, please retry' });
+  }
+  if (!claims) {
+    return res.status(400).json({ error: 'This sign-in has expired or was already completed. Please sign in again.' });
+  }
+
+  res.json(issueSessionTokens(claims));
+});
+
+/**
+ * Starts a session and returns the access/refresh token pair sent to the client.
+ */
+const issueSessionTokens = (claims: SessionClaims, userId?: string) => {
+  const { refreshToken, family } = createSession(claims, userId);
+  return { token: signAccessToken(claims, family.id), refreshToken };
+};
+
 // 🔐 Manual login
-app.post('/auth/manual-login', (req, res) => {
-  const { email, phone, password } = req.body;
-  const identifier = (email || phone || '').toLowerCase();
+/**
+ * Rejects a manual login refused by the lockout rules with 429 and a message the login form shows as is.
+ */
+const rejectLockedLogin = (res: Response, gate: Extract<LoginGate, { allowed: false }>) => {
+  const plural = (count: number, unit: string) => `${count} ${unit}${count === 1 ? '' : 's'}`;
+  const minutes = plural(Math.ceil(gate.retryAfter / 60), 'minute');
+  const error = {
+    'delay': `Too many failed attempts. Wait ${plural(gate.retryAfter, 'second')} before trying again.`,
+    'account-locked': `This account is locked for ${minutes} after too many failed sign-in attempts. An administrator can unlock it sooner.`,
+    'ip-locked': `Too many failed sign-in attempts from your network. Try again in ${minutes}.`,
+  }[gate.reason];
+
+  res.set('Retry-After', String(gate.retryAfter));
+  return res.status(429).json({ error, reason: gate.reason, retryAfter: gate.retryAfter });
+};
 
-  const user = userDatabase.find(
-    u => (u.email.toLowerCase() === identifier || u.phone === identifier) && u.password === password
-  );
+/**
+ * Counts a failed password, SMS code or MFA code, auditing any lockout it starts, and sends the
+ * error with `status` (or the lockout message when this failure started one).
+ */
+const rejectFailedLogin = (res: Response, key: string, ip: string, target: string, error: string, status = 401) => {
+  const { accountLockedUntil, ipLockedUntil } = recordLoginFailure(key, ip);
+  if (accountLockedUntil) {
+    recordAudit({ actor: ip, action: 'user.locked', target, changes: [{ path: 'lockedUntil', after: accountLockedUntil }] });
+  }
+  if (ipLockedUntil) {
+    recordAudit({ actor: ip, action: 'login.ip-locked', target: ip, changes: [{ path: 'lockedUntil', after: ipLockedUntil }] });
+  }
 
-  if (!user) return res.status(401).json({ error: 'Invalid credentials' });
+  const gate = checkLoginAllowed(key, ip);
+  if (!gate.allowed && gate.reason !== 'delay') return rejectLockedLogin(res, gate);
+  return res.status(status).json({ error });
+};
 
-  const token = jwt.sign(
-    { email: user.email, department: user.department, isAdmin: user.isAdmin || false },
-    JWT_SECRET!,
-    { expiresIn: '2h' }
+/**
+ * Ends a successful login of a directory user (after MFA, where needed) with a new session.
+ */
+const completeDirectoryLogin = (user: UserRecord, key: string) => {
+  recordLoginSuccess(key);
+  return issueSessionTokens(
+    { email: user.email, departments: user.departments, name: user.name, role: user.role, uid: user.id },
+    user.id
   );
+};
+
+/**
+ * A correct password, SMS code or sign-in link is only the first step for users
+ * with MFA or whose role requires it; everyone else gets their session straight away.
+ */
+const continueAfterFirstFactor = (res: Response, user: UserRecord, key: string) => {
+  if (user.mfa) return res.json({ mfaRequired: true, mfaToken: signMfaChallenge(user.id, 'verify') });
+  if (isMfaRequired(user.role)) return res.json({ mfaEnrollmentRequired: true, mfaToken: signMfaChallenge(user.id, 'enroll') });
+  return res.json(completeDirectoryLogin(user, key));
+};
 
-  res.json({ token });
+app.post('/auth/manual-login', rateLimit('login', loginAccount), validateBody(manualLoginSchema), (req, res) => {
+  const { email, phone, password } = req.body;
+  const identifier: string = email || phone;
+  const ip = req.ip || 'unknown';
+  const existing = findUserByIdentifier(identifier);
+  const key = accountKey(identifier, existing);
+
+  // Locked accounts and IPs are refused before the password is checked
+  const gate = checkLoginAllowed(key, ip);
+  if (!gate.allowed) return rejectLockedLogin(res, gate);
+
+  const user = authenticateUser(identifier, password);
+
+  if (!user) return rejectFailedLogin(res, key, ip, existing?.email || identifier, 'Invalid credentials');
+
+  continueAfterFirstFactor(res, user, key);
 });
 
-app.listen(PORT, () => {
-  console.log(`✅ Auth server running at http://localhost:${PORT}`);
-});
\ No newline at end of file
+// 🔐 Manual login, second step - a code from the authenticator app or a recovery code
+app.post('/auth/mfa/verify', rateLimit('mfa', mfaChallengeAccount), validateBody(mfaVerifySchema), (req, res) => {
+  const { mfaToken, code, recoveryCode } = req.body;
+  const userId = readMfaChallenge(mfaToken, 'verify');
+  const user = userId ? findUserById(userId) : undefined;
+  if (!user || user.disabled || !user.mfa) {
+    return res.status(401).json({ error: 'Your sign-in has expired, please enter your password again' });
+  }
+
+  const ip = req.ip || 'unknown';
+  const key = accountKey(user.email, user);
+  const gate = checkLoginAllowed(key, ip);
+  if (!gate.allowed) return rejectLockedLogin(res, gate);
+
+  if (recoveryCode) {
+    const remaining = consumeRecoveryCode(user.mfa.recoveryCodeHashes, recoveryCode);
+    if (!remaining) return rejectFailedLogin(res, key, ip, user.email, 'Invalid recovery code');
+
+    setUserMfa(user.id, { ...user.mfa, recoveryCodeHashes: remaining });
+    recordAudit({
+      actor: user.email,
+      action: 'mfa.recovery-code-used',
+      target: user.email,
+      changes: [{ path: 'recoveryCodesRemaining', before: remaining.length + 1, after: remaining.length }],
+    });
+  } else {
+    const step = verifyTotp(user.mfa.secret, code, user.mfa.lastUsedStep);
+    if (step === undefined) return rejectFailedLogin(res, key, ip, user.email, 'Invalid verification code');
+    setUserMfa(user.id, { ...user.mfa, lastUsedStep: step });
+  }
+
+  res.json(completeDirectoryLogin(user, key));
+});
+
+/**
+ * Resolves the directory user managing MFA into `req.mfaUser`: one finishing a login that
+ * must enrol first (`mfaToken` in the body), otherwise the signed-in user of a password login.
+ */
+const resolveMfaUser = documentMiddleware((req: MfaRequest, res: Response, next: NextFunction) => {
+  if (req.body?.mfaToken) {
+    const userId = readMfaChallenge(req.body.mfaToken, 'enroll');
+    const user = userId ? findUserById(userId) : undefined;
+    if (!user || user.disabled) return res.status(401).json({ error: 'Your sign-in has expired, please enter your password again' });
+    req.mfaUser = user;
+    return next();
+  }
+
+  verifyJWT(req, res, () => {
+    const user = req.user!.uid ? findUserById(req.user!.uid) : undefined;
+    if (!user) {
+      return res.status(400).json({ error: 'Two-factor authentication for SSO sign-ins is managed by your identity provider' });
+    }
+    req.mfaUser = user;
+    next();
+  });
+}, { auth: 'optional' });
+
+// 🔑 MFA status of the signed-in user
+app.get('/auth/mfa', resolveMfaUser, (req: MfaRequest, res: Response) => {
+  const { mfa, role } = req.mfaUser!;
+  res.json({
+    enabled: !!mfa,
+    required: isMfaRequired(role),
+    enabledAt: mfa?.enabledAt,
+    recoveryCodesRemaining: mfa?.recoveryCodeHashes.length,
+  });
+});
+
+// 🔑 MFA enrolment, step 1 - a new secret as a QR code, confirmed by the first code at /auth/mfa/enroll/confirm
+app.post('/auth/mfa/enroll', validateBody(mfaEnrollSchema), resolveMfaUser, async (req: MfaRequest, res: Response) => {
+  const user = req.mfaUser!;
+  if (user.mfa) return res.status(409).json({ error: 'Two-factor authentication is already enabled' });
+
+  const secret = generateTotpSecret();
+  const otpauthUri = totpUri(secret, user.email);
+  try {
+    res.json({ secret, otpauthUri, qrCode: await totpQrCode(otpauthUri), enrollmentToken: signMfaEnrollment(user.id, secret) });
+  } catch (error) {
+    logger.error('QR code generation failed', { error });
+    res.status(500).json({ error: 'Failed to start two-factor authentication setup' });
+  }
+});
+
+// 🔑 MFA enrolment, step 2 - turns MFA on and returns the recovery codes (and the session when finishing a login)
+app.post('/auth/mfa/enroll/confirm', validateBody(mfaEnrollConfirmSchema), resolveMfaUser, (req: MfaRequest, res: Response) => {
+  const user = req.mfaUser!;
+  if (user.mfa) return res.status(409).json({ error: 'Two-factor authentication is already enabled' });
+
+  const secret = readMfaEnrollment(req.body.enrollmentToken, user.id);
+  if (!secret) return res.status(400).json({ error: 'Setup has expired, please start again' });
+
+  const step = verifyTotp(secret, req.body.code);
+  if (step === undefined) return res.status(400).json({ error: 'Invalid verification code' });
+
+  const { codes, hashes } = generateRecoveryCodes();
+  const enrolled = setUserMfa(user.id, { secret, enabledAt: new Date().toISOString(), recoveryCodeHashes: hashes, lastUsedStep: step })!;
+  recordAudit({ actor: user.email, action: 'mfa.enroll', target: user.email, changes: [{ path: 'mfaEnabled', before: false, after: true }] });
+
+  res.json({
+    recoveryCodes: codes,
+    ...(req.body.mfaToken && completeDirectoryLogin(enrolled, accountKey(enrolled.email, enrolled))),
+  });
+});
+
+/**
+ * Checks the current authenticator code before an MFA change of a signed-in user. Like at
+ * /auth/mfa/verify, locked accounts and IPs are refused and wrong codes count as failed logins.
+ * Returns the updated user, or sends 400 (429 when locked) and returns undefined.
+ */
+const checkMfaCode = (req: Request, res: Response, user: UserRecord, code: string): UserRecord | undefined => {
+  const ip = req.ip || 'unknown';
+  const key = accountKey(user.email, user);
+  const gate = checkLoginAllowed(key, ip);
+  if (!gate.allowed) {
+    rejectLockedLogin(res, gate);
+    return undefined;
+  }
+
+  const step = user.mfa ? verifyTotp(user.mfa.secret, code, user.mfa.lastUsedStep) : undefined;
+  if (step === undefined) {
+    rejectFailedLogin(res, key, ip, user.email, 'Invalid verification code', 400);
+    return undefined;
+  }
+  return setUserMfa(user.id, { ...user.mfa!, lastUsedStep: step });
+};
+
+// Counted together with the user's /auth/mfa/verify attempts
+const mfaUserAccount = (req: Request) => (req as MfaRequest).mfaUser?.id;
+
+// 🔑 Replace the recovery codes, e.g. when they run low
+app.post('/auth/mfa/recovery-codes', resolveMfaUser, rateLimit('mfa', mfaUserAccount), validateBody(mfaCodeSchema), (req: MfaRequest, res: Response) => {
+  const user = req.mfaUser!;
+  if (!user.mfa) return res.status(400).json({ error: 'Two-factor authentication is not enabled' });
+  const checked = checkMfaCode(req, res, user, req.body.code);
+  if (!checked) return;
+
+  const { codes, hashes } = generateRecoveryCodes();
+  setUserMfa(user.id, { ...checked.mfa!, recoveryCodeHashes: hashes });
+  recordAudit({
+    actor: user.email,
+    action: 'mfa.recovery-codes',
+    target: user.email,
+    changes: [{ path: 'recoveryCodesRemaining', before: user.mfa.recoveryCodeHashes.length, after: hashes.length }],
+  });
+  res.json({ recoveryCodes: codes });
+});
+
+// 🔑 Turn MFA off, unless the user's role requires it
+app.post('/auth/mfa/disable', resolveMfaUser, rateLimit('mfa', mfaUserAccount), validateBody(mfaCodeSchema), (req: MfaRequest, res: Response) => {
+  const user = req.mfaUser!;
+  if (!user.mfa) return res.status(400).json({ error: 'Two-factor authentication is not enabled' });
+  if (isMfaRequired(user.role)) return res.status(403).json({ error: 'Your role requires two-factor authentication' });
+  if (!checkMfaCode(req, res, user, req.body.code)) return;
+
+  setUserMfa(user.id, undefined);
+  recordAudit({ actor: user.email, action: 'mfa.disable', target: user.email, changes: [{ path: 'mfaEnabled', before: true, after: false }] });
+  res.json({ message: 'Two-factor authentication disabled' });
+});
+
+// 📱 Phone login, step 1 - texts a one-time code; the response never reveals whether the number is registered
+app.post('/auth/sms/request', rateLimit('sms', smsAccount), validateBody(smsRequestSchema), (req, res) => {
+  const phone = normalizePhone(req.body.phone);
+
+  const resendSeconds = Number(process.env.SMS_OTP_RESEND_SECONDS || 60);
+  const user = findUserByPhone(phone);
+  if (user && !user.disabled) {
+    const issued = issueSmsOtp(phone, user.id);
+    if (issued.status === 'issued') {
+      const minutes = Math.round(issued.expiresInSeconds / 60);
+      // Sent in the background so the response time does not reveal whether the number is registered
+      smsSender.send({ to: phone, text: `Your Insights 2.0 sign-in code is ${issued.code}. It expires in ${minutes} minutes.` })
+        .catch(error => logger.error('Failed to send SMS code', { error }));
+    }
+  }
+
+  res.json({ message: 'If this number belongs to an account, a sign-in code has been sent.', resendAfter: resendSeconds });
+});
+
+// 📱 Phone login, step 2 - signs in with the texted code (then MFA, where needed)
+app.post('/auth/sms/verify', rateLimit('sms', smsAccount), validateBody(smsVerifySchema), (req, res) => {
+  const phone = normalizePhone(req.body.phone);
+  const { code } = req.body;
+  const ip = req.ip || 'unknown';
+  const existing = findUserByPhone(phone);
+  const key = accountKey(phone, existing);
+
+  const gate = checkLoginAllowed(key, ip);
+  if (!gate.allowed) return rejectLockedLogin(res, gate);
+
+  const result = verifySmsOtp(phone, code);
+  if (result.status !== 'ok') {
+    const error = result.status === 'invalid'
+      ? `Invalid code; ${result.attemptsLeft} attempt${result.attemptsLeft === 1 ? '' : 's'} left`
+      : {
+        'too-many-attempts': 'Too many wrong codes. Please request a new code.',
+        'expired': 'This code has expired. Please request a new code.',
+        'missing': 'No code is waiting for this number. Please request a new code.',
+      }[result.status];
+    return rejectFailedLogin(res, key, ip, existing?.email || phone, error);
+  }
+
+  const user = findUserById(result.userId);
+  if (!user || user.disabled) return res.status(401).json({ error: 'Invalid code' });
+  continueAfterFirstFactor(res, user, key);
+});
+
+const escapeHtml = (value: string) => value.replace(/[&<>"']/g, char => `&#${char.charCodeAt(0)};`);
+
+// 🔑 Forgot password - emails a one-time reset link; the response never reveals whether the account exists
+app.post('/auth/forgot-password', rateLimit('email', emailAccount), validateBody(emailRequestSchema), (req, res) => {
+  const { email } = req.body;
+
+  const user = findUserByIdentifier(email);
+  if (user && !user.disabled && user.email === email.trim().toLowerCase()) {
+    const { token, expiresAt } = createPasswordResetToken(user.id);
+    const link = new URL('/reset-password', process.env.FRONTEND_URL || 'http://localhost:8080');
+    link.searchParams.set('token', token);
+    const minutes = Math.round((Date.parse(expiresAt) - Date.now()) / 60000);
+
+    recordAudit({ actor: req.ip || 'unknown', action: 'password-reset.request', target: user.email, changes: [] });
+    // Sent in the background so the response time does not reveal whether the account exists
+    mailTransport.send({
+      to: user.email,
+      subject: 'Reset your password',
+      text: `Someone asked to reset the password for ${user.email}.\n\n`
+        + `To choose a new password, open this link within ${minutes} minutes:\n${link}\n\n`
+        + 'If you did not ask for this, you can ignore this email; your password stays the same.',
+      html: `<p>Someone asked to reset the password for ${escapeHtml(user.email)}.</p>`
+        + `<p><a href="${escapeHtml(link.toString())}">Choose a new password</a> (the link works once, within ${minutes} minutes).</p>`
+        + '<p>If you did not ask for this, you can ignore this email; your password stays the same.</p>',
+    }).catch(error => logger.error('Failed to send password reset email', { error }));
+  }
+
+  res.json({ message: 'If an account exists for this email, a link to reset the password has been sent.' });
+});
+
+// 🔑 Reset password - sets a new password with a token from the emailed link and ends every session
+app.post('/auth/reset-password', rateLimit('email', tokenAccount), validateBody(resetPasswordSchema), (req, res) => {
+  const { token, password } = req.body;
+
+  const userId = consumePasswordResetToken(token);
+  const user = userId ? findUserById(userId) : undefined;
+  if (!user || user.disabled) {
+    return res.status(400).json({ error: 'This reset link is invalid or has expired. Please request a new one.' });
+  }
+
+  setUserPassword(user.id, password);
+  try {
+    revokeUserSessions(user.email, 'password-reset');
+    revokeUserAccessTokens(user.email, accessTokenTtlSeconds() * 1000);
+  } catch (error) {
+    logger.error('Failed to end sessions after password reset', { error });
+  }
+  // The owner of the mailbox proved who they are, so earlier failed logins no longer count
+  unlockAccount(accountKey(user.email, user));
+  recordAudit({ actor: user.email, action: 'password-reset.complete', target: user.email, changes: [{ path: 'password', after: 'reset by user' }] });
+
+  res.json({ message: 'Your password has been reset. You can now sign in.' });
+});
+
+// ✉️ Magic link, step 1 - emails a one-time sign-in link; the response never reveals whether the account exists
+app.post('/auth/magic-link/request', rateLimit('email', emailAccount), validateBody(emailRequestSchema), (req, res) => {
+  const { email } = req.body;
+
+  const user = findUserByIdentifier(email);
+  if (user && !user.disabled && user.email === email.trim().toLowerCase()) {
+    const { token, expiresAt } = createMagicLinkToken(user.id);
+    // The link opens the sign-in page, which posts the token, so mail scanners that follow links do not use it up
+    const link = new URL('/', process.env.FRONTEND_URL || 'http://localhost:8080');
+    link.searchParams.set('magicLink', token);
+    const minutes = Math.round((Date.parse(expiresAt) - Date.now()) / 60000);
+
+    // Sent in the background so the response time does not reveal whether the account exists
+    mailTransport.send({
+      to: user.email,
+      subject: 'Your sign-in link',
+      text: `Someone asked to sign in to Insights 2.0 as ${user.email}.\n\n`
+        + `To sign in, open this link within ${minutes} minutes:\n${link}\n\n`
+        + 'If you did not ask for this, you can ignore this email.',
+      html: `<p>Someone asked to sign in to Insights 2.0 as ${escapeHtml(user.email)}.</p>`
+        + `<p><a href="${escapeHtml(link.toString())}">Sign in</a> (the link works once, within ${minutes} minutes).</p>`
+        + '<p>If you did not ask for this, you can ignore this email.</p>',
+    }).catch(error => logger.error('Failed to send sign-in link email', { error }));
+  }
+
+  res.json({ message: 'If an account exists for this email, a sign-in link has been sent.' });
+});
+
+// ✉️ Magic link, step 2 - exchanges the token from the link for a session (then MFA, where needed)
+app.post('/auth/magic-link/verify', rateLimit('email', tokenAccount), validateBody(magicLinkVerifySchema), (req, res) => {
+  const userId = consumeMagicLinkToken(req.body.token);
+  const user = userId ? findUserById(userId) : undefined;
+  if (!user || user.disabled) {
+    return res.status(400).json({ error: 'This sign-in link is invalid, expired or already used. Please request a new one.' });
+  }
+
+  // A link does not lift a lockout: the login would otherwise clear the account's failures
+  const key = accountKey(user.email, user);
+  const gate = checkLoginAllowed(key, req.ip || 'unknown');
+  if (!gate.allowed) return rejectLockedLogin(res, gate);
+
+  continueAfterFirstFactor(res, user, key);
+});
+
+// 🔄 Refresh - trade a refresh token for a new access token and a new refresh token
+app.post('/auth/refresh', validateBody(refreshSchema), (req, res) => {
+  const { refreshToken } = req.body;
+
+  let result: RotateResult;
+  try {
+    result = rotateRefreshToken(refreshToken);
+  } catch (error) {
+    logger.error('Refresh token rotation failed', { error });
+    return res.status(503).json({ error: 'Session store is busy or unavailable, please retry' });
+  }
+
+  if (result.status === 'reused') {
+    const { email } = result.family.claims;
+    recordAudit({ actor: email, action: 'session.refresh-reuse', target: email, changes: [] });
+    return res.status(401).json({ error: 'Refresh token was already used; the session has been revoked' });
+  }
+  if (result.status !== 'ok') {
+    return res.status(401).json({ error: result.status === 'expired' ? 'Session expired' : 'Invalid refresh token' });
+  }
+
+  // Directory users get their current departments and role; disabled users lose the session.
+  // Older sessions carry the admin flag instead of a role and a single department.
+  const storedClaims = result.family.claims;
+  let claims = { ...storedClaims, role: resolveRole(storedClaims), departments: resolveDepartments(storedClaims) };
+  if (result.family.userId) {
+    const user = findUserById(result.family.userId);
+    if (!user || user.disabled) {
+      revokeSession(result.family.id, 'user-disabled');
+      return res.status(401).json({ error: 'Account is disabled' });
+    }
+    claims = { ...claims, email: user.email, departments: user.departments, name: user.name, role: user.role };
+  }
+
+  return res.json({ token: signAccessToken(claims, result.family.id), refreshToken: result.refreshToken });
+});
+
+// 🚪 Logout - revoke the presented access token and its session, or with `everywhere` all of the user's sessions
+app.post('/auth/logout', verifyJWT, validateBody(logoutSchema), (req: AuthenticatedRequest, res) => {
+  const user = req.user!;
+  const everywhere = req.body.everywhere === true;
+
+  try {
+    if (user.jti && user.exp) revokeAccessToken(user.jti, new Date(user.exp * 1000));
+
+    if (everywhere) {
+      const sessions = revokeUserSessions(user.email, 'logout-all');
+      revokeUserAccessTokens(user.email, accessTokenTtlSeconds() * 1000);
+      recordAudit({ actor: user.email, action: 'session.logout-all', target: user.email, changes: [{ path: 'activeSessions', before: sessions, after: 0 }] });
+    } else if (user.sid) {
+      revokeSession(user.sid, 'logout');
+    }
+  } catch (error) {
+    logger.error('Logout failed', { error });
+    return res.status(503).json({ error: 'Session store is busy or unavailable, please retry' });
+  }
+
+  res.json({ success: true });
+});
+
+let openApi: GeneratedDocument | undefined;
+
+/**
+ * The OpenAPI document of every route above, built once on first use.
+ */
+export const getOpenApiDocument = (): GeneratedDocument => {
+  openApi ||= buildOpenApiDocument(app, ROUTE_DOCS, errorSchema, {
+    title: 'Insights 2.0 API',
+    version,
+    description: 'Reports, catalog administration and sign-in for the Insights 2.0 portal.',
+  });
+  return openApi;
+};
+
+// 📘 API documentation - the OpenAPI document and a browsable page rendering it
+app.get('/api/openapi.json', (_req, res) => {
+  res.json(getOpenApiDocument().document);
+});
+app.use('/api/docs', swaggerUi.serve, swaggerUi.setup(undefined, { swaggerOptions: { url: '/api/openapi.json' } }));
+
+// Errors thrown by handlers or the body parser; the logged request ID is in the response header
+app.use((error: Error & { status?: number; expose?: boolean }, _req: Request, res: Response, _next: NextFunction) => {
+  const status = error.status && error.status >= 400 ? error.status : 500;
+  if (status >= 500) logger.error('Request failed', { error });
+  else logger.warn('Request failed', { status, error: { name: error.name, message: error.message } });
+  res.status(status).json({ error: error.expose ? error.message : 'Internal server error' });
+});
+
+// Scripts importing the routes (npm run openapi) do not start the server
+if (require.main === module) {
+  if (trustProxyHops() === undefined && (process.env.NODE_ENV === 'production' || process.env.TRUST_PROXY_HOPS)) {
+    logger.error('Set TRUST_PROXY_HOPS to the number of proxies in front of the server (0 when clients connect directly)', {
+      value: process.env.TRUST_PROXY_HOPS,
+    });
+    process.exit(1);
+  }
+
+  ensureBootstrapAdmin();
+  warnAboutOidcProviders();
+
+  if (mockTokensAllowed()) {
+    logger.warn('ALLOW_MOCK_TOKENS is set: unsigned mock tokens are accepted with any role. Never enable this outside local development.');
+  } else if (process.env.ALLOW_MOCK_TOKENS === 'true') {
+    logger.error('ALLOW_MOCK_TOKENS is ignored because NODE_ENV is production');
+  }
+
+  app.listen(PORT, () => {
+    logger.info(`Auth server running at http://localhost:${PORT}`, { port: Number(PORT) });
+  });
+}
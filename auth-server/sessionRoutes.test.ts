@@ -0,0 +1,88 @@
+import { afterAll, beforeAll, describe, expect, it, vi } from 'vitest';
+import { readAccessToken } from './accessTokens';
+import { startTestServer, TestServer } from './testServer';
+import { createUser, updateUser } from './userStore';
+
+let api: TestServer;
+
+interface Tokens {
+  token: string;
+  refreshToken: string;
+}
+
+// Signs in a new directory viewer and returns both tokens of the session
+const logIn = async (email: string): Promise<Tokens & { userId: string }> => {
+  const { id } = createUser({ email, password: 'Correct-horse-1', name: email, departments: ['IT'], role: 'viewer' });
+  const response = await api.request('/auth/manual-login', { method: 'POST', body: { email, password: 'Correct-horse-1' } });
+  return { ...(await response.json()), userId: id };
+};
+
+const refresh = (refreshToken: string) => api.request('/auth/refresh', { method: 'POST', body: { refreshToken } });
+
+beforeAll(async () => {
+  vi.stubEnv('MFA_REQUIRED_ROLES', '');
+  api = await startTestServer();
+});
+
+afterAll(() => {
+  api.server.close();
+  vi.unstubAllEnvs();
+});
+
+describe('POST /auth/refresh', () => {
+  it('rotates the refresh token and issues an access token with the current directory details', async () => {
+    const session = await logIn('ann@example.com');
+    updateUser(session.userId, { role: 'department-owner', departments: ['IT', 'HR'] });
+
+    const response = await refresh(session.refreshToken);
+    expect(response.status).toBe(200);
+    const tokens: Tokens = await response.json();
+    expect(tokens.refreshToken).not.toBe(session.refreshToken);
+
+    const claims = readAccessToken(tokens.token);
+    expect(claims.status === 'ok' && claims.payload).toMatchObject({ role: 'department-owner', departments: ['IT', 'HR'] });
+  });
+
+  it('revokes the session when a used refresh token is replayed', async () => {
+    const session = await logIn('bob@example.com');
+    const rotated: Tokens = await (await refresh(session.refreshToken)).json();
+
+    const replay = await refresh(session.refreshToken);
+    expect(replay.status).toBe(401);
+    expect((await replay.json()).error).toBe('Refresh token was already used; the session has been revoked');
+    expect((await refresh(rotated.refreshToken)).status).toBe(401);
+  });
+
+  it('ends the sessions of disabled users', async () => {
+    const session = await logIn('cy@example.com');
+    updateUser(session.userId, { disabled: true });
+
+    const response = await refresh(session.refreshToken);
+    expect(response.status).toBe(401);
+    expect((await response.json()).error).toBe('Account is disabled');
+  });
+});
+
+describe('POST /auth/logout', () => {
+  const reports = (token: string) => api.request('/api/reports/IT', { token });
+  const logout = (token: string, body: unknown = {}) => api.request('/auth/logout', { method: 'POST', token, body });
+
+  it('revokes the access token and the session it belongs to', async () => {
+    const session = await logIn('dan@example.com');
+    expect((await reports(session.token)).status).toBe(200);
+
+    expect((await logout(session.token)).status).toBe(200);
+    expect((await reports(session.token)).status).toBe(401);
+    expect((await refresh(session.refreshToken)).status).toBe(401);
+  });
+
+  it('signs out every session of the user with `everywhere`', async () => {
+    const first = await logIn('eve@example.com');
+    const second = await api.request('/auth/manual-login', { method: 'POST', body: { email: 'eve@example.com', password: 'Correct-horse-1' } });
+    const other: Tokens = await second.json();
+
+    expect((await logout(first.token, { everywhere: true })).status).toBe(200);
+    expect((await reports(other.token)).status).toBe(401);
+    expect((await refresh(other.refreshToken)).status).toBe(401);
+  });
+});
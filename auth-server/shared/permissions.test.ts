@@ -0,0 +1,72 @@
+import { describe, expect, it } from 'vitest';
+import {
+  ROLES,
+  canEditDepartment,
+  canViewDepartment,
+  hasAdminAccess,
+  hasPermission,
+  resolveDepartments,
+  resolveRole,
+} from './permissions';
+
+describe('resolveRole', () => {
+  it('keeps known roles', () => {
+    ROLES.forEach(role => expect(resolveRole({ role })).toBe(role));
+  });
+
+  it('maps the old admin flag and falls back to viewer', () => {
+    expect(resolveRole({ isAdmin: true })).toBe('super-admin');
+    expect(resolveRole({ isAdmin: false })).toBe('viewer');
+    expect(resolveRole({})).toBe('viewer');
+    expect(resolveRole({ role: 'owner' as never, isAdmin: false })).toBe('viewer');
+  });
+});
+
+describe('resolveDepartments', () => {
+  it('reads the list or the single department of older records', () => {
+    expect(resolveDepartments({ departments: ['Sales', '', 3, 'HR'] })).toEqual(['Sales', 'HR']);
+    expect(resolveDepartments({ department: 'Sales' })).toEqual(['Sales']);
+    expect(resolveDepartments({})).toEqual([]);
+  });
+});
+
+describe('permission matrix', () => {
+  it('gives each role its permissions', () => {
+    expect(hasPermission({ role: 'viewer' }, 'reports:view')).toBe(true);
+    expect(hasPermission({ role: 'viewer' }, 'catalog:edit')).toBe(false);
+    expect(hasPermission({ role: 'department-owner' }, 'catalog:edit')).toBe(true);
+    expect(hasPermission({ role: 'department-owner' }, 'catalog:edit-any')).toBe(false);
+    expect(hasPermission({ role: 'catalog-admin' }, 'departments:manage')).toBe(true);
+    expect(hasPermission({ role: 'catalog-admin' }, 'users:manage')).toBe(false);
+    expect(hasPermission({ role: 'super-admin' }, 'users:manage')).toBe(true);
+    expect(hasPermission({ isAdmin: true }, 'audit:view')).toBe(true);
+  });
+
+  it('gives the admin portal to roles that edit the catalog', () => {
+    expect(hasAdminAccess({ role: 'viewer' })).toBe(false);
+    expect(hasAdminAccess({ role: 'department-owner' })).toBe(true);
+  });
+});
+
+describe('department checks', () => {
+  const viewer = { role: 'viewer' as const, departments: ['Sales'] };
+  const owner = { role: 'department-owner' as const, departments: ['Sales'] };
+  const catalogAdmin = { role: 'catalog-admin' as const, departments: [] };
+
+  it('limits viewers to their own departments', () => {
+    expect(canViewDepartment(viewer, 'Sales')).toBe(true);
+    expect(canViewDepartment(viewer, 'HR')).toBe(false);
+    expect(canEditDepartment(viewer, 'Sales')).toBe(false);
+  });
+
+  it('limits department owners to editing their own departments', () => {
+    expect(canEditDepartment(owner, 'Sales')).toBe(true);
+    expect(canEditDepartment(owner, 'HR')).toBe(false);
+    expect(canViewDepartment(owner, 'HR')).toBe(false);
+  });
+
+  it('lets catalog admins view and edit every department', () => {
+    expect(canViewDepartment(catalogAdmin, 'HR')).toBe(true);
+    expect(canEditDepartment(catalogAdmin, 'HR')).toBe(true);
+  });
+});
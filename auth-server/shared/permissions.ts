@@ -0,0 +1,96 @@
+/**
+ * Roles and the permission matrix shared by the auth server and the frontend.
+ * The server enforces it on every route; the frontend only uses it to decide
+ * which tabs and departments to show.
+ *
+ * This file must stay free of Node and browser APIs so both builds can import it.
+ */
+
+export const ROLES = ['viewer', 'department-owner', 'catalog-admin', 'super-admin'] as const;
+
+export type Role = typeof ROLES[number];
+
+export type Permission =
+  | 'reports:view'          // Reports of the user's own departments
+  | 'reports:view-any'      // Reports of every department
+  | 'catalog:edit'          // Edit reports of the user's own departments
+  | 'catalog:edit-any'      // Edit reports of every department
+  | 'catalog:history'       // Browse catalog revisions and roll back
+  | 'departments:manage'    // Create and delete departments
+  | 'stats:view'
+  | 'powerbi-cache:manage'
+  | 'users:manage'
+  | 'audit:view';
+
+export const ROLE_LABELS: Record<Role, string> = {
+  'viewer': 'Viewer',
+  'department-owner': 'Department owner',
+  'catalog-admin': 'Catalog admin',
+  'super-admin': 'Super admin',
+};
+
+const DEPARTMENT_OWNER: Permission[] = ['reports:view', 'catalog:edit'];
+
+const CATALOG_ADMIN: Permission[] = [
+  ...DEPARTMENT_OWNER,
+  'reports:view-any',
+  'catalog:edit-any',
+  'catalog:history',
+  'departments:manage',
+  'stats:view',
+];
+
+export const ROLE_PERMISSIONS: Record<Role, Permission[]> = {
+  'viewer': ['reports:view'],
+  'department-owner': DEPARTMENT_OWNER,
+  'catalog-admin': CATALOG_ADMIN,
+  'super-admin': [...CATALOG_ADMIN, 'powerbi-cache:manage', 'users:manage', 'audit:view'],
+};
+
+// The parts of a user (or token payload) permission checks need
+export interface RoleHolder {
+  role?: Role;
+  isAdmin?: boolean; // Users and tokens from before roles existed
+  departments: string[];
+}
+
+export const isRole = (value: unknown): value is Role => ROLES.includes(value as Role);
+
+/**
+ * The user's role. Records and tokens without one fall back to the old admin flag,
+ * under which admins could do everything.
+ */
+export const resolveRole = (user: Pick<RoleHolder, 'role' | 'isAdmin'>): Role =>
+  isRole(user.role) ? user.role : user.isAdmin ? 'super-admin' : 'viewer';
+
+/**
+ * The user's departments. Records and tokens from before users could belong to
+ * several departments have a single `department` instead.
+ */
+export const resolveDepartments = (user: { departments?: unknown; department?: unknown }): string[] => {
+  if (Array.isArray(user.departments)) {
+    return user.departments.filter((department): department is string => typeof department === 'string' && department !== '');
+  }
+  return typeof user.department === 'string' && user.department ? [user.department] : [];
+};
+
+export const hasPermission = (user: Pick<RoleHolder, 'role' | 'isAdmin'>, permission: Permission): boolean =>
+  ROLE_PERMISSIONS[resolveRole(user)].includes(permission);
+
+/**
+ * Whether the user gets the admin portal rather than the report dashboard.
+ */
+export const hasAdminAccess = (user: Pick<RoleHolder, 'role' | 'isAdmin'>): boolean =>
+  hasPermission(user, 'catalog:edit');
+
+export const canViewDepartment = (user: RoleHolder, department: string): boolean =>
+  hasPermission(user, 'reports:view-any') || (hasPermission(user, 'reports:view') && user.departments.includes(department));
+
+export const canEditDepartment = (user: RoleHolder, department: string): boolean =>
+  hasPermission(user, 'catalog:edit-any') || (hasPermission(user, 'catalog:edit') && user.departments.includes(department));
+
+/**
+ * Departments of a catalog the user may edit, in catalog order.
+ */
+export const editableDepartments = (user: RoleHolder, departments: string[]): string[] =>
+  departments.filter(department => canEditDepartment(user, department));
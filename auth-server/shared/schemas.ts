@@ -0,0 +1,354 @@
+/**
+ * Request schemas of the auth server, shared with the frontend so admin forms can
+ * check input before sending it and show the server's field errors next to the
+ * right fields. Also defines the persisted shape of catalog reports.
+ *
+ * Request bodies drop unknown properties; reports reject them, so a catalog can
+ * only ever contain the fields below.
+ *
+ * Like permissions.ts, this file must stay free of Node and browser APIs.
+ */
+import { z } from 'zod';
+import { ROLES } from './permissions';
+
+export const MIN_PASSWORD_LENGTH = 8;
+
+// Graph /me properties SSO attribute rules can match, requested at SSO sign-in
+export const GRAPH_ATTRIBUTES = ['department', 'jobTitle', 'officeLocation', 'companyName', 'employeeType'] as const;
+
+export type GraphAttribute = typeof GRAPH_ATTRIBUTES[number];
+
+// ---------------------------------------------------------------------------
+// Validation errors
+// ---------------------------------------------------------------------------
+
+/** Messages per invalid field, keyed by the field's dotted path (e.g. `reportsData.Sales.0.title`). */
+export type FieldErrors = Record<string, string[]>;
+
+/** Body of every `400` response for a request that does not match its schema. */
+export interface ValidationErrorBody {
+  error: string;
+  fieldErrors: FieldErrors;
+}
+
+export const toFieldErrors = (error: z.ZodError): FieldErrors => {
+  const fieldErrors: FieldErrors = {};
+  for (const issue of error.issues) {
+    const path = issue.path.join('.');
+    (fieldErrors[path] ||= []).push(issue.message);
+  }
+  return fieldErrors;
+};
+
+/**
+ * The validation error body for a failed parse. `error` names the first few problems
+ * so clients that only show `error` still say what is wrong.
+ */
+export const toValidationErrorBody = (error: z.ZodError): ValidationErrorBody => {
+  const problems = error.issues.map(issue => (issue.path.length > 0 ? `${issue.path.join('.')}: ${issue.message}` : issue.message));
+  const more = problems.length > 3 ? ` (and ${problems.length - 3} more)` : '';
+  return { error: `Invalid request: ${problems.slice(0, 3).join('; ')}${more}`, fieldErrors: toFieldErrors(error) };
+};
+
+export const isValidationErrorBody = (body: unknown): body is ValidationErrorBody =>
+  !!body && typeof body === 'object' && typeof (body as ValidationErrorBody).fieldErrors === 'object';
+
+// ---------------------------------------------------------------------------
+// Fields
+// ---------------------------------------------------------------------------
+
+const requiredText = (message: string) => z.string({ required_error: message, invalid_type_error: message }).trim().min(1, message);
+
+// Query parameters arrive as strings; empty ones count as absent
+const optionalQueryText = z.string().optional().transform(value => value || undefined);
+
+const PHONE_PATTERN = /^\+?[\d\s().-]{6,20}$/;
+
+export const emailSchema = z.string({ required_error: 'Email is required' }).trim().min(1, 'Email is required').email('Enter a valid email address');
+
+export const passwordSchema = z
+  .string({ required_error: 'Password is required' })
+  .min(MIN_PASSWORD_LENGTH, `Password must be at least ${MIN_PASSWORD_LENGTH} characters`);
+
+export const roleSchema = z.enum(ROLES, { errorMap: () => ({ message: 'Unknown role' }) });
+
+export const phoneSchema = z
+  .string()
+  .trim()
+  .refine(phone => phone === '' || PHONE_PATTERN.test(phone), 'Enter a phone number, including the country code');
+
+// 6-digit codes from authenticator apps and text messages
+export const otpCodeSchema = z.string({ required_error: 'Enter the 6-digit code' }).trim().regex(/^\d{6}$/, 'Enter the 6-digit code');
+
+const departmentNameSchema = z.string().trim().min(1, 'Department names cannot be empty');
+
+// ---------------------------------------------------------------------------
+// Catalog reports (persisted shape)
+// ---------------------------------------------------------------------------
+
+const roleNamesSchema = z.array(z.string().trim().min(1, 'Role names cannot be empty'));
+
+/** Row-level security settings of a report; see auth-server/rls.ts. */
+export const reportRlsSchema = z.object({
+  enabled: z.boolean(),
+  defaultRoles: roleNamesSchema.optional(), // Omitted: the server default (POWERBI_DEFAULT_RLS_ROLES)
+  departmentRoles: z.record(z.string(), roleNamesSchema),
+}).strict();
+
+export const aclPrincipalsSchema = z.object({
+  users: z.array(z.string().trim().min(1, 'User emails cannot be empty')),
+  groups: z.array(z.string().trim().min(1, 'Group names cannot be empty')),
+  roles: z.array(roleSchema),
+}).strict();
+
+/** Per-report allow/deny lists; see auth-server/reportAcl.ts. */
+export const reportAclSchema = z.object({
+  allow: aclPrincipalsSchema,
+  deny: aclPrincipalsSchema,
+}).strict();
+
+/** A report of the catalog, as stored and as sent by the admin portal. */
+export const reportSchema = z.object({
+  id: requiredText('Report ID is required'),
+  title: requiredText('Title is required'),
+  name: z.string().optional(), // Reports from before titles
+  description: z.string().optional(),
+  icon: z.string().optional(),
+  powerBIReportId: z.string().optional(),
+  reportId: z.string().optional(),
+  datasetId: z.string().optional(),
+  sharedDatasetId: z.string().optional(),
+  coreDatasetId: z.string().optional(), // Older name of sharedDatasetId
+  clientId: z.string().optional(),
+  tenantId: z.string().optional(),
+  embedUrl: z.string().optional(),
+  embedToken: z.string().optional(),
+  isActive: z.boolean().default(true),
+  rls: reportRlsSchema.optional(),
+  acl: reportAclSchema.optional(),
+}).strict();
+
+export type Report = z.infer<typeof reportSchema>;
+
+/** Departments and their reports. Report IDs are unique within a department. */
+export const reportsDataSchema = z.record(departmentNameSchema, z.array(reportSchema)).superRefine((data, ctx) => {
+  for (const [department, reports] of Object.entries(data)) {
+    const seen = new Set<string>();
+    reports.forEach((report, index) => {
+      if (seen.has(report.id)) {
+        ctx.addIssue({ code: z.ZodIssueCode.custom, path: [department, index, 'id'], message: `Report ID "${report.id}" is used twice` });
+      }
+      seen.add(report.id);
+    });
+  }
+});
+
+export type ReportsData = z.infer<typeof reportsDataSchema>;
+
+// ---------------------------------------------------------------------------
+// Report and catalog routes
+// ---------------------------------------------------------------------------
+
+/** POST /api/reports/generate-embed - the datasets come from the report's catalog entry */
+export const generateEmbedSchema = z.object({
+  reportId: requiredText('Report ID is required'),
+});
+
+/**
+ * POST /api/admin/generate-embed - datasets may be named for reports not in the catalog yet,
+ * and the editor may send the RLS settings being edited
+ */
+export const adminGenerateEmbedSchema = generateEmbedSchema.extend({
+  datasetId: z.string().trim().optional(),
+  sharedDatasetId: z.string().trim().optional(),
+  rls: reportRlsSchema.optional(),
+});
+
+/** POST /api/admin/departments */
+export const createDepartmentSchema = z.object({
+  departmentName: requiredText('Department name is required').max(100, 'Department names are limited to 100 characters'),
+});
+
+/** PUT /api/admin/reports */
+export const saveCatalogSchema = z.object({
+  reportsData: reportsDataSchema,
+});
+
+/** PUT /api/admin/reports/:department/:reportId - the fields to change; the ID stays */
+export const reportUpdateSchema = reportSchema.omit({ id: true }).partial().strict();
+
+/** GET /api/admin/reports/revisions/diff */
+export const revisionDiffQuerySchema = z.object({
+  from: z.coerce.number({ invalid_type_error: 'Revision numbers are whole numbers' }).int('Revision numbers are whole numbers'),
+  to: z.coerce.number({ invalid_type_error: 'Revision numbers are whole numbers' }).int('Revision numbers are whole numbers').optional(),
+});
+
+/** GET /api/admin/audit */
+export const auditQuerySchema = z.object({
+  actor: optionalQueryText,
+  action: optionalQueryText,
+  target: optionalQueryText,
+  from: optionalQueryText.refine(date => !date || !Number.isNaN(Date.parse(date)), 'Invalid date'),
+  to: optionalQueryText.refine(date => !date || !Number.isNaN(Date.parse(date)), 'Invalid date'),
+  page: z.coerce.number().int().positive().optional(),
+  pageSize: z.coerce.number().int().positive().optional(),
+});
+
+export type AuditQuery = z.infer<typeof auditQuerySchema>;
+
+// ---------------------------------------------------------------------------
+// User directory
+// ---------------------------------------------------------------------------
+
+const userFields = {
+  phone: phoneSchema.optional(),
+  name: z.string().trim().optional(),
+  departments: z.array(departmentNameSchema).optional(),
+  department: z.string().trim().optional(), // Sent by older clients instead of `departments`
+  role: roleSchema.optional(),
+};
+
+const hasDepartment = (user: { departments?: string[]; department?: string }) =>
+  (user.departments ?? (user.department ? [user.department] : [])).length > 0;
+
+/** POST /api/admin/users */
+export const createUserSchema = z.object({
+  email: emailSchema,
+  password: passwordSchema,
+  ...userFields,
+}).refine(hasDepartment, { path: ['departments'], message: 'Choose at least one department' });
+
+/** PUT /api/admin/users/:id - only the fields sent are changed */
+export const updateUserSchema = z.object({
+  ...userFields,
+  disabled: z.boolean().optional(),
+}).refine(user => user.departments === undefined || user.departments.length > 0, {
+  path: ['departments'],
+  message: 'A user needs at least one department',
+});
+
+/** POST /api/admin/users/:id/reset-password - without a password a temporary one is generated */
+export const adminResetPasswordSchema = z.object({
+  password: passwordSchema.optional(),
+});
+
+// ---------------------------------------------------------------------------
+// SSO mapping
+// ---------------------------------------------------------------------------
+
+export const ssoMappingRuleSchema = z.object({
+  id: z.string().optional(), // New rules get an ID when saved
+  provider: z.string().trim().min(1, 'Choose a provider').default('azure'), // Rules saved before there were several providers are for Azure AD
+  source: z.enum(['group', 'app-role', 'attribute'], { errorMap: () => ({ message: 'Unknown source' }) }),
+  attribute: z.enum(GRAPH_ATTRIBUTES, { errorMap: () => ({ message: 'Unknown attribute' }) }).optional(),
+  value: requiredText('A value to match is required'),
+  departments: z.array(z.string().trim()).default([]),
+  role: roleSchema.optional(),
+}).superRefine((rule, ctx) => {
+  if (rule.source === 'attribute' && !rule.attribute) {
+    ctx.addIssue({ code: z.ZodIssueCode.custom, path: ['attribute'], message: 'Choose an attribute' });
+  }
+  if (!rule.departments.some(Boolean) && rule.role === undefined) {
+    ctx.addIssue({ code: z.ZodIssueCode.custom, path: ['departments'], message: 'Grant at least a department or a role' });
+  }
+});
+
+export const ssoMappingSchema = z.object({
+  rules: z.array(ssoMappingRuleSchema),
+  useGraphDepartment: z.boolean().default(true),
+  fallbackDepartment: requiredText('A fallback department is required'),
+  defaultRole: roleSchema,
+});
+
+export type SsoMappingInput = z.infer<typeof ssoMappingSchema>;
+
+/** PUT /api/admin/sso-mapping */
+export const saveSsoMappingSchema = z.object({
+  mapping: ssoMappingSchema,
+});
+
+/** POST /api/admin/sso-mapping/test - uses the saved rules when no mapping is sent */
+export const testSsoMappingSchema = z.object({
+  mapping: ssoMappingSchema.optional(),
+  identity: z.object({
+    provider: z.string().trim().default('azure'),
+    groups: z.array(z.string()).default([]),
+    appRoles: z.array(z.string()).default([]),
+    attributes: z.record(z.enum(GRAPH_ATTRIBUTES), z.string()).default({}),
+  }).default({}),
+});
+
+// ---------------------------------------------------------------------------
+// Sign-in and sessions
+// ---------------------------------------------------------------------------
+
+/** POST /auth/manual-login - `phone` is accepted from older clients instead of `email` */
+export const manualLoginSchema = z.object({
+  email: z.string().trim().optional(),
+  phone: z.string().trim().optional(),
+  password: z.string({ required_error: 'Password is required' }).min(1, 'Password is required'),
+}).refine(login => !!(login.email || login.phone), { path: ['email'], message: 'Email is required' });
+
+/** POST /auth/mfa/verify - an authenticator code or a recovery code */
+export const mfaVerifySchema = z.object({
+  mfaToken: requiredText('Your sign-in has expired, please enter your password again'),
+  code: otpCodeSchema.optional(),
+  recoveryCode: z.string().trim().optional(),
+}).refine(body => !!(body.code || body.recoveryCode), { path: ['code'], message: 'Enter the 6-digit code' });
+
+/** POST /auth/mfa/enroll - `mfaToken` when setting MFA up to finish a sign-in */
+export const mfaEnrollSchema = z.object({
+  mfaToken: z.string().optional(),
+});
+
+/** POST /auth/mfa/enroll/confirm */
+export const mfaEnrollConfirmSchema = mfaEnrollSchema.extend({
+  enrollmentToken: requiredText('Setup has expired, please start again'),
+  code: otpCodeSchema,
+});
+
+/** POST /auth/mfa/recovery-codes and /auth/mfa/disable - confirmed with a current code */
+export const mfaCodeSchema = mfaEnrollSchema.extend({
+  code: otpCodeSchema,
+});
+
+/** POST /auth/sms/request */
+export const smsRequestSchema = z.object({
+  phone: requiredText('Phone number is required'),
+});
+
+/** POST /auth/sms/verify */
+export const smsVerifySchema = smsRequestSchema.extend({
+  code: otpCodeSchema,
+});
+
+/** POST /auth/forgot-password and /auth/magic-link/request */
+export const emailRequestSchema = z.object({
+  email: emailSchema,
+});
+
+/** POST /auth/reset-password */
+export const resetPasswordSchema = z.object({
+  token: requiredText('This reset link is invalid or has expired. Please request a new one.'),
+  password: passwordSchema,
+});
+
+/** POST /auth/magic-link/verify */
+export const magicLinkVerifySchema = z.object({
+  token: requiredText('This sign-in link is invalid, expired or already used. Please request a new one.'),
+});
+
+/** POST /auth/sso/exchange - the one-time code from the SSO callback's redirect */
+export const ssoExchangeSchema = z.object({
+  code: requiredText('This sign-in has expired or was already completed. Please sign in again.'),
+});
+
+/** POST /auth/refresh */
+export const refreshSchema = z.object({
+  refreshToken: requiredText('refreshToken is required'),
+});
+
+/** POST /auth/logout */
+export const logoutSchema = z.object({
+  everywhere: z.boolean().optional(),
+});
@@ -0,0 +1,53 @@
+import { afterEach, beforeEach, describe, expect, it, vi } from 'vitest';
+import { IssueResult, issueSmsOtp, verifySmsOtp } from './smsOtp';
+
+const codeOf = (result: IssueResult) => (result.status === 'issued' ? result.code : '');
+const wrongCode = (code: string) => (code === '000000' ? '111111' : '000000');
+
+describe('SMS one-time codes', () => {
+  beforeEach(() => {
+    vi.useFakeTimers({ toFake: ['Date'] });
+    vi.stubEnv('SMS_OTP_TTL_MINUTES', '5');
+    vi.stubEnv('SMS_OTP_MAX_ATTEMPTS', '3');
+    vi.stubEnv('SMS_OTP_RESEND_SECONDS', '60');
+  });
+
+  afterEach(() => {
+    vi.useRealTimers();
+    vi.unstubAllEnvs();
+  });
+
+  it('sign in the user of the phone number once', () => {
+    const issued = issueSmsOtp('+15550001', 'user-1');
+    expect(issued).toMatchObject({ status: 'issued', expiresInSeconds: 300 });
+    expect(codeOf(issued)).toMatch(/^\d{6}$/);
+
+    expect(verifySmsOtp('+15550001', ` ${codeOf(issued)} `)).toEqual({ status: 'ok', userId: 'user-1' });
+    expect(verifySmsOtp('+15550001', codeOf(issued)).status).toBe('missing');
+  });
+
+  it('are resent only after the resend interval', () => {
+    issueSmsOtp('+15550002', 'user-2');
+    vi.advanceTimersByTime(45 * 1000);
+    expect(issueSmsOtp('+15550002', 'user-2')).toEqual({ status: 'too-soon', retryAfter: 15 });
+
+    vi.advanceTimersByTime(15 * 1000);
+    const second = codeOf(issueSmsOtp('+15550002', 'user-2'));
+    expect(verifySmsOtp('+15550002', second).status).toBe('ok');
+  });
+
+  it('are discarded after too many wrong guesses', () => {
+    const code = codeOf(issueSmsOtp('+15550003', 'user-3'));
+
+    expect(verifySmsOtp('+15550003', wrongCode(code))).toEqual({ status: 'invalid', attemptsLeft: 2 });
+    expect(verifySmsOtp('+15550003', wrongCode(code))).toEqual({ status: 'invalid', attemptsLeft: 1 });
+    expect(verifySmsOtp('+15550003', wrongCode(code))).toEqual({ status: 'too-many-attempts' });
+    expect(verifySmsOtp('+15550003', code).status).toBe('missing');
+  });
+
+  it('expire', () => {
+    const code = codeOf(issueSmsOtp('+15550004', 'user-4'));
+    vi.advanceTimersByTime(5 * 60 * 1000);
+    expect(verifySmsOtp('+15550004', code).status).toBe('expired');
+  });
+});
@@ -0,0 +1,114 @@
+import crypto from 'crypto';
+import fs from 'fs';
+import path from 'path';
+import { writeFileAtomic, withFileLock } from './fileUtils';
+import { logger } from './logger';
+
+/**
+ * One-time codes for passwordless phone login. Each phone number has at most one
+ * outstanding code, stored as a salted hash. A code expires after
+ * SMS_OTP_TTL_MINUTES (default 5), is discarded after SMS_OTP_MAX_ATTEMPTS wrong
+ * guesses (default 5), and a new one can be requested after SMS_OTP_RESEND_SECONDS
+ * (default 60).
+ */
+interface SmsOtpRecord {
+  userId: string;
+  salt: string;
+  hash: string;
+  sentAt: string;
+  expiresAt: string;
+  attempts: number;
+}
+
+export type IssueResult =
+  | { status: 'issued'; code: string; expiresInSeconds: number }
+  | { status: 'too-soon'; retryAfter: number };
+
+export type VerifyResult =
+  | { status: 'ok'; userId: string }
+  | { status: 'invalid'; attemptsLeft: number }
+  | { status: 'missing' | 'expired' | 'too-many-attempts' };
+
+const SMS_OTP_FILE = process.env.SMS_OTP_FILE || path.join(__dirname, 'sms-otps.json');
+const CODE_DIGITS = 6;
+
+// Read lazily so values from .env are picked up
+const ttlMs = () => Number(process.env.SMS_OTP_TTL_MINUTES || 5) * 60 * 1000;
+const maxAttempts = () => Number(process.env.SMS_OTP_MAX_ATTEMPTS || 5);
+const resendMs = () => Number(process.env.SMS_OTP_RESEND_SECONDS || 60) * 1000;
+
+const hashCode = (salt: string, code: string) => crypto.createHash('sha256').update(`${salt}:${code}`).digest('base64url');
+
+const loadCodes = (): Record<string, SmsOtpRecord> => {
+  try {
+    return JSON.parse(fs.readFileSync(SMS_OTP_FILE, 'utf-8'));
+  } catch (error) {
+    if ((error as NodeJS.ErrnoException).code !== 'ENOENT') {
+      logger.error('Error loading SMS codes', { error });
+    }
+    return {};
+  }
+};
+
+/**
+ * Applies a change to the outstanding codes (keyed by phone number), dropping expired ones.
+ */
+const updateCodes = <T>(fn: (codes: Record<string, SmsOtpRecord>, now: number) => T): T =>
+  withFileLock(`${SMS_OTP_FILE}.lock`, () => {
+    const now = Date.now();
+    const codes = loadCodes();
+    const result = fn(codes, now);
+    const current = Object.entries(codes).filter(([, record]) => Date.parse(record.expiresAt) > now);
+    writeFileAtomic(SMS_OTP_FILE, JSON.stringify(Object.fromEntries(current), null, 2));
+    return result;
+  });
+
+/**
+ * Creates a code for the phone number, replacing any earlier one, unless the last code
+ * was sent too recently.
+ */
+export const issueSmsOtp = (phone: string, userId: string): IssueResult =>
+  updateCodes((codes, now) => {
+    const previous = codes[phone];
+    const resendAt = previous ? Date.parse(previous.sentAt) + resendMs() : 0;
+    if (resendAt > now) return { status: 'too-soon', retryAfter: Math.ceil((resendAt - now) / 1000) };
+
+    const code = crypto.randomInt(0, 10 ** CODE_DIGITS).toString().padStart(CODE_DIGITS, '0');
+    const salt = crypto.randomBytes(16).toString('base64url');
+    codes[phone] = {
+      userId,
+      salt,
+      hash: hashCode(salt, code),
+      sentAt: new Date(now).toISOString(),
+      expiresAt: new Date(now + ttlMs()).toISOString(),
+      attempts: 0,
+    };
+    return { status: 'issued', code, expiresInSeconds: Math.round(ttlMs() / 1000) };
+  });
+
+/**
+ * Checks a code. A correct code is used up; the last allowed wrong guess discards it.
+ */
+export const verifySmsOtp = (phone: string, code: string): VerifyResult =>
+  updateCodes((codes, now) => {
+    const record = codes[phone];
+    if (!record) return { status: 'missing' };
+    if (Date.parse(record.expiresAt) <= now) {
+      delete codes[phone];
+      return { status: 'expired' };
+    }
+
+    const expected = Buffer.from(record.hash);
+    const actual = Buffer.from(hashCode(record.salt, code.trim()));
+    if (crypto.timingSafeEqual(expected, actual)) {
+      delete codes[phone];
+      return { status: 'ok', userId: record.userId };
+    }
+
+    record.attempts++;
+    if (record.attempts >= maxAttempts()) {
+      delete codes[phone];
+      return { status: 'too-many-attempts' };
+    }
+    return { status: 'invalid', attemptsLeft: maxAttempts() - record.attempts };
+  });
@@ -0,0 +1,101 @@
+import fs from 'fs';
+import path from 'path';
+import { logger } from './logger';
+
+export interface SmsMessage {
+  to: string; // E.164, e.g. +447700900123
+  text: string;
+}
+
+/**
+ * Delivers text messages. Failures are thrown so callers can decide whether the user
+ * should hear about them.
+ */
+export interface SmsSender {
+  send(message: SmsMessage): Promise<void>;
+}
+
+const DEFAULT_OUTBOX_FILE = path.join(__dirname, 'sms-outbox.jsonl');
+
+// Providers that keep messages on the server, for development only
+const DEVELOPMENT_PROVIDERS = ['console', 'file'];
+
+/**
+ * Only logs that a message would have been sent, for local development. The text is
+ * left out because it holds a sign-in code; use the file provider to read codes back.
+ */
+const createConsoleSender = (): SmsSender => ({
+  async send(message) {
+    logger.info('SMS not sent (console provider)', { to: message.to });
+  },
+});
+
+/**
+ * Refuses every message, so phone login fails closed when no provider is configured.
+ */
+const createDisabledSender = (): SmsSender => ({
+  async send() {
+    throw new Error('No SMS provider is configured; set SMS_PROVIDER to "twilio"');
+  },
+});
+
+/**
+ * Appends each message as a JSON line to a file instead of sending it, for local
+ * development and tests that read the codes back.
+ */
+const createFileSender = (file: string): SmsSender => ({
+  async send(message) {
+    await fs.promises.appendFile(file, JSON.stringify({ sentAt: new Date().toISOString(), ...message }) + '\n');
+  },
+});
+
+/**
+ * Sends through the Twilio Messages API (TWILIO_ACCOUNT_SID, TWILIO_AUTH_TOKEN, TWILIO_FROM).
+ */
+const createTwilioSender = (): SmsSender => {
+  const { TWILIO_ACCOUNT_SID, TWILIO_AUTH_TOKEN, TWILIO_FROM } = process.env;
+  if (!TWILIO_ACCOUNT_SID || !TWILIO_AUTH_TOKEN || !TWILIO_FROM) {
+    throw new Error('SMS_PROVIDER is "twilio" but TWILIO_ACCOUNT_SID, TWILIO_AUTH_TOKEN or TWILIO_FROM is not set');
+  }
+  const url = `https://api.twilio.com/2010-04-01/Accounts/${encodeURIComponent(TWILIO_ACCOUNT_SID)}/Messages.json`;
+  const authorization = `Basic ${Buffer.from(`${TWILIO_ACCOUNT_SID}:${TWILIO_AUTH_TOKEN}`).toString('base64')}`;
+
+  return {
+    async send(message) {
+      const response = await fetch(url, {
+        method: 'POST',
+        headers: { 'Authorization': authorization, 'Content-Type': 'application/x-www-form-urlencoded' },
+        body: new URLSearchParams({ To: message.to, From: TWILIO_FROM, Body: message.text }),
+      });
+      if (!response.ok) {
+        throw new Error(`Twilio responded ${response.status}: ${await response.text()}`);
+      }
+    },
+  };
+};
+
+/**
+ * Creates the sender selected by SMS_PROVIDER (`console`, `file`, `twilio` or `none`).
+ * The default is `console`, or `none` when NODE_ENV is production, where the
+ * development providers are refused. SMS_OUTBOX_FILE overrides where the file sender writes.
+ */
+export const createSmsSender = (): SmsSender => {
+  const production = process.env.NODE_ENV === 'production';
+  const kind = (process.env.SMS_PROVIDER || (production ? 'none' : 'console')).toLowerCase();
+  if (production && DEVELOPMENT_PROVIDERS.includes(kind)) {
+    throw new Error(`SMS_PROVIDER "${kind}" does not deliver messages and cannot be used when NODE_ENV is production`);
+  }
+
+  switch (kind) {
+    case 'none':
+      return createDisabledSender();
+    case 'console':
+      return createConsoleSender();
+    case 'file':
+      return createFileSender(process.env.SMS_OUTBOX_FILE || DEFAULT_OUTBOX_FILE);
+    case 'twilio':
+      return createTwilioSender();
+    default:
+      throw new Error(`Unknown SMS_PROVIDER "${kind}" (expected "console", "file", "twilio" or "none")`);
+  }
+};
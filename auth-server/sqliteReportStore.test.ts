@@ -0,0 +1,30 @@
+import { describe, expect, it } from 'vitest';
+import type { Report } from './reportStore';
+import { createSqliteReportStore } from './sqliteReportStore';
+
+const report = (id: string) => ({ id, title: id }) as unknown as Report;
+
+describe('sqliteReportStore', () => {
+  const store = createSqliteReportStore(process.env.REPORTS_DB_FILE!);
+
+  it('saves the catalog as a new revision', () => {
+    const info = store.save({ IT: [report('r1')] }, { actor: 'ann@example.com' });
+
+    expect(store.load()).toEqual({ IT: [report('r1')] });
+    expect(store.currentRevision()).toBe(info.revision);
+    expect(store.getRevision(info.revision)?.data).toEqual({ IT: [report('r1')] });
+  });
+
+  it('rolls back saves made under the lock when the cycle fails', () => {
+    const before = store.load();
+    const revision = store.currentRevision();
+
+    expect(() => store.withLock(() => {
+      store.save({ IT: [report('r1')], HR: [report('r2')] });
+      throw new Error('Audit failed');
+    })).toThrow('Audit failed');
+
+    expect(store.load()).toEqual(before);
+    expect(store.currentRevision()).toBe(revision);
+  });
+});
@@ -0,0 +1,137 @@
+import fs from 'fs';
+import path from 'path';
+import Database from 'better-sqlite3';
+import type { Report, ReportStore, ReportsData, Revision, RevisionInfo, SaveOptions } from './reportStore';
+import { logger } from './logger';
+
+const SCHEMA = `
+  CREATE TABLE IF NOT EXISTS departments (
+    name TEXT PRIMARY KEY,
+    position INTEGER NOT NULL
+  );
+  CREATE TABLE IF NOT EXISTS reports (
+    department TEXT NOT NULL REFERENCES departments(name) ON DELETE CASCADE,
+    position INTEGER NOT NULL,
+    data TEXT NOT NULL,
+    PRIMARY KEY (department, position)
+  );
+  CREATE TABLE IF NOT EXISTS revisions (
+    revision INTEGER PRIMARY KEY,
+    created_at TEXT NOT NULL,
+    actor TEXT,
+    summary TEXT,
+    data TEXT NOT NULL
+  );
+  CREATE TABLE IF NOT EXISTS meta (
+    key TEXT PRIMARY KEY,
+    value TEXT NOT NULL
+  );
+`;
+
+const JSON_IMPORT_KEY = 'json_import';
+
+type RevisionRow = { revision: number; created_at: string; actor: string | null; summary: string | null };
+
+const toRevisionInfo = (row: RevisionRow): RevisionInfo => ({
+  revision: row.revision,
+  createdAt: row.created_at,
+  ...(row.actor && { actor: row.actor }),
+  ...(row.summary && { summary: row.summary }),
+});
+
+/**
+ * Report store backed by SQLite. Every save replaces the catalog and appends a
+ * snapshot to `revisions` inside a single transaction, and `withLock` uses an
+ * IMMEDIATE transaction so the database's own write lock serializes concurrent
+ * writers across processes.
+ *
+ * On first start the existing JSON catalog (if any) is imported once; the import
+ * is recorded in the `meta` table so it never runs again.
+ */
+export const createSqliteReportStore = (dbFile: string, importJsonFile?: string): ReportStore => {
+  const db = new Database(dbFile);
+  db.pragma('journal_mode = WAL');
+  db.pragma('foreign_keys = ON');
+  db.pragma('busy_timeout = 5000');
+  db.exec(SCHEMA);
+
+  const selectDepartments = db.prepare('SELECT name FROM departments ORDER BY position');
+  const selectReports = db.prepare('SELECT department, data FROM reports ORDER BY department, position');
+  const deleteDepartments = db.prepare('DELETE FROM departments');
+  const insertDepartment = db.prepare('INSERT INTO departments (name, position) VALUES (?, ?)');
+  const insertReport = db.prepare('INSERT INTO reports (department, position, data) VALUES (?, ?, ?)');
+  const selectMeta = db.prepare('SELECT value FROM meta WHERE key = ?');
+  const upsertMeta = db.prepare('INSERT INTO meta (key, value) VALUES (?, ?) ON CONFLICT(key) DO UPDATE SET value = excluded.value');
+  const selectCurrentRevision = db.prepare('SELECT COALESCE(MAX(revision), 0) AS revision FROM revisions');
+  const selectRevisions = db.prepare('SELECT revision, created_at, actor, summary FROM revisions ORDER BY revision DESC');
+  const selectRevision = db.prepare('SELECT revision, created_at, actor, summary, data FROM revisions WHERE revision = ?');
+  const insertRevision = db.prepare('INSERT INTO revisions (revision, created_at, actor, summary, data) VALUES (?, ?, ?, ?, ?)');
+
+  const load = (): ReportsData => {
+    const data: ReportsData = {};
+    for (const { name } of selectDepartments.all() as { name: string }[]) {
+      data[name] = [];
+    }
+    for (const row of selectReports.all() as { department: string; data: string }[]) {
+      data[row.department].push(JSON.parse(row.data) as Report);
+    }
+    return data;
+  };
+
+  const writeAll = (data: ReportsData) => {
+    // Reports are removed by the ON DELETE CASCADE
+    deleteDepartments.run();
+    Object.entries(data).forEach(([department, reports], departmentIndex) => {
+      insertDepartment.run(department, departmentIndex);
+      reports.forEach((report, reportIndex) => {
+        insertReport.run(department, reportIndex, JSON.stringify(report));
+      });
+    });
+  };
+
+  const withLock = <T>(fn: () => T): T => {
+    if (db.inTransaction) return fn();
+    return db.transaction(fn).immediate();
+  };
+
+  const currentRevision = () => (selectCurrentRevision.get() as { revision: number }).revision;
+
+  const listRevisions = () => (selectRevisions.all() as RevisionRow[]).map(toRevisionInfo);
+
+  const getRevision = (revision: number): Revision | undefined => {
+    const row = selectRevision.get(revision) as (RevisionRow & { data: string }) | undefined;
+    return row && { ...toRevisionInfo(row), data: JSON.parse(row.data) };
+  };
+
+  const save = (data: ReportsData, options: SaveOptions = {}): RevisionInfo =>
+    withLock(() => {
+      const info: RevisionInfo = { revision: currentRevision() + 1, createdAt: new Date().toISOString(), ...options };
+      writeAll(data);
+      insertRevision.run(info.revision, info.createdAt, info.actor ?? null, info.summary ?? null, JSON.stringify(data));
+      return info;
+    });
+
+  const importFromJson = () => {
+    withLock(() => {
+      if (selectMeta.get(JSON_IMPORT_KEY)) return;
+
+      if (importJsonFile && fs.existsSync(importJsonFile)) {
+        const data: ReportsData = JSON.parse(fs.readFileSync(importJsonFile, 'utf-8'));
+        save(data, { summary: `Imported from ${path.basename(importJsonFile)}` });
+        logger.info('Imported the JSON catalog', { departments: Object.keys(data).length, from: importJsonFile, into: dbFile });
+      }
+      upsertMeta.run(JSON_IMPORT_KEY, new Date().toISOString());
+    });
+  };
+
+  importFromJson();
+
+  // Databases created before revisions existed get a baseline revision to roll back to
+  withLock(() => {
+    if (currentRevision() === 0 && selectDepartments.all().length > 0) {
+      save(load(), { summary: 'Initial revision' });
+    }
+  });
+
+  return { load, save, currentRevision, listRevisions, getRevision, withLock };
+};
@@ -0,0 +1,73 @@
+import crypto from 'crypto';
+import fs from 'fs';
+import path from 'path';
+import { writeFileAtomic, withFileLock } from './fileUtils';
+import type { SessionClaims } from './refreshTokens';
+import { logger } from './logger';
+
+/**
+ * Hands a finished SSO sign-in over to the frontend. The callback redirects with a
+ * random one-time code instead of the tokens, and the frontend exchanges it at
+ * /auth/sso/exchange, so tokens never appear in URLs, browser history or proxy logs.
+ * Codes are stored hashed with the session claims and expire after
+ * SSO_CODE_TTL_SECONDS (default 60); the session only starts when a code is exchanged.
+ */
+interface SsoCodeRecord {
+  claims: SessionClaims;
+  expiresAt: string;
+}
+
+const SSO_CODES_FILE = process.env.SSO_CODES_FILE || path.join(__dirname, 'sso-codes.json');
+
+// Read lazily so values from .env are picked up
+const codeTtlMs = () => Number(process.env.SSO_CODE_TTL_SECONDS || 60) * 1000;
+
+const hashCode = (code: string) => crypto.createHash('sha256').update(code).digest('base64url');
+
+const loadCodes = (): Record<string, SsoCodeRecord> => {
+  try {
+    return JSON.parse(fs.readFileSync(SSO_CODES_FILE, 'utf-8'));
+  } catch (error) {
+    if ((error as NodeJS.ErrnoException).code !== 'ENOENT') {
+      logger.error('Error loading SSO codes', { error });
+    }
+    return {};
+  }
+};
+
+/**
+ * Applies a change to the outstanding codes (keyed by hash), dropping expired ones.
+ */
+const updateCodes = <T>(fn: (codes: Record<string, SsoCodeRecord>) => T): T =>
+  withFileLock(`${SSO_CODES_FILE}.lock`, () => {
+    const codes = loadCodes();
+    const result = fn(codes);
+    const now = new Date().toISOString();
+    const current = Object.fromEntries(Object.entries(codes).filter(([, record]) => record.expiresAt > now));
+    writeFileAtomic(SSO_CODES_FILE, JSON.stringify(current, null, 2));
+    return result;
+  });
+
+/**
+ * Stores the claims of a finished sign-in and returns the code that redeems them.
+ */
+export const createSsoCode = (claims: SessionClaims): string =>
+  updateCodes(codes => {
+    const code = crypto.randomBytes(32).toString('base64url');
+    codes[hashCode(code)] = { claims, expiresAt: new Date(Date.now() + codeTtlMs()).toISOString() };
+    return code;
+  });
+
+/**
+ * Redeems a code. Returns the sign-in's claims when the code is valid and unexpired; it cannot be used again.
+ */
+export const consumeSsoCode = (code: unknown): SessionClaims | undefined => {
+  if (typeof code !== 'string' || !code) return undefined;
+
+  return updateCodes(codes => {
+    const hash = hashCode(code);
+    const record = codes[hash];
+    delete codes[hash];
+    return record && record.expiresAt > new Date().toISOString() ? record.claims : undefined;
+  });
+};
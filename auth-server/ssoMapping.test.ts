@@ -0,0 +1,70 @@
+import fs from 'fs';
+import { afterEach, describe, expect, it, vi } from 'vitest';
+import { logger } from './logger';
+import { ssoMappingSchema } from './shared/schemas';
+import { evaluateSsoMapping, loadSsoMapping, normalizeSsoMapping, SsoIdentity, SsoMapping, toSsoIdentity } from './ssoMapping';
+
+const identity = (fields: Partial<SsoIdentity> = {}): SsoIdentity => ({ provider: 'azure', groups: [], appRoles: [], attributes: {}, ...fields });
+
+const mapping: SsoMapping = normalizeSsoMapping(ssoMappingSchema.parse({
+  rules: [
+    { id: 'finance', source: 'group', value: 'GROUP-FIN', departments: ['Finance'] },
+    { id: 'admins', source: 'app-role', value: 'Insights.Admin', departments: [], role: 'catalog-admin' },
+    { id: 'managers', source: 'attribute', attribute: 'jobTitle', value: 'Manager', departments: ['Finance', 'Sales'], role: 'department-owner' },
+    { id: 'okta', provider: 'okta', source: 'group', value: 'group-fin', departments: ['Okta'] },
+  ],
+  fallbackDepartment: 'IT',
+  defaultRole: 'viewer',
+}));
+
+describe('SSO mapping', () => {
+  afterEach(() => {
+    fs.rmSync(process.env.SSO_MAPPING_FILE!, { force: true });
+    vi.restoreAllMocks();
+  });
+
+  it('gives the departments of every matching rule and the most privileged role', () => {
+    const result = evaluateSsoMapping(mapping, identity({
+      groups: ['group-fin'],
+      appRoles: ['insights.admin'],
+      attributes: { jobTitle: 'MANAGER' },
+    }));
+
+    expect(result).toEqual({ departments: ['Finance', 'Sales'], role: 'catalog-admin', matchedRuleIds: ['finance', 'admins', 'managers'] });
+  });
+
+  it('only matches rules of the provider of the sign-in', () => {
+    expect(evaluateSsoMapping(mapping, identity({ provider: 'okta', groups: ['GROUP-FIN'] })).matchedRuleIds).toEqual(['okta']);
+  });
+
+  it('falls back to the Graph department or the fallback department and the default role', () => {
+    expect(evaluateSsoMapping(mapping, identity({ attributes: { department: 'Legal' } }))).toEqual({ departments: ['Legal'], role: 'viewer', matchedRuleIds: [] });
+    expect(evaluateSsoMapping({ ...mapping, useGraphDepartment: false }, identity({ attributes: { department: 'Legal' } })).departments).toEqual(['IT']);
+  });
+
+  it('reads the identity from the token claims and the Graph profile', () => {
+    expect(toSsoIdentity('azure', { groups: ['g1', 7], roles: 'not-a-list' }, { jobTitle: 'Manager', department: '', mail: 'ann@example.com' })).toEqual(
+      identity({ groups: ['g1'], attributes: { jobTitle: 'Manager' } })
+    );
+  });
+
+  it('gives new rules an ID, de-duplicates their departments and reads old rules as Azure AD rules', () => {
+    const [rule] = normalizeSsoMapping(ssoMappingSchema.parse({
+      rules: [{ source: 'group', value: 'g1', departments: ['HR', 'HR', ''] }],
+      fallbackDepartment: 'IT',
+      defaultRole: 'viewer',
+    })).rules;
+
+    expect(rule).toMatchObject({ provider: 'azure', departments: ['HR'] });
+    expect(rule.id).toMatch(/^[0-9a-f-]{36}$/);
+  });
+
+  it('uses the defaults when the saved mapping is missing or invalid', () => {
+    expect(loadSsoMapping()).toEqual({ rules: [], useGraphDepartment: true, fallbackDepartment: 'IT', defaultRole: 'viewer' });
+
+    const error = vi.spyOn(logger, 'error').mockImplementation(() => undefined);
+    fs.writeFileSync(process.env.SSO_MAPPING_FILE!, JSON.stringify({ rules: [{ source: 'group' }], defaultRole: 'owner' }));
+    expect(loadSsoMapping().rules).toEqual([]);
+    expect(error).toHaveBeenCalledWith('Invalid SSO mapping, using defaults', expect.anything());
+  });
+});
@@ -0,0 +1,146 @@
+import crypto from 'crypto';
+import fs from 'fs';
+import path from 'path';
+import { writeFileAtomic } from './fileUtils';
+import { ROLES, Role } from './shared/permissions';
+import { GRAPH_ATTRIBUTES, GraphAttribute, SsoMappingInput, ssoMappingSchema, toValidationErrorBody } from './shared/schemas';
+import { logger } from './logger';
+
+export type SsoRuleSource = 'group' | 'app-role' | 'attribute';
+
+/**
+ * Grants departments and/or a role to SSO users of `provider` whose sign-in matches
+ * `value`: an Azure AD group object ID (`groups` claim), an app role value (`roles`
+ * claim) or the value of a Graph attribute. Values are compared case-insensitively.
+ */
+export interface SsoMappingRule {
+  id: string;
+  provider: string; // Identity provider ID; rules saved before there were several providers are for `azure`
+  source: SsoRuleSource;
+  attribute?: GraphAttribute; // Only for attribute rules
+  value: string;
+  departments: string[];
+  role?: Role;
+}
+
+/**
+ * Rules evaluated at `/auth/callback`. Users get the departments of every matching
+ * rule and the most privileged role among the matches and `defaultRole`. Users no
+ * rule gives a department get their Graph `department` (when `useGraphDepartment`
+ * is set) or `fallbackDepartment`.
+ */
+export interface SsoMapping {
+  rules: SsoMappingRule[];
+  useGraphDepartment: boolean;
+  fallbackDepartment: string;
+  defaultRole: Role;
+}
+
+// What a sign-in is matched on
+export interface SsoIdentity {
+  provider: string;
+  groups: string[];
+  appRoles: string[];
+  attributes: Partial<Record<GraphAttribute, string>>;
+}
+
+export interface SsoMappingResult {
+  departments: string[];
+  role: Role;
+  matchedRuleIds: string[];
+}
+
+const SSO_MAPPING_FILE = process.env.SSO_MAPPING_FILE || path.join(__dirname, 'sso-mapping.json');
+
+// Matches the behaviour from before mappings were configurable
+const DEFAULT_MAPPING: SsoMapping = {
+  rules: [],
+  useGraphDepartment: true,
+  fallbackDepartment: 'IT',
+  defaultRole: 'viewer',
+};
+
+const toStrings = (value: unknown): string[] =>
+  Array.isArray(value) ? value.filter((item): item is string => typeof item === 'string') : [];
+
+/**
+ * Tidies a mapping that passed ssoMappingSchema: new rules get IDs, and rule
+ * departments are de-duplicated.
+ */
+export const normalizeSsoMapping = (input: SsoMappingInput): SsoMapping => ({
+  rules: input.rules.map(rule => ({
+    id: rule.id || crypto.randomUUID(),
+    provider: rule.provider,
+    source: rule.source,
+    ...(rule.source === 'attribute' && { attribute: rule.attribute }),
+    value: rule.value,
+    departments: [...new Set(rule.departments.filter(Boolean))],
+    ...(rule.role !== undefined && { role: rule.role }),
+  })),
+  useGraphDepartment: input.useGraphDepartment,
+  fallbackDepartment: input.fallbackDepartment,
+  defaultRole: input.defaultRole,
+});
+
+export const loadSsoMapping = (): SsoMapping => {
+  try {
+    const parsed = ssoMappingSchema.safeParse(JSON.parse(fs.readFileSync(SSO_MAPPING_FILE, 'utf-8')));
+    if (!parsed.success) {
+      logger.error('Invalid SSO mapping, using defaults', { problem: toValidationErrorBody(parsed.error).error });
+      return DEFAULT_MAPPING;
+    }
+    return normalizeSsoMapping(parsed.data);
+  } catch (error) {
+    if ((error as NodeJS.ErrnoException).code !== 'ENOENT') {
+      logger.error('Error loading SSO mapping', { error });
+    }
+    return DEFAULT_MAPPING;
+  }
+};
+
+export const saveSsoMapping = (mapping: SsoMapping): void => {
+  writeFileAtomic(SSO_MAPPING_FILE, JSON.stringify(mapping, null, 2));
+};
+
+/**
+ * Builds the identity rules are matched on from the provider's ID token claims and the
+ * Graph profile. `groups` and `roles` are only present when the app registration emits them.
+ */
+export const toSsoIdentity = (provider: string, claims: Record<string, unknown>, graphUser: Record<string, unknown>): SsoIdentity => ({
+  provider,
+  groups: toStrings(claims.groups),
+  appRoles: toStrings(claims.roles),
+  attributes: Object.fromEntries(
+    GRAPH_ATTRIBUTES.filter(attribute => typeof graphUser[attribute] === 'string' && graphUser[attribute])
+      .map(attribute => [attribute, graphUser[attribute] as string])
+  ),
+});
+
+// Group IDs and attribute values are only meaningful within the provider that issued them
+const matchesRule = (rule: SsoMappingRule, identity: SsoIdentity): boolean => {
+  if (rule.provider !== identity.provider) return false;
+  const expected = rule.value.toLowerCase();
+  const candidates =
+    rule.source === 'group' ? identity.groups
+    : rule.source === 'app-role' ? identity.appRoles
+    : [identity.attributes[rule.attribute!] || ''];
+  return candidates.some(candidate => candidate.toLowerCase() === expected);
+};
+
+export const evaluateSsoMapping = (mapping: SsoMapping, identity: SsoIdentity): SsoMappingResult => {
+  const matched = mapping.rules.filter(rule => matchesRule(rule, identity));
+
+  const departments = [...new Set(matched.flatMap(rule => rule.departments))];
+  if (departments.length === 0) {
+    const graphDepartment = identity.attributes.department;
+    departments.push(mapping.useGraphDepartment && graphDepartment ? graphDepartment : mapping.fallbackDepartment);
+  }
+
+  // ROLES is ordered from least to most privileged
+  const role = matched.reduce<Role>(
+    (best, rule) => (rule.role && ROLES.indexOf(rule.role) > ROLES.indexOf(best) ? rule.role : best),
+    mapping.defaultRole
+  );
+
+  return { departments, role, matchedRuleIds: matched.map(rule => rule.id) };
+};
@@ -0,0 +1,51 @@
+import type { AddressInfo } from 'net';
+import type { Server } from 'http';
+import type { Role } from './shared/permissions';
+import { createUser } from './userStore';
+
+export interface TestRequest {
+  method?: string;
+  token?: string;
+  body?: unknown;
+  headers?: Record<string, string>;
+}
+
+export interface TestServer {
+  server: Server;
+  request(path: string, options?: TestRequest): Promise<Response>;
+  /** Creates a directory user and signs them in, returning their access token. */
+  signIn(email: string, role: Role, departments?: string[]): Promise<string>;
+}
+
+const TEST_PASSWORD = 'Correct-horse-1';
+
+/**
+ * Starts the API on a free port for route tests. Call it from beforeAll, after stubbing
+ * any environment the server reads when loaded, and close `server` in afterAll.
+ */
+export const startTestServer = async (): Promise<TestServer> => {
+  const { app } = await import('./server');
+  const server = app.listen(0);
+  const baseUrl = `http://127.0.0.1:${(server.address() as AddressInfo).port}`;
+
+  const request = (path: string, { method = 'GET', token, body, headers = {} }: TestRequest = {}) =>
+    fetch(`${baseUrl}${path}`, {
+      method,
+      headers: {
+        ...(body !== undefined && { 'Content-Type': 'application/json' }),
+        ...(token && { Authorization: `Bearer ${token}` }),
+        ...headers,
+      },
+      body: body === undefined ? undefined : JSON.stringify(body),
+    });
+
+  const signIn = async (email: string, role: Role, departments: string[] = ['IT']) => {
+    createUser({ email, password: TEST_PASSWORD, name: email, departments, role });
+    const response = await request('/auth/manual-login', { method: 'POST', body: { email, password: TEST_PASSWORD } });
+    const { token } = await response.json();
+    if (!token) throw new Error(`Signing in ${email} failed with ${response.status}; is MFA required for ${role}?`);
+    return token as string;
+  };
+
+  return { server, request, signIn };
+};
@@ -0,0 +1,39 @@
+import fs from 'fs';
+import os from 'os';
+import path from 'path';
+import { afterAll } from 'vitest';
+
+/**
+ * Runs before each test file. The stores read their file locations when first imported,
+ * so pointing them at a fresh directory here keeps tests away from real data and from
+ * each other.
+ */
+const dataDir = fs.mkdtempSync(path.join(os.tmpdir(), 'auth-server-test-'));
+
+const DATA_FILES: Record<string, string> = {
+  USERS_DATA_FILE: 'users-data.json',
+  REPORTS_DATA_FILE: 'reports-data.json',
+  REPORTS_DB_FILE: 'reports-data.sqlite',
+  AUDIT_LOG_FILE: 'audit-log.jsonl',
+  LOGIN_ATTEMPTS_FILE: 'login-attempts.json',
+  REFRESH_TOKENS_FILE: 'refresh-tokens.json',
+  REVOKED_TOKENS_FILE: 'revoked-tokens.json',
+  SSO_MAPPING_FILE: 'sso-mapping.json',
+  OIDC_PROVIDERS_FILE: 'oidc-providers.json',
+  PASSWORD_RESETS_FILE: 'password-resets.json',
+  MAGIC_LINKS_FILE: 'magic-links.json',
+  SSO_CODES_FILE: 'sso-codes.json',
+  SMS_OTP_FILE: 'sms-otps.json',
+  SMS_OUTBOX_FILE: 'sms-outbox.jsonl',
+  MAIL_OUTBOX_DIR: 'mail-outbox',
+};
+
+Object.entries(DATA_FILES).forEach(([name, file]) => {
+  process.env[name] = path.join(dataDir, file);
+});
+process.env.JWT_SECRET = 'test-secret';
+process.env.LOG_LEVEL = 'error';
+
+afterAll(() => {
+  fs.rmSync(dataDir, { recursive: true, force: true });
+});
@@ -0,0 +1,98 @@
+import fs from 'fs';
+import path from 'path';
+import { writeFileAtomic, withFileLock } from './fileUtils';
+import { logger } from './logger';
+
+/**
+ * Access tokens revoked before they expire. Single tokens are denied by their `jti`;
+ * "log out everywhere" denies every token of a user issued before a point in time.
+ * Entries are kept only until the tokens they deny would have expired anyway.
+ */
+interface RevocationData {
+  tokens: Record<string, string>; // jti -> expiry of the revoked token
+  users: Record<string, { revokedBefore: string; expiresAt: string }>; // email -> cutoff
+}
+
+// The subset of access token claims revocation is checked against
+export interface RevocableToken {
+  jti?: string;
+  email: string;
+  iat?: number;
+}
+
+const REVOKED_TOKENS_FILE = process.env.REVOKED_TOKENS_FILE || path.join(__dirname, 'revoked-tokens.json');
+
+// verifyJWT checks every request, so the file is only re-read when it changed
+let cache: { mtimeMs: number; data: RevocationData } | null = null;
+
+const emptyData = (): RevocationData => ({ tokens: {}, users: {} });
+
+const readRevocations = (): RevocationData => {
+  try {
+    return JSON.parse(fs.readFileSync(REVOKED_TOKENS_FILE, 'utf-8'));
+  } catch (error) {
+    if ((error as NodeJS.ErrnoException).code !== 'ENOENT') {
+      logger.error('Error loading revoked tokens', { error });
+    }
+    return emptyData();
+  }
+};
+
+const loadRevocations = (): RevocationData => {
+  let mtimeMs: number;
+  try {
+    mtimeMs = fs.statSync(REVOKED_TOKENS_FILE).mtimeMs;
+  } catch {
+    return emptyData();
+  }
+
+  if (cache?.mtimeMs !== mtimeMs) {
+    cache = { mtimeMs, data: readRevocations() };
+  }
+  return cache.data;
+};
+
+/**
+ * Applies a change to the denylist, dropping entries whose tokens have expired.
+ */
+const updateRevocations = (fn: (data: RevocationData) => void): void =>
+  withFileLock(`${REVOKED_TOKENS_FILE}.lock`, () => {
+    const data = readRevocations();
+    fn(data);
+
+    const now = new Date().toISOString();
+    const tokens = Object.fromEntries(Object.entries(data.tokens).filter(([, expiresAt]) => expiresAt > now));
+    const users = Object.fromEntries(Object.entries(data.users).filter(([, entry]) => entry.expiresAt > now));
+    writeFileAtomic(REVOKED_TOKENS_FILE, JSON.stringify({ tokens, users }, null, 2));
+    cache = null;
+  });
+
+/**
+ * Denies a single access token until it expires.
+ */
+export const revokeAccessToken = (jti: string, expiresAt: Date): void =>
+  updateRevocations(data => {
+    data.tokens[jti] = expiresAt.toISOString();
+  });
+
+/**
+ * Denies every access token issued to a user up to now. `maxTokenLifetimeMs` is how
+ * long such tokens can still be valid, after which the entry is dropped.
+ */
+export const revokeUserAccessTokens = (email: string, maxTokenLifetimeMs: number): void =>
+  updateRevocations(data => {
+    const now = Date.now();
+    data.users[email.toLowerCase()] = {
+      revokedBefore: new Date(now).toISOString(),
+      expiresAt: new Date(now + maxTokenLifetimeMs).toISOString(),
+    };
+  });
+
+export const isAccessTokenRevoked = (token: RevocableToken): boolean => {
+  const data = loadRevocations();
+  if (token.jti && data.tokens[token.jti]) return true;
+
+  const userEntry = data.users[token.email.toLowerCase()];
+  // iat has second precision, so a token issued in the same second as the cutoff is denied too
+  return !!userEntry && (token.iat ?? 0) * 1000 <= Date.parse(userEntry.revokedBefore);
+};
@@ -0,0 +1,60 @@
+import crypto from 'crypto';
+import { afterEach, describe, expect, it, vi } from 'vitest';
+import { authenticateUser, createUser, findUserByIdentifier, normalizePhone, updateUser } from './userStore';
+
+describe('normalizePhone', () => {
+  it('keeps only the digits and a leading plus', () => {
+    expect(normalizePhone(' +44 (0)7700-900 123 ')).toBe('+4407700900123');
+    expect(normalizePhone('07700 900123')).toBe('07700900123');
+    expect(normalizePhone('+1+2')).toBe('+12');
+  });
+});
+
+describe('phone numbers', () => {
+  const newUser = (email: string, phone: string) =>
+    createUser({ email, phone, password: 'Correct-horse-1', departments: ['IT'], role: 'viewer' });
+
+  it('stores phone numbers normalized', () => {
+    expect(newUser('ann@example.com', ' +44 7700 900123 ').phone).toBe('+447700900123');
+  });
+
+  it('rejects the same number written differently', () => {
+    expect(() => newUser('bob@example.com', '+44 (7700) 900-123')).toThrow('A user with this phone number already exists');
+
+    const bob = newUser('bob@example.com', '+44 7700 900456');
+    expect(() => updateUser(bob.id, { phone: '+447700-900-123' })).toThrow('A user with this phone number already exists');
+    expect(updateUser(bob.id, { phone: '+44 7700 900789' })?.phone).toBe('+447700900789');
+  });
+
+  it('finds users by phone however the number is written', () => {
+    expect(findUserByIdentifier('+44 (7700) 900 123')?.email).toBe('ann@example.com');
+  });
+});
+
+describe('authenticateUser', () => {
+  afterEach(() => {
+    vi.restoreAllMocks();
+  });
+
+  it('signs in enabled users with the right password', () => {
+    const cy = createUser({ email: 'cy@example.com', password: 'Correct-horse-1', departments: ['IT'], role: 'viewer' });
+
+    expect(authenticateUser('CY@example.com', 'Correct-horse-1')?.id).toBe(cy.id);
+    expect(authenticateUser('cy@example.com', 'Wrong-horse-1')).toBeUndefined();
+    updateUser(cy.id, { disabled: true });
+    expect(authenticateUser('cy@example.com', 'Correct-horse-1')).toBeUndefined();
+  });
+
+  it('hashes the password for unknown and disabled users too, so they take as long', () => {
+    createUser({ email: 'dan@example.com', password: 'Correct-horse-1', departments: ['IT'], role: 'viewer' });
+    authenticateUser('nobody@example.com', 'Correct-horse-1');
+    const scrypt = vi.spyOn(crypto, 'scryptSync');
+
+    authenticateUser('dan@example.com', 'Wrong-horse-1');
+    authenticateUser('nobody@example.com', 'Wrong-horse-1');
+    updateUser(findUserByIdentifier('dan@example.com')!.id, { disabled: true });
+    authenticateUser('dan@example.com', 'Correct-horse-1');
+
+    expect(scrypt).toHaveBeenCalledTimes(3);
+  });
+});
@@ -0,0 +1,232 @@
+import crypto from 'crypto';
+import fs from 'fs';
+import path from 'path';
+import { writeFileAtomic } from './fileUtils';
+import type { MfaSettings } from './mfa';
+import { Role, resolveDepartments, resolveRole } from './shared/permissions';
+import { logger } from './logger';
+
+export interface UserRecord {
+  id: string;
+  email: string;
+  phone: string;
+  name?: string;
+  departments: string[];
+  role: Role;
+  disabled: boolean;
+  passwordHash: string;
+  mfa?: MfaSettings; // Set once the user has enrolled an authenticator
+  createdAt: string;
+  updatedAt: string;
+}
+
+// Shape returned by the admin API - never includes the password hash or MFA secrets
+export type PublicUser = Omit<UserRecord, 'passwordHash' | 'mfa'> & { mfaEnabled: boolean };
+
+export interface NewUserInput {
+  email: string;
+  phone?: string;
+  name?: string;
+  departments: string[];
+  role?: Role;
+  password: string;
+}
+
+export type UserUpdate = Partial<Pick<UserRecord, 'phone' | 'name' | 'departments' | 'role' | 'disabled'>>;
+
+const USERS_FILE = process.env.USERS_DATA_FILE || path.join(__dirname, 'users-data.json');
+
+// scrypt parameters are stored alongside each hash so they can be raised later
+const SCRYPT_N = 16384;
+const SCRYPT_R = 8;
+const SCRYPT_P = 1;
+const KEY_LENGTH = 64;
+
+export const hashPassword = (password: string): string => {
+  const salt = crypto.randomBytes(16);
+  const hash = crypto.scryptSync(password, salt, KEY_LENGTH, { N: SCRYPT_N, r: SCRYPT_R, p: SCRYPT_P });
+  return ['scrypt', SCRYPT_N, SCRYPT_R, SCRYPT_P, salt.toString('base64'), hash.toString('base64')].join('$');
+};
+
+const verifyPasswordHash = (password: string, stored: string): boolean => {
+  const [scheme, n, r, p, salt, hash] = stored.split('$');
+  if (scheme !== 'scrypt' || !salt || !hash) return false;
+
+  const expected = Buffer.from(hash, 'base64');
+  const actual = crypto.scryptSync(password, Buffer.from(salt, 'base64'), expected.length, {
+    N: Number(n),
+    r: Number(r),
+    p: Number(p),
+  });
+  return crypto.timingSafeEqual(expected, actual);
+};
+
+export const generateTemporaryPassword = (): string => crypto.randomBytes(9).toString('base64url');
+
+const loadUsers = (): UserRecord[] => {
+  try {
+    const users: (UserRecord & { isAdmin?: boolean; department?: string })[] = JSON.parse(fs.readFileSync(USERS_FILE, 'utf-8'));
+    // Older records have an admin flag instead of a role and a single department
+    return users.map(({ isAdmin, department, ...user }) => ({
+      ...user,
+      role: resolveRole({ role: user.role, isAdmin }),
+      departments: resolveDepartments({ departments: user.departments, department }),
+    }));
+  } catch (error) {
+    if ((error as NodeJS.ErrnoException).code !== 'ENOENT') {
+      logger.error('Error loading users', { error });
+    }
+    return [];
+  }
+};
+
+const saveUsers = (users: UserRecord[]): void => {
+  writeFileAtomic(USERS_FILE, JSON.stringify(users, null, 2));
+};
+
+export const toPublicUser = ({ passwordHash, mfa, ...user }: UserRecord): PublicUser => ({ ...user, mfaEnabled: !!mfa });
+
+export const listUsers = (): UserRecord[] => loadUsers();
+
+export const findUserById = (id: string): UserRecord | undefined => loadUsers().find(u => u.id === id);
+
+/**
+ * Looks a user up by email (case-insensitive) or phone number,
+ * matching the identifiers accepted by /auth/manual-login.
+ */
+export const findUserByIdentifier = (identifier: string): UserRecord | undefined => {
+  const normalized = identifier.trim().toLowerCase();
+  if (!normalized) return undefined;
+  if (normalized.includes('@')) return loadUsers().find(u => u.email.toLowerCase() === normalized);
+  return findUserByPhone(normalized);
+};
+
+/**
+ * A phone number reduced to its digits and leading `+`, so formatting differences
+ * (spaces, dashes, brackets) do not matter when comparing numbers.
+ */
+export const normalizePhone = (phone: string): string => phone.trim().replace(/(?!^\+)[^\d]/g, '');
+
+// Numbers saved before they were stored normalized are normalized when compared
+const hasPhone = (user: UserRecord, normalized: string) => !!user.phone && normalizePhone(user.phone) === normalized;
+
+/**
+ * Looks a user up by phone number, for phone (SMS code) login.
+ */
+export const findUserByPhone = (phone: string): UserRecord | undefined => {
+  const normalized = normalizePhone(phone);
+  if (normalized.replace('+', '').length < 6) return undefined;
+  return loadUsers().find(u => hasPhone(u, normalized));
+};
+
+export const createUser = (input: NewUserInput): UserRecord => {
+  const users = loadUsers();
+  const email = input.email.trim().toLowerCase();
+  const phone = normalizePhone(input.phone || '');
+
+  if (users.some(u => u.email.toLowerCase() === email)) {
+    throw new Error('A user with this email already exists');
+  }
+  if (phone && users.some(u => hasPhone(u, phone))) {
+    throw new Error('A user with this phone number already exists');
+  }
+
+  const now = new Date().toISOString();
+  const user: UserRecord = {
+    id: crypto.randomUUID(),
+    email,
+    phone,
+    name: input.name?.trim() || undefined,
+    departments: input.departments,
+    role: input.role || 'viewer',
+    disabled: false,
+    passwordHash: hashPassword(input.password),
+    createdAt: now,
+    updatedAt: now,
+  };
+
+  users.push(user);
+  saveUsers(users);
+  return user;
+};
+
+export const updateUser = (id: string, update: UserUpdate): UserRecord | undefined => {
+  const users = loadUsers();
+  const index = users.findIndex(u => u.id === id);
+  if (index === -1) return undefined;
+
+  const phone = update.phone === undefined ? undefined : normalizePhone(update.phone);
+  if (phone && users.some(u => u.id !== id && hasPhone(u, phone))) {
+    throw new Error('A user with this phone number already exists');
+  }
+
+  users[index] = {
+    ...users[index],
+    ...update,
+    ...(phone !== undefined && { phone }),
+    updatedAt: new Date().toISOString(),
+  };
+  saveUsers(users);
+  return users[index];
+};
+
+export const setUserPassword = (id: string, password: string): boolean => {
+  const users = loadUsers();
+  const user = users.find(u => u.id === id);
+  if (!user) return false;
+
+  user.passwordHash = hashPassword(password);
+  user.updatedAt = new Date().toISOString();
+  saveUsers(users);
+  return true;
+};
+
+/**
+ * Stores the user's MFA settings, or removes them (turning MFA off) when undefined.
+ */
+export const setUserMfa = (id: string, mfa: MfaSettings | undefined): UserRecord | undefined => {
+  const users = loadUsers();
+  const user = users.find(u => u.id === id);
+  if (!user) return undefined;
+
+  if (mfa) user.mfa = mfa;
+  else delete user.mfa;
+  user.updatedAt = new Date().toISOString();
+  saveUsers(users);
+  return user;
+};
+
+// Checked against when there is no account, created on first use
+let dummyPasswordHash: string | undefined;
+
+/**
+ * Returns the matching enabled user when the password is correct.
+ * Disabled accounts and unknown identifiers are indistinguishable to the caller, also in
+ * response time: a password is hashed either way.
+ */
+export const authenticateUser = (identifier: string, password: string): UserRecord | undefined => {
+  const user = findUserByIdentifier(identifier);
+  if (!user || user.disabled) {
+    dummyPasswordHash ||= hashPassword(crypto.randomBytes(16).toString('base64'));
+    verifyPasswordHash(password, dummyPasswordHash);
+    return undefined;
+  }
+  return verifyPasswordHash(password, user.passwordHash) && password ? user : undefined;
+};
+
+/**
+ * Creates the initial admin account from BOOTSTRAP_ADMIN_EMAIL / BOOTSTRAP_ADMIN_PASSWORD
+ * when the user directory is empty, so a fresh install can be administered.
+ */
+export const ensureBootstrapAdmin = (): void => {
+  if (loadUsers().length > 0) return;
+
+  const { BOOTSTRAP_ADMIN_EMAIL, BOOTSTRAP_ADMIN_PASSWORD } = process.env;
+  if (!BOOTSTRAP_ADMIN_EMAIL || !BOOTSTRAP_ADMIN_PASSWORD) {
+    logger.warn('User directory is empty. Set BOOTSTRAP_ADMIN_EMAIL and BOOTSTRAP_ADMIN_PASSWORD to create an admin.');
+    return;
+  }
+
+  createUser({ email: BOOTSTRAP_ADMIN_EMAIL, departments: ['Admin'], role: 'super-admin', password: BOOTSTRAP_ADMIN_PASSWORD });
+  logger.info('Created bootstrap admin', { email: BOOTSTRAP_ADMIN_EMAIL });
+};
@@ -0,0 +1,28 @@
+import type { Request, Response, NextFunction } from 'express';
+import type { ZodTypeAny } from 'zod';
+import { documentMiddleware } from './openapiDocument';
+import { toValidationErrorBody } from './shared/schemas';
+
+/**
+ * Route guard parsing the JSON body with a schema from shared/schemas.ts. Handlers get
+ * the parsed body (trimmed, defaults filled in, unknown properties dropped); invalid
+ * bodies are refused with `400` and `{ error, fieldErrors }`.
+ */
+export const validateBody = (schema: ZodTypeAny) =>
+  documentMiddleware((req: Request, res: Response, next: NextFunction) => {
+    const result = schema.safeParse(req.body ?? {});
+    if (!result.success) return res.status(400).json(toValidationErrorBody(result.error));
+    req.body = result.data;
+    next();
+  }, { body: schema });
+
+/**
+ * Like validateBody, for the query string.
+ */
+export const validateQuery = (schema: ZodTypeAny) =>
+  documentMiddleware((req: Request, res: Response, next: NextFunction) => {
+    const result = schema.safeParse(req.query);
+    if (!result.success) return res.status(400).json(toValidationErrorBody(result.error));
+    req.query = result.data;
+    next();
+  }, { query: schema });
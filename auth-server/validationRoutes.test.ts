@@ -0,0 +1,56 @@
+import { afterAll, beforeAll, describe, expect, it, vi } from 'vitest';
+import { startTestServer, TestServer } from './testServer';
+
+let api: TestServer;
+let adminToken: string;
+
+beforeAll(async () => {
+  vi.stubEnv('MFA_REQUIRED_ROLES', '');
+  api = await startTestServer();
+  adminToken = await api.signIn('admin@example.com', 'super-admin');
+});
+
+afterAll(() => {
+  api.server.close();
+  vi.unstubAllEnvs();
+});
+
+describe('invalid requests', () => {
+  it('are refused with the problems in `error` and per field in `fieldErrors`', async () => {
+    const response = await api.request('/auth/manual-login', { method: 'POST', body: { email: 'ann@example.com' } });
+
+    expect(response.status).toBe(400);
+    expect(await response.json()).toEqual({
+      error: 'Invalid request: password: Password is required',
+      fieldErrors: { password: ['Password is required'] },
+    });
+  });
+
+  it('key nested fields by their dotted path and name only the first three problems in `error`', async () => {
+    const response = await api.request('/api/admin/users', {
+      method: 'POST',
+      token: adminToken,
+      body: { email: 'not-an-email', password: 'short', phone: 'call me', role: 'owner' },
+    });
+
+    expect(response.status).toBe(400);
+    const body = await response.json();
+    expect(body.error).toMatch(/^Invalid request: email: Enter a valid email address; password: .+; phone: .+ \(and 1 more\)$/);
+    expect(Object.keys(body.fieldErrors)).toEqual(['email', 'password', 'phone', 'role']);
+
+    const catalog = await api.request('/api/admin/reports', {
+      method: 'PUT',
+      token: adminToken,
+      body: { reportsData: { Sales: [{ id: 'r1', title: ' ' }] } },
+      headers: { 'If-Match': '*' },
+    });
+    expect((await catalog.json()).fieldErrors).toEqual({ 'reportsData.Sales.0.title': ['Title is required'] });
+  });
+
+  it('include invalid query strings', async () => {
+    const response = await api.request('/api/admin/reports/revisions/diff?from=latest', { token: adminToken });
+
+    expect(response.status).toBe(400);
+    expect((await response.json()).fieldErrors).toEqual({ from: ['Revision numbers are whole numbers'] });
+  });
+});
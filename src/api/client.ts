@@ -0,0 +1,44 @@
+import createClient, { type Middleware } from 'openapi-fetch';
+import { API_BASE_URL } from '../config/api';
+import { getValidAuthToken } from '../lib/auth';
+import type { components, paths } from './schema';
+
+/**
+ * Typed clients for the auth server. `schema.d.ts` is generated from the server's
+ * OpenAPI document; run `npm run generate:api` after changing a route.
+ *
+ * Calls resolve to `{ data, error, response }`: `data` for successful responses,
+ * otherwise `error` (an `Error` body, with `fieldErrors` for invalid requests).
+ * Network failures still throw.
+ */
+
+export type ApiSchemas = components['schemas'];
+
+// Sign-in and session routes, which must not wait for an access token
+export const publicApi = createClient<paths>({ baseUrl: API_BASE_URL });
+
+// Failed calls are logged with the server's request ID, which finds the matching server log lines
+const logFailures: Middleware = {
+  onResponse({ request, response }) {
+    if (!response.ok) {
+      const requestId = response.headers.get('X-Request-Id') || 'unknown';
+      console.warn(`${request.method} ${new URL(request.url).pathname} failed with ${response.status} (request ID ${requestId})`);
+    }
+    return response;
+  },
+};
+publicApi.use(logFailures);
+
+// Adds the access token, renewed first when needed, unless the call sets Authorization itself
+const authorize: Middleware = {
+  async onRequest({ request }) {
+    if (!request.headers.has('Authorization')) {
+      const token = await getValidAuthToken();
+      if (token) request.headers.set('Authorization', `Bearer ${token}`);
+    }
+    return request;
+  },
+};
+
+export const api = createClient<paths>({ baseUrl: API_BASE_URL });
+api.use(authorize, logFailures);
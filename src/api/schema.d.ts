@@ -0,0 +1,4168 @@
+/**
+ * This file was auto-generated by openapi-typescript.
+ * Do not make direct changes to the file.
+ */
+
+export interface paths {
+    "/api/reports/generate-embed": {
+        parameters: {
+            query?: never;
+            header?: never;
+            path?: never;
+            cookie?: never;
+        };
+        get?: never;
+        put?: never;
+        /**
+         * Embed a report
+         * @description Embed token and URL for a catalog report the user may see, under the report's row-level security roles.
+         */
+        post: {
+            parameters: {
+                query?: never;
+                header?: never;
+                path?: never;
+                cookie?: never;
+            };
+            requestBody: {
+                content: {
+                    "application/json": {
+                        reportId: string;
+                    };
+                };
+            };
+            responses: {
+                /** @description Embed details */
+                200: {
+                    headers: {
+                        "X-Request-Id": string;
+                        [name: string]: unknown;
+                    };
+                    content: {
+                        "application/json": components["schemas"]["EmbedDetails"];
+                    };
+                };
+                /** @description Invalid request; `fieldErrors` names the invalid fields */
+                400: {
+                    headers: {
+                        "X-Request-Id": string;
+                        [name: string]: unknown;
+                    };
+                    content: {
+                        "application/json": components["schemas"]["Error"];
+                    };
+                };
+                /** @description Missing, expired or revoked access token */
+                401: {
+                    headers: {
+                        "X-Request-Id": string;
+                        [name: string]: unknown;
+                    };
+                    content: {
+                        "application/json": components["schemas"]["Error"];
+                    };
+                };
+                /** @description Invalid access token; Row-level security roles could not be resolved */
+                403: {
+                    headers: {
+                        "X-Request-Id": string;
+                        [name: string]: unknown;
+                    };
+                    content: {
+                        "application/json": components["schemas"]["Error"];
+                    };
+                };
+                /** @description Report not found */
+                404: {
+                    headers: {
+                        "X-Request-Id": string;
+                        [name: string]: unknown;
+                    };
+                    content: {
+                        "application/json": components["schemas"]["Error"];
+                    };
+                };
+                /** @description Rate limited by the `embed` policy; retry after `Retry-After` seconds */
+                429: {
+                    headers: {
+                        "X-Request-Id": string;
+                        [name: string]: unknown;
+                    };
+                    content: {
+                        "application/json": components["schemas"]["Error"];
+                    };
+                };
+                /** @description Power BI refused the request */
+                500: {
+                    headers: {
+                        "X-Request-Id": string;
+                        [name: string]: unknown;
+                    };
+                    content: {
+                        "application/json": components["schemas"]["Error"];
+                    };
+                };
+            };
+        };
+        delete?: never;
+        options?: never;
+        head?: never;
+        patch?: never;
+        trace?: never;
+    };
+    "/api/reports/{department}": {
+        parameters: {
+            query?: never;
+            header?: never;
+            path?: never;
+            cookie?: never;
+        };
+        /**
+         * List the reports of a department
+         * @description Active reports the user may see.
+         */
+        get: {
+            parameters: {
+                query?: never;
+                header?: never;
+                path: {
+                    department: string;
+                };
+                cookie?: never;
+            };
+            requestBody?: never;
+            responses: {
+                /** @description Reports */
+                200: {
+                    headers: {
+                        "X-Request-Id": string;
+                        [name: string]: unknown;
+                    };
+                    content: {
+                        "application/json": {
+                            reports: components["schemas"]["DepartmentReport"][];
+                        };
+                    };
+                };
+                /** @description Missing, expired or revoked access token */
+                401: {
+                    headers: {
+                        "X-Request-Id": string;
+                        [name: string]: unknown;
+                    };
+                    content: {
+                        "application/json": components["schemas"]["Error"];
+                    };
+                };
+                /** @description Invalid access token; The user may not view this department */
+                403: {
+                    headers: {
+                        "X-Request-Id": string;
+                        [name: string]: unknown;
+                    };
+                    content: {
+                        "application/json": components["schemas"]["Error"];
+                    };
+                };
+            };
+        };
+        put?: never;
+        post?: never;
+        delete?: never;
+        options?: never;
+        head?: never;
+        patch?: never;
+        trace?: never;
+    };
+    "/api/admin/departments": {
+        parameters: {
+            query?: never;
+            header?: never;
+            path?: never;
+            cookie?: never;
+        };
+        /** List the departments the user may edit */
+        get: {
+            parameters: {
+                query?: never;
+                header?: never;
+                path?: never;
+                cookie?: never;
+            };
+            requestBody?: never;
+            responses: {
+                /** @description Department names */
+                200: {
+                    headers: {
+                        "X-Request-Id": string;
+                        [name: string]: unknown;
+                    };
+                    content: {
+                        "application/json": {
+                            departments: string[];
+                        };
+                    };
+                };
+                /** @description Missing, expired or revoked access token */
+                401: {
+                    headers: {
+                        "X-Request-Id": string;
+                        [name: string]: unknown;
+                    };
+                    content: {
+                        "application/json": components["schemas"]["Error"];
+                    };
+                };
+                /** @description Invalid access token; Requires the `catalog:edit` permission */
+                403: {
+                    headers: {
+                        "X-Request-Id": string;
+                        [name: string]: unknown;
+                    };
+                    content: {
+                        "application/json": components["schemas"]["Error"];
+                    };
+                };
+                /** @description Rate limited by the `admin` policy; retry after `Retry-After` seconds */
+                429: {
+                    headers: {
+                        "X-Request-Id": string;
+                        [name: string]: unknown;
+                    };
+                    content: {
+                        "application/json": components["schemas"]["Error"];
+                    };
+                };
+            };
+        };
+        put?: never;
+        /** Add a department */
+        post: {
+            parameters: {
+                query?: never;
+                header?: never;
+                path?: never;
+                cookie?: never;
+            };
+            requestBody: {
+                content: {
+                    "application/json": {
+                        departmentName: string;
+                    };
+                };
+            };
+            responses: {
+                /** @description Department added */
+                200: {
+                    headers: {
+                        "X-Request-Id": string;
+                        [name: string]: unknown;
+                    };
+                    content: {
+                        "application/json": components["schemas"]["Message"];
+                    };
+                };
+                /** @description Invalid request; `fieldErrors` names the invalid fields; Department already exists */
+                400: {
+                    headers: {
+                        "X-Request-Id": string;
+                        [name: string]: unknown;
+                    };
+                    content: {
+                        "application/json": components["schemas"]["Error"];
+                    };
+                };
+                /** @description Missing, expired or revoked access token */
+                401: {
+                    headers: {
+                        "X-Request-Id": string;
+                        [name: string]: unknown;
+                    };
+                    content: {
+                        "application/json": components["schemas"]["Error"];
+                    };
+                };
+                /** @description Invalid access token; Requires the `departments:manage` permission */
+                403: {
+                    headers: {
+                        "X-Request-Id": string;
+                        [name: string]: unknown;
+                    };
+                    content: {
+                        "application/json": components["schemas"]["Error"];
+                    };
+                };
+                /** @description Rate limited by the `admin` policy; retry after `Retry-After` seconds */
+                429: {
+                    headers: {
+                        "X-Request-Id": string;
+                        [name: string]: unknown;
+                    };
+                    content: {
+                        "application/json": components["schemas"]["Error"];
+                    };
+                };
+                /** @description Save failed; the catalog is unchanged */
+                500: {
+                    headers: {
+                        "X-Request-Id": string;
+                        [name: string]: unknown;
+                    };
+                    content: {
+                        "application/json": components["schemas"]["Error"];
+                    };
+                };
+                /** @description Catalog is busy */
+                503: {
+                    headers: {
+                        "X-Request-Id": string;
+                        [name: string]: unknown;
+                    };
+                    content: {
+                        "application/json": components["schemas"]["Error"];
+                    };
+                };
+            };
+        };
+        delete?: never;
+        options?: never;
+        head?: never;
+        patch?: never;
+        trace?: never;
+    };
+    "/api/admin/departments/{departmentName}": {
+        parameters: {
+            query?: never;
+            header?: never;
+            path?: never;
+            cookie?: never;
+        };
+        get?: never;
+        put?: never;
+        post?: never;
+        /** Delete a department and its reports */
+        delete: {
+            parameters: {
+                query?: never;
+                header?: never;
+                path: {
+                    departmentName: string;
+                };
+                cookie?: never;
+            };
+            requestBody?: never;
+            responses: {
+                /** @description Department deleted */
+                200: {
+                    headers: {
+                        "X-Request-Id": string;
+                        [name: string]: unknown;
+                    };
+                    content: {
+                        "application/json": components["schemas"]["Message"];
+                    };
+                };
+                /** @description Missing, expired or revoked access token */
+                401: {
+                    headers: {
+                        "X-Request-Id": string;
+                        [name: string]: unknown;
+                    };
+                    content: {
+                        "application/json": components["schemas"]["Error"];
+                    };
+                };
+                /** @description Invalid access token; Requires the `departments:manage` permission */
+                403: {
+                    headers: {
+                        "X-Request-Id": string;
+                        [name: string]: unknown;
+                    };
+                    content: {
+                        "application/json": components["schemas"]["Error"];
+                    };
+                };
+                /** @description Department not found */
+                404: {
+                    headers: {
+                        "X-Request-Id": string;
+                        [name: string]: unknown;
+                    };
+                    content: {
+                        "application/json": components["schemas"]["Error"];
+                    };
+                };
+                /** @description Rate limited by the `admin` policy; retry after `Retry-After` seconds */
+                429: {
+                    headers: {
+                        "X-Request-Id": string;
+                        [name: string]: unknown;
+                    };
+                    content: {
+                        "application/json": components["schemas"]["Error"];
+                    };
+                };
+                /** @description Save failed; the catalog is unchanged */
+                500: {
+                    headers: {
+                        "X-Request-Id": string;
+                        [name: string]: unknown;
+                    };
+                    content: {
+                        "application/json": components["schemas"]["Error"];
+                    };
+                };
+                /** @description Catalog is busy */
+                503: {
+                    headers: {
+                        "X-Request-Id": string;
+                        [name: string]: unknown;
+                    };
+                    content: {
+                        "application/json": components["schemas"]["Error"];
+                    };
+                };
+            };
+        };
+        options?: never;
+        head?: never;
+        patch?: never;
+        trace?: never;
+    };
+    "/api/admin/generate-embed": {
+        parameters: {
+            query?: never;
+            header?: never;
+            path?: never;
+            cookie?: never;
+        };
+        get?: never;
+        put?: never;
+        /**
+         * Preview a report
+         * @description Embed details for any report of the user's departments, or with `datasetId` for any report not in the catalog yet, under the given (unsaved) RLS settings. Datasets sent in the request replace those of the catalog entry.
+         */
+        post: {
+            parameters: {
+                query?: never;
+                header?: never;
+                path?: never;
+                cookie?: never;
+            };
+            requestBody: {
+                content: {
+                    "application/json": {
+                        reportId: string;
+                        datasetId?: string;
+                        sharedDatasetId?: string;
+                        rls?: {
+                            enabled: boolean;
+                            defaultRoles?: string[];
+                            departmentRoles: {
+                                [key: string]: string[];
+                            };
+                        };
+                    };
+                };
+            };
+            responses: {
+                /** @description Embed details */
+                200: {
+                    headers: {
+                        "X-Request-Id": string;
+                        [name: string]: unknown;
+                    };
+                    content: {
+                        "application/json": components["schemas"]["EmbedDetails"];
+                    };
+                };
+                /** @description Invalid request; `fieldErrors` names the invalid fields; The catalog entry has no dataset */
+                400: {
+                    headers: {
+                        "X-Request-Id": string;
+                        [name: string]: unknown;
+                    };
+                    content: {
+                        "application/json": components["schemas"]["Error"];
+                    };
+                };
+                /** @description Missing, expired or revoked access token */
+                401: {
+                    headers: {
+                        "X-Request-Id": string;
+                        [name: string]: unknown;
+                    };
+                    content: {
+                        "application/json": components["schemas"]["Error"];
+                    };
+                };
+                /** @description Invalid access token; Requires the `catalog:edit` permission; The report belongs to another department, or RLS roles could not be resolved */
+                403: {
+                    headers: {
+                        "X-Request-Id": string;
+                        [name: string]: unknown;
+                    };
+                    content: {
+                        "application/json": components["schemas"]["Error"];
+                    };
+                };
+                /** @description The report is not in the catalog and no dataset was given */
+                404: {
+                    headers: {
+                        "X-Request-Id": string;
+                        [name: string]: unknown;
+                    };
+                    content: {
+                        "application/json": components["schemas"]["Error"];
+                    };
+                };
+                /** @description Rate limited by the `embed` policy; retry after `Retry-After` seconds */
+                429: {
+                    headers: {
+                        "X-Request-Id": string;
+                        [name: string]: unknown;
+                    };
+                    content: {
+                        "application/json": components["schemas"]["Error"];
+                    };
+                };
+                /** @description Power BI refused the request */
+                500: {
+                    headers: {
+                        "X-Request-Id": string;
+                        [name: string]: unknown;
+                    };
+                    content: {
+                        "application/json": components["schemas"]["Error"];
+                    };
+                };
+            };
+        };
+        delete?: never;
+        options?: never;
+        head?: never;
+        patch?: never;
+        trace?: never;
+    };
+    "/api/admin/reports": {
+        parameters: {
+            query?: never;
+            header?: never;
+            path?: never;
+            cookie?: never;
+        };
+        /**
+         * Get the catalog
+         * @description Departments the user may edit, with every report.
+         */
+        get: {
+            parameters: {
+                query?: never;
+                header?: never;
+                path?: never;
+                cookie?: never;
+            };
+            requestBody?: never;
+            responses: {
+                /** @description Catalog */
+                200: {
+                    headers: {
+                        ETag: string;
+                        "X-Request-Id": string;
+                        [name: string]: unknown;
+                    };
+                    content: {
+                        "application/json": components["schemas"]["ReportsData"];
+                    };
+                };
+                /** @description Missing, expired or revoked access token */
+                401: {
+                    headers: {
+                        "X-Request-Id": string;
+                        [name: string]: unknown;
+                    };
+                    content: {
+                        "application/json": components["schemas"]["Error"];
+                    };
+                };
+                /** @description Invalid access token; Requires the `catalog:edit` permission */
+                403: {
+                    headers: {
+                        "X-Request-Id": string;
+                        [name: string]: unknown;
+                    };
+                    content: {
+                        "application/json": components["schemas"]["Error"];
+                    };
+                };
+                /** @description Rate limited by the `admin` policy; retry after `Retry-After` seconds */
+                429: {
+                    headers: {
+                        "X-Request-Id": string;
+                        [name: string]: unknown;
+                    };
+                    content: {
+                        "application/json": components["schemas"]["Error"];
+                    };
+                };
+                /** @description The catalog could not be read */
+                500: {
+                    headers: {
+                        "X-Request-Id": string;
+                        [name: string]: unknown;
+                    };
+                    content: {
+                        "application/json": components["schemas"]["Error"];
+                    };
+                };
+                /** @description Catalog is busy */
+                503: {
+                    headers: {
+                        "X-Request-Id": string;
+                        [name: string]: unknown;
+                    };
+                    content: {
+                        "application/json": components["schemas"]["Error"];
+                    };
+                };
+            };
+        };
+        /**
+         * Save the catalog
+         * @description Replaces the departments the user may edit and saves a new revision.
+         */
+        put: {
+            parameters: {
+                query?: never;
+                header: {
+                    "If-Match": string;
+                };
+                path?: never;
+                cookie?: never;
+            };
+            requestBody: {
+                content: {
+                    "application/json": {
+                        reportsData: {
+                            [key: string]: {
+                                id: string;
+                                title: string;
+                                name?: string;
+                                description?: string;
+                                icon?: string;
+                                powerBIReportId?: string;
+                                reportId?: string;
+                                datasetId?: string;
+                                sharedDatasetId?: string;
+                                coreDatasetId?: string;
+                                clientId?: string;
+                                tenantId?: string;
+                                embedUrl?: string;
+                                embedToken?: string;
+                                /** @default true */
+                                isActive?: boolean;
+                                rls?: {
+                                    enabled: boolean;
+                                    defaultRoles?: string[];
+                                    departmentRoles: {
+                                        [key: string]: string[];
+                                    };
+                                };
+                                acl?: {
+                                    allow: {
+                                        users: string[];
+                                        groups: string[];
+                                        roles: ("viewer" | "department-owner" | "catalog-admin" | "super-admin")[];
+                                    };
+                                    deny: {
+                                        users: string[];
+                                        groups: string[];
+                                        roles: ("viewer" | "department-owner" | "catalog-admin" | "super-admin")[];
+                                    };
+                                };
+                            }[];
+                        };
+                    };
+                };
+            };
+            responses: {
+                /** @description Saved */
+                200: {
+                    headers: {
+                        ETag: string;
+                        "X-Request-Id": string;
+                        [name: string]: unknown;
+                    };
+                    content: {
+                        "application/json": {
+                            message: string;
+                            revision: number;
+                        };
+                    };
+                };
+                /** @description Invalid request; `fieldErrors` names the invalid fields */
+                400: {
+                    headers: {
+                        "X-Request-Id": string;
+                        [name: string]: unknown;
+                    };
+                    content: {
+                        "application/json": components["schemas"]["Error"];
+                    };
+                };
+                /** @description Missing, expired or revoked access token */
+                401: {
+                    headers: {
+                        "X-Request-Id": string;
+                        [name: string]: unknown;
+                    };
+                    content: {
+                        "application/json": components["schemas"]["Error"];
+                    };
+                };
+                /** @description Invalid access token; Requires the `catalog:edit` permission; The catalog changes departments the user may not edit */
+                403: {
+                    headers: {
+                        "X-Request-Id": string;
+                        [name: string]: unknown;
+                    };
+                    content: {
+                        "application/json": components["schemas"]["Error"];
+                    };
+                };
+                /** @description The catalog changed since it was loaded; the current catalog is returned to reload or merge */
+                409: {
+                    headers: {
+                        "X-Request-Id": string;
+                        [name: string]: unknown;
+                    };
+                    content: {
+                        "application/json": components["schemas"]["CatalogConflict"];
+                    };
+                };
+                /** @description The `If-Match` header is missing */
+                428: {
+                    headers: {
+                        "X-Request-Id": string;
+                        [name: string]: unknown;
+                    };
+                    content: {
+                        "application/json": components["schemas"]["Error"];
+                    };
+                };
+                /** @description Rate limited by the `admin` policy; retry after `Retry-After` seconds */
+                429: {
+                    headers: {
+                        "X-Request-Id": string;
+                        [name: string]: unknown;
+                    };
+                    content: {
+                        "application/json": components["schemas"]["Error"];
+                    };
+                };
+                /** @description Save failed; the catalog is unchanged */
+                500: {
+                    headers: {
+                        "X-Request-Id": string;
+                        [name: string]: unknown;
+                    };
+                    content: {
+                        "application/json": components["schemas"]["Error"];
+                    };
+                };
+                /** @description Catalog is busy */
+                503: {
+                    headers: {
+                        "X-Request-Id": string;
+                        [name: string]: unknown;
+                    };
+                    content: {
+                        "application/json": components["schemas"]["Error"];
+                    };
+                };
+            };
+        };
+        post?: never;
+        delete?: never;
+        options?: never;
+        head?: never;
+        patch?: never;
+        trace?: never;
+    };
+    "/api/admin/all-reports": {
+        parameters: {
+            query?: never;
+            header?: never;
+            path?: never;
+            cookie?: never;
+        };
+        /** List every report with its department */
+        get: {
+            parameters: {
+                query?: never;
+                header?: never;
+                path?: never;
+                cookie?: never;
+            };
+            requestBody?: never;
+            responses: {
+                /** @description Reports */
+                200: {
+                    headers: {
+                        "X-Request-Id": string;
+                        [name: string]: unknown;
+                    };
+                    content: {
+                        "application/json": {
+                            reports: components["schemas"]["CatalogReport"][];
+                        };
+                    };
+                };
+                /** @description Missing, expired or revoked access token */
+                401: {
+                    headers: {
+                        "X-Request-Id": string;
+                        [name: string]: unknown;
+                    };
+                    content: {
+                        "application/json": components["schemas"]["Error"];
+                    };
+                };
+                /** @description Invalid access token; Requires the `catalog:edit` permission */
+                403: {
+                    headers: {
+                        "X-Request-Id": string;
+                        [name: string]: unknown;
+                    };
+                    content: {
+                        "application/json": components["schemas"]["Error"];
+                    };
+                };
+                /** @description Rate limited by the `admin` policy; retry after `Retry-After` seconds */
+                429: {
+                    headers: {
+                        "X-Request-Id": string;
+                        [name: string]: unknown;
+                    };
+                    content: {
+                        "application/json": components["schemas"]["Error"];
+                    };
+                };
+            };
+        };
+        put?: never;
+        post?: never;
+        delete?: never;
+        options?: never;
+        head?: never;
+        patch?: never;
+        trace?: never;
+    };
+    "/api/admin/reports/revisions": {
+        parameters: {
+            query?: never;
+            header?: never;
+            path?: never;
+            cookie?: never;
+        };
+        /** List catalog revisions */
+        get: {
+            parameters: {
+                query?: never;
+                header?: never;
+                path?: never;
+                cookie?: never;
+            };
+            requestBody?: never;
+            responses: {
+                /** @description Revisions, newest first */
+                200: {
+                    headers: {
+                        "X-Request-Id": string;
+                        [name: string]: unknown;
+                    };
+                    content: {
+                        "application/json": {
+                            current: number;
+                            revisions: components["schemas"]["RevisionInfo"][];
+                        };
+                    };
+                };
+                /** @description Missing, expired or revoked access token */
+                401: {
+                    headers: {
+                        "X-Request-Id": string;
+                        [name: string]: unknown;
+                    };
+                    content: {
+                        "application/json": components["schemas"]["Error"];
+                    };
+                };
+                /** @description Invalid access token; Requires the `catalog:history` permission */
+                403: {
+                    headers: {
+                        "X-Request-Id": string;
+                        [name: string]: unknown;
+                    };
+                    content: {
+                        "application/json": components["schemas"]["Error"];
+                    };
+                };
+                /** @description Rate limited by the `admin` policy; retry after `Retry-After` seconds */
+                429: {
+                    headers: {
+                        "X-Request-Id": string;
+                        [name: string]: unknown;
+                    };
+                    content: {
+                        "application/json": components["schemas"]["Error"];
+                    };
+                };
+            };
+        };
+        put?: never;
+        post?: never;
+        delete?: never;
+        options?: never;
+        head?: never;
+        patch?: never;
+        trace?: never;
+    };
+    "/api/admin/reports/revisions/diff": {
+        parameters: {
+            query?: never;
+            header?: never;
+            path?: never;
+            cookie?: never;
+        };
+        /** Compare two revisions */
+        get: {
+            parameters: {
+                query?: {
+                    from?: number | null;
+                    to?: number | null;
+                };
+                header?: never;
+                path?: never;
+                cookie?: never;
+            };
+            requestBody?: never;
+            responses: {
+                /** @description Changes from `from` to `to` */
+                200: {
+                    headers: {
+                        "X-Request-Id": string;
+                        [name: string]: unknown;
+                    };
+                    content: {
+                        "application/json": {
+                            from: number;
+                            to: number;
+                            changes: components["schemas"]["Change"][];
+                        };
+                    };
+                };
+                /** @description Invalid request; `fieldErrors` names the invalid fields */
+                400: {
+                    headers: {
+                        "X-Request-Id": string;
+                        [name: string]: unknown;
+                    };
+                    content: {
+                        "application/json": components["schemas"]["Error"];
+                    };
+                };
+                /** @description Missing, expired or revoked access token */
+                401: {
+                    headers: {
+                        "X-Request-Id": string;
+                        [name: string]: unknown;
+                    };
+                    content: {
+                        "application/json": components["schemas"]["Error"];
+                    };
+                };
+                /** @description Invalid access token; Requires the `catalog:history` permission */
+                403: {
+                    headers: {
+                        "X-Request-Id": string;
+                        [name: string]: unknown;
+                    };
+                    content: {
+                        "application/json": components["schemas"]["Error"];
+                    };
+                };
+                /** @description Revision not found */
+                404: {
+                    headers: {
+                        "X-Request-Id": string;
+                        [name: string]: unknown;
+                    };
+                    content: {
+                        "application/json": components["schemas"]["Error"];
+                    };
+                };
+                /** @description Rate limited by the `admin` policy; retry after `Retry-After` seconds */
+                429: {
+                    headers: {
+                        "X-Request-Id": string;
+                        [name: string]: unknown;
+                    };
+                    content: {
+                        "application/json": components["schemas"]["Error"];
+                    };
+                };
+            };
+        };
+        put?: never;
+        post?: never;
+        delete?: never;
+        options?: never;
+        head?: never;
+        patch?: never;
+        trace?: never;
+    };
+    "/api/admin/reports/revisions/{revision}": {
+        parameters: {
+            query?: never;
+            header?: never;
+            path?: never;
+            cookie?: never;
+        };
+        /** Get a revision */
+        get: {
+            parameters: {
+                query?: never;
+                header?: never;
+                path: {
+                    revision: string;
+                };
+                cookie?: never;
+            };
+            requestBody?: never;
+            responses: {
+                /** @description The revision and its catalog */
+                200: {
+                    headers: {
+                        "X-Request-Id": string;
+                        [name: string]: unknown;
+                    };
+                    content: {
+                        "application/json": components["schemas"]["Revision"];
+                    };
+                };
+                /** @description Missing, expired or revoked access token */
+                401: {
+                    headers: {
+                        "X-Request-Id": string;
+                        [name: string]: unknown;
+                    };
+                    content: {
+                        "application/json": components["schemas"]["Error"];
+                    };
+                };
+                /** @description Invalid access token; Requires the `catalog:history` permission */
+                403: {
+                    headers: {
+                        "X-Request-Id": string;
+                        [name: string]: unknown;
+                    };
+                    content: {
+                        "application/json": components["schemas"]["Error"];
+                    };
+                };
+                /** @description Revision not found */
+                404: {
+                    headers: {
+                        "X-Request-Id": string;
+                        [name: string]: unknown;
+                    };
+                    content: {
+                        "application/json": components["schemas"]["Error"];
+                    };
+                };
+                /** @description Rate limited by the `admin` policy; retry after `Retry-After` seconds */
+                429: {
+                    headers: {
+                        "X-Request-Id": string;
+                        [name: string]: unknown;
+                    };
+                    content: {
+                        "application/json": components["schemas"]["Error"];
+                    };
+                };
+            };
+        };
+        put?: never;
+        post?: never;
+        delete?: never;
+        options?: never;
+        head?: never;
+        patch?: never;
+        trace?: never;
+    };
+    "/api/admin/reports/revisions/{revision}/restore": {
+        parameters: {
+            query?: never;
+            header?: never;
+            path?: never;
+            cookie?: never;
+        };
+        get?: never;
+        put?: never;
+        /**
+         * Restore a revision
+         * @description Saves the revision's catalog as a new revision.
+         */
+        post: {
+            parameters: {
+                query?: never;
+                header: {
+                    "If-Match": string;
+                };
+                path: {
+                    revision: string;
+                };
+                cookie?: never;
+            };
+            requestBody?: never;
+            responses: {
+                /** @description Restored */
+                200: {
+                    headers: {
+                        ETag: string;
+                        "X-Request-Id": string;
+                        [name: string]: unknown;
+                    };
+                    content: {
+                        "application/json": {
+                            message: string;
+                            revision: number;
+                        };
+                    };
+                };
+                /** @description Missing, expired or revoked access token */
+                401: {
+                    headers: {
+                        "X-Request-Id": string;
+                        [name: string]: unknown;
+                    };
+                    content: {
+                        "application/json": components["schemas"]["Error"];
+                    };
+                };
+                /** @description Invalid access token; Requires the `catalog:history` permission */
+                403: {
+                    headers: {
+                        "X-Request-Id": string;
+                        [name: string]: unknown;
+                    };
+                    content: {
+                        "application/json": components["schemas"]["Error"];
+                    };
+                };
+                /** @description Revision not found */
+                404: {
+                    headers: {
+                        "X-Request-Id": string;
+                        [name: string]: unknown;
+                    };
+                    content: {
+                        "application/json": components["schemas"]["Error"];
+                    };
+                };
+                /** @description The catalog changed since it was loaded; the current catalog is returned to reload or merge */
+                409: {
+                    headers: {
+                        "X-Request-Id": string;
+                        [name: string]: unknown;
+                    };
+                    content: {
+                        "application/json": components["schemas"]["CatalogConflict"];
+                    };
+                };
+                /** @description The `If-Match` header is missing */
+                428: {
+                    headers: {
+                        "X-Request-Id": string;
+                        [name: string]: unknown;
+                    };
+                    content: {
+                        "application/json": components["schemas"]["Error"];
+                    };
+                };
+                /** @description Rate limited by the `admin` policy; retry after `Retry-After` seconds */
+                429: {
+                    headers: {
+                        "X-Request-Id": string;
+                        [name: string]: unknown;
+                    };
+                    content: {
+                        "application/json": components["schemas"]["Error"];
+                    };
+                };
+                /** @description Save failed; the catalog is unchanged */
+                500: {
+                    headers: {
+                        "X-Request-Id": string;
+                        [name: string]: unknown;
+                    };
+                    content: {
+                        "application/json": components["schemas"]["Error"];
+                    };
+                };
+                /** @description Catalog is busy */
+                503: {
+                    headers: {
+                        "X-Request-Id": string;
+                        [name: string]: unknown;
+                    };
+                    content: {
+                        "application/json": components["schemas"]["Error"];
+                    };
+                };
+            };
+        };
+        delete?: never;
+        options?: never;
+        head?: never;
+        patch?: never;
+        trace?: never;
+    };
+    "/api/admin/reports/{department}/{reportId}": {
+        parameters: {
+            query?: never;
+            header?: never;
+            path?: never;
+            cookie?: never;
+        };
+        get?: never;
+        /**
+         * Update a report
+         * @description Changes the given fields of one report.
+         */
+        put: {
+            parameters: {
+                query?: never;
+                header: {
+                    "If-Match": string;
+                };
+                path: {
+                    department: string;
+                    reportId: string;
+                };
+                cookie?: never;
+            };
+            requestBody: {
+                content: {
+                    "application/json": {
+                        title?: string;
+                        name?: string;
+                        description?: string;
+                        icon?: string;
+                        powerBIReportId?: string;
+                        reportId?: string;
+                        datasetId?: string;
+                        sharedDatasetId?: string;
+                        coreDatasetId?: string;
+                        clientId?: string;
+                        tenantId?: string;
+                        embedUrl?: string;
+                        embedToken?: string;
+                        /** @default true */
+                        isActive?: boolean;
+                        rls?: {
+                            enabled: boolean;
+                            defaultRoles?: string[];
+                            departmentRoles: {
+                                [key: string]: string[];
+                            };
+                        };
+                        acl?: {
+                            allow: {
+                                users: string[];
+                                groups: string[];
+                                roles: ("viewer" | "department-owner" | "catalog-admin" | "super-admin")[];
+                            };
+                            deny: {
+                                users: string[];
+                                groups: string[];
+                                roles: ("viewer" | "department-owner" | "catalog-admin" | "super-admin")[];
+                            };
+                        };
+                    };
+                };
+            };
+            responses: {
+                /** @description Updated */
+                200: {
+                    headers: {
+                        ETag: string;
+                        "X-Request-Id": string;
+                        [name: string]: unknown;
+                    };
+                    content: {
+                        "application/json": {
+                            message: string;
+                            report: components["schemas"]["Report"];
+                        };
+                    };
+                };
+                /** @description Invalid request; `fieldErrors` names the invalid fields */
+                400: {
+                    headers: {
+                        "X-Request-Id": string;
+                        [name: string]: unknown;
+                    };
+                    content: {
+                        "application/json": components["schemas"]["Error"];
+                    };
+                };
+                /** @description Missing, expired or revoked access token */
+                401: {
+                    headers: {
+                        "X-Request-Id": string;
+                        [name: string]: unknown;
+                    };
+                    content: {
+                        "application/json": components["schemas"]["Error"];
+                    };
+                };
+                /** @description Invalid access token; Requires the `catalog:edit` permission; The user may not edit this department */
+                403: {
+                    headers: {
+                        "X-Request-Id": string;
+                        [name: string]: unknown;
+                    };
+                    content: {
+                        "application/json": components["schemas"]["Error"];
+                    };
+                };
+                /** @description Department or report not found */
+                404: {
+                    headers: {
+                        "X-Request-Id": string;
+                        [name: string]: unknown;
+                    };
+                    content: {
+                        "application/json": components["schemas"]["Error"];
+                    };
+                };
+                /** @description The catalog changed since it was loaded; the current catalog is returned to reload or merge */
+                409: {
+                    headers: {
+                        "X-Request-Id": string;
+                        [name: string]: unknown;
+                    };
+                    content: {
+                        "application/json": components["schemas"]["CatalogConflict"];
+                    };
+                };
+                /** @description The `If-Match` header is missing */
+                428: {
+                    headers: {
+                        "X-Request-Id": string;
+                        [name: string]: unknown;
+                    };
+                    content: {
+                        "application/json": components["schemas"]["Error"];
+                    };
+                };
+                /** @description Rate limited by the `admin` policy; retry after `Retry-After` seconds */
+                429: {
+                    headers: {
+                        "X-Request-Id": string;
+                        [name: string]: unknown;
+                    };
+                    content: {
+                        "application/json": components["schemas"]["Error"];
+                    };
+                };
+                /** @description Save failed; the catalog is unchanged */
+                500: {
+                    headers: {
+                        "X-Request-Id": string;
+                        [name: string]: unknown;
+                    };
+                    content: {
+                        "application/json": components["schemas"]["Error"];
+                    };
+                };
+                /** @description Catalog is busy */
+                503: {
+                    headers: {
+                        "X-Request-Id": string;
+                        [name: string]: unknown;
+                    };
+                    content: {
+                        "application/json": components["schemas"]["Error"];
+                    };
+                };
+            };
+        };
+        post?: never;
+        delete?: never;
+        options?: never;
+        head?: never;
+        patch?: never;
+        trace?: never;
+    };
+    "/api/admin/stats": {
+        parameters: {
+            query?: never;
+            header?: never;
+            path?: never;
+            cookie?: never;
+        };
+        /** Portal statistics */
+        get: {
+            parameters: {
+                query?: never;
+                header?: never;
+                path?: never;
+                cookie?: never;
+            };
+            requestBody?: never;
+            responses: {
+                /** @description Counts; the Power BI cache only for users who may manage it */
+                200: {
+                    headers: {
+                        "X-Request-Id": string;
+                        [name: string]: unknown;
+                    };
+                    content: {
+                        "application/json": components["schemas"]["AdminStats"];
+                    };
+                };
+                /** @description Missing, expired or revoked access token */
+                401: {
+                    headers: {
+                        "X-Request-Id": string;
+                        [name: string]: unknown;
+                    };
+                    content: {
+                        "application/json": components["schemas"]["Error"];
+                    };
+                };
+                /** @description Invalid access token; Requires the `stats:view` permission */
+                403: {
+                    headers: {
+                        "X-Request-Id": string;
+                        [name: string]: unknown;
+                    };
+                    content: {
+                        "application/json": components["schemas"]["Error"];
+                    };
+                };
+                /** @description Rate limited by the `admin` policy; retry after `Retry-After` seconds */
+                429: {
+                    headers: {
+                        "X-Request-Id": string;
+                        [name: string]: unknown;
+                    };
+                    content: {
+                        "application/json": components["schemas"]["Error"];
+                    };
+                };
+            };
+        };
+        put?: never;
+        post?: never;
+        delete?: never;
+        options?: never;
+        head?: never;
+        patch?: never;
+        trace?: never;
+    };
+    "/api/admin/powerbi-cache": {
+        parameters: {
+            query?: never;
+            header?: never;
+            path?: never;
+            cookie?: never;
+        };
+        get?: never;
+        put?: never;
+        post?: never;
+        /** Clear cached Power BI tokens */
+        delete: {
+            parameters: {
+                query?: never;
+                header?: never;
+                path?: never;
+                cookie?: never;
+            };
+            requestBody?: never;
+            responses: {
+                /** @description Cleared */
+                200: {
+                    headers: {
+                        "X-Request-Id": string;
+                        [name: string]: unknown;
+                    };
+                    content: {
+                        "application/json": {
+                            message: string;
+                            powerBICache: components["schemas"]["PowerBICacheStats"];
+                        };
+                    };
+                };
+                /** @description Missing, expired or revoked access token */
+                401: {
+                    headers: {
+                        "X-Request-Id": string;
+                        [name: string]: unknown;
+                    };
+                    content: {
+                        "application/json": components["schemas"]["Error"];
+                    };
+                };
+                /** @description Invalid access token; Requires the `powerbi-cache:manage` permission */
+                403: {
+                    headers: {
+                        "X-Request-Id": string;
+                        [name: string]: unknown;
+                    };
+                    content: {
+                        "application/json": components["schemas"]["Error"];
+                    };
+                };
+                /** @description Rate limited by the `admin` policy; retry after `Retry-After` seconds */
+                429: {
+                    headers: {
+                        "X-Request-Id": string;
+                        [name: string]: unknown;
+                    };
+                    content: {
+                        "application/json": components["schemas"]["Error"];
+                    };
+                };
+            };
+        };
+        options?: never;
+        head?: never;
+        patch?: never;
+        trace?: never;
+    };
+    "/api/admin/rate-limits": {
+        parameters: {
+            query?: never;
+            header?: never;
+            path?: never;
+            cookie?: never;
+        };
+        /** Rate limit policies and throttled principals */
+        get: {
+            parameters: {
+                query?: never;
+                header?: never;
+                path?: never;
+                cookie?: never;
+            };
+            requestBody?: never;
+            responses: {
+                /** @description Policies and the principals at or over a limit */
+                200: {
+                    headers: {
+                        "X-Request-Id": string;
+                        [name: string]: unknown;
+                    };
+                    content: {
+                        "application/json": {
+                            policies: {
+                                login?: components["schemas"]["RateLimitPolicy"];
+                                mfa?: components["schemas"]["RateLimitPolicy"];
+                                sms?: components["schemas"]["RateLimitPolicy"];
+                                email?: components["schemas"]["RateLimitPolicy"];
+                                sso?: components["schemas"]["RateLimitPolicy"];
+                                embed?: components["schemas"]["RateLimitPolicy"];
+                                admin?: components["schemas"]["RateLimitPolicy"];
+                            };
+                            throttled: components["schemas"]["ThrottledPrincipal"][];
+                        };
+                    };
+                };
+                /** @description Missing, expired or revoked access token */
+                401: {
+                    headers: {
+                        "X-Request-Id": string;
+                        [name: string]: unknown;
+                    };
+                    content: {
+                        "application/json": components["schemas"]["Error"];
+                    };
+                };
+                /** @description Invalid access token; Requires the `users:manage` permission */
+                403: {
+                    headers: {
+                        "X-Request-Id": string;
+                        [name: string]: unknown;
+                    };
+                    content: {
+                        "application/json": components["schemas"]["Error"];
+                    };
+                };
+                /** @description Rate limited by the `admin` policy; retry after `Retry-After` seconds */
+                429: {
+                    headers: {
+                        "X-Request-Id": string;
+                        [name: string]: unknown;
+                    };
+                    content: {
+                        "application/json": components["schemas"]["Error"];
+                    };
+                };
+            };
+        };
+        put?: never;
+        post?: never;
+        delete?: never;
+        options?: never;
+        head?: never;
+        patch?: never;
+        trace?: never;
+    };
+    "/api/admin/users": {
+        parameters: {
+            query?: never;
+            header?: never;
+            path?: never;
+            cookie?: never;
+        };
+        /** List users */
+        get: {
+            parameters: {
+                query?: never;
+                header?: never;
+                path?: never;
+                cookie?: never;
+            };
+            requestBody?: never;
+            responses: {
+                /** @description Users */
+                200: {
+                    headers: {
+                        "X-Request-Id": string;
+                        [name: string]: unknown;
+                    };
+                    content: {
+                        "application/json": {
+                            users: components["schemas"]["AdminUser"][];
+                        };
+                    };
+                };
+                /** @description Missing, expired or revoked access token */
+                401: {
+                    headers: {
+                        "X-Request-Id": string;
+                        [name: string]: unknown;
+                    };
+                    content: {
+                        "application/json": components["schemas"]["Error"];
+                    };
+                };
+                /** @description Invalid access token; Requires the `users:manage` permission */
+                403: {
+                    headers: {
+                        "X-Request-Id": string;
+                        [name: string]: unknown;
+                    };
+                    content: {
+                        "application/json": components["schemas"]["Error"];
+                    };
+                };
+                /** @description Rate limited by the `admin` policy; retry after `Retry-After` seconds */
+                429: {
+                    headers: {
+                        "X-Request-Id": string;
+                        [name: string]: unknown;
+                    };
+                    content: {
+                        "application/json": components["schemas"]["Error"];
+                    };
+                };
+            };
+        };
+        put?: never;
+        /** Create a user */
+        post: {
+            parameters: {
+                query?: never;
+                header?: never;
+                path?: never;
+                cookie?: never;
+            };
+            requestBody: {
+                content: {
+                    "application/json": {
+                        /** Format: email */
+                        email: string;
+                        password: string;
+                        phone?: string;
+                        name?: string;
+                        departments?: string[];
+                        department?: string;
+                        /** @enum {string} */
+                        role?: "viewer" | "department-owner" | "catalog-admin" | "super-admin";
+                    };
+                };
+            };
+            responses: {
+                /** @description Created */
+                201: {
+                    headers: {
+                        "X-Request-Id": string;
+                        [name: string]: unknown;
+                    };
+                    content: {
+                        "application/json": {
+                            user: components["schemas"]["User"];
+                        };
+                    };
+                };
+                /** @description Invalid request; `fieldErrors` names the invalid fields; The email or phone number is already in use */
+                400: {
+                    headers: {
+                        "X-Request-Id": string;
+                        [name: string]: unknown;
+                    };
+                    content: {
+                        "application/json": components["schemas"]["Error"];
+                    };
+                };
+                /** @description Missing, expired or revoked access token */
+                401: {
+                    headers: {
+                        "X-Request-Id": string;
+                        [name: string]: unknown;
+                    };
+                    content: {
+                        "application/json": components["schemas"]["Error"];
+                    };
+                };
+                /** @description Invalid access token; Requires the `users:manage` permission */
+                403: {
+                    headers: {
+                        "X-Request-Id": string;
+                        [name: string]: unknown;
+                    };
+                    content: {
+                        "application/json": components["schemas"]["Error"];
+                    };
+                };
+                /** @description Rate limited by the `admin` policy; retry after `Retry-After` seconds */
+                429: {
+                    headers: {
+                        "X-Request-Id": string;
+                        [name: string]: unknown;
+                    };
+                    content: {
+                        "application/json": components["schemas"]["Error"];
+                    };
+                };
+            };
+        };
+        delete?: never;
+        options?: never;
+        head?: never;
+        patch?: never;
+        trace?: never;
+    };
+    "/api/admin/users/{id}": {
+        parameters: {
+            query?: never;
+            header?: never;
+            path?: never;
+            cookie?: never;
+        };
+        get?: never;
+        /** Update a user */
+        put: {
+            parameters: {
+                query?: never;
+                header?: never;
+                path: {
+                    id: string;
+                };
+                cookie?: never;
+            };
+            requestBody: {
+                content: {
+                    "application/json": {
+                        phone?: string;
+                        name?: string;
+                        departments?: string[];
+                        department?: string;
+                        /** @enum {string} */
+                        role?: "viewer" | "department-owner" | "catalog-admin" | "super-admin";
+                        disabled?: boolean;
+                    };
+                };
+            };
+            responses: {
+                /** @description Updated */
+                200: {
+                    headers: {
+                        "X-Request-Id": string;
+                        [name: string]: unknown;
+                    };
+                    content: {
+                        "application/json": {
+                            user: components["schemas"]["User"];
+                        };
+                    };
+                };
+                /** @description Invalid request; `fieldErrors` names the invalid fields; Users cannot disable or demote themselves, or the phone number is in use */
+                400: {
+                    headers: {
+                        "X-Request-Id": string;
+                        [name: string]: unknown;
+                    };
+                    content: {
+                        "application/json": components["schemas"]["Error"];
+                    };
+                };
+                /** @description Missing, expired or revoked access token */
+                401: {
+                    headers: {
+                        "X-Request-Id": string;
+                        [name: string]: unknown;
+                    };
+                    content: {
+                        "application/json": components["schemas"]["Error"];
+                    };
+                };
+                /** @description Invalid access token; Requires the `users:manage` permission */
+                403: {
+                    headers: {
+                        "X-Request-Id": string;
+                        [name: string]: unknown;
+                    };
+                    content: {
+                        "application/json": components["schemas"]["Error"];
+                    };
+                };
+                /** @description User not found */
+                404: {
+                    headers: {
+                        "X-Request-Id": string;
+                        [name: string]: unknown;
+                    };
+                    content: {
+                        "application/json": components["schemas"]["Error"];
+                    };
+                };
+                /** @description Rate limited by the `admin` policy; retry after `Retry-After` seconds */
+                429: {
+                    headers: {
+                        "X-Request-Id": string;
+                        [name: string]: unknown;
+                    };
+                    content: {
+                        "application/json": components["schemas"]["Error"];
+                    };
+                };
+            };
+        };
+        post?: never;
+        delete?: never;
+        options?: never;
+        head?: never;
+        patch?: never;
+        trace?: never;
+    };
+    "/api/admin/users/{id}/reset-password": {
+        parameters: {
+            query?: never;
+            header?: never;
+            path?: never;
+            cookie?: never;
+        };
+        get?: never;
+        put?: never;
+        /**
+         * Reset a user's password
+         * @description Sets the given password, or generates a temporary one and returns it.
+         */
+        post: {
+            parameters: {
+                query?: never;
+                header?: never;
+                path: {
+                    id: string;
+                };
+                cookie?: never;
+            };
+            requestBody: {
+                content: {
+                    "application/json": {
+                        password?: string;
+                    };
+                };
+            };
+            responses: {
+                /** @description Password changed */
+                200: {
+                    headers: {
+                        "X-Request-Id": string;
+                        [name: string]: unknown;
+                    };
+                    content: {
+                        "application/json": {
+                            message: string;
+                            temporaryPassword?: string;
+                        };
+                    };
+                };
+                /** @description Invalid request; `fieldErrors` names the invalid fields */
+                400: {
+                    headers: {
+                        "X-Request-Id": string;
+                        [name: string]: unknown;
+                    };
+                    content: {
+                        "application/json": components["schemas"]["Error"];
+                    };
+                };
+                /** @description Missing, expired or revoked access token */
+                401: {
+                    headers: {
+                        "X-Request-Id": string;
+                        [name: string]: unknown;
+                    };
+                    content: {
+                        "application/json": components["schemas"]["Error"];
+                    };
+                };
+                /** @description Invalid access token; Requires the `users:manage` permission */
+                403: {
+                    headers: {
+                        "X-Request-Id": string;
+                        [name: string]: unknown;
+                    };
+                    content: {
+                        "application/json": components["schemas"]["Error"];
+                    };
+                };
+                /** @description User not found */
+                404: {
+                    headers: {
+                        "X-Request-Id": string;
+                        [name: string]: unknown;
+                    };
+                    content: {
+                        "application/json": components["schemas"]["Error"];
+                    };
+                };
+                /** @description Rate limited by the `admin` policy; retry after `Retry-After` seconds */
+                429: {
+                    headers: {
+                        "X-Request-Id": string;
+                        [name: string]: unknown;
+                    };
+                    content: {
+                        "application/json": components["schemas"]["Error"];
+                    };
+                };
+            };
+        };
+        delete?: never;
+        options?: never;
+        head?: never;
+        patch?: never;
+        trace?: never;
+    };
+    "/api/admin/users/{id}/unlock": {
+        parameters: {
+            query?: never;
+            header?: never;
+            path?: never;
+            cookie?: never;
+        };
+        get?: never;
+        put?: never;
+        /** Lift a sign-in lockout */
+        post: {
+            parameters: {
+                query?: never;
+                header?: never;
+                path: {
+                    id: string;
+                };
+                cookie?: never;
+            };
+            requestBody?: never;
+            responses: {
+                /** @description Unlocked */
+                200: {
+                    headers: {
+                        "X-Request-Id": string;
+                        [name: string]: unknown;
+                    };
+                    content: {
+                        "application/json": components["schemas"]["Message"];
+                    };
+                };
+                /** @description Missing, expired or revoked access token */
+                401: {
+                    headers: {
+                        "X-Request-Id": string;
+                        [name: string]: unknown;
+                    };
+                    content: {
+                        "application/json": components["schemas"]["Error"];
+                    };
+                };
+                /** @description Invalid access token; Requires the `users:manage` permission */
+                403: {
+                    headers: {
+                        "X-Request-Id": string;
+                        [name: string]: unknown;
+                    };
+                    content: {
+                        "application/json": components["schemas"]["Error"];
+                    };
+                };
+                /** @description User not found */
+                404: {
+                    headers: {
+                        "X-Request-Id": string;
+                        [name: string]: unknown;
+                    };
+                    content: {
+                        "application/json": components["schemas"]["Error"];
+                    };
+                };
+                /** @description Rate limited by the `admin` policy; retry after `Retry-After` seconds */
+                429: {
+                    headers: {
+                        "X-Request-Id": string;
+                        [name: string]: unknown;
+                    };
+                    content: {
+                        "application/json": components["schemas"]["Error"];
+                    };
+                };
+            };
+        };
+        delete?: never;
+        options?: never;
+        head?: never;
+        patch?: never;
+        trace?: never;
+    };
+    "/api/admin/users/{id}/reset-mfa": {
+        parameters: {
+            query?: never;
+            header?: never;
+            path?: never;
+            cookie?: never;
+        };
+        get?: never;
+        put?: never;
+        /** Turn off a user's two-factor authentication */
+        post: {
+            parameters: {
+                query?: never;
+                header?: never;
+                path: {
+                    id: string;
+                };
+                cookie?: never;
+            };
+            requestBody?: never;
+            responses: {
+                /** @description Reset */
+                200: {
+                    headers: {
+                        "X-Request-Id": string;
+                        [name: string]: unknown;
+                    };
+                    content: {
+                        "application/json": components["schemas"]["Message"];
+                    };
+                };
+                /** @description The user has no two-factor authentication */
+                400: {
+                    headers: {
+                        "X-Request-Id": string;
+                        [name: string]: unknown;
+                    };
+                    content: {
+                        "application/json": components["schemas"]["Error"];
+                    };
+                };
+                /** @description Missing, expired or revoked access token */
+                401: {
+                    headers: {
+                        "X-Request-Id": string;
+                        [name: string]: unknown;
+                    };
+                    content: {
+                        "application/json": components["schemas"]["Error"];
+                    };
+                };
+                /** @description Invalid access token; Requires the `users:manage` permission */
+                403: {
+                    headers: {
+                        "X-Request-Id": string;
+                        [name: string]: unknown;
+                    };
+                    content: {
+                        "application/json": components["schemas"]["Error"];
+                    };
+                };
+                /** @description User not found */
+                404: {
+                    headers: {
+                        "X-Request-Id": string;
+                        [name: string]: unknown;
+                    };
+                    content: {
+                        "application/json": components["schemas"]["Error"];
+                    };
+                };
+                /** @description Rate limited by the `admin` policy; retry after `Retry-After` seconds */
+                429: {
+                    headers: {
+                        "X-Request-Id": string;
+                        [name: string]: unknown;
+                    };
+                    content: {
+                        "application/json": components["schemas"]["Error"];
+                    };
+                };
+            };
+        };
+        delete?: never;
+        options?: never;
+        head?: never;
+        patch?: never;
+        trace?: never;
+    };
+    "/api/admin/audit": {
+        parameters: {
+            query?: never;
+            header?: never;
+            path?: never;
+            cookie?: never;
+        };
+        /** Browse the audit log */
+        get: {
+            parameters: {
+                query?: {
+                    actor?: string;
+                    action?: string;
+                    target?: string;
+                    from?: string;
+                    to?: string;
+                    page?: number;
+                    pageSize?: number;
+                };
+                header?: never;
+                path?: never;
+                cookie?: never;
+            };
+            requestBody?: never;
+            responses: {
+                /** @description One page of entries, newest first */
+                200: {
+                    headers: {
+                        "X-Request-Id": string;
+                        [name: string]: unknown;
+                    };
+                    content: {
+                        "application/json": components["schemas"]["AuditPage"];
+                    };
+                };
+                /** @description Invalid request; `fieldErrors` names the invalid fields */
+                400: {
+                    headers: {
+                        "X-Request-Id": string;
+                        [name: string]: unknown;
+                    };
+                    content: {
+                        "application/json": components["schemas"]["Error"];
+                    };
+                };
+                /** @description Missing, expired or revoked access token */
+                401: {
+                    headers: {
+                        "X-Request-Id": string;
+                        [name: string]: unknown;
+                    };
+                    content: {
+                        "application/json": components["schemas"]["Error"];
+                    };
+                };
+                /** @description Invalid access token; Requires the `audit:view` permission */
+                403: {
+                    headers: {
+                        "X-Request-Id": string;
+                        [name: string]: unknown;
+                    };
+                    content: {
+                        "application/json": components["schemas"]["Error"];
+                    };
+                };
+                /** @description Rate limited by the `admin` policy; retry after `Retry-After` seconds */
+                429: {
+                    headers: {
+                        "X-Request-Id": string;
+                        [name: string]: unknown;
+                    };
+                    content: {
+                        "application/json": components["schemas"]["Error"];
+                    };
+                };
+            };
+        };
+        put?: never;
+        post?: never;
+        delete?: never;
+        options?: never;
+        head?: never;
+        patch?: never;
+        trace?: never;
+    };
+    "/api/admin/sso-mapping": {
+        parameters: {
+            query?: never;
+            header?: never;
+            path?: never;
+            cookie?: never;
+        };
+        /** Get the SSO mapping */
+        get: {
+            parameters: {
+                query?: never;
+                header?: never;
+                path?: never;
+                cookie?: never;
+            };
+            requestBody?: never;
+            responses: {
+                /** @description Mapping */
+                200: {
+                    headers: {
+                        "X-Request-Id": string;
+                        [name: string]: unknown;
+                    };
+                    content: {
+                        "application/json": {
+                            mapping: components["schemas"]["SsoMapping"];
+                        };
+                    };
+                };
+                /** @description Missing, expired or revoked access token */
+                401: {
+                    headers: {
+                        "X-Request-Id": string;
+                        [name: string]: unknown;
+                    };
+                    content: {
+                        "application/json": components["schemas"]["Error"];
+                    };
+                };
+                /** @description Invalid access token; Requires the `users:manage` permission */
+                403: {
+                    headers: {
+                        "X-Request-Id": string;
+                        [name: string]: unknown;
+                    };
+                    content: {
+                        "application/json": components["schemas"]["Error"];
+                    };
+                };
+                /** @description Rate limited by the `admin` policy; retry after `Retry-After` seconds */
+                429: {
+                    headers: {
+                        "X-Request-Id": string;
+                        [name: string]: unknown;
+                    };
+                    content: {
+                        "application/json": components["schemas"]["Error"];
+                    };
+                };
+            };
+        };
+        /**
+         * Save the SSO mapping
+         * @description Applies from the next SSO sign-in. New rules get an ID.
+         */
+        put: {
+            parameters: {
+                query?: never;
+                header?: never;
+                path?: never;
+                cookie?: never;
+            };
+            requestBody: {
+                content: {
+                    "application/json": {
+                        mapping: {
+                            rules: {
+                                id?: string;
+                                /** @default azure */
+                                provider?: string;
+                                /** @enum {string} */
+                                source: "group" | "app-role" | "attribute";
+                                /** @enum {string} */
+                                attribute?: "department" | "jobTitle" | "officeLocation" | "companyName" | "employeeType";
+                                value: string;
+                                /** @default [] */
+                                departments?: string[];
+                                /** @enum {string} */
+                                role?: "viewer" | "department-owner" | "catalog-admin" | "super-admin";
+                            }[];
+                            /** @default true */
+                            useGraphDepartment?: boolean;
+                            fallbackDepartment: string;
+                            /** @enum {string} */
+                            defaultRole: "viewer" | "department-owner" | "catalog-admin" | "super-admin";
+                        };
+                    };
+                };
+            };
+            responses: {
+                /** @description The saved mapping */
+                200: {
+                    headers: {
+                        "X-Request-Id": string;
+                        [name: string]: unknown;
+                    };
+                    content: {
+                        "application/json": {
+                            mapping: components["schemas"]["SsoMapping"];
+                        };
+                    };
+                };
+                /** @description Invalid request; `fieldErrors` names the invalid fields */
+                400: {
+                    headers: {
+                        "X-Request-Id": string;
+                        [name: string]: unknown;
+                    };
+                    content: {
+                        "application/json": components["schemas"]["Error"];
+                    };
+                };
+                /** @description Missing, expired or revoked access token */
+                401: {
+                    headers: {
+                        "X-Request-Id": string;
+                        [name: string]: unknown;
+                    };
+                    content: {
+                        "application/json": components["schemas"]["Error"];
+                    };
+                };
+                /** @description Invalid access token; Requires the `users:manage` permission */
+                403: {
+                    headers: {
+                        "X-Request-Id": string;
+                        [name: string]: unknown;
+                    };
+                    content: {
+                        "application/json": components["schemas"]["Error"];
+                    };
+                };
+                /** @description Rate limited by the `admin` policy; retry after `Retry-After` seconds */
+                429: {
+                    headers: {
+                        "X-Request-Id": string;
+                        [name: string]: unknown;
+                    };
+                    content: {
+                        "application/json": components["schemas"]["Error"];
+                    };
+                };
+                /** @description Save failed */
+                500: {
+                    headers: {
+                        "X-Request-Id": string;
+                        [name: string]: unknown;
+                    };
+                    content: {
+                        "application/json": components["schemas"]["Error"];
+                    };
+                };
+            };
+        };
+        post?: never;
+        delete?: never;
+        options?: never;
+        head?: never;
+        patch?: never;
+        trace?: never;
+    };
+    "/api/admin/sso-mapping/test": {
+        parameters: {
+            query?: never;
+            header?: never;
+            path?: never;
+            cookie?: never;
+        };
+        get?: never;
+        put?: never;
+        /**
+         * Preview an SSO sign-in
+         * @description What a sign-in with the given identity would be mapped to, by the given rules or the saved ones.
+         */
+        post: {
+            parameters: {
+                query?: never;
+                header?: never;
+                path?: never;
+                cookie?: never;
+            };
+            requestBody: {
+                content: {
+                    "application/json": {
+                        mapping?: {
+                            rules: {
+                                id?: string;
+                                /** @default azure */
+                                provider?: string;
+                                /** @enum {string} */
+                                source: "group" | "app-role" | "attribute";
+                                /** @enum {string} */
+                                attribute?: "department" | "jobTitle" | "officeLocation" | "companyName" | "employeeType";
+                                value: string;
+                                /** @default [] */
+                                departments?: string[];
+                                /** @enum {string} */
+                                role?: "viewer" | "department-owner" | "catalog-admin" | "super-admin";
+                            }[];
+                            /** @default true */
+                            useGraphDepartment?: boolean;
+                            fallbackDepartment: string;
+                            /** @enum {string} */
+                            defaultRole: "viewer" | "department-owner" | "catalog-admin" | "super-admin";
+                        };
+                        /** @default {} */
+                        identity?: {
+                            /** @default azure */
+                            provider?: string;
+                            /** @default [] */
+                            groups?: string[];
+                            /** @default [] */
+                            appRoles?: string[];
+                            /** @default {} */
+                            attributes?: {
+                                department?: string;
+                                jobTitle?: string;
+                                officeLocation?: string;
+                                companyName?: string;
+                                employeeType?: string;
+                            };
+                        };
+                    };
+                };
+            };
+            responses: {
+                /** @description Result */
+                200: {
+                    headers: {
+                        "X-Request-Id": string;
+                        [name: string]: unknown;
+                    };
+                    content: {
+                        "application/json": {
+                            identity: components["schemas"]["SsoIdentity"];
+                            result: components["schemas"]["SsoMappingResult"];
+                        };
+                    };
+                };
+                /** @description Invalid request; `fieldErrors` names the invalid fields */
+                400: {
+                    headers: {
+                        "X-Request-Id": string;
+                        [name: string]: unknown;
+                    };
+                    content: {
+                        "application/json": components["schemas"]["Error"];
+                    };
+                };
+                /** @description Missing, expired or revoked access token */
+                401: {
+                    headers: {
+                        "X-Request-Id": string;
+                        [name: string]: unknown;
+                    };
+                    content: {
+                        "application/json": components["schemas"]["Error"];
+                    };
+                };
+                /** @description Invalid access token; Requires the `users:manage` permission */
+                403: {
+                    headers: {
+                        "X-Request-Id": string;
+                        [name: string]: unknown;
+                    };
+                    content: {
+                        "application/json": components["schemas"]["Error"];
+                    };
+                };
+                /** @description Rate limited by the `admin` policy; retry after `Retry-After` seconds */
+                429: {
+                    headers: {
+                        "X-Request-Id": string;
+                        [name: string]: unknown;
+                    };
+                    content: {
+                        "application/json": components["schemas"]["Error"];
+                    };
+                };
+            };
+        };
+        delete?: never;
+        options?: never;
+        head?: never;
+        patch?: never;
+        trace?: never;
+    };
+    "/auth/providers": {
+        parameters: {
+            query?: never;
+            header?: never;
+            path?: never;
+            cookie?: never;
+        };
+        /** List SSO providers */
+        get: {
+            parameters: {
+                query?: never;
+                header?: never;
+                path?: never;
+                cookie?: never;
+            };
+            requestBody?: never;
+            responses: {
+                /** @description Providers for the login page */
+                200: {
+                    headers: {
+                        "X-Request-Id": string;
+                        [name: string]: unknown;
+                    };
+                    content: {
+                        "application/json": {
+                            providers: components["schemas"]["SsoProvider"][];
+                        };
+                    };
+                };
+            };
+        };
+        put?: never;
+        post?: never;
+        delete?: never;
+        options?: never;
+        head?: never;
+        patch?: never;
+        trace?: never;
+    };
+    "/auth/login/{provider}": {
+        parameters: {
+            query?: never;
+            header?: never;
+            path?: never;
+            cookie?: never;
+        };
+        /**
+         * Start an SSO sign-in
+         * @description Browser navigation: redirects to the identity provider, which returns to `/auth/callback`.
+         */
+        get: {
+            parameters: {
+                query?: {
+                    returnTo?: string;
+                };
+                header?: never;
+                path: {
+                    provider: string;
+                };
+                cookie?: never;
+            };
+            requestBody?: never;
+            responses: {
+                /** @description Redirect to the identity provider */
+                302: {
+                    headers: {
+                        "X-Request-Id": string;
+                        [name: string]: unknown;
+                    };
+                    content?: never;
+                };
+                /** @description Unknown provider */
+                404: {
+                    headers: {
+                        "X-Request-Id": string;
+                        [name: string]: unknown;
+                    };
+                    content: {
+                        "text/plain": string;
+                    };
+                };
+                /** @description Rate limited by the `sso` policy; retry after `Retry-After` seconds */
+                429: {
+                    headers: {
+                        "X-Request-Id": string;
+                        [name: string]: unknown;
+                    };
+                    content: {
+                        "text/plain": string;
+                    };
+                };
+                /** @description The identity provider is unavailable */
+                502: {
+                    headers: {
+                        "X-Request-Id": string;
+                        [name: string]: unknown;
+                    };
+                    content: {
+                        "text/plain": string;
+                    };
+                };
+            };
+        };
+        put?: never;
+        post?: never;
+        delete?: never;
+        options?: never;
+        head?: never;
+        patch?: never;
+        trace?: never;
+    };
+    "/auth/callback": {
+        parameters: {
+            query?: never;
+            header?: never;
+            path?: never;
+            cookie?: never;
+        };
+        /**
+         * Finish an SSO sign-in
+         * @description Called by the identity provider. Redirects to the frontend with a one-time `ssoCode` in the query string, which the frontend exchanges at `/auth/sso/exchange`.
+         */
+        get: {
+            parameters: {
+                query?: never;
+                header?: never;
+                path?: never;
+                cookie?: never;
+            };
+            requestBody?: never;
+            responses: {
+                /** @description Redirect to the frontend */
+                302: {
+                    headers: {
+                        "X-Request-Id": string;
+                        [name: string]: unknown;
+                    };
+                    content?: never;
+                };
+                /** @description Sign-in expired or was started in another browser */
+                400: {
+                    headers: {
+                        "X-Request-Id": string;
+                        [name: string]: unknown;
+                    };
+                    content: {
+                        "text/plain": string;
+                    };
+                };
+                /** @description The provider did not confirm the email, or it is outside the provider's allowed domains */
+                403: {
+                    headers: {
+                        "X-Request-Id": string;
+                        [name: string]: unknown;
+                    };
+                    content: {
+                        "text/plain": string;
+                    };
+                };
+                /** @description Sign-in failed */
+                500: {
+                    headers: {
+                        "X-Request-Id": string;
+                        [name: string]: unknown;
+                    };
+                    content: {
+                        "text/plain": string;
+                    };
+                };
+            };
+        };
+        put?: never;
+        post?: never;
+        delete?: never;
+        options?: never;
+        head?: never;
+        patch?: never;
+        trace?: never;
+    };
+    "/auth/sso/exchange": {
+        parameters: {
+            query?: never;
+            header?: never;
+            path?: never;
+            cookie?: never;
+        };
+        get?: never;
+        put?: never;
+        /**
+         * Exchange the SSO sign-in code for a session
+         * @description Trades the one-time `ssoCode` of the callback redirect for the session. Codes expire after `SSO_CODE_TTL_SECONDS` and work once.
+         */
+        post: {
+            parameters: {
+                query?: never;
+                header?: never;
+                path?: never;
+                cookie?: never;
+            };
+            requestBody: {
+                content: {
+                    "application/json": {
+                        code: string;
+                    };
+                };
+            };
+            responses: {
+                /** @description Session tokens */
+                200: {
+                    headers: {
+                        "X-Request-Id": string;
+                        [name: string]: unknown;
+                    };
+                    content: {
+                        "application/json": components["schemas"]["SessionTokens"];
+                    };
+                };
+                /** @description Invalid request; `fieldErrors` names the invalid fields; The code is invalid, expired or already used */
+                400: {
+                    headers: {
+                        "X-Request-Id": string;
+                        [name: string]: unknown;
+                    };
+                    content: {
+                        "application/json": components["schemas"]["Error"];
+                    };
+                };
+                /** @description Rate limited by the `sso` policy; retry after `Retry-After` seconds */
+                429: {
+                    headers: {
+                        "X-Request-Id": string;
+                        [name: string]: unknown;
+                    };
+                    content: {
+                        "application/json": components["schemas"]["Error"];
+                    };
+                };
+                /** @description Session store unavailable */
+                503: {
+                    headers: {
+                        "X-Request-Id": string;
+                        [name: string]: unknown;
+                    };
+                    content: {
+                        "application/json": components["schemas"]["Error"];
+                    };
+                };
+            };
+        };
+        delete?: never;
+        options?: never;
+        head?: never;
+        patch?: never;
+        trace?: never;
+    };
+    "/auth/manual-login": {
+        parameters: {
+            query?: never;
+            header?: never;
+            path?: never;
+            cookie?: never;
+        };
+        get?: never;
+        put?: never;
+        /** Sign in with a password */
+        post: {
+            parameters: {
+                query?: never;
+                header?: never;
+                path?: never;
+                cookie?: never;
+            };
+            requestBody: {
+                content: {
+                    "application/json": {
+                        email?: string;
+                        phone?: string;
+                        password: string;
+                    };
+                };
+            };
+            responses: {
+                /** @description Session or next step */
+                200: {
+                    headers: {
+                        "X-Request-Id": string;
+                        [name: string]: unknown;
+                    };
+                    content: {
+                        "application/json": components["schemas"]["SignInResult"];
+                    };
+                };
+                /** @description Invalid request; `fieldErrors` names the invalid fields */
+                400: {
+                    headers: {
+                        "X-Request-Id": string;
+                        [name: string]: unknown;
+                    };
+                    content: {
+                        "application/json": components["schemas"]["Error"];
+                    };
+                };
+                /** @description Invalid credentials */
+                401: {
+                    headers: {
+                        "X-Request-Id": string;
+                        [name: string]: unknown;
+                    };
+                    content: {
+                        "application/json": components["schemas"]["Error"];
+                    };
+                };
+                /** @description Rate limited by the `login` policy; retry after `Retry-After` seconds; Sign-in delayed or locked after failed attempts */
+                429: {
+                    headers: {
+                        "X-Request-Id": string;
+                        [name: string]: unknown;
+                    };
+                    content: {
+                        "application/json": components["schemas"]["Error"];
+                    };
+                };
+            };
+        };
+        delete?: never;
+        options?: never;
+        head?: never;
+        patch?: never;
+        trace?: never;
+    };
+    "/auth/mfa/verify": {
+        parameters: {
+            query?: never;
+            header?: never;
+            path?: never;
+            cookie?: never;
+        };
+        get?: never;
+        put?: never;
+        /** Finish a sign-in with an authenticator or recovery code */
+        post: {
+            parameters: {
+                query?: never;
+                header?: never;
+                path?: never;
+                cookie?: never;
+            };
+            requestBody: {
+                content: {
+                    "application/json": {
+                        mfaToken: string;
+                        code?: string;
+                        recoveryCode?: string;
+                    };
+                };
+            };
+            responses: {
+                /** @description Session */
+                200: {
+                    headers: {
+                        "X-Request-Id": string;
+                        [name: string]: unknown;
+                    };
+                    content: {
+                        "application/json": components["schemas"]["SessionTokens"];
+                    };
+                };
+                /** @description Invalid request; `fieldErrors` names the invalid fields */
+                400: {
+                    headers: {
+                        "X-Request-Id": string;
+                        [name: string]: unknown;
+                    };
+                    content: {
+                        "application/json": components["schemas"]["Error"];
+                    };
+                };
+                /** @description Invalid code, or the sign-in expired */
+                401: {
+                    headers: {
+                        "X-Request-Id": string;
+                        [name: string]: unknown;
+                    };
+                    content: {
+                        "application/json": components["schemas"]["Error"];
+                    };
+                };
+                /** @description Rate limited by the `mfa` policy; retry after `Retry-After` seconds; Sign-in delayed or locked after failed attempts */
+                429: {
+                    headers: {
+                        "X-Request-Id": string;
+                        [name: string]: unknown;
+                    };
+                    content: {
+                        "application/json": components["schemas"]["Error"];
+                    };
+                };
+            };
+        };
+        delete?: never;
+        options?: never;
+        head?: never;
+        patch?: never;
+        trace?: never;
+    };
+    "/auth/mfa": {
+        parameters: {
+            query?: never;
+            header?: never;
+            path?: never;
+            cookie?: never;
+        };
+        /** Two-factor authentication status */
+        get: {
+            parameters: {
+                query?: never;
+                header?: never;
+                path?: never;
+                cookie?: never;
+            };
+            requestBody?: never;
+            responses: {
+                /** @description Status */
+                200: {
+                    headers: {
+                        "X-Request-Id": string;
+                        [name: string]: unknown;
+                    };
+                    content: {
+                        "application/json": components["schemas"]["MfaStatus"];
+                    };
+                };
+                /** @description SSO users manage two-factor authentication with their identity provider */
+                400: {
+                    headers: {
+                        "X-Request-Id": string;
+                        [name: string]: unknown;
+                    };
+                    content: {
+                        "application/json": components["schemas"]["Error"];
+                    };
+                };
+            };
+        };
+        put?: never;
+        post?: never;
+        delete?: never;
+        options?: never;
+        head?: never;
+        patch?: never;
+        trace?: never;
+    };
+    "/auth/mfa/enroll": {
+        parameters: {
+            query?: never;
+            header?: never;
+            path?: never;
+            cookie?: never;
+        };
+        get?: never;
+        put?: never;
+        /**
+         * Start setting up an authenticator
+         * @description Signed-in users send their access token; users finishing a sign-in send `mfaToken` instead.
+         */
+        post: {
+            parameters: {
+                query?: never;
+                header?: never;
+                path?: never;
+                cookie?: never;
+            };
+            requestBody: {
+                content: {
+                    "application/json": {
+                        mfaToken?: string;
+                    };
+                };
+            };
+            responses: {
+                /** @description New secret, to confirm with a code at `/auth/mfa/enroll/confirm` */
+                200: {
+                    headers: {
+                        "X-Request-Id": string;
+                        [name: string]: unknown;
+                    };
+                    content: {
+                        "application/json": components["schemas"]["MfaEnrollment"];
+                    };
+                };
+                /** @description Invalid request; `fieldErrors` names the invalid fields */
+                400: {
+                    headers: {
+                        "X-Request-Id": string;
+                        [name: string]: unknown;
+                    };
+                    content: {
+                        "application/json": components["schemas"]["Error"];
+                    };
+                };
+                /** @description The sign-in expired */
+                401: {
+                    headers: {
+                        "X-Request-Id": string;
+                        [name: string]: unknown;
+                    };
+                    content: {
+                        "application/json": components["schemas"]["Error"];
+                    };
+                };
+                /** @description Two-factor authentication is already enabled */
+                409: {
+                    headers: {
+                        "X-Request-Id": string;
+                        [name: string]: unknown;
+                    };
+                    content: {
+                        "application/json": components["schemas"]["Error"];
+                    };
+                };
+                /** @description QR code generation failed */
+                500: {
+                    headers: {
+                        "X-Request-Id": string;
+                        [name: string]: unknown;
+                    };
+                    content: {
+                        "application/json": components["schemas"]["Error"];
+                    };
+                };
+            };
+        };
+        delete?: never;
+        options?: never;
+        head?: never;
+        patch?: never;
+        trace?: never;
+    };
+    "/auth/mfa/enroll/confirm": {
+        parameters: {
+            query?: never;
+            header?: never;
+            path?: never;
+            cookie?: never;
+        };
+        get?: never;
+        put?: never;
+        /** Turn on two-factor authentication */
+        post: {
+            parameters: {
+                query?: never;
+                header?: never;
+                path?: never;
+                cookie?: never;
+            };
+            requestBody: {
+                content: {
+                    "application/json": {
+                        mfaToken?: string;
+                        enrollmentToken: string;
+                        code: string;
+                    };
+                };
+            };
+            responses: {
+                /** @description Recovery codes, and the session when finishing a sign-in */
+                200: {
+                    headers: {
+                        "X-Request-Id": string;
+                        [name: string]: unknown;
+                    };
+                    content: {
+                        "application/json": components["schemas"]["MfaEnrollmentResult"];
+                    };
+                };
+                /** @description Invalid request; `fieldErrors` names the invalid fields; Invalid code, or setup expired */
+                400: {
+                    headers: {
+                        "X-Request-Id": string;
+                        [name: string]: unknown;
+                    };
+                    content: {
+                        "application/json": components["schemas"]["Error"];
+                    };
+                };
+                /** @description The sign-in expired */
+                401: {
+                    headers: {
+                        "X-Request-Id": string;
+                        [name: string]: unknown;
+                    };
+                    content: {
+                        "application/json": components["schemas"]["Error"];
+                    };
+                };
+                /** @description Two-factor authentication is already enabled */
+                409: {
+                    headers: {
+                        "X-Request-Id": string;
+                        [name: string]: unknown;
+                    };
+                    content: {
+                        "application/json": components["schemas"]["Error"];
+                    };
+                };
+            };
+        };
+        delete?: never;
+        options?: never;
+        head?: never;
+        patch?: never;
+        trace?: never;
+    };
+    "/auth/mfa/recovery-codes": {
+        parameters: {
+            query?: never;
+            header?: never;
+            path?: never;
+            cookie?: never;
+        };
+        get?: never;
+        put?: never;
+        /** Replace the recovery codes */
+        post: {
+            parameters: {
+                query?: never;
+                header?: never;
+                path?: never;
+                cookie?: never;
+            };
+            requestBody: {
+                content: {
+                    "application/json": {
+                        mfaToken?: string;
+                        code: string;
+                    };
+                };
+            };
+            responses: {
+                /** @description New recovery codes */
+                200: {
+                    headers: {
+                        "X-Request-Id": string;
+                        [name: string]: unknown;
+                    };
+                    content: {
+                        "application/json": {
+                            recoveryCodes: string[];
+                        };
+                    };
+                };
+                /** @description Invalid request; `fieldErrors` names the invalid fields; Invalid code, or two-factor authentication is off */
+                400: {
+                    headers: {
+                        "X-Request-Id": string;
+                        [name: string]: unknown;
+                    };
+                    content: {
+                        "application/json": components["schemas"]["Error"];
+                    };
+                };
+                /** @description Rate limited by the `mfa` policy; retry after `Retry-After` seconds; Sign-in delayed or locked after failed attempts */
+                429: {
+                    headers: {
+                        "X-Request-Id": string;
+                        [name: string]: unknown;
+                    };
+                    content: {
+                        "application/json": components["schemas"]["Error"];
+                    };
+                };
+            };
+        };
+        delete?: never;
+        options?: never;
+        head?: never;
+        patch?: never;
+        trace?: never;
+    };
+    "/auth/mfa/disable": {
+        parameters: {
+            query?: never;
+            header?: never;
+            path?: never;
+            cookie?: never;
+        };
+        get?: never;
+        put?: never;
+        /** Turn off two-factor authentication */
+        post: {
+            parameters: {
+                query?: never;
+                header?: never;
+                path?: never;
+                cookie?: never;
+            };
+            requestBody: {
+                content: {
+                    "application/json": {
+                        mfaToken?: string;
+                        code: string;
+                    };
+                };
+            };
+            responses: {
+                /** @description Turned off */
+                200: {
+                    headers: {
+                        "X-Request-Id": string;
+                        [name: string]: unknown;
+                    };
+                    content: {
+                        "application/json": components["schemas"]["Message"];
+                    };
+                };
+                /** @description Invalid request; `fieldErrors` names the invalid fields; Invalid code, or two-factor authentication is off */
+                400: {
+                    headers: {
+                        "X-Request-Id": string;
+                        [name: string]: unknown;
+                    };
+                    content: {
+                        "application/json": components["schemas"]["Error"];
+                    };
+                };
+                /** @description The user's role requires two-factor authentication */
+                403: {
+                    headers: {
+                        "X-Request-Id": string;
+                        [name: string]: unknown;
+                    };
+                    content: {
+                        "application/json": components["schemas"]["Error"];
+                    };
+                };
+                /** @description Rate limited by the `mfa` policy; retry after `Retry-After` seconds; Sign-in delayed or locked after failed attempts */
+                429: {
+                    headers: {
+                        "X-Request-Id": string;
+                        [name: string]: unknown;
+                    };
+                    content: {
+                        "application/json": components["schemas"]["Error"];
+                    };
+                };
+            };
+        };
+        delete?: never;
+        options?: never;
+        head?: never;
+        patch?: never;
+        trace?: never;
+    };
+    "/auth/sms/request": {
+        parameters: {
+            query?: never;
+            header?: never;
+            path?: never;
+            cookie?: never;
+        };
+        get?: never;
+        put?: never;
+        /**
+         * Text a sign-in code
+         * @description The response is the same whether or not the number belongs to an account.
+         */
+        post: {
+            parameters: {
+                query?: never;
+                header?: never;
+                path?: never;
+                cookie?: never;
+            };
+            requestBody: {
+                content: {
+                    "application/json": {
+                        phone: string;
+                    };
+                };
+            };
+            responses: {
+                /** @description Request accepted */
+                200: {
+                    headers: {
+                        "X-Request-Id": string;
+                        [name: string]: unknown;
+                    };
+                    content: {
+                        "application/json": {
+                            message: string;
+                            /** @description Seconds before another code is sent */
+                            resendAfter: number;
+                        };
+                    };
+                };
+                /** @description Invalid request; `fieldErrors` names the invalid fields */
+                400: {
+                    headers: {
+                        "X-Request-Id": string;
+                        [name: string]: unknown;
+                    };
+                    content: {
+                        "application/json": components["schemas"]["Error"];
+                    };
+                };
+                /** @description Rate limited by the `sms` policy; retry after `Retry-After` seconds */
+                429: {
+                    headers: {
+                        "X-Request-Id": string;
+                        [name: string]: unknown;
+                    };
+                    content: {
+                        "application/json": components["schemas"]["Error"];
+                    };
+                };
+            };
+        };
+        delete?: never;
+        options?: never;
+        head?: never;
+        patch?: never;
+        trace?: never;
+    };
+    "/auth/sms/verify": {
+        parameters: {
+            query?: never;
+            header?: never;
+            path?: never;
+            cookie?: never;
+        };
+        get?: never;
+        put?: never;
+        /** Sign in with a texted code */
+        post: {
+            parameters: {
+                query?: never;
+                header?: never;
+                path?: never;
+                cookie?: never;
+            };
+            requestBody: {
+                content: {
+                    "application/json": {
+                        phone: string;
+                        code: string;
+                    };
+                };
+            };
+            responses: {
+                /** @description Session or next step */
+                200: {
+                    headers: {
+                        "X-Request-Id": string;
+                        [name: string]: unknown;
+                    };
+                    content: {
+                        "application/json": components["schemas"]["SignInResult"];
+                    };
+                };
+                /** @description Invalid request; `fieldErrors` names the invalid fields */
+                400: {
+                    headers: {
+                        "X-Request-Id": string;
+                        [name: string]: unknown;
+                    };
+                    content: {
+                        "application/json": components["schemas"]["Error"];
+                    };
+                };
+                /** @description Invalid, expired or missing code */
+                401: {
+                    headers: {
+                        "X-Request-Id": string;
+                        [name: string]: unknown;
+                    };
+                    content: {
+                        "application/json": components["schemas"]["Error"];
+                    };
+                };
+                /** @description Rate limited by the `sms` policy; retry after `Retry-After` seconds; Sign-in delayed or locked after failed attempts */
+                429: {
+                    headers: {
+                        "X-Request-Id": string;
+                        [name: string]: unknown;
+                    };
+                    content: {
+                        "application/json": components["schemas"]["Error"];
+                    };
+                };
+            };
+        };
+        delete?: never;
+        options?: never;
+        head?: never;
+        patch?: never;
+        trace?: never;
+    };
+    "/auth/forgot-password": {
+        parameters: {
+            query?: never;
+            header?: never;
+            path?: never;
+            cookie?: never;
+        };
+        get?: never;
+        put?: never;
+        /**
+         * Email a password reset link
+         * @description The response is the same whether or not the account exists.
+         */
+        post: {
+            parameters: {
+                query?: never;
+                header?: never;
+                path?: never;
+                cookie?: never;
+            };
+            requestBody: {
+                content: {
+                    "application/json": {
+                        /** Format: email */
+                        email: string;
+                    };
+                };
+            };
+            responses: {
+                /** @description Request accepted */
+                200: {
+                    headers: {
+                        "X-Request-Id": string;
+                        [name: string]: unknown;
+                    };
+                    content: {
+                        "application/json": components["schemas"]["Message"];
+                    };
+                };
+                /** @description Invalid request; `fieldErrors` names the invalid fields */
+                400: {
+                    headers: {
+                        "X-Request-Id": string;
+                        [name: string]: unknown;
+                    };
+                    content: {
+                        "application/json": components["schemas"]["Error"];
+                    };
+                };
+                /** @description Rate limited by the `email` policy; retry after `Retry-After` seconds */
+                429: {
+                    headers: {
+                        "X-Request-Id": string;
+                        [name: string]: unknown;
+                    };
+                    content: {
+                        "application/json": components["schemas"]["Error"];
+                    };
+                };
+            };
+        };
+        delete?: never;
+        options?: never;
+        head?: never;
+        patch?: never;
+        trace?: never;
+    };
+    "/auth/reset-password": {
+        parameters: {
+            query?: never;
+            header?: never;
+            path?: never;
+            cookie?: never;
+        };
+        get?: never;
+        put?: never;
+        /**
+         * Set a new password with a reset link
+         * @description Ends every session of the user.
+         */
+        post: {
+            parameters: {
+                query?: never;
+                header?: never;
+                path?: never;
+                cookie?: never;
+            };
+            requestBody: {
+                content: {
+                    "application/json": {
+                        token: string;
+                        password: string;
+                    };
+                };
+            };
+            responses: {
+                /** @description Password reset */
+                200: {
+                    headers: {
+                        "X-Request-Id": string;
+                        [name: string]: unknown;
+                    };
+                    content: {
+                        "application/json": components["schemas"]["Message"];
+                    };
+                };
+                /** @description Invalid request; `fieldErrors` names the invalid fields; The reset link is invalid or expired */
+                400: {
+                    headers: {
+                        "X-Request-Id": string;
+                        [name: string]: unknown;
+                    };
+                    content: {
+                        "application/json": components["schemas"]["Error"];
+                    };
+                };
+                /** @description Rate limited by the `email` policy; retry after `Retry-After` seconds */
+                429: {
+                    headers: {
+                        "X-Request-Id": string;
+                        [name: string]: unknown;
+                    };
+                    content: {
+                        "application/json": components["schemas"]["Error"];
+                    };
+                };
+            };
+        };
+        delete?: never;
+        options?: never;
+        head?: never;
+        patch?: never;
+        trace?: never;
+    };
+    "/auth/magic-link/request": {
+        parameters: {
+            query?: never;
+            header?: never;
+            path?: never;
+            cookie?: never;
+        };
+        get?: never;
+        put?: never;
+        /**
+         * Email a sign-in link
+         * @description The response is the same whether or not the account exists.
+         */
+        post: {
+            parameters: {
+                query?: never;
+                header?: never;
+                path?: never;
+                cookie?: never;
+            };
+            requestBody: {
+                content: {
+                    "application/json": {
+                        /** Format: email */
+                        email: string;
+                    };
+                };
+            };
+            responses: {
+                /** @description Request accepted */
+                200: {
+                    headers: {
+                        "X-Request-Id": string;
+                        [name: string]: unknown;
+                    };
+                    content: {
+                        "application/json": components["schemas"]["Message"];
+                    };
+                };
+                /** @description Invalid request; `fieldErrors` names the invalid fields */
+                400: {
+                    headers: {
+                        "X-Request-Id": string;
+                        [name: string]: unknown;
+                    };
+                    content: {
+                        "application/json": components["schemas"]["Error"];
+                    };
+                };
+                /** @description Rate limited by the `email` policy; retry after `Retry-After` seconds */
+                429: {
+                    headers: {
+                        "X-Request-Id": string;
+                        [name: string]: unknown;
+                    };
+                    content: {
+                        "application/json": components["schemas"]["Error"];
+                    };
+                };
+            };
+        };
+        delete?: never;
+        options?: never;
+        head?: never;
+        patch?: never;
+        trace?: never;
+    };
+    "/auth/magic-link/verify": {
+        parameters: {
+            query?: never;
+            header?: never;
+            path?: never;
+            cookie?: never;
+        };
+        get?: never;
+        put?: never;
+        /** Sign in with an emailed link */
+        post: {
+            parameters: {
+                query?: never;
+                header?: never;
+                path?: never;
+                cookie?: never;
+            };
+            requestBody: {
+                content: {
+                    "application/json": {
+                        token: string;
+                    };
+                };
+            };
+            responses: {
+                /** @description Session or next step */
+                200: {
+                    headers: {
+                        "X-Request-Id": string;
+                        [name: string]: unknown;
+                    };
+                    content: {
+                        "application/json": components["schemas"]["SignInResult"];
+                    };
+                };
+                /** @description Invalid request; `fieldErrors` names the invalid fields; The link is invalid, expired or already used */
+                400: {
+                    headers: {
+                        "X-Request-Id": string;
+                        [name: string]: unknown;
+                    };
+                    content: {
+                        "application/json": components["schemas"]["Error"];
+                    };
+                };
+                /** @description Rate limited by the `email` policy; retry after `Retry-After` seconds */
+                429: {
+                    headers: {
+                        "X-Request-Id": string;
+                        [name: string]: unknown;
+                    };
+                    content: {
+                        "application/json": components["schemas"]["Error"];
+                    };
+                };
+            };
+        };
+        delete?: never;
+        options?: never;
+        head?: never;
+        patch?: never;
+        trace?: never;
+    };
+    "/auth/refresh": {
+        parameters: {
+            query?: never;
+            header?: never;
+            path?: never;
+            cookie?: never;
+        };
+        get?: never;
+        put?: never;
+        /**
+         * Renew the access token
+         * @description Rotates the refresh token; using a refresh token twice revokes the session.
+         */
+        post: {
+            parameters: {
+                query?: never;
+                header?: never;
+                path?: never;
+                cookie?: never;
+            };
+            requestBody: {
+                content: {
+                    "application/json": {
+                        refreshToken: string;
+                    };
+                };
+            };
+            responses: {
+                /** @description New tokens */
+                200: {
+                    headers: {
+                        "X-Request-Id": string;
+                        [name: string]: unknown;
+                    };
+                    content: {
+                        "application/json": components["schemas"]["SessionTokens"];
+                    };
+                };
+                /** @description Invalid request; `fieldErrors` names the invalid fields */
+                400: {
+                    headers: {
+                        "X-Request-Id": string;
+                        [name: string]: unknown;
+                    };
+                    content: {
+                        "application/json": components["schemas"]["Error"];
+                    };
+                };
+                /** @description Session expired, revoked or disabled */
+                401: {
+                    headers: {
+                        "X-Request-Id": string;
+                        [name: string]: unknown;
+                    };
+                    content: {
+                        "application/json": components["schemas"]["Error"];
+                    };
+                };
+                /** @description Session store is busy */
+                503: {
+                    headers: {
+                        "X-Request-Id": string;
+                        [name: string]: unknown;
+                    };
+                    content: {
+                        "application/json": components["schemas"]["Error"];
+                    };
+                };
+            };
+        };
+        delete?: never;
+        options?: never;
+        head?: never;
+        patch?: never;
+        trace?: never;
+    };
+    "/auth/logout": {
+        parameters: {
+            query?: never;
+            header?: never;
+            path?: never;
+            cookie?: never;
+        };
+        get?: never;
+        put?: never;
+        /**
+         * Sign out
+         * @description Revokes the access token and its session, or with `everywhere` every session of the user.
+         */
+        post: {
+            parameters: {
+                query?: never;
+                header?: never;
+                path?: never;
+                cookie?: never;
+            };
+            requestBody: {
+                content: {
+                    "application/json": {
+                        everywhere?: boolean;
+                    };
+                };
+            };
+            responses: {
+                /** @description Signed out */
+                200: {
+                    headers: {
+                        "X-Request-Id": string;
+                        [name: string]: unknown;
+                    };
+                    content: {
+                        "application/json": {
+                            success: boolean;
+                        };
+                    };
+                };
+                /** @description Invalid request; `fieldErrors` names the invalid fields */
+                400: {
+                    headers: {
+                        "X-Request-Id": string;
+                        [name: string]: unknown;
+                    };
+                    content: {
+                        "application/json": components["schemas"]["Error"];
+                    };
+                };
+                /** @description Missing, expired or revoked access token */
+                401: {
+                    headers: {
+                        "X-Request-Id": string;
+                        [name: string]: unknown;
+                    };
+                    content: {
+                        "application/json": components["schemas"]["Error"];
+                    };
+                };
+                /** @description Invalid access token */
+                403: {
+                    headers: {
+                        "X-Request-Id": string;
+                        [name: string]: unknown;
+                    };
+                    content: {
+                        "application/json": components["schemas"]["Error"];
+                    };
+                };
+                /** @description Session store is busy */
+                503: {
+                    headers: {
+                        "X-Request-Id": string;
+                        [name: string]: unknown;
+                    };
+                    content: {
+                        "application/json": components["schemas"]["Error"];
+                    };
+                };
+            };
+        };
+        delete?: never;
+        options?: never;
+        head?: never;
+        patch?: never;
+        trace?: never;
+    };
+    "/api/openapi.json": {
+        parameters: {
+            query?: never;
+            header?: never;
+            path?: never;
+            cookie?: never;
+        };
+        /** This OpenAPI document */
+        get: {
+            parameters: {
+                query?: never;
+                header?: never;
+                path?: never;
+                cookie?: never;
+            };
+            requestBody?: never;
+            responses: {
+                /** @description OpenAPI 3 document */
+                200: {
+                    headers: {
+                        "X-Request-Id": string;
+                        [name: string]: unknown;
+                    };
+                    content: {
+                        "application/json": {
+                            [key: string]: unknown;
+                        };
+                    };
+                };
+            };
+        };
+        put?: never;
+        post?: never;
+        delete?: never;
+        options?: never;
+        head?: never;
+        patch?: never;
+        trace?: never;
+    };
+}
+export type webhooks = Record<string, never>;
+export interface components {
+    schemas: {
+        EmbedDetails: {
+            embedToken: string;
+            embedUrl: string;
+            /**
+             * Format: date-time
+             * @description When Power BI stops accepting the embed token
+             */
+            expiration: string;
+        };
+        Error: {
+            /** @description Message to show the user */
+            error: string;
+            /** @description Invalid request fields by dotted path (`400` only) */
+            fieldErrors?: {
+                [key: string]: string[];
+            };
+            /**
+             * @description Why a sign-in was refused (`429` from sign-in routes only)
+             * @enum {string}
+             */
+            reason?: "delay" | "account-locked" | "ip-locked";
+            /** @description Seconds until the request may be retried (`429` only) */
+            retryAfter?: number;
+        };
+        DepartmentReport: {
+            id: string;
+            title: string;
+            description?: string;
+            icon?: string;
+            powerBIReportId?: string;
+            /** @default true */
+            isActive: boolean;
+            embedUrl?: string;
+            embedToken?: string;
+            reportId?: string;
+            clientId?: string;
+            tenantId?: string;
+            datasetId?: string;
+            sharedDatasetId?: string;
+        };
+        Message: {
+            message: string;
+        };
+        Report: {
+            id: string;
+            title: string;
+            name?: string;
+            description?: string;
+            icon?: string;
+            powerBIReportId?: string;
+            reportId?: string;
+            datasetId?: string;
+            sharedDatasetId?: string;
+            coreDatasetId?: string;
+            clientId?: string;
+            tenantId?: string;
+            embedUrl?: string;
+            embedToken?: string;
+            /** @default true */
+            isActive: boolean;
+            rls?: {
+                enabled: boolean;
+                defaultRoles?: string[];
+                departmentRoles: {
+                    [key: string]: string[];
+                };
+            };
+            acl?: {
+                allow: {
+                    users: string[];
+                    groups: string[];
+                    roles: ("viewer" | "department-owner" | "catalog-admin" | "super-admin")[];
+                };
+                deny: {
+                    users: string[];
+                    groups: string[];
+                    roles: ("viewer" | "department-owner" | "catalog-admin" | "super-admin")[];
+                };
+            };
+        };
+        /** @description Reports per department */
+        ReportsData: {
+            [key: string]: components["schemas"]["Report"][];
+        };
+        CatalogReport: components["schemas"]["Report"] & {
+            department: string;
+        };
+        CatalogConflict: {
+            error: string;
+            currentRevision: number;
+            reportsData: components["schemas"]["ReportsData"];
+        };
+        RevisionInfo: {
+            revision: number;
+            /** Format: date-time */
+            createdAt: string;
+            actor?: string;
+            summary?: string;
+        };
+        /** @description A before/after difference; `before` is absent for additions, `after` for removals */
+        Change: {
+            path: string;
+            before?: unknown;
+            after?: unknown;
+        };
+        Revision: components["schemas"]["RevisionInfo"] & {
+            data: components["schemas"]["ReportsData"];
+        };
+        PowerBICacheStats: {
+            accessToken: {
+                hits: number;
+                misses: number;
+                /** Format: date-time */
+                expiresAt: string | null;
+            };
+            embedTokens: {
+                hits: number;
+                misses: number;
+                size: number;
+            };
+            embedUrls: {
+                hits: number;
+                misses: number;
+                size: number;
+            };
+        };
+        AdminStats: {
+            totalUsers: number;
+            totalReports: number;
+            activeReports: number;
+            powerBICache?: components["schemas"]["PowerBICacheStats"];
+        };
+        RateLimitPolicy: {
+            limit: number;
+            windowSeconds: number;
+            /**
+             * @description `account` counts both the client IP and the account the request is for
+             * @enum {string}
+             */
+            key: "user" | "ip" | "account";
+            /** @description Requests per client IP of `account` policies */
+            ipLimit?: number;
+        };
+        ThrottledPrincipal: {
+            /** @enum {string} */
+            policy: "login" | "mfa" | "sms" | "email" | "sso" | "embed" | "admin";
+            /** @description `user:<email>`, `ip:<address>` or `account:<identifier>` */
+            principal: string;
+            requests: number;
+            limit: number;
+            /** Format: date-time */
+            resetAt: string;
+        };
+        User: {
+            id: string;
+            email: string;
+            phone: string;
+            name?: string;
+            departments: string[];
+            /** @enum {string} */
+            role: "viewer" | "department-owner" | "catalog-admin" | "super-admin";
+            disabled: boolean;
+            mfaEnabled: boolean;
+            /** Format: date-time */
+            createdAt: string;
+            /** Format: date-time */
+            updatedAt: string;
+        };
+        AdminUser: components["schemas"]["User"] & {
+            mfaRequired: boolean;
+            /**
+             * Format: date-time
+             * @description Set while failed sign-ins keep the account locked
+             */
+            lockedUntil?: string;
+        };
+        AuditEntry: {
+            id: string;
+            /** Format: date-time */
+            timestamp: string;
+            actor: string;
+            action: string;
+            target: string;
+            changes: components["schemas"]["Change"][];
+        };
+        AuditPage: {
+            entries: components["schemas"]["AuditEntry"][];
+            total: number;
+            page: number;
+            pageSize: number;
+        };
+        SsoMappingRule: {
+            id: string;
+            /** @description Identity provider ID the rule applies to */
+            provider: string;
+            /** @enum {string} */
+            source: "group" | "app-role" | "attribute";
+            /** @enum {string} */
+            attribute?: "department" | "jobTitle" | "officeLocation" | "companyName" | "employeeType";
+            value: string;
+            departments: string[];
+            /** @enum {string} */
+            role?: "viewer" | "department-owner" | "catalog-admin" | "super-admin";
+        };
+        SsoMapping: {
+            rules: components["schemas"]["SsoMappingRule"][];
+            useGraphDepartment: boolean;
+            fallbackDepartment: string;
+            /** @enum {string} */
+            defaultRole: "viewer" | "department-owner" | "catalog-admin" | "super-admin";
+        };
+        SsoIdentity: {
+            provider: string;
+            groups: string[];
+            appRoles: string[];
+            attributes: {
+                department?: string;
+                jobTitle?: string;
+                officeLocation?: string;
+                companyName?: string;
+                employeeType?: string;
+            };
+        };
+        SsoMappingResult: {
+            departments: string[];
+            /** @enum {string} */
+            role: "viewer" | "department-owner" | "catalog-admin" | "super-admin";
+            matchedRuleIds: string[];
+        };
+        SsoProvider: {
+            id: string;
+            name: string;
+        };
+        SessionTokens: {
+            token: string;
+            refreshToken: string;
+        };
+        /** @description Either a session (`token` and `refreshToken`) or the next sign-in step */
+        SignInResult: {
+            /** @description Access token, when sign-in is complete */
+            token?: string;
+            refreshToken?: string;
+            /** @description Continue at `/auth/mfa/verify` with `mfaToken` */
+            mfaRequired?: boolean;
+            /** @description Set up MFA at `/auth/mfa/enroll` with `mfaToken` first */
+            mfaEnrollmentRequired?: boolean;
+            mfaToken?: string;
+        };
+        MfaStatus: {
+            enabled: boolean;
+            required: boolean;
+            /** Format: date-time */
+            enabledAt?: string;
+            recoveryCodesRemaining?: number;
+        };
+        MfaEnrollment: {
+            secret: string;
+            otpauthUri: string;
+            /** @description PNG data URL of `otpauthUri` */
+            qrCode: string;
+            enrollmentToken: string;
+        };
+        MfaEnrollmentResult: {
+            recoveryCodes: string[];
+            token?: string;
+            refreshToken?: string;
+        };
+    };
+    responses: never;
+    parameters: never;
+    requestBodies: never;
+    headers: never;
+    pathItems: never;
+}
+export type $defs = Record<string, never>;
+export type operations = Record<string, never>;
@@ -0,0 +1,292 @@
+import React, { useState, useEffect, useCallback } from 'react';
+import { Row, Col, Card, Button, Form, Alert, Spinner, Table, Badge } from 'react-bootstrap';
+import { History, RefreshCw, ChevronLeft, ChevronRight } from 'lucide-react';
+import { api, ApiSchemas } from '../api/client';
+import ChangesTable from './ChangesTable';
+
+type AuditEntry = ApiSchemas['AuditEntry'];
+
+interface AuditFilters {
+  actor: string;
+  action: string;
+  target: string;
+  from: string;
+  to: string;
+}
+
+const PAGE_SIZE = 25;
+
+const ACTIONS = [
+  'reports.replace',
+  'reports.restore',
+  'report.update',
+  'department.create',
+  'department.delete',
+  'user.create',
+  'user.update',
+  'user.reset-password',
+  'user.locked',
+  'user.unlock',
+  'user.reset-mfa',
+  'password-reset.request',
+  'password-reset.complete',
+  'mfa.enroll',
+  'mfa.disable',
+  'mfa.recovery-codes',
+  'mfa.recovery-code-used',
+  'login.ip-locked',
+  'sso-mapping.update',
+  'session.refresh-reuse',
+  'session.logout-all'
+];
+
+const emptyFilters: AuditFilters = { actor: '', action: '', target: '', from: '', to: '' };
+
+/**
+ * AdminAuditLog Component - Read-only browser for the admin audit trail
+ *
+ * This component provides administrators with the ability to:
+ * - See who changed reports, departments and users, and when
+ * - Filter entries by actor, action, target and date range
+ * - Inspect the before/after values of every change
+ *
+ * Features:
+ * - Server-side filtering and paging (newest entries first)
+ * - Expandable per-entry change details
+ */
+const AdminAuditLog: React.FC = () => {
+  // State management for audit entries, filters and paging
+  const [entries, setEntries] = useState<AuditEntry[]>([]);
+  const [total, setTotal] = useState(0);
+  const [page, setPage] = useState(1);
+  const [filters, setFilters] = useState<AuditFilters>(emptyFilters);
+  const [appliedFilters, setAppliedFilters] = useState<AuditFilters>(emptyFilters);
+  const [expandedId, setExpandedId] = useState<string | null>(null);
+  const [loading, setLoading] = useState(true);
+  const [error, setError] = useState('');
+
+  /**
+   * Fetches one page of audit entries matching the applied filters
+   */
+  const fetchEntries = useCallback(async () => {
+    setLoading(true);
+    setError('');
+    try {
+      const { data, error } = await api.GET('/api/admin/audit', {
+        params: {
+          query: {
+            page,
+            pageSize: PAGE_SIZE,
+            actor: appliedFilters.actor || undefined,
+            action: appliedFilters.action || undefined,
+            target: appliedFilters.target || undefined,
+            // Date inputs are local calendar days; make the range cover the whole "to" day
+            from: appliedFilters.from ? new Date(`${appliedFilters.from}T00:00:00`).toISOString() : undefined,
+            to: appliedFilters.to ? new Date(`${appliedFilters.to}T23:59:59.999`).toISOString() : undefined,
+          },
+        },
+      });
+
+      if (!data) {
+        throw new Error(error?.error || 'Failed to fetch audit log');
+      }
+
+      setEntries(data.entries || []);
+      setTotal(data.total || 0);
+    } catch (err) {
+      console.error('Error fetching audit log:', err);
+      setError((err as Error).message);
+    } finally {
+      setLoading(false);
+    }
+  }, [page, appliedFilters]);
+
+  /**
+   * Effect hook to reload entries whenever the page or applied filters change
+   */
+  useEffect(() => {
+    fetchEntries();
+  }, [fetchEntries]);
+
+  /**
+   * Applies the filter form and returns to the first page
+   */
+  const handleApplyFilters = (e: React.FormEvent) => {
+    e.preventDefault();
+    setPage(1);
+    setAppliedFilters(filters);
+  };
+
+  /**
+   * Clears all filters and returns to the first page
+   */
+  const handleClearFilters = () => {
+    setFilters(emptyFilters);
+    setPage(1);
+    setAppliedFilters(emptyFilters);
+  };
+
+  const totalPages = Math.max(Math.ceil(total / PAGE_SIZE), 1);
+
+  return (
+    <>
+      {/* Header section with title and refresh button */}
+      <Row className="mb-4">
+        <Col>
+          <div className="d-flex justify-content-between align-items-center">
+            <h5 className="d-flex align-items-center">
+              <History size={20} className="me-2" />
+              Audit Log
+            </h5>
+            <Button variant="outline-secondary" size="sm" onClick={fetchEntries} disabled={loading}>
+              <RefreshCw size={16} className="me-1" />
+              Refresh
+            </Button>
+          </div>
+        </Col>
+      </Row>
+
+      {/* Filter form */}
+      <Form onSubmit={handleApplyFilters} className="mb-3">
+        <Row className="g-2 align-items-end">
+          <Col md={3}>
+            <Form.Label className="small">Actor</Form.Label>
+            <Form.Control
+              size="sm"
+              value={filters.actor}
+              onChange={(e) => setFilters({ ...filters, actor: e.target.value })}
+              placeholder="admin@company.com"
+            />
+          </Col>
+          <Col md={2}>
+            <Form.Label className="small">Action</Form.Label>
+            <Form.Select
+              size="sm"
+              value={filters.action}
+              onChange={(e) => setFilters({ ...filters, action: e.target.value })}
+            >
+              <option value="">All actions</option>
+              {ACTIONS.map((action) => (
+                <option key={action} value={action}>{action}</option>
+              ))}
+            </Form.Select>
+          </Col>
+          <Col md={2}>
+            <Form.Label className="small">Target</Form.Label>
+            <Form.Control
+              size="sm"
+              value={filters.target}
+              onChange={(e) => setFilters({ ...filters, target: e.target.value })}
+              placeholder="Finance"
+            />
+          </Col>
+          <Col md={2}>
+            <Form.Label className="small">From</Form.Label>
+            <Form.Control
+              size="sm"
+              type="date"
+              value={filters.from}
+              onChange={(e) => setFilters({ ...filters, from: e.target.value })}
+            />
+          </Col>
+          <Col md={2}>
+            <Form.Label className="small">To</Form.Label>
+            <Form.Control
+              size="sm"
+              type="date"
+              value={filters.to}
+              onChange={(e) => setFilters({ ...filters, to: e.target.value })}
+            />
+          </Col>
+          <Col md={1} className="d-flex gap-1">
+            <Button type="submit" size="sm" variant="primary">Filter</Button>
+            <Button size="sm" variant="outline-secondary" onClick={handleClearFilters}>Clear</Button>
+          </Col>
+        </Row>
+      </Form>
+
+      {/* Error message display */}
+      {error && (
+        <Alert variant="danger" className="mb-3">
+          {error}
+        </Alert>
+      )}
+
+      {/* Audit entries table */}
+      <Card>
+        <Card.Body>
+          {loading ? (
+            <div className="text-center">
+              <Spinner animation="border" variant="primary" />
+              <p className="mt-2">Loading audit log...</p>
+            </div>
+          ) : entries.length > 0 ? (
+            <Table responsive hover className="mb-0 align-middle">
+              <thead>
+                <tr>
+                  <th>When</th>
+                  <th>Actor</th>
+                  <th>Action</th>
+                  <th>Target</th>
+                  <th>Changes</th>
+                </tr>
+              </thead>
+              <tbody>
+                {entries.map((entry) => (
+                  <React.Fragment key={entry.id}>
+                    <tr>
+                      <td className="text-nowrap">{new Date(entry.timestamp).toLocaleString()}</td>
+                      <td>{entry.actor}</td>
+                      <td><Badge bg="secondary">{entry.action}</Badge></td>
+                      <td>{entry.target}</td>
+                      <td>
+                        <Button
+                          variant="link"
+                          size="sm"
+                          className="p-0"
+                          onClick={() => setExpandedId(expandedId === entry.id ? null : entry.id)}
+                          disabled={entry.changes.length === 0}
+                        >
+                          {entry.changes.length} change{entry.changes.length === 1 ? '' : 's'}
+                        </Button>
+                      </td>
+                    </tr>
+                    {/* Expanded before/after details */}
+                    {expandedId === entry.id && (
+                      <tr>
+                        <td colSpan={5} className="bg-light">
+                          <ChangesTable changes={entry.changes} />
+                        </td>
+                      </tr>
+                    )}
+                  </React.Fragment>
+                ))}
+              </tbody>
+            </Table>
+          ) : (
+            // Empty state display
+            <div className="text-center py-4">
+              <p className="text-muted mb-0">No audit entries found</p>
+            </div>
+          )}
+        </Card.Body>
+      </Card>
+
+      {/* Paging controls */}
+      <div className="d-flex justify-content-between align-items-center mt-3">
+        <small className="text-muted">{total} entries</small>
+        <div className="d-flex align-items-center gap-2">
+          <Button size="sm" variant="outline-secondary" onClick={() => setPage(page - 1)} disabled={loading || page <= 1}>
+            <ChevronLeft size={14} />
+          </Button>
+          <small>Page {page} of {totalPages}</small>
+          <Button size="sm" variant="outline-secondary" onClick={() => setPage(page + 1)} disabled={loading || page >= totalPages}>
+            <ChevronRight size={14} />
+          </Button>
+        </div>
+      </div>
+    </>
+  );
+};
+
+export default AdminAuditLog;
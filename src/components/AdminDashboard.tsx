@@ -1,76 +1,96 @@
 
 import React, { useState, useEffect } from 'react';
-import { Container, Row, Col, Card, Navbar, Nav, Button, Spinner, Alert, Tabs, Tab } from 'react-bootstrap';
-import { LogOut, Shield, FileText, Users, Activity, Building, Eye } from 'lucide-react';
+import { Container, Row, Col, Card, Navbar, Nav, Button, ButtonGroup, Dropdown, Spinner, Alert, Tabs, Tab } from 'react-bootstrap';
+import { LogOut, Shield, FileText, Users, Activity, Building, Eye, History, Database, Network, Gauge } from 'lucide-react';
 import AdminReportsEditor from './AdminReportsEditor';
 import AdminDepartmentManager from './AdminDepartmentManager';
 import AdminReportsViewer from './AdminReportsViewer';
-import { API_ENDPOINTS } from '../config/api';
+import AdminUserManager from './AdminUserManager';
+import AdminAuditLog from './AdminAuditLog';
+import AdminSsoMapping from './AdminSsoMapping';
+import AdminRateLimits from './AdminRateLimits';
+import MfaSettingsModal from './MfaSettingsModal';
+import { api, ApiSchemas } from '../api/client';
+import { ROLE_LABELS, Role, hasPermission } from '@shared/permissions';
 
 // Type definitions for component props and data structures
 interface User {
   email: string;
-  department: string;
-  isAdmin?: boolean;
+  departments: string[];
+  role: Role;
 }
 
 interface AdminDashboardProps {
   user: User;
-  onLogout: () => void;
+  onLogout: (everywhere?: boolean) => void;
 }
 
-// Interface for admin statistics displayed on dashboard
-interface AdminStats {
-  totalUsers: number;
-  totalReports: number;
-  activeReports: number;
+// Hit/miss counters of one server-side Power BI cache
+interface CacheCounters {
+  hits: number;
+  misses: number;
+  size?: number;
 }
 
+// Admin statistics displayed on dashboard
+type AdminStats = ApiSchemas['AdminStats'];
+
+/**
+ * Formats cache counters as "hits / misses (rate% hit)"
+ */
+const formatCacheCounters = ({ hits, misses }: CacheCounters) => {
+  const total = hits + misses;
+  return `${hits} hits / ${misses} misses${total > 0 ? ` (${Math.round((hits / total) * 100)}% hit)` : ''}`;
+};
+
 /**
  * AdminDashboard Component - Main administrative interface for managing the application
  * 
  * This component serves as the central hub for administrators to:
- * - View system statistics (users, reports, etc.)
+ * - View system statistics (users, reports, Power BI token cache, etc.)
  * - Manage reports and their PowerBI configurations
  * - Manage departments and their associated reports
+ * - Manage portal users, their departments and admin rights
+ * - Map Azure AD groups, app roles and profile attributes to departments and roles for SSO users
+ * - Browse the audit trail of admin changes
+ * - See API rate limits and who is currently throttled
  * - View and test all reports across departments
  * 
  * Features:
  * - Tabbed interface for different admin functions
  * - Real-time statistics display
- * - Secure admin-only access controls
+ * - Tabs and statistics limited to what the user's role permits (department owners only
+ *   see their own departments' reports)
  * - Responsive design for various screen sizes
  */
 const AdminDashboard: React.FC<AdminDashboardProps> = ({ user, onLogout }) => {
   // State management for dashboard data and UI
   const [stats, setStats] = useState<AdminStats | null>(null);
   const [loading, setLoading] = useState(true);
+  const [showMfaSettings, setShowMfaSettings] = useState(false);
   const [activeTab, setActiveTab] = useState('overview');
+  const [clearingCache, setClearingCache] = useState(false);
+
+  const canViewStats = hasPermission(user, 'stats:view');
 
   /**
    * Effect hook to fetch initial admin statistics when component mounts
    */
   useEffect(() => {
-    fetchAdminStats();
-  }, []);
+    if (canViewStats) {
+      fetchAdminStats();
+    }
+  }, [canViewStats]);
 
   /**
    * Fetches administrative statistics from the backend
    * Includes total users, reports, and active reports count
-   * Uses JWT authentication to ensure admin-only access
+   * Only called for roles with the stats:view permission
    */
   const fetchAdminStats = async () => {
     try {
-      const token = localStorage.getItem('jwt_token');
-      const response = await fetch(API_ENDPOINTS.adminStats, {
-        headers: {
-          'Authorization': `Bearer ${token}`,
-          'Content-Type': 'application/json',
-        },
-      });
-
-      if (response.ok) {
-        const data = await response.json();
+      const { data } = await api.GET('/api/admin/stats');
+      if (data) {
         setStats(data);
       }
     } catch (error) {
@@ -80,6 +100,24 @@ const AdminDashboard: React.FC<AdminDashboardProps> = ({ user, onLogout }) => {
     }
   };
 
+  /**
+   * Drops the server's cached Power BI access and embed tokens
+   * The next embed request for every report fetches fresh tokens
+   */
+  const handleClearCache = async () => {
+    setClearingCache(true);
+    try {
+      const { response } = await api.DELETE('/api/admin/powerbi-cache');
+      if (response.ok) {
+        await fetchAdminStats();
+      }
+    } catch (error) {
+      console.error('Error clearing Power BI cache:', error);
+    } finally {
+      setClearingCache(false);
+    }
+  };
+
   return (
     <div className="app-container">
       {/* Admin navigation bar with branding and user controls */}
@@ -94,17 +132,29 @@ const AdminDashboard: React.FC<AdminDashboardProps> = ({ user, onLogout }) => {
           {/* User information and logout controls */}
           <div className="d-flex align-items-center">
             <span className="text-white me-3 d-none d-md-inline">
-              {user.email}
+              {user.email} · {ROLE_LABELS[user.role]}
             </span>
-            <Button
-              variant="outline-light"
-              size="sm"
-              onClick={onLogout}
-              className="d-flex align-items-center"
-            >
-              <LogOut size={16} className="me-1" />
-              <span className="d-none d-md-inline">Logout</span>
-            </Button>
+            <Dropdown as={ButtonGroup} align="end">
+              <Button
+                variant="outline-light"
+                size="sm"
+                onClick={() => onLogout()}
+                className="d-flex align-items-center"
+              >
+                <LogOut size={16} className="me-1" />
+                <span className="d-none d-md-inline">Logout</span>
+              </Button>
+              <Dropdown.Toggle split variant="outline-light" size="sm" aria-label="More logout options" />
+              <Dropdown.Menu>
+                <Dropdown.Item onClick={() => setShowMfaSettings(true)}>
+                  Two-factor authentication
+                </Dropdown.Item>
+                <Dropdown.Divider />
+                <Dropdown.Item onClick={() => onLogout(true)}>
+                  Log out everywhere
+                </Dropdown.Item>
+              </Dropdown.Menu>
+            </Dropdown>
           </div>
         </Container>
       </Navbar>
@@ -117,44 +167,85 @@ const AdminDashboard: React.FC<AdminDashboardProps> = ({ user, onLogout }) => {
               Admin Dashboard
             </h2>
             <p className="text-muted">
-              Manage reports, departments, and PowerBI configurations
+              {hasPermission(user, 'catalog:edit-any')
+                ? 'Manage reports, departments, and PowerBI configurations'
+                : `Manage the reports and PowerBI configurations of ${user.departments.join(', ')}`}
             </p>
           </Col>
         </Row>
 
         {/* Administrative statistics summary cards */}
-        <Row className="mb-4">
-          {/* Total Reports Card */}
-          <Col md={4}>
-            <Card className="text-center p-3 bg-primary text-white">
-              <Card.Body>
-                <FileText size={32} className="mb-2" />
-                <h4 className="fw-bold">{loading ? '...' : stats?.totalReports || 0}</h4>
-                <p className="mb-0">Total Reports</p>
-              </Card.Body>
-            </Card>
-          </Col>
-          {/* Active Reports Card */}
-          <Col md={4}>
-            <Card className="text-center p-3 bg-success text-white">
-              <Card.Body>
-                <Activity size={32} className="mb-2" />
-                <h4 className="fw-bold">{loading ? '...' : stats?.activeReports || 0}</h4>
-                <p className="mb-0">Active Reports</p>
-              </Card.Body>
-            </Card>
-          </Col>
-          {/* Total Users Card */}
-          <Col md={4}>
-            <Card className="text-center p-3 bg-info text-white">
-              <Card.Body>
-                <Users size={32} className="mb-2" />
-                <h4 className="fw-bold">{loading ? '...' : stats?.totalUsers || 0}</h4>
-                <p className="mb-0">Total Users</p>
-              </Card.Body>
-            </Card>
-          </Col>
-        </Row>
+        {canViewStats && (
+          <Row className="mb-4">
+            {/* Total Reports Card */}
+            <Col md={4}>
+              <Card className="text-center p-3 bg-primary text-white">
+                <Card.Body>
+                  <FileText size={32} className="mb-2" />
+                  <h4 className="fw-bold">{loading ? '...' : stats?.totalReports || 0}</h4>
+                  <p className="mb-0">Total Reports</p>
+                </Card.Body>
+              </Card>
+            </Col>
+            {/* Active Reports Card */}
+            <Col md={4}>
+              <Card className="text-center p-3 bg-success text-white">
+                <Card.Body>
+                  <Activity size={32} className="mb-2" />
+                  <h4 className="fw-bold">{loading ? '...' : stats?.activeReports || 0}</h4>
+                  <p className="mb-0">Active Reports</p>
+                </Card.Body>
+              </Card>
+            </Col>
+            {/* Total Users Card */}
+            <Col md={4}>
+              <Card className="text-center p-3 bg-info text-white">
+                <Card.Body>
+                  <Users size={32} className="mb-2" />
+                  <h4 className="fw-bold">{loading ? '...' : stats?.totalUsers || 0}</h4>
+                  <p className="mb-0">Total Users</p>
+                </Card.Body>
+              </Card>
+            </Col>
+          </Row>
+        )}
+
+        {/* Power BI token cache effectiveness */}
+        {stats?.powerBICache && (
+          <Row className="mb-4">
+            <Col>
+              <Card>
+                <Card.Body className="d-flex flex-wrap justify-content-between align-items-center gap-3 small">
+                  <span className="d-flex align-items-center fw-bold">
+                    <Database size={16} className="me-2" />
+                    Power BI Cache
+                  </span>
+                  <span>
+                    <strong>AAD token:</strong> {formatCacheCounters(stats.powerBICache.accessToken)}
+                    {stats.powerBICache.accessToken.expiresAt && (
+                      <span className="text-muted"> · expires {new Date(stats.powerBICache.accessToken.expiresAt).toLocaleTimeString()}</span>
+                    )}
+                  </span>
+                  <span>
+                    <strong>Embed tokens:</strong> {formatCacheCounters(stats.powerBICache.embedTokens)}
+                    <span className="text-muted"> · {stats.powerBICache.embedTokens.size} cached</span>
+                  </span>
+                  <span>
+                    <strong>Embed URLs:</strong> {formatCacheCounters(stats.powerBICache.embedUrls)}
+                  </span>
+                  <div className="d-flex gap-2">
+                    <Button variant="outline-secondary" size="sm" onClick={fetchAdminStats}>
+                      Refresh
+                    </Button>
+                    <Button variant="outline-danger" size="sm" onClick={handleClearCache} disabled={clearingCache}>
+                      {clearingCache ? 'Clearing...' : 'Clear'}
+                    </Button>
+                  </div>
+                </Card.Body>
+              </Card>
+            </Col>
+          </Row>
+        )}
 
         {/* Main admin functionality tabs */}
         <Row>
@@ -164,21 +255,50 @@ const AdminDashboard: React.FC<AdminDashboardProps> = ({ user, onLogout }) => {
               <Tabs activeKey={activeTab} onSelect={(k) => setActiveTab(k || 'overview')} className="mb-4">
                 {/* Reports Management Tab - Main report configuration interface */}
                 <Tab eventKey="overview" title={<span><FileText size={16} className="me-1" />Reports Management</span>}>
-                  <AdminReportsEditor onStatsUpdate={fetchAdminStats} />
+                  <AdminReportsEditor onStatsUpdate={canViewStats ? fetchAdminStats : undefined} canViewHistory={hasPermission(user, 'catalog:history')} />
                 </Tab>
                 {/* Department Management Tab - Add/remove departments */}
-                <Tab eventKey="departments" title={<span><Building size={16} className="me-1" />Departments</span>}>
-                  <AdminDepartmentManager onDepartmentChange={fetchAdminStats} />
-                </Tab>
+                {hasPermission(user, 'departments:manage') && (
+                  <Tab eventKey="departments" title={<span><Building size={16} className="me-1" />Departments</span>}>
+                    <AdminDepartmentManager onDepartmentChange={fetchAdminStats} />
+                  </Tab>
+                )}
                 {/* Report Viewer Tab - Preview all reports with embed functionality */}
                 <Tab eventKey="viewer" title={<span><Eye size={16} className="me-1" />View Reports</span>}>
                   <AdminReportsViewer />
                 </Tab>
+                {/* User Management Tab - Create, disable and reset portal users */}
+                {hasPermission(user, 'users:manage') && (
+                  <Tab eventKey="users" title={<span><Users size={16} className="me-1" />Users</span>}>
+                    <AdminUserManager currentUserEmail={user.email} onUsersChange={fetchAdminStats} />
+                  </Tab>
+                )}
+                {/* SSO Mapping Tab - Azure AD groups / app roles to departments and roles */}
+                {hasPermission(user, 'users:manage') && (
+                  <Tab eventKey="sso" title={<span><Network size={16} className="me-1" />SSO Mapping</span>}>
+                    <AdminSsoMapping />
+                  </Tab>
+                )}
+                {/* Rate Limits Tab - Policies and currently throttled users / IPs */}
+                {hasPermission(user, 'users:manage') && (
+                  <Tab eventKey="rate-limits" title={<span><Gauge size={16} className="me-1" />Rate Limits</span>}>
+                    <AdminRateLimits />
+                  </Tab>
+                )}
+                {/* Audit Tab - Who changed what, and when */}
+                {hasPermission(user, 'audit:view') && (
+                  <Tab eventKey="audit" title={<span><History size={16} className="me-1" />Audit</span>}>
+                    <AdminAuditLog />
+                  </Tab>
+                )}
               </Tabs>
             </Card>
           </Col>
         </Row>
       </Container>
+
+      {/* Two-factor authentication settings */}
+      <MfaSettingsModal show={showMfaSettings} onHide={() => setShowMfaSettings(false)} />
     </div>
   );
 };
@@ -2,7 +2,8 @@
 import React, { useState, useEffect } from 'react';
 import { Row, Col, Card, Button, Form, Alert, Spinner, Modal, ListGroup } from 'react-bootstrap';
 import { Plus, Trash2, Building } from 'lucide-react';
-import { API_ENDPOINTS } from '../config/api';
+import { api } from '../api/client';
+import { FieldErrors, createDepartmentSchema, isValidationErrorBody, toFieldErrors } from '@shared/schemas';
 
 // Props interface for component configuration
 interface AdminDepartmentManagerProps {
@@ -34,6 +35,7 @@ const AdminDepartmentManager: React.FC<AdminDepartmentManagerProps> = ({ onDepar
   const [success, setSuccess] = useState('');
   const [showModal, setShowModal] = useState(false);
   const [newDepartmentName, setNewDepartmentName] = useState('');
+  const [fieldErrors, setFieldErrors] = useState<FieldErrors>({});
 
   /**
    * Effect hook to load departments when component mounts
@@ -51,20 +53,10 @@ const AdminDepartmentManager: React.FC<AdminDepartmentManagerProps> = ({ onDepar
     setLoading(true);
     setError('');
     try {
-      const token = localStorage.getItem('jwt_token');
-      if (!token) {
-        throw new Error('Authentication required');
-      }
-
-      const response = await fetch(API_ENDPOINTS.adminDepartments, {
-        headers: {
-          'Authorization': `Bearer ${token}`,
-          'Content-Type': 'application/json',
-        },
-      });
+      const { data, response } = await api.GET('/api/admin/departments');
 
       // Handle different HTTP error status codes
-      if (!response.ok) {
+      if (!data) {
         if (response.status === 401) {
           throw new Error('Authentication failed');
         }
@@ -74,7 +66,6 @@ const AdminDepartmentManager: React.FC<AdminDepartmentManagerProps> = ({ onDepar
         throw new Error('Failed to fetch departments');
       }
 
-      const data = await response.json();
       setDepartments(data.departments || []);
     } catch (err) {
       console.error('Error fetching departments:', err);
@@ -90,47 +81,41 @@ const AdminDepartmentManager: React.FC<AdminDepartmentManagerProps> = ({ onDepar
    * Updates local state and triggers parent component callbacks on success
    */
   const handleAddDepartment = async () => {
-    const trimmedName = newDepartmentName.trim();
-    
-    // Input validation
-    if (!trimmedName) {
-      setError('Department name cannot be empty');
+    // Input validation, with the server's schema
+    const parsed = createDepartmentSchema.safeParse({ departmentName: newDepartmentName });
+    if (!parsed.success) {
+      setFieldErrors(toFieldErrors(parsed.error));
       return;
     }
+    const trimmedName = parsed.data.departmentName;
 
     // Duplicate check
     if (departments.includes(trimmedName)) {
-      setError('Department already exists');
+      setFieldErrors({ departmentName: ['Department already exists'] });
       return;
     }
+    setFieldErrors({});
 
     setSaving(true);
     setError('');
     setSuccess('');
     try {
-      const token = localStorage.getItem('jwt_token');
-      if (!token) {
-        throw new Error('Authentication required');
-      }
-
-      const response = await fetch(API_ENDPOINTS.adminDepartments, {
-        method: 'POST',
-        headers: {
-          'Authorization': `Bearer ${token}`,
-          'Content-Type': 'application/json',
-        },
-        body: JSON.stringify({ departmentName: trimmedName }),
+      const { error: errorData, response } = await api.POST('/api/admin/departments', {
+        body: { departmentName: trimmedName },
       });
 
       // Handle different HTTP error responses
-      if (!response.ok) {
-        const errorData = await response.json().catch(() => ({}));
+      if (errorData) {
         if (response.status === 401) {
           throw new Error('Authentication failed');
         }
         if (response.status === 403) {
           throw new Error('Admin access required');
         }
+        if (isValidationErrorBody(errorData)) {
+          setFieldErrors(errorData.fieldErrors);
+          return;
+        }
         throw new Error(errorData.error || 'Failed to add department');
       }
 
@@ -171,17 +156,8 @@ const AdminDepartmentManager: React.FC<AdminDepartmentManagerProps> = ({ onDepar
     setError('');
     setSuccess('');
     try {
-      const token = localStorage.getItem('jwt_token');
-      if (!token) {
-        throw new Error('Authentication required');
-      }
-
-      const response = await fetch(API_ENDPOINTS.adminDeleteDepartment(departmentName), {
-        method: 'DELETE',
-        headers: {
-          'Authorization': `Bearer ${token}`,
-          'Content-Type': 'application/json',
-        },
+      const { response } = await api.DELETE('/api/admin/departments/{departmentName}', {
+        params: { path: { departmentName } },
       });
 
       // Handle authentication and authorization errors
@@ -219,6 +195,7 @@ const AdminDepartmentManager: React.FC<AdminDepartmentManagerProps> = ({ onDepar
   const handleModalClose = () => {
     setShowModal(false);
     setNewDepartmentName('');
+    setFieldErrors({});
     setError('');
   };
 
@@ -314,8 +291,10 @@ const AdminDepartmentManager: React.FC<AdminDepartmentManagerProps> = ({ onDepar
                 onChange={(e) => setNewDepartmentName(e.target.value)}
                 placeholder="Enter department name"
                 maxLength={50} // Character limit for department names
+                isInvalid={!!fieldErrors.departmentName}
                 required
               />
+              <Form.Control.Feedback type="invalid">{fieldErrors.departmentName?.[0]}</Form.Control.Feedback>
             </Form.Group>
           </Form>
         </Modal.Body>
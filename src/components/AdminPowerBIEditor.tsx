@@ -2,20 +2,11 @@
 import React, { useState, useEffect } from 'react';
 import { Row, Col, Card, Button, Form, Alert, Spinner, Modal } from 'react-bootstrap';
 import { Edit, Save } from 'lucide-react';
-import { API_ENDPOINTS } from '../config/api';
+import { api, ApiSchemas } from '../api/client';
+import { FieldErrors, isValidationErrorBody } from '@shared/schemas';
 
-// Type definitions for report and reports data structures
-interface Report {
-  id: string;
-  title: string;
-  description: string;
-  icon: string;
-  powerBIReportId: string;
-}
-
-interface ReportsData {
-  [department: string]: Report[];
-}
+type Report = ApiSchemas['Report'];
+type ReportsData = ApiSchemas['ReportsData'];
 
 /**
  * AdminPowerBIEditor Component - Interface for editing PowerBI report IDs
@@ -44,6 +35,8 @@ const AdminPowerBIEditor: React.FC = () => {
   const [editingReport, setEditingReport] = useState<Report | null>(null);
   const [editingDepartment, setEditingDepartment] = useState('');
   const [newPowerBIId, setNewPowerBIId] = useState('');
+  const [fieldErrors, setFieldErrors] = useState<FieldErrors>({});
+  const [etag, setEtag] = useState<string | null>(null); // Catalog version the edits are based on
 
   /**
    * Effect hook to fetch reports data when component mounts
@@ -61,20 +54,14 @@ const AdminPowerBIEditor: React.FC = () => {
     setLoading(true);
     setError('');
     try {
-      const token = localStorage.getItem('jwt_token');
-      const response = await fetch(API_ENDPOINTS.adminReports, {
-        headers: {
-          'Authorization': `Bearer ${token}`,
-          'Content-Type': 'application/json',
-        },
-      });
+      const { data, response } = await api.GET('/api/admin/reports');
 
-      if (!response.ok) {
+      if (!data) {
         throw new Error('Failed to fetch reports data');
       }
 
-      const data = await response.json();
       setReportsData(data);
+      setEtag(response.headers.get('ETag'));
     } catch (err) {
       setError((err as Error).message);
     } finally {
@@ -92,7 +79,8 @@ const AdminPowerBIEditor: React.FC = () => {
   const handleEditPowerBI = (department: string, report: Report) => {
     setEditingDepartment(department);
     setEditingReport(report);
-    setNewPowerBIId(report.powerBIReportId);
+    setNewPowerBIId(report.powerBIReportId || '');
+    setFieldErrors({});
     setShowModal(true);
   };
 
@@ -109,23 +97,33 @@ const AdminPowerBIEditor: React.FC = () => {
     setSuccess('');
 
     try {
-      const token = localStorage.getItem('jwt_token');
-      const response = await fetch(
-        API_ENDPOINTS.adminUpdateReport(editingDepartment, editingReport.id),
-        {
-          method: 'PUT',
-          headers: {
-            'Authorization': `Bearer ${token}`,
-            'Content-Type': 'application/json',
-          },
-          body: JSON.stringify({ powerBIReportId: newPowerBIId }),
-        }
-      );
+      const { error: errorData, response } = await api.PUT('/api/admin/reports/{department}/{reportId}', {
+        params: {
+          path: { department: editingDepartment, reportId: editingReport.id },
+          header: { 'If-Match': etag || '' },
+        },
+        body: { powerBIReportId: newPowerBIId },
+      });
 
-      if (!response.ok) {
-        throw new Error('Failed to update PowerBI ID');
+      // Someone else saved the catalog since it was loaded: show their version and let the admin retry
+      if (errorData && 'reportsData' in errorData) {
+        setReportsData(errorData.reportsData);
+        setEtag(response.headers.get('ETag'));
+        setShowModal(false);
+        throw new Error('The catalog was changed by someone else. The latest version has been loaded; please check the report and save again.');
       }
 
+      if (errorData) {
+        // Invalid fields are shown next to the input; the modal stays open
+        if (isValidationErrorBody(errorData) && errorData.fieldErrors.powerBIReportId) {
+          setFieldErrors(errorData.fieldErrors);
+          return;
+        }
+        throw new Error(errorData.error || 'Failed to update PowerBI ID');
+      }
+
+      setEtag(response.headers.get('ETag'));
+
       // Update local state to reflect the change immediately
       const updatedReportsData = { ...reportsData };
       const reportIndex = updatedReportsData[editingDepartment].findIndex(
@@ -259,7 +257,9 @@ const AdminPowerBIEditor: React.FC = () => {
                 value={newPowerBIId}
                 onChange={(e) => setNewPowerBIId(e.target.value)}
                 placeholder="Enter new PowerBI report ID"
+                isInvalid={!!fieldErrors.powerBIReportId}
               />
+              <Form.Control.Feedback type="invalid">{fieldErrors.powerBIReportId?.[0]}</Form.Control.Feedback>
               <Form.Text className="text-muted">
                 This ID will be used to embed the PowerBI report
               </Form.Text>
@@ -2,14 +2,15 @@
 import React, { useState } from 'react';
 import { Row, Col, Card, Button, Form, Alert, Spinner } from 'react-bootstrap';
 import { Wand2, Copy } from 'lucide-react';
-import { API_ENDPOINTS } from '../config/api';
+import { api } from '../api/client';
 
 /**
  * AdminPowerBIGenerator Component - Utility for generating PowerBI embed tokens and URLs
  * 
  * This component provides administrators with a standalone tool to:
  * - Generate PowerBI embed tokens for testing and development
- * - Create embed URLs for specific reports, datasets, and core datasets
+ * - Create embed URLs for specific reports, datasets, and shared datasets; reports saved in the
+ *   catalog of the admin's departments can be named alone and use their catalog entry's datasets
  * - Test PowerBI authentication and configuration
  * - Copy generated tokens and URLs for use in other systems
  * 
@@ -25,7 +26,7 @@ const AdminPowerBIGenerator: React.FC = () => {
   const [formData, setFormData] = useState({
     reportId: '',
     datasetId: '',
-    coreDatasetId: ''
+    sharedDatasetId: ''
   });
   const [embedDetails, setEmbedDetails] = useState<{
     embedToken: string;
@@ -41,9 +42,9 @@ const AdminPowerBIGenerator: React.FC = () => {
    * Updates state with generated embed details for display and copying
    */
   const handleGenerate = async () => {
-    // Validate all required fields are present
-    if (!formData.reportId || !formData.datasetId || !formData.coreDatasetId) {
-      setError('All fields are required');
+    // Validate the required field is present; the datasets default to the catalog entry's
+    if (!formData.reportId) {
+      setError('Report ID is required');
       return;
     }
 
@@ -52,22 +53,12 @@ const AdminPowerBIGenerator: React.FC = () => {
     setSuccess('');
 
     try {
-      const token = localStorage.getItem('jwt_token');
-      const response = await fetch(API_ENDPOINTS.adminGenerateEmbed, {
-        method: 'POST',
-        headers: {
-          'Authorization': `Bearer ${token}`,
-          'Content-Type': 'application/json',
-        },
-        body: JSON.stringify(formData),
-      });
+      const { data, error: errorData } = await api.POST('/api/admin/generate-embed', { body: formData });
 
-      if (!response.ok) {
-        const errorData = await response.json();
-        throw new Error(errorData.error || 'Failed to generate embed details');
+      if (!data) {
+        throw new Error(errorData?.error || 'Failed to generate embed details');
       }
 
-      const data = await response.json();
       setEmbedDetails(data);
       setSuccess('Embed details generated successfully!');
     } catch (err) {
@@ -124,16 +115,19 @@ const AdminPowerBIGenerator: React.FC = () => {
                   onChange={(e) => setFormData({...formData, datasetId: e.target.value})}
                   placeholder="Enter Dataset ID"
                 />
+                <Form.Text className="text-muted">
+                  Leave empty to use the datasets of the report's catalog entry.
+                </Form.Text>
               </Form.Group>
               
-              {/* Core Dataset ID input field */}
+              {/* Shared Dataset ID input field */}
               <Form.Group className="mb-3">
-                <Form.Label>Core Dataset ID</Form.Label>
+                <Form.Label>Shared Dataset ID</Form.Label>
                 <Form.Control
                   type="text"
-                  value={formData.coreDatasetId}
-                  onChange={(e) => setFormData({...formData, coreDatasetId: e.target.value})}
-                  placeholder="Enter Core Dataset ID"
+                  value={formData.sharedDatasetId}
+                  onChange={(e) => setFormData({...formData, sharedDatasetId: e.target.value})}
+                  placeholder="Enter Shared Dataset ID"
                 />
               </Form.Group>
               
@@ -0,0 +1,189 @@
+import React, { useState, useEffect } from 'react';
+import { Row, Col, Card, Button, Alert, Spinner, Table, Badge } from 'react-bootstrap';
+import { Gauge, RefreshCw } from 'lucide-react';
+import { api, ApiSchemas } from '../api/client';
+
+// Rate limit settings and counters; see auth-server/rateLimit.ts
+type RateLimitPolicy = ApiSchemas['RateLimitPolicy'];
+type ThrottledPrincipal = ApiSchemas['ThrottledPrincipal'];
+type RateLimitPolicyName = ThrottledPrincipal['policy'];
+
+const POLICY_LABELS: Record<RateLimitPolicyName, string> = {
+  login: 'Password sign-in',
+  mfa: 'Two-factor codes',
+  sms: 'SMS codes',
+  email: 'Email links',
+  sso: 'SSO redirects',
+  embed: 'Report embedding',
+  admin: 'Admin API',
+};
+
+/**
+ * AdminRateLimits Component - Read-only view of the API rate limits
+ *
+ * This component provides administrators with:
+ * - The configured policy for each group of routes (limit, window, user, IP or account keys,
+ *   and the separate per-IP limit of account policies)
+ * - The users and IP addresses currently throttled, with when their window resets
+ *
+ * Policies are set with RATE_LIMIT_* environment variables on the server, and
+ * counters are per server instance.
+ */
+const KEY_LABELS: Record<RateLimitPolicy['key'], string> = {
+  user: 'User',
+  ip: 'IP address',
+  account: 'IP address and account',
+};
+
+const AdminRateLimits: React.FC = () => {
+  const [policies, setPolicies] = useState<Partial<Record<RateLimitPolicyName, RateLimitPolicy>> | null>(null);
+  const [throttled, setThrottled] = useState<ThrottledPrincipal[]>([]);
+  const [loading, setLoading] = useState(true);
+  const [error, setError] = useState('');
+
+  /**
+   * Effect hook to load the rate limits when component mounts
+   */
+  useEffect(() => {
+    fetchRateLimits();
+  }, []);
+
+  /**
+   * Fetches the policies and throttled principals from the backend
+   */
+  const fetchRateLimits = async () => {
+    setLoading(true);
+    setError('');
+    try {
+      const { data, response } = await api.GET('/api/admin/rate-limits');
+
+      if (!data) {
+        if (response.status === 403) {
+          throw new Error('Admin access required');
+        }
+        throw new Error('Failed to fetch rate limits');
+      }
+
+      setPolicies(data.policies);
+      setThrottled(data.throttled || []);
+    } catch (err) {
+      console.error('Error fetching rate limits:', err);
+      setError((err as Error).message);
+    } finally {
+      setLoading(false);
+    }
+  };
+
+  // Loading state display
+  if (loading && !policies) {
+    return (
+      <div className="text-center">
+        <Spinner animation="border" variant="primary" />
+        <p className="mt-2">Loading rate limits...</p>
+      </div>
+    );
+  }
+
+  return (
+    <>
+      {/* Header section with title and refresh button */}
+      <Row className="mb-4">
+        <Col>
+          <div className="d-flex justify-content-between align-items-center">
+            <h5 className="d-flex align-items-center">
+              <Gauge size={20} className="me-2" />
+              Rate Limits
+            </h5>
+            <Button variant="outline-primary" onClick={fetchRateLimits} disabled={loading} className="d-flex align-items-center">
+              <RefreshCw size={16} className="me-1" />
+              Refresh
+            </Button>
+          </div>
+        </Col>
+      </Row>
+
+      {/* Error message display */}
+      {error && (
+        <Alert variant="danger" className="mb-3">
+          {error}
+        </Alert>
+      )}
+
+      {/* Configured policies */}
+      {policies && (
+        <Card className="mb-4">
+          <Card.Header>
+            <strong>Policies</strong>
+          </Card.Header>
+          <Card.Body>
+            <Table responsive className="mb-0">
+              <thead>
+                <tr>
+                  <th>Routes</th>
+                  <th>Limit</th>
+                  <th>Counted per</th>
+                </tr>
+              </thead>
+              <tbody>
+                {(Object.keys(policies) as RateLimitPolicyName[]).map((name) => (
+                  <tr key={name}>
+                    <td>{POLICY_LABELS[name]}</td>
+                    <td>
+                      {policies[name].limit} requests / {policies[name].windowSeconds}s
+                      {policies[name].ipLimit !== undefined && (
+                        <div className="text-muted small">{policies[name].ipLimit} per IP address</div>
+                      )}
+                    </td>
+                    <td>{KEY_LABELS[policies[name].key]}</td>
+                  </tr>
+                ))}
+              </tbody>
+            </Table>
+          </Card.Body>
+        </Card>
+      )}
+
+      {/* Principals currently at their limit */}
+      <Card>
+        <Card.Header>
+          <strong>Currently Throttled</strong>
+        </Card.Header>
+        <Card.Body>
+          {throttled.length > 0 ? (
+            <Table responsive hover className="mb-0 align-middle">
+              <thead>
+                <tr>
+                  <th>Principal</th>
+                  <th>Routes</th>
+                  <th>Requests</th>
+                  <th>Resets</th>
+                </tr>
+              </thead>
+              <tbody>
+                {throttled.map((entry) => (
+                  <tr key={`${entry.policy}-${entry.principal}`}>
+                    <td><code>{entry.principal}</code></td>
+                    <td>{POLICY_LABELS[entry.policy]}</td>
+                    <td>
+                      <Badge bg={entry.requests > entry.limit ? 'danger' : 'warning'}>
+                        {entry.requests} / {entry.limit}
+                      </Badge>
+                    </td>
+                    <td>{new Date(entry.resetAt).toLocaleTimeString()}</td>
+                  </tr>
+                ))}
+              </tbody>
+            </Table>
+          ) : (
+            // Empty state display
+            <div className="text-center py-4">
+              <p className="text-muted mb-0">Nobody is being throttled right now</p>
+            </div>
+          )}
+        </Card.Body>
+      </Card>
+    </>
+  );
+};
+
+export default AdminRateLimits;
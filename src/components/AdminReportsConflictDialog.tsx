@@ -0,0 +1,140 @@
+import React, { useState, useEffect } from 'react';
+import { Button, Alert, Modal, Card, Form } from 'react-bootstrap';
+import { AlertTriangle } from 'lucide-react';
+import ChangesTable, { Change } from './ChangesTable';
+import type { MergeChoice, ReportConflict } from '../lib/catalogMerge';
+
+type ConflictReport = { id: string; title: string };
+
+interface AdminReportsConflictDialogProps {
+  show: boolean;
+  currentRevision: number;
+  conflicts: ReportConflict<ConflictReport>[];
+  saving: boolean;
+  onCancel: () => void;
+  onReload: () => void; // Discard local edits and load the server catalog
+  onForceOverwrite: () => void; // Save local edits over the server catalog
+  onMerge: (choices: Record<string, MergeChoice>) => void; // Save the merged catalog
+}
+
+/**
+ * Field-level differences between the server and local version of a report
+ */
+const reportChanges = (theirs: ConflictReport, mine: ConflictReport): Change[] => {
+  const before = theirs as Record<string, unknown>;
+  const after = mine as Record<string, unknown>;
+  const fields = Array.from(new Set([...Object.keys(before), ...Object.keys(after)]));
+
+  return fields
+    .filter(field => JSON.stringify(before[field]) !== JSON.stringify(after[field]))
+    .map(field => ({
+      path: field,
+      before: field === 'embedToken' && before[field] ? '[token]' : before[field],
+      after: field === 'embedToken' && after[field] ? '[token]' : after[field],
+    }));
+};
+
+/**
+ * AdminReportsConflictDialog Component - Resolves a rejected (stale) catalog save
+ *
+ * Shown when someone else saved the catalog after this editor loaded it. The admin can:
+ * - Reload the server catalog, discarding local edits
+ * - Merge: non-conflicting edits from both sides are kept, and for each report changed
+ *   on both sides the admin picks which version wins
+ * - Force-overwrite the server catalog with the local one
+ */
+const AdminReportsConflictDialog: React.FC<AdminReportsConflictDialogProps> = ({
+  show,
+  currentRevision,
+  conflicts,
+  saving,
+  onCancel,
+  onReload,
+  onForceOverwrite,
+  onMerge
+}) => {
+  const [choices, setChoices] = useState<Record<string, MergeChoice>>({});
+
+  /**
+   * Effect hook to default every conflict to the local version when the conflicts change
+   */
+  useEffect(() => {
+    setChoices(Object.fromEntries(conflicts.map(conflict => [conflict.key, 'mine' as MergeChoice])));
+  }, [conflicts]);
+
+  return (
+    <Modal show={show} onHide={onCancel} size="lg" backdrop="static">
+      <Modal.Header closeButton>
+        <Modal.Title className="d-flex align-items-center">
+          <AlertTriangle size={20} className="me-2 text-warning" />
+          Catalog changed by someone else
+        </Modal.Title>
+      </Modal.Header>
+      <Modal.Body>
+        <Alert variant="warning">
+          The catalog was saved by someone else (now revision #{currentRevision}) after you loaded it.
+          {conflicts.length === 0
+            ? ' None of your changes touch the same reports, so they can be merged automatically.'
+            : ` ${conflicts.length} report${conflicts.length === 1 ? ' was' : 's were'} changed on both sides; choose which version to keep.`}
+        </Alert>
+
+        {/* Per-report conflict resolution */}
+        {conflicts.map((conflict) => (
+          <Card key={conflict.key} className="mb-3">
+            <Card.Header className="d-flex justify-content-between align-items-center">
+              <strong>{conflict.department} / {conflict.mine?.title || conflict.theirs?.title || conflict.reportId}</strong>
+              <div className="d-flex gap-3">
+                <Form.Check
+                  type="radio"
+                  id={`${conflict.key}-mine`}
+                  name={conflict.key}
+                  label="Keep mine"
+                  checked={choices[conflict.key] !== 'theirs'}
+                  onChange={() => setChoices({ ...choices, [conflict.key]: 'mine' })}
+                />
+                <Form.Check
+                  type="radio"
+                  id={`${conflict.key}-theirs`}
+                  name={conflict.key}
+                  label="Keep theirs"
+                  checked={choices[conflict.key] === 'theirs'}
+                  onChange={() => setChoices({ ...choices, [conflict.key]: 'theirs' })}
+                />
+              </div>
+            </Card.Header>
+            <Card.Body>
+              {!conflict.theirs ? (
+                <p className="text-muted small mb-0">Deleted by someone else; you edited it.</p>
+              ) : !conflict.mine ? (
+                <p className="text-muted small mb-0">You deleted it; someone else edited it.</p>
+              ) : (
+                <ChangesTable
+                  changes={reportChanges(conflict.theirs, conflict.mine)}
+                  beforeLabel="Theirs"
+                  afterLabel="Mine"
+                />
+              )}
+            </Card.Body>
+          </Card>
+        ))}
+      </Modal.Body>
+      <Modal.Footer>
+        {/* Resolution actions */}
+        <Button variant="secondary" onClick={onCancel} disabled={saving}>
+          Cancel
+        </Button>
+        <Button variant="outline-secondary" onClick={onReload} disabled={saving}>
+          Reload (discard mine)
+        </Button>
+        <Button variant="outline-danger" onClick={onForceOverwrite} disabled={saving}>
+          Overwrite theirs
+        </Button>
+        <Button variant="primary" onClick={() => onMerge(choices)} disabled={saving}>
+          {saving ? 'Saving...' : 'Merge & Save'}
+        </Button>
+      </Modal.Footer>
+    </Modal>
+  );
+};
+
+export default AdminReportsConflictDialog;
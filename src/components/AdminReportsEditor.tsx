@@ -1,31 +1,53 @@
-import React, { useState, useEffect } from 'react';
+import React, { useState, useEffect, useMemo } from 'react';
 import { Row, Col, Card, Button, Form, Alert, Spinner, Modal, Accordion } from 'react-bootstrap';
-import { Plus, Edit, Trash2, Save, ToggleLeft, ToggleRight, Eye, Wand2 } from 'lucide-react';
-import { API_ENDPOINTS } from '../config/api';
+import { Plus, Edit, Trash2, Save, ToggleLeft, ToggleRight, Eye, Wand2, History, Shield, Lock } from 'lucide-react';
+import { api, ApiSchemas } from '../api/client';
 import PowerBIViewer from './PowerBIViewer';
+import AdminReportsHistory from './AdminReportsHistory';
+import AdminReportsConflictDialog from './AdminReportsConflictDialog';
+import { findConflicts, mergeCatalogs, MergeChoice } from '../lib/catalogMerge';
+import { ROLES, ROLE_LABELS, Role } from '@shared/permissions';
+import { FieldErrors, reportSchema, toFieldErrors } from '@shared/schemas';
 
-interface Report {
-  id: string;
-  title: string;
-  description: string;
-  icon: string;
-  powerBIReportId: string;
-  clientId: string;
-  reportId: string;
-  datasetId?: string;
-  coreDatasetId?: string;
-  embedUrl: string;
-  embedToken: string;
-  tenantId: string;
-  isActive: boolean;
+type Report = ApiSchemas['Report'];
+type ReportsData = ApiSchemas['ReportsData'];
+
+// Row-level security settings of a report; see auth-server/rls.ts
+type ReportRls = NonNullable<Report['rls']>;
+
+// Per-report allow/deny lists; see auth-server/reportAcl.ts
+type ReportAcl = NonNullable<Report['acl']>;
+type AclPrincipals = ReportAcl['allow'];
+
+// The server's catalog at the time a save was rejected as stale (HTTP 409)
+interface SaveConflict {
+  etag: string | null;
+  currentRevision: number;
+  reportsData: ReportsData;
+}
+
+// Editable form of ReportRls; roles are kept as comma-separated text while typing
+interface RlsForm {
+  enabled: boolean;
+  defaultRoles: string;
+  departmentRoles: { department: string; roles: string }[];
+}
+
+// Editable form of ReportAcl; users and groups are kept as comma-separated text while typing
+interface AclPrincipalsForm {
+  users: string;
+  groups: string;
+  roles: Role[];
 }
 
-interface ReportsData {
-  [department: string]: Report[];
+interface AclForm {
+  allow: AclPrincipalsForm;
+  deny: AclPrincipalsForm;
 }
 
 interface AdminReportsEditorProps {
   onStatsUpdate?: () => void;
+  canViewHistory?: boolean; // Revision history and rollback need the catalog:history permission
 }
 
 /**
@@ -41,34 +63,94 @@ interface AdminReportsEditorProps {
  * 
  * Key Features:
  * - Accordion-based department organization for scalable report management
- * - Modal-based report editing with comprehensive form validation
+ * - Modal-based report editing, checked against the server's report schema before it is kept
  * - Automatic PowerBI embed token generation with real-time feedback
  * - Manual override options for advanced PowerBI configurations
  * - Visual status indicators and interactive report cards
  * - Integrated report preview functionality
  * - Save-all functionality for batch updates
+ * - Revision history with diffs and one-click rollback
+ * - Stale-save detection (ETag / If-Match) with reload, per-report merge or overwrite
  */
 
-// Helper function to fetch embed details
-async function fetchEmbedDetails(reportId: string, datasetId: string, coreDatasetId: string, token: string) {
-  const res = await fetch(API_ENDPOINTS.adminGenerateEmbed, {
-    method: 'POST',
-    headers: {
-      'Authorization': `Bearer ${token}`,
-      'Content-Type': 'application/json'
-    },
-    body: JSON.stringify({ reportId, datasetId, coreDatasetId })
+// Helper function to fetch embed details (embedded as the signed-in admin under the given RLS settings)
+async function fetchEmbedDetails(reportId: string, datasetId: string, sharedDatasetId: string, rls?: ReportRls) {
+  const { data, error } = await api.POST('/api/admin/generate-embed', {
+    body: { reportId, datasetId, sharedDatasetId, rls }
   });
 
-  if (!res.ok) {
-    console.error(await res.text());
-    throw new Error('Failed to generate embed token');
+  if (!data) {
+    console.error(error);
+    throw new Error(error?.error || 'Failed to generate embed token');
   }
 
-  return await res.json(); // { embedToken, embedUrl }
+  return data; // { embedToken, embedUrl, expiration }
 }
 
-const AdminReportsEditor: React.FC<AdminReportsEditorProps> = ({ onStatsUpdate }) => {
+// Helpers converting between stored RLS settings and the editable form
+const parseList = (text: string) => text.split(',').map(item => item.trim()).filter(Boolean);
+
+const toRlsForm = (rls?: ReportRls): RlsForm => ({
+  enabled: rls?.enabled !== false,
+  defaultRoles: (rls?.defaultRoles || []).join(', '),
+  departmentRoles: Object.entries(rls?.departmentRoles || {}).map(([department, roles]) => ({ department, roles: roles.join(', ') }))
+});
+
+const fromRlsForm = (form: RlsForm): ReportRls => {
+  const defaultRoles = parseList(form.defaultRoles);
+  return {
+    enabled: form.enabled,
+    ...(defaultRoles.length > 0 && { defaultRoles }),
+    departmentRoles: Object.fromEntries(
+      form.departmentRoles
+        .filter(mapping => mapping.department)
+        .map(mapping => [mapping.department, parseList(mapping.roles)])
+    )
+  };
+};
+
+// Short RLS summary for report cards
+const describeRls = (rls?: ReportRls) => {
+  if (rls?.enabled === false) return 'Off';
+  const mappings = Object.keys(rls?.departmentRoles || {}).length;
+  const defaults = rls?.defaultRoles?.join(', ') || 'server default';
+  return mappings > 0 ? `${defaults} (+${mappings} department mapping${mappings === 1 ? '' : 's'})` : defaults;
+};
+
+// Helpers converting between stored ACLs and the editable form
+const toAclPrincipalsForm = (principals?: AclPrincipals): AclPrincipalsForm => ({
+  users: (principals?.users || []).join(', '),
+  groups: (principals?.groups || []).join(', '),
+  roles: principals?.roles || []
+});
+
+const toAclForm = (acl?: ReportAcl): AclForm => ({
+  allow: toAclPrincipalsForm(acl?.allow),
+  deny: toAclPrincipalsForm(acl?.deny)
+});
+
+const fromAclPrincipalsForm = (form: AclPrincipalsForm): AclPrincipals => ({
+  users: parseList(form.users),
+  groups: parseList(form.groups),
+  roles: form.roles
+});
+
+const countPrincipals = ({ users, groups, roles }: AclPrincipals) => users.length + groups.length + roles.length;
+
+// Reports without allow or deny entries are stored without an ACL
+const fromAclForm = (form: AclForm): ReportAcl | undefined => {
+  const acl = { allow: fromAclPrincipalsForm(form.allow), deny: fromAclPrincipalsForm(form.deny) };
+  return countPrincipals(acl.allow) + countPrincipals(acl.deny) > 0 ? acl : undefined;
+};
+
+// Short ACL summary for report cards
+const describeAcl = (acl?: ReportAcl) => {
+  const allowed = acl ? countPrincipals(acl.allow) : 0;
+  const denied = acl ? countPrincipals(acl.deny) : 0;
+  return `${allowed > 0 ? `${allowed} allowed` : 'Whole department'}${denied > 0 ? `, ${denied} denied` : ''}`;
+};
+
+const AdminReportsEditor: React.FC<AdminReportsEditorProps> = ({ onStatsUpdate, canViewHistory = true }) => {
   const [reportsData, setReportsData] = useState<ReportsData>({});
   const [loading, setLoading] = useState(true);
   const [saving, setSaving] = useState(false);
@@ -80,6 +162,14 @@ const AdminReportsEditor: React.FC<AdminReportsEditorProps> = ({ onStatsUpdate }
   const [selectedReport, setSelectedReport] = useState<Report | null>(null);
   const [generating, setGenerating] = useState(false);
   const [generatedEmbed, setGeneratedEmbed] = useState<{embedToken: string, embedUrl: string} | null>(null);
+  const [showHistory, setShowHistory] = useState(false);
+  // Optimistic concurrency: the ETag and a pristine copy of the catalog as loaded
+  const [etag, setEtag] = useState<string | null>(null);
+  const [baseData, setBaseData] = useState<ReportsData>({});
+  const [conflict, setConflict] = useState<SaveConflict | null>(null);
+  const [rlsForm, setRlsForm] = useState<RlsForm>(toRlsForm());
+  const [aclForm, setAclForm] = useState<AclForm>(toAclForm());
+  const [fieldErrors, setFieldErrors] = useState<FieldErrors>({});
 
   const [formData, setFormData] = useState({
     id: '',
@@ -90,7 +180,7 @@ const AdminReportsEditor: React.FC<AdminReportsEditorProps> = ({ onStatsUpdate }
     clientId: '',
     reportId: '',
     datasetId: '',
-    coreDatasetId: '',
+    sharedDatasetId: '',
     embedUrl: '',
     embedToken: '',
     tenantId: '',
@@ -100,7 +190,7 @@ const AdminReportsEditor: React.FC<AdminReportsEditorProps> = ({ onStatsUpdate }
   const [powerBIGeneratorData, setPowerBIGeneratorData] = useState({
     reportId: '',
     datasetId: '',
-    coreDatasetId: ''
+    sharedDatasetId: ''
   });
 
   /**
@@ -118,20 +208,16 @@ const AdminReportsEditor: React.FC<AdminReportsEditorProps> = ({ onStatsUpdate }
     setLoading(true);
     setError('');
     try {
-      const token = localStorage.getItem('jwt_token');
-      const response = await fetch(API_ENDPOINTS.adminReports, {
-        headers: {
-          'Authorization': `Bearer ${token}`,
-          'Content-Type': 'application/json',
-        },
-      });
+      const { data, response } = await api.GET('/api/admin/reports');
 
-      if (!response.ok) {
+      if (!data) {
         throw new Error('Failed to fetch reports data');
       }
 
-      const data = await response.json();
       setReportsData(data);
+      // Reports are edited in place, so the merge base must be a deep copy
+      setBaseData(structuredClone(data));
+      setEtag(response.headers.get('ETag'));
     } catch (err) {
       setError((err as Error).message);
     } finally {
@@ -145,8 +231,8 @@ const AdminReportsEditor: React.FC<AdminReportsEditorProps> = ({ onStatsUpdate }
    * Auto-fills the embed URL and token fields upon successful generation
    */
   const generatePowerBIEmbed = async () => {
-    if (!formData.reportId || !formData.datasetId || !formData.coreDatasetId) {
-      setError('Please fill in Report ID, Dataset ID, and Core Dataset ID');
+    if (!formData.reportId || !formData.datasetId) {
+      setError('Please fill in Report ID and Dataset ID');
       return;
     }
 
@@ -154,12 +240,11 @@ const AdminReportsEditor: React.FC<AdminReportsEditorProps> = ({ onStatsUpdate }
     setError('');
     
     try {
-      const token = localStorage.getItem('jwt_token');
       const data = await fetchEmbedDetails(
         formData.reportId,
         formData.datasetId,
-        formData.coreDatasetId,
-        token!
+        formData.sharedDatasetId,
+        fromRlsForm(rlsForm)
       );
       
       setGeneratedEmbed(data);
@@ -181,26 +266,38 @@ const AdminReportsEditor: React.FC<AdminReportsEditorProps> = ({ onStatsUpdate }
   /**
    * Saves all report data changes to the backend in a single operation
    * Provides batch update functionality for efficient data management
+   *
+   * @param data - Catalog to save
+   * @param ifMatch - ETag the catalog is based on, or `*` to overwrite whatever is saved
    */
-  const saveReportsData = async () => {
+  const saveReportsData = async (data: ReportsData = reportsData, ifMatch: string = etag || '') => {
     setSaving(true);
     setError('');
     setSuccess('');
     try {
-      const token = localStorage.getItem('jwt_token');
-      const response = await fetch(API_ENDPOINTS.adminUpdateReports, {
-        method: 'PUT',
-        headers: {
-          'Authorization': `Bearer ${token}`,
-          'Content-Type': 'application/json',
-        },
-        body: JSON.stringify({ reportsData }),
+      const { error: errorData, response } = await api.PUT('/api/admin/reports', {
+        params: { header: { 'If-Match': ifMatch } },
+        body: { reportsData: data },
       });
 
-      if (!response.ok) {
-        throw new Error('Failed to save reports data');
+      // Someone else saved since this catalog was loaded; let the admin resolve it
+      if (errorData && 'reportsData' in errorData) {
+        setConflict({
+          etag: response.headers.get('ETag'),
+          currentRevision: errorData.currentRevision,
+          reportsData: errorData.reportsData,
+        });
+        return;
+      }
+
+      if (errorData) {
+        throw new Error(errorData.error || 'Failed to save reports data');
       }
 
+      setReportsData(data);
+      setBaseData(structuredClone(data));
+      setEtag(response.headers.get('ETag'));
+      setConflict(null);
       setSuccess('Reports data saved successfully!');
       setTimeout(() => setSuccess(''), 3000);
       
@@ -215,6 +312,53 @@ const AdminReportsEditor: React.FC<AdminReportsEditorProps> = ({ onStatsUpdate }
     }
   };
 
+  /**
+   * Reports changed differently here and on the server, shown in the conflict dialog
+   */
+  const conflicts = useMemo(
+    () => (conflict ? findConflicts(baseData, reportsData, conflict.reportsData) : []),
+    [conflict, baseData, reportsData]
+  );
+
+  /**
+   * Discards local edits and continues from the server catalog returned with the conflict
+   */
+  const handleConflictReload = () => {
+    if (!conflict) return;
+    setReportsData(conflict.reportsData);
+    setBaseData(structuredClone(conflict.reportsData));
+    setEtag(conflict.etag);
+    setConflict(null);
+  };
+
+  /**
+   * Merges local edits into the server catalog and saves the result against the server's ETag
+   * The merged catalog becomes the new local state, so a second conflict merges from there
+   *
+   * @param choices - Which side wins for each conflicting report
+   */
+  const handleConflictMerge = (choices: Record<string, MergeChoice>) => {
+    if (!conflict) return;
+    const merged = mergeCatalogs(baseData, reportsData, conflict.reportsData, choices);
+    setReportsData(merged);
+    setBaseData(structuredClone(conflict.reportsData));
+    setEtag(conflict.etag);
+    saveReportsData(merged, conflict.etag || '');
+  };
+
+  /**
+   * Reloads the catalog after a revision was restored from the history panel
+   */
+  const handleRevisionRestored = async () => {
+    await fetchReportsData();
+    setSuccess('Revision restored successfully!');
+    setTimeout(() => setSuccess(''), 3000);
+
+    if (onStatsUpdate) {
+      onStatsUpdate();
+    }
+  };
+
   /**
    * Toggles the active/inactive status of a specific report
    * Updates the UI immediately for responsive user experience
@@ -260,13 +404,16 @@ const AdminReportsEditor: React.FC<AdminReportsEditorProps> = ({ onStatsUpdate }
       clientId: report.clientId || '',
       reportId: report.reportId || '',
       datasetId: report.datasetId || '',
-      coreDatasetId: report.coreDatasetId || '',
+      sharedDatasetId: report.sharedDatasetId || report.coreDatasetId || '', // Older catalogs call it coreDatasetId
       embedUrl: report.embedUrl || '',
       embedToken: report.embedToken || '',
       tenantId: report.tenantId || '',
       isActive: report.isActive !== false
     });
+    setRlsForm(toRlsForm(report.rls));
+    setAclForm(toAclForm(report.acl));
     setGeneratedEmbed(null);
+    setFieldErrors({});
     setShowModal(true);
   };
 
@@ -288,39 +435,81 @@ const AdminReportsEditor: React.FC<AdminReportsEditorProps> = ({ onStatsUpdate }
       clientId: '',
       reportId: '',
       datasetId: '',
-      coreDatasetId: '',
+      sharedDatasetId: '',
       embedUrl: '',
       embedToken: '',
       tenantId: '',
       isActive: true
     });
+    setRlsForm(toRlsForm());
+    setAclForm(toAclForm());
     setGeneratedEmbed(null);
+    setFieldErrors({});
     setShowModal(true);
   };
 
+  /**
+   * Updates one department → roles mapping row in the RLS form
+   *
+   * @param index - Row to update
+   * @param changes - Fields to change
+   */
+  const updateRlsMapping = (index: number, changes: Partial<RlsForm['departmentRoles'][number]>) => {
+    setRlsForm({
+      ...rlsForm,
+      departmentRoles: rlsForm.departmentRoles.map((mapping, i) => (i === index ? { ...mapping, ...changes } : mapping))
+    });
+  };
+
+  /**
+   * Updates the allow or deny list in the ACL form
+   *
+   * @param list - List to update
+   * @param changes - Fields to change
+   */
+  const updateAclList = (list: keyof AclForm, changes: Partial<AclPrincipalsForm>) => {
+    setAclForm({ ...aclForm, [list]: { ...aclForm[list], ...changes } });
+  };
+
+  /**
+   * Toggles a role in the allow or deny list of the ACL form
+   *
+   * @param list - List to update
+   * @param role - Role to add or remove
+   */
+  const toggleAclRole = (list: keyof AclForm, role: Role) => {
+    const roles = aclForm[list].roles;
+    updateAclList(list, { roles: roles.includes(role) ? roles.filter(r => r !== role) : [...roles, role] });
+  };
+
   /**
    * Saves report changes (both new and edited reports)
    * Handles PowerBI embed token generation automatically
    * Updates local state and provides user feedback
    */
   const handleSaveReport = async () => {
-    if (!formData.id || !formData.title) return;
+    const reportData = { ...formData, rls: fromRlsForm(rlsForm), acl: fromAclForm(aclForm) };
+
+    // Check the report against the schema the server saves the catalog with
+    const parsed = reportSchema.safeParse(reportData);
+    const errors = parsed.success ? {} : toFieldErrors(parsed.error);
+    const duplicate = (reportsData[editingDepartment] || []).some(r => r.id === reportData.id.trim() && r.id !== editingReport?.id);
+    if (duplicate) errors.id = [`Report ID "${reportData.id.trim()}" is already used in ${editingDepartment}`];
+    setFieldErrors(errors);
+    if (Object.keys(errors).length > 0) return;
 
     try {
       setSaving(true);
       setError('');
       
-      const reportData = { ...formData };
-      
-      // Auto-generate embed details if all required fields are present
-      if (reportData.reportId && reportData.datasetId && reportData.coreDatasetId) {
+      // Auto-generate embed details if the required fields are present
+      if (reportData.reportId && reportData.datasetId) {
         try {
-          const token = localStorage.getItem('jwt_token');
           const { embedToken, embedUrl } = await fetchEmbedDetails(
             reportData.reportId,
             reportData.datasetId,
-            reportData.coreDatasetId,
-            token!
+            reportData.sharedDatasetId,
+            reportData.rls
           );
           reportData.embedToken = embedToken;
           reportData.embedUrl = embedUrl;
@@ -406,16 +595,29 @@ const AdminReportsEditor: React.FC<AdminReportsEditorProps> = ({ onStatsUpdate }
         <Col>
           <div className="d-flex justify-content-between align-items-center">
             <h5>Manage Reports & PowerBI Configuration</h5>
-            {/* Global save button for batch updates */}
-            <Button
-              variant="primary"
-              onClick={saveReportsData}
-              disabled={saving}
-              className="d-flex align-items-center"
-            >
-              <Save size={16} className="me-1" />
-              {saving ? 'Saving...' : 'Save All Changes'}
-            </Button>
+            <div className="d-flex gap-2">
+              {/* Revision history and rollback */}
+              {canViewHistory && (
+                <Button
+                  variant="outline-secondary"
+                  onClick={() => setShowHistory(true)}
+                  className="d-flex align-items-center"
+                >
+                  <History size={16} className="me-1" />
+                  History
+                </Button>
+              )}
+              {/* Global save button for batch updates */}
+              <Button
+                variant="primary"
+                onClick={() => saveReportsData()}
+                disabled={saving}
+                className="d-flex align-items-center"
+              >
+                <Save size={16} className="me-1" />
+                {saving ? 'Saving...' : 'Save All Changes'}
+              </Button>
+            </div>
           </div>
         </Col>
       </Row>
@@ -485,7 +687,9 @@ const AdminReportsEditor: React.FC<AdminReportsEditorProps> = ({ onStatsUpdate }
                           <strong>Icon:</strong> {report.icon}<br/>
                           <strong>PowerBI ID:</strong> {report.powerBIReportId}<br/>
                           <strong>Report ID:</strong> {report.reportId?.substring(0, 8) || 'Not set'}...<br/>
-                          <strong>Has Embed:</strong> {report.embedUrl ? 'Yes' : 'No'}
+                          <strong>Has Embed:</strong> {report.embedUrl ? 'Yes' : 'No'}<br/>
+                          <strong>RLS:</strong> {describeRls(report.rls)}<br/>
+                          <strong>Access:</strong> {describeAcl(report.acl)}
                         </p>
                         
                         {/* Report action buttons */}
@@ -527,6 +731,26 @@ const AdminReportsEditor: React.FC<AdminReportsEditorProps> = ({ onStatsUpdate }
         ))}
       </Accordion>
 
+      {/* Revision history panel */}
+      <AdminReportsHistory
+        show={showHistory}
+        onHide={() => setShowHistory(false)}
+        onRestored={handleRevisionRestored}
+        etag={etag}
+      />
+
+      {/* Stale save resolution */}
+      <AdminReportsConflictDialog
+        show={conflict !== null}
+        currentRevision={conflict?.currentRevision || 0}
+        conflicts={conflicts}
+        saving={saving}
+        onCancel={() => setConflict(null)}
+        onReload={handleConflictReload}
+        onForceOverwrite={() => saveReportsData(reportsData, '*')}
+        onMerge={handleConflictMerge}
+      />
+
       {/* Report editing/creation modal */}
       <Modal show={showModal} onHide={() => setShowModal(false)} size="lg">
         <Modal.Header closeButton>
@@ -535,6 +759,10 @@ const AdminReportsEditor: React.FC<AdminReportsEditorProps> = ({ onStatsUpdate }
           </Modal.Title>
         </Modal.Header>
         <Modal.Body>
+          {/* Problems in the RLS and access sections, which have no single input to mark */}
+          {Object.entries(fieldErrors).filter(([path]) => path !== 'id' && path !== 'title').map(([path, messages]) => (
+            <Alert key={path} variant="danger">{path}: {messages[0]}</Alert>
+          ))}
           <Form>
             {/* Basic report information fields */}
             <Row>
@@ -546,7 +774,9 @@ const AdminReportsEditor: React.FC<AdminReportsEditorProps> = ({ onStatsUpdate }
                     value={formData.id}
                     onChange={(e) => setFormData({...formData, id: e.target.value})}
                     placeholder="unique-report-id"
+                    isInvalid={!!fieldErrors.id}
                   />
+                  <Form.Control.Feedback type="invalid">{fieldErrors.id?.[0]}</Form.Control.Feedback>
                 </Form.Group>
               </Col>
               <Col md={6}>
@@ -571,7 +801,9 @@ const AdminReportsEditor: React.FC<AdminReportsEditorProps> = ({ onStatsUpdate }
                 value={formData.title}
                 onChange={(e) => setFormData({...formData, title: e.target.value})}
                 placeholder="Report Title"
+                isInvalid={!!fieldErrors.title}
               />
+              <Form.Control.Feedback type="invalid">{fieldErrors.title?.[0]}</Form.Control.Feedback>
             </Form.Group>
             <Form.Group className="mb-3">
               <Form.Label>Description</Form.Label>
@@ -650,9 +882,9 @@ const AdminReportsEditor: React.FC<AdminReportsEditorProps> = ({ onStatsUpdate }
                       <Form.Label>Shared Dataset ID</Form.Label>
                       <Form.Control
                         type="text"
-                        value={formData.coreDatasetId}
-                        onChange={(e) => setFormData({...formData, coreDatasetId: e.target.value})}
-                        placeholder="Core/Shared Dataset ID"
+                        value={formData.sharedDatasetId}
+                        onChange={(e) => setFormData({...formData, sharedDatasetId: e.target.value})}
+                        placeholder="Shared Dataset ID"
                       />
                     </Form.Group>
                   </Col>
@@ -702,6 +934,134 @@ const AdminReportsEditor: React.FC<AdminReportsEditorProps> = ({ onStatsUpdate }
               </Card.Body>
             </Card>
 
+            {/* Row-level security: roles the viewer's identity is embedded with */}
+            <Card className="mb-3">
+              <Card.Header className="d-flex align-items-center">
+                <Shield size={16} className="me-2" />
+                <strong>Row-Level Security</strong>
+              </Card.Header>
+              <Card.Body>
+                <Form.Check
+                  type="switch"
+                  id="rls-enabled"
+                  className="mb-3"
+                  label="Embed as the signed-in user with RLS roles (turn off for datasets without RLS)"
+                  checked={rlsForm.enabled}
+                  onChange={(e) => setRlsForm({...rlsForm, enabled: e.target.checked})}
+                />
+
+                {rlsForm.enabled && (
+                  <>
+                    <Form.Group className="mb-3">
+                      <Form.Label>Default Roles</Form.Label>
+                      <Form.Control
+                        type="text"
+                        value={rlsForm.defaultRoles}
+                        onChange={(e) => setRlsForm({...rlsForm, defaultRoles: e.target.value})}
+                        placeholder="Server default"
+                      />
+                      <Form.Text className="text-muted">
+                        Comma-separated roles for departments without a mapping below. Leave empty for the server default.
+                      </Form.Text>
+                    </Form.Group>
+
+                    {/* Department → roles mappings */}
+                    <Form.Label>Department Roles</Form.Label>
+                    {rlsForm.departmentRoles.map((mapping, index) => (
+                      <Row key={index} className="g-2 mb-2">
+                        <Col md={5}>
+                          <Form.Select
+                            value={mapping.department}
+                            onChange={(e) => updateRlsMapping(index, { department: e.target.value })}
+                          >
+                            <option value="">Select department</option>
+                            {Object.keys(reportsData).map((department) => (
+                              <option key={department} value={department}>{department}</option>
+                            ))}
+                          </Form.Select>
+                        </Col>
+                        <Col md={6}>
+                          <Form.Control
+                            type="text"
+                            value={mapping.roles}
+                            onChange={(e) => updateRlsMapping(index, { roles: e.target.value })}
+                            placeholder="Roles (empty denies access)"
+                          />
+                        </Col>
+                        <Col md={1}>
+                          <Button
+                            variant="outline-danger"
+                            onClick={() => setRlsForm({...rlsForm, departmentRoles: rlsForm.departmentRoles.filter((_, i) => i !== index)})}
+                          >
+                            <Trash2 size={14} />
+                          </Button>
+                        </Col>
+                      </Row>
+                    ))}
+                    <Button
+                      variant="outline-primary"
+                      size="sm"
+                      onClick={() => setRlsForm({...rlsForm, departmentRoles: [...rlsForm.departmentRoles, { department: '', roles: '' }]})}
+                      className="d-flex align-items-center"
+                    >
+                      <Plus size={14} className="me-1" />
+                      Add Mapping
+                    </Button>
+                  </>
+                )}
+              </Card.Body>
+            </Card>
+
+            {/* Access control: who in the department may see the report */}
+            <Card className="mb-3">
+              <Card.Header className="d-flex align-items-center">
+                <Lock size={16} className="me-2" />
+                <strong>Access Control</strong>
+              </Card.Header>
+              <Card.Body>
+                <Form.Text className="text-muted d-block mb-3">
+                  Without allow entries every viewer of the department sees the report. Deny entries always win.
+                  Editors of the department are not restricted.
+                </Form.Text>
+                <Row>
+                  {(['allow', 'deny'] as const).map((list) => (
+                    <Col md={6} key={list}>
+                      <h6>{list === 'allow' ? 'Allow' : 'Deny'}</h6>
+                      <Form.Group className="mb-2">
+                        <Form.Label>Users</Form.Label>
+                        <Form.Control
+                          type="text"
+                          value={aclForm[list].users}
+                          onChange={(e) => updateAclList(list, { users: e.target.value })}
+                          placeholder="Comma-separated emails"
+                        />
+                      </Form.Group>
+                      <Form.Group className="mb-2">
+                        <Form.Label>Groups</Form.Label>
+                        <Form.Control
+                          type="text"
+                          value={aclForm[list].groups}
+                          onChange={(e) => updateAclList(list, { groups: e.target.value })}
+                          placeholder="Comma-separated directory group IDs"
+                        />
+                      </Form.Group>
+                      <Form.Label>Roles</Form.Label>
+                      {ROLES.map((role) => (
+                        <Form.Check
+                          key={role}
+                          type="checkbox"
+                          id={`acl-${list}-${role}`}
+                          label={ROLE_LABELS[role]}
+                          checked={aclForm[list].roles.includes(role)}
+                          onChange={() => toggleAclRole(list, role)}
+                        />
+                      ))}
+                    </Col>
+                  ))}
+                </Row>
+              </Card.Body>
+            </Card>
+
             {/* Manual Override Section for advanced users */}
             <Card>
               <Card.Header>
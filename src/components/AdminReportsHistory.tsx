@@ -0,0 +1,230 @@
+import React, { useState, useEffect } from 'react';
+import { Row, Col, Button, Alert, Spinner, Modal, ListGroup, Badge, ButtonGroup } from 'react-bootstrap';
+import { RotateCcw } from 'lucide-react';
+import { api, ApiSchemas } from '../api/client';
+import ChangesTable, { Change } from './ChangesTable';
+
+type RevisionInfo = ApiSchemas['RevisionInfo'];
+
+interface AdminReportsHistoryProps {
+  show: boolean;
+  onHide: () => void;
+  onRestored: () => void; // Called after a revision was restored so the editor can reload
+  etag: string | null; // ETag of the catalog the editor shows; the restore is refused when it is stale
+}
+
+type CompareMode = 'previous' | 'current';
+
+/**
+ * AdminReportsHistory Component - Revision history panel for the report catalog
+ *
+ * Every catalog save on the server creates a numbered revision. This panel lets admins:
+ * - Browse revisions with their author, time and summary
+ * - See what changed in a revision, or how it differs from the current catalog
+ * - Restore a revision (which itself is saved as a new revision)
+ */
+const AdminReportsHistory: React.FC<AdminReportsHistoryProps> = ({ show, onHide, onRestored, etag }) => {
+  // State management for revisions, the selected diff and UI controls
+  const [revisions, setRevisions] = useState<RevisionInfo[]>([]);
+  const [current, setCurrent] = useState(0);
+  const [selected, setSelected] = useState<number | null>(null);
+  const [compareMode, setCompareMode] = useState<CompareMode>('previous');
+  const [changes, setChanges] = useState<Change[]>([]);
+  const [loading, setLoading] = useState(false);
+  const [loadingDiff, setLoadingDiff] = useState(false);
+  const [restoring, setRestoring] = useState(false);
+  const [error, setError] = useState('');
+
+  /**
+   * Effect hook to (re)load the revision list whenever the panel opens
+   */
+  useEffect(() => {
+    if (show) {
+      fetchRevisions();
+    }
+  }, [show]);
+
+  /**
+   * Effect hook to load the diff for the selected revision and compare mode
+   */
+  useEffect(() => {
+    if (selected === null) return;
+
+    const [from, to] = compareMode === 'previous' ? [selected - 1, selected] : [selected, current];
+    if (from < 1 || from === to) {
+      setChanges([]);
+      return;
+    }
+
+    const fetchDiff = async () => {
+      setLoadingDiff(true);
+      setError('');
+      try {
+        const { data } = await api.GET('/api/admin/reports/revisions/diff', { params: { query: { from, to } } });
+        if (!data) {
+          throw new Error('Failed to load revision changes');
+        }
+        setChanges(data.changes || []);
+      } catch (err) {
+        setError((err as Error).message);
+      } finally {
+        setLoadingDiff(false);
+      }
+    };
+
+    fetchDiff();
+  }, [selected, compareMode, current]);
+
+  /**
+   * Fetches the list of revisions and selects the newest one
+   */
+  const fetchRevisions = async () => {
+    setLoading(true);
+    setError('');
+    try {
+      const { data } = await api.GET('/api/admin/reports/revisions');
+      if (!data) {
+        throw new Error('Failed to load revision history');
+      }
+
+      setRevisions(data.revisions || []);
+      setCurrent(data.current || 0);
+      setSelected(data.current || null);
+    } catch (err) {
+      setError((err as Error).message);
+    } finally {
+      setLoading(false);
+    }
+  };
+
+  /**
+   * Restores the selected revision after confirmation
+   */
+  const handleRestore = async () => {
+    if (selected === null || !confirm(`Restore revision ${selected}? The current catalog will be replaced (and kept as a revision).`)) {
+      return;
+    }
+
+    setRestoring(true);
+    setError('');
+    try {
+      const { error } = await api.POST('/api/admin/reports/revisions/{revision}/restore', {
+        params: { path: { revision: String(selected) }, header: { 'If-Match': etag || '' } },
+      });
+      if (error) {
+        throw new Error(error.error || 'Failed to restore revision');
+      }
+
+      onRestored();
+      onHide();
+    } catch (err) {
+      setError((err as Error).message);
+    } finally {
+      setRestoring(false);
+    }
+  };
+
+  const selectedInfo = revisions.find(r => r.revision === selected);
+
+  return (
+    <Modal show={show} onHide={onHide} size="xl">
+      <Modal.Header closeButton>
+        <Modal.Title>Catalog History</Modal.Title>
+      </Modal.Header>
+      <Modal.Body>
+        {/* Error message display */}
+        {error && (
+          <Alert variant="danger" className="mb-3">
+            {error}
+          </Alert>
+        )}
+
+        {loading ? (
+          <div className="text-center">
+            <Spinner animation="border" variant="primary" />
+            <p className="mt-2">Loading history...</p>
+          </div>
+        ) : revisions.length === 0 ? (
+          <p className="text-muted text-center mb-0">No revisions yet. Saving the catalog creates the first one.</p>
+        ) : (
+          <Row>
+            {/* Revision list */}
+            <Col md={4} style={{ maxHeight: '60vh', overflowY: 'auto' }}>
+              <ListGroup>
+                {revisions.map((revision) => (
+                  <ListGroup.Item
+                    key={revision.revision}
+                    action
+                    active={revision.revision === selected}
+                    onClick={() => setSelected(revision.revision)}
+                  >
+                    <div className="d-flex justify-content-between">
+                      <strong>#{revision.revision}</strong>
+                      {revision.revision === current && <Badge bg="success">Current</Badge>}
+                    </div>
+                    <div className="small">{revision.summary || 'Saved'}</div>
+                    <small className={revision.revision === selected ? '' : 'text-muted'}>
+                      {new Date(revision.createdAt).toLocaleString()}
+                      {revision.actor && ` · ${revision.actor}`}
+                    </small>
+                  </ListGroup.Item>
+                ))}
+              </ListGroup>
+            </Col>
+
+            {/* Changes for the selected revision */}
+            <Col md={8}>
+              {selectedInfo && (
+                <>
+                  <div className="d-flex justify-content-between align-items-center mb-3">
+                    <ButtonGroup size="sm">
+                      <Button
+                        variant={compareMode === 'previous' ? 'primary' : 'outline-primary'}
+                        onClick={() => setCompareMode('previous')}
+                      >
+                        Changes in #{selectedInfo.revision}
+                      </Button>
+                      <Button
+                        variant={compareMode === 'current' ? 'primary' : 'outline-primary'}
+                        onClick={() => setCompareMode('current')}
+                        disabled={selectedInfo.revision === current}
+                      >
+                        Compare with current
+                      </Button>
+                    </ButtonGroup>
+                    <Button
+                      variant="warning"
+                      size="sm"
+                      onClick={handleRestore}
+                      disabled={restoring || selectedInfo.revision === current}
+                      className="d-flex align-items-center"
+                    >
+                      <RotateCcw size={14} className="me-1" />
+                      {restoring ? 'Restoring...' : `Restore #${selectedInfo.revision}`}
+                    </Button>
+                  </div>
+
+                  {loadingDiff ? (
+                    <div className="text-center">
+                      <Spinner animation="border" size="sm" variant="primary" />
+                    </div>
+                  ) : compareMode === 'previous' && selectedInfo.revision === 1 ? (
+                    <p className="text-muted small">This is the first revision.</p>
+                  ) : changes.length === 0 ? (
+                    <p className="text-muted small">No differences.</p>
+                  ) : (
+                    <div style={{ maxHeight: '55vh', overflowY: 'auto' }}>
+                      <ChangesTable changes={changes} />
+                    </div>
+                  )}
+                </>
+              )}
+            </Col>
+          </Row>
+        )}
+      </Modal.Body>
+    </Modal>
+  );
+};
+
+export default AdminReportsHistory;
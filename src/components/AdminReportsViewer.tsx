@@ -1,27 +1,36 @@
 import React, { useState, useEffect } from 'react';
 import { Row, Col, Card, Button, Spinner, Alert, Badge } from 'react-bootstrap';
 import { Eye, RefreshCw } from 'lucide-react';
-import { API_ENDPOINTS } from '../config/api';
+import { api, ApiSchemas } from '../api/client';
 import PowerBIViewer from './PowerBIViewer';
 
-// Type definition for report data structure
-interface Report {
-  id: string;
-  title: string;
-  description: string;
-  icon: string;
-  powerBIReportId: string;
-  clientId?: string;
-  reportId?: string;
-  datasetId?: string;
-  sharedDatasetId?: string;
-  embedUrl?: string;
-  embedToken?: string;
-  tenantId?: string;
-  isActive: boolean;
-  department: string;
+type CatalogReport = ApiSchemas['CatalogReport'];
+
+// A catalog report with its department, plus the embed token the viewer was opened with
+interface Report extends CatalogReport {
+  embedTokenExpiration?: string;
 }
 
+/**
+ * Requests a fresh embed token and URL for a report
+ * Used both when opening a report and when the viewer renews an expiring token
+ *
+ * @param report - Report object containing PowerBI configuration
+ * @returns Promise with embedToken, embedUrl and the token's expiration
+ */
+const fetchEmbedDetails = async (report: Report) => {
+  // The server embeds the datasets of the report's catalog entry
+  const { data, error } = await api.POST('/api/reports/generate-embed', {
+    body: { reportId: report.reportId },
+  });
+
+  if (!data) {
+    throw new Error(error?.error || 'Failed to generate embed token');
+  }
+
+  return data; // { embedToken, embedUrl, expiration }
+};
+
 /**
  * AdminReportsViewer Component - Interface for admins to preview all system reports
  * 
@@ -62,21 +71,12 @@ const AdminReportsViewer: React.FC = () => {
     setLoading(true);
     setError('');
     try {
-      const token = localStorage.getItem('jwt_token');
-      const response = await fetch(API_ENDPOINTS.adminAllReports, {
-        headers: {
-          'Authorization': `Bearer ${token}`,
-          'Content-Type': 'application/json',
-        },
-      });
+      const { data } = await api.GET('/api/admin/all-reports');
 
-      if (!response.ok) {
+      if (!data) {
         throw new Error('Failed to fetch reports');
       }
 
-      const data = await response.json();
-      console.log('Fetched reports data:', data);
-      
       // Validate data structure before setting state
       if (data.reports && Array.isArray(data.reports)) {
         setReports(data.reports);
@@ -110,40 +110,15 @@ const AdminReportsViewer: React.FC = () => {
     setError('');
     
     try {
-      const token = localStorage.getItem('jwt_token');
-      
       // Generate fresh embed token and URL for security
-      const requestBody: any = {
-        reportId: report.reportId,
-        datasetId: report.datasetId
-      };
-      
-      // Only include sharedDatasetId if it exists
-      if (report.sharedDatasetId) {
-        requestBody.sharedDatasetId = report.sharedDatasetId;
-      }
-      
-      const response = await fetch(API_ENDPOINTS.generateEmbed, {
-        method: 'POST',
-        headers: {
-          'Authorization': `Bearer ${token}`,
-          'Content-Type': 'application/json',
-        },
-        body: JSON.stringify(requestBody),
-      });
-
-      if (!response.ok) {
-        const errorData = await response.json();
-        throw new Error(errorData.error || 'Failed to generate embed token');
-      }
-
-      const { embedToken, embedUrl } = await response.json();
+      const { embedToken, embedUrl, expiration } = await fetchEmbedDetails(report);
       
       // Create updated report object with fresh embed details
       const updatedReport = {
         ...report,
         embedToken,
-        embedUrl
+        embedUrl,
+        embedTokenExpiration: expiration
       };
       
       setSelectedReport(updatedReport);
@@ -168,10 +143,12 @@ const AdminReportsViewer: React.FC = () => {
           reportId: selectedReport.reportId,
           embedUrl: selectedReport.embedUrl,
           embedToken: selectedReport.embedToken,
+          embedTokenExpiration: selectedReport.embedTokenExpiration,
           tenantId: selectedReport.tenantId,
           clientId: selectedReport.clientId
         }}
         onBack={() => setSelectedReport(null)}
+        onTokenRefresh={() => fetchEmbedDetails(selectedReport)}
       />
     );
   }
@@ -0,0 +1,551 @@
+import React, { useState, useEffect } from 'react';
+import { Row, Col, Card, Button, Form, Alert, Spinner, Table, Badge } from 'react-bootstrap';
+import { Plus, Save, Trash2, Network, FlaskConical } from 'lucide-react';
+import { api, publicApi, ApiSchemas } from '../api/client';
+import { ROLES, ROLE_LABELS, Role } from '@shared/permissions';
+import { FieldErrors, GRAPH_ATTRIBUTES, GraphAttribute, isValidationErrorBody, saveSsoMappingSchema, toFieldErrors } from '@shared/schemas';
+
+// SSO mapping rules and settings; see auth-server/ssoMapping.ts
+type SsoMapping = ApiSchemas['SsoMapping'];
+type SsoMappingRule = ApiSchemas['SsoMappingRule'];
+type SsoMappingResult = ApiSchemas['SsoMappingResult'];
+type SsoRuleSource = SsoMappingRule['source'];
+type SsoProvider = ApiSchemas['SsoProvider'];
+
+// Sample sign-in for the preview; lists are kept as comma-separated text while typing
+interface TestIdentityForm {
+  provider: string;
+  groups: string;
+  appRoles: string;
+  attributes: Partial<Record<GraphAttribute, string>>;
+}
+
+const SOURCE_LABELS: Record<SsoRuleSource, string> = {
+  'group': 'AAD group ID',
+  'app-role': 'App role',
+  'attribute': 'Graph attribute',
+};
+
+// Rules saved before there were several identity providers are for Azure AD
+const DEFAULT_PROVIDER = 'azure';
+
+const emptyTestIdentity: TestIdentityForm = { provider: DEFAULT_PROVIDER, groups: '', appRoles: '', attributes: {} };
+
+const parseList = (text: string) => text.split(',').map(item => item.trim()).filter(Boolean);
+
+/**
+ * AdminSsoMapping Component - Rules mapping Azure AD sign-ins to portal departments and roles
+ *
+ * This component provides administrators with the ability to:
+ * - Map AAD group IDs, app roles and Graph profile attributes of one identity provider's
+ *   sign-ins to departments and a role
+ * - Choose what SSO users no rule matches get (Graph department, fallback department, default role)
+ * - Preview the outcome for a sample sign-in against the unsaved rules
+ *
+ * Features:
+ * - Inline rule table with per-rule department checkboxes and role
+ * - Matched rules highlighted after a preview
+ * - Rules apply on the next SSO sign-in; existing sessions keep their claims
+ */
+const AdminSsoMapping: React.FC = () => {
+  // State management for the mapping and UI controls
+  const [mapping, setMapping] = useState<SsoMapping | null>(null);
+  const [departments, setDepartments] = useState<string[]>([]);
+  const [providers, setProviders] = useState<SsoProvider[]>([]);
+  const [loading, setLoading] = useState(true);
+  const [saving, setSaving] = useState(false);
+  const [testing, setTesting] = useState(false);
+  const [error, setError] = useState('');
+  const [success, setSuccess] = useState('');
+  const [fieldErrors, setFieldErrors] = useState<FieldErrors>({});
+  const [testIdentity, setTestIdentity] = useState<TestIdentityForm>(emptyTestIdentity);
+  const [testResult, setTestResult] = useState<SsoMappingResult | null>(null);
+
+  /**
+   * Effect hook to load the mapping and departments when component mounts
+   */
+  useEffect(() => {
+    fetchMapping();
+    fetchDepartments();
+    fetchProviders();
+  }, []);
+
+  /**
+   * Fetches the saved mapping from the backend
+   */
+  const fetchMapping = async () => {
+    setLoading(true);
+    setError('');
+    try {
+      const { data, response } = await api.GET('/api/admin/sso-mapping');
+
+      if (!data) {
+        if (response.status === 403) {
+          throw new Error('Admin access required');
+        }
+        throw new Error('Failed to fetch SSO mapping');
+      }
+
+      setMapping(data.mapping);
+    } catch (err) {
+      console.error('Error fetching SSO mapping:', err);
+      setError((err as Error).message);
+    } finally {
+      setLoading(false);
+    }
+  };
+
+  /**
+   * Fetches the department list used by the department selectors
+   */
+  const fetchDepartments = async () => {
+    try {
+      const { data } = await api.GET('/api/admin/departments');
+      if (data) {
+        setDepartments(data.departments || []);
+      }
+    } catch (err) {
+      console.error('Error fetching departments:', err);
+    }
+  };
+
+  /**
+   * Fetches the configured identity providers used by the provider selectors
+   */
+  const fetchProviders = async () => {
+    try {
+      const { data } = await publicApi.GET('/auth/providers');
+      if (data) {
+        const configured = data.providers || [];
+        setProviders(configured);
+        // Preview sign-ins through a configured provider unless Azure AD is one of them
+        if (configured.length > 0 && !configured.some(provider => provider.id === DEFAULT_PROVIDER)) {
+          setTestIdentity(identity => ({ ...identity, provider: configured[0].id }));
+        }
+      }
+    } catch (err) {
+      console.error('Error fetching SSO providers:', err);
+    }
+  };
+
+  /**
+   * Updates one rule of the mapping
+   *
+   * @param id - Rule to update
+   * @param changes - Fields to change
+   */
+  const updateRule = (id: string, changes: Partial<SsoMappingRule>) => {
+    if (!mapping) return;
+    setMapping({ ...mapping, rules: mapping.rules.map(rule => (rule.id === id ? { ...rule, ...changes } : rule)) });
+    setTestResult(null);
+  };
+
+  /**
+   * Adds or removes a department granted by a rule
+   */
+  const toggleRuleDepartment = (rule: SsoMappingRule, department: string, checked: boolean) => {
+    updateRule(rule.id, {
+      departments: checked ? [...rule.departments, department] : rule.departments.filter(d => d !== department)
+    });
+  };
+
+  /**
+   * Appends an empty group rule
+   */
+  const handleAddRule = () => {
+    if (!mapping) return;
+    const provider = providers[0]?.id || DEFAULT_PROVIDER;
+    const rule: SsoMappingRule = { id: crypto.randomUUID(), provider, source: 'group', value: '', departments: [] };
+    setMapping({ ...mapping, rules: [...mapping.rules, rule] });
+  };
+
+  const handleRemoveRule = (id: string) => {
+    if (!mapping) return;
+    setMapping({ ...mapping, rules: mapping.rules.filter(rule => rule.id !== id) });
+    setFieldErrors({}); // Keyed by rule position, which just changed
+    setTestResult(null);
+  };
+
+  // First problem with a field of the rule at the given position, from the last save attempt
+  const ruleError = (index: number, field: string) => fieldErrors[`mapping.rules.${index}.${field}`]?.[0];
+
+  /**
+   * Saves the mapping; it applies from the next SSO sign-in
+   */
+  const handleSave = async () => {
+    if (!mapping) return;
+
+    // Check the rules against the server's schema before sending them
+    const parsed = saveSsoMappingSchema.safeParse({ mapping });
+    setFieldErrors(parsed.success ? {} : toFieldErrors(parsed.error));
+    if (!parsed.success) return;
+
+    setSaving(true);
+    setError('');
+    setSuccess('');
+    try {
+      const { data, error: errorData } = await api.PUT('/api/admin/sso-mapping', { body: { mapping } });
+
+      if (!data) {
+        if (isValidationErrorBody(errorData)) {
+          setFieldErrors(errorData.fieldErrors);
+          return;
+        }
+        throw new Error(errorData?.error || 'Failed to save SSO mapping');
+      }
+
+      setMapping(data.mapping);
+      setSuccess('SSO mapping saved successfully!');
+      setTimeout(() => setSuccess(''), 3000);
+    } catch (err) {
+      console.error('Error saving SSO mapping:', err);
+      setError((err as Error).message);
+    } finally {
+      setSaving(false);
+    }
+  };
+
+  /**
+   * Evaluates the current (possibly unsaved) rules for the sample sign-in
+   */
+  const handleTest = async () => {
+    if (!mapping) return;
+    setTesting(true);
+    setError('');
+    try {
+      const { data, error: errorData } = await api.POST('/api/admin/sso-mapping/test', {
+        body: {
+          mapping,
+          identity: {
+            provider: testIdentity.provider,
+            groups: parseList(testIdentity.groups),
+            appRoles: parseList(testIdentity.appRoles),
+            attributes: testIdentity.attributes,
+          },
+        },
+      });
+
+      if (!data) {
+        throw new Error(errorData?.error || 'Failed to test SSO mapping');
+      }
+
+      setTestResult(data.result);
+    } catch (err) {
+      console.error('Error testing SSO mapping:', err);
+      setError((err as Error).message);
+    } finally {
+      setTesting(false);
+    }
+  };
+
+  // Loading state display
+  if (loading) {
+    return (
+      <div className="text-center">
+        <Spinner animation="border" variant="primary" />
+        <p className="mt-2">Loading SSO mapping...</p>
+      </div>
+    );
+  }
+
+  // Keep departments of existing rules selectable even if the department was removed
+  const departmentOptions = [...new Set([...departments, ...(mapping?.rules.flatMap(rule => rule.departments) || [])])];
+
+  // Likewise for providers removed from the configuration, which are shown by ID
+  const providerOptions = [...new Set([
+    ...providers.map(provider => provider.id),
+    ...(mapping?.rules.map(rule => rule.provider) || []),
+    testIdentity.provider,
+  ])];
+  const providerName = (id: string) => providers.find(provider => provider.id === id)?.name || id;
+
+  return (
+    <>
+      {/* Header section with title and actions */}
+      <Row className="mb-4">
+        <Col>
+          <div className="d-flex justify-content-between align-items-center">
+            <h5 className="d-flex align-items-center">
+              <Network size={20} className="me-2" />
+              SSO Mapping
+            </h5>
+            <div className="d-flex gap-2">
+              <Button variant="outline-primary" onClick={handleAddRule} disabled={!mapping} className="d-flex align-items-center">
+                <Plus size={16} className="me-1" />
+                Add Rule
+              </Button>
+              <Button variant="primary" onClick={handleSave} disabled={!mapping || saving} className="d-flex align-items-center">
+                {saving ? <Spinner size="sm" className="me-1" /> : <Save size={16} className="me-1" />}
+                Save Mapping
+              </Button>
+            </div>
+          </div>
+        </Col>
+      </Row>
+
+      {/* Error and success message displays */}
+      {error && (
+        <Alert variant="danger" className="mb-3">
+          {error}
+        </Alert>
+      )}
+
+      {success && (
+        <Alert variant="success" className="mb-3">
+          {success}
+        </Alert>
+      )}
+
+      {mapping && (
+        <>
+          {/* Rules table */}
+          <Card className="mb-4">
+            <Card.Header>
+              <strong>Rules</strong>
+              <small className="text-muted ms-2">
+                Rules only match sign-ins through their provider. Users get the departments of every matching rule and the most privileged matching role.
+              </small>
+            </Card.Header>
+            <Card.Body>
+              {mapping.rules.length > 0 ? (
+                <Table responsive className="mb-0 align-middle">
+                  <thead>
+                    <tr>
+                      <th>#</th>
+                      <th>Provider</th>
+                      <th>Match</th>
+                      <th>Value</th>
+                      <th>Departments</th>
+                      <th>Role</th>
+                      <th></th>
+                    </tr>
+                  </thead>
+                  <tbody>
+                    {mapping.rules.map((rule, index) => (
+                      <tr key={rule.id} className={testResult?.matchedRuleIds.includes(rule.id) ? 'table-success' : ''}>
+                        <td>{index + 1}</td>
+                        <td>
+                          <Form.Select
+                            size="sm"
+                            value={rule.provider}
+                            onChange={(e) => updateRule(rule.id, { provider: e.target.value })}
+                            isInvalid={!!ruleError(index, 'provider')}
+                          >
+                            {providerOptions.map((provider) => (
+                              <option key={provider} value={provider}>{providerName(provider)}</option>
+                            ))}
+                          </Form.Select>
+                          <Form.Control.Feedback type="invalid">{ruleError(index, 'provider')}</Form.Control.Feedback>
+                        </td>
+                        <td>
+                          <Form.Select
+                            size="sm"
+                            value={rule.source}
+                            onChange={(e) => {
+                              const source = e.target.value as SsoRuleSource;
+                              updateRule(rule.id, { source, attribute: source === 'attribute' ? 'department' : undefined });
+                            }}
+                          >
+                            {Object.entries(SOURCE_LABELS).map(([source, label]) => (
+                              <option key={source} value={source}>{label}</option>
+                            ))}
+                          </Form.Select>
+                          {rule.source === 'attribute' && (
+                            <Form.Select
+                              size="sm"
+                              className="mt-1"
+                              value={rule.attribute}
+                              onChange={(e) => updateRule(rule.id, { attribute: e.target.value as GraphAttribute })}
+                              isInvalid={!!ruleError(index, 'attribute')}
+                            >
+                              {GRAPH_ATTRIBUTES.map((attribute) => (
+                                <option key={attribute} value={attribute}>{attribute}</option>
+                              ))}
+                            </Form.Select>
+                          )}
+                          <Form.Control.Feedback type="invalid" className="d-block">{ruleError(index, 'attribute')}</Form.Control.Feedback>
+                        </td>
+                        <td>
+                          <Form.Control
+                            size="sm"
+                            type="text"
+                            value={rule.value}
+                            onChange={(e) => updateRule(rule.id, { value: e.target.value })}
+                            placeholder={rule.source === 'group' ? 'Group object ID' : 'Value (case-insensitive)'}
+                            isInvalid={!!ruleError(index, 'value')}
+                          />
+                          <Form.Control.Feedback type="invalid">{ruleError(index, 'value')}</Form.Control.Feedback>
+                        </td>
+                        <td>
+                          {departmentOptions.map((department) => (
+                            <Form.Check
+                              key={department}
+                              inline
+                              type="checkbox"
+                              id={`sso-rule-${rule.id}-${department}`}
+                              label={department}
+                              checked={rule.departments.includes(department)}
+                              onChange={(e) => toggleRuleDepartment(rule, department, e.target.checked)}
+                            />
+                          ))}
+                          <Form.Control.Feedback type="invalid" className="d-block">{ruleError(index, 'departments')}</Form.Control.Feedback>
+                        </td>
+                        <td>
+                          <Form.Select
+                            size="sm"
+                            value={rule.role || ''}
+                            onChange={(e) => updateRule(rule.id, { role: (e.target.value || undefined) as Role | undefined })}
+                          >
+                            <option value="">No role</option>
+                            {ROLES.map((role) => (
+                              <option key={role} value={role}>{ROLE_LABELS[role]}</option>
+                            ))}
+                          </Form.Select>
+                        </td>
+                        <td className="text-end">
+                          <Button variant="outline-danger" size="sm" onClick={() => handleRemoveRule(rule.id)} title="Remove rule">
+                            <Trash2 size={14} />
+                          </Button>
+                        </td>
+                      </tr>
+                    ))}
+                  </tbody>
+                </Table>
+              ) : (
+                // Empty state display
+                <div className="text-center py-4">
+                  <p className="text-muted mb-0">No rules - every SSO user gets the defaults below</p>
+                </div>
+              )}
+            </Card.Body>
+          </Card>
+
+          <Row>
+            {/* Defaults for sign-ins no rule maps */}
+            <Col md={6} className="mb-4">
+              <Card className="h-100">
+                <Card.Header>
+                  <strong>Defaults</strong>
+                </Card.Header>
+                <Card.Body>
+                  <Form.Check
+                    type="switch"
+                    id="sso-use-graph-department"
+                    className="mb-3"
+                    label="Use the Graph department when no rule grants a department"
+                    checked={mapping.useGraphDepartment}
+                    onChange={(e) => setMapping({ ...mapping, useGraphDepartment: e.target.checked })}
+                  />
+                  <Form.Group className="mb-3">
+                    <Form.Label>Fallback Department</Form.Label>
+                    <Form.Control
+                      type="text"
+                      list="sso-departments"
+                      value={mapping.fallbackDepartment}
+                      onChange={(e) => setMapping({ ...mapping, fallbackDepartment: e.target.value })}
+                      isInvalid={!!fieldErrors['mapping.fallbackDepartment']}
+                    />
+                    <Form.Control.Feedback type="invalid">{fieldErrors['mapping.fallbackDepartment']?.[0]}</Form.Control.Feedback>
+                    <datalist id="sso-departments">
+                      {departments.map((department) => (
+                        <option key={department} value={department} />
+                      ))}
+                    </datalist>
+                  </Form.Group>
+                  <Form.Group>
+                    <Form.Label>Default Role</Form.Label>
+                    <Form.Select
+                      value={mapping.defaultRole}
+                      onChange={(e) => setMapping({ ...mapping, defaultRole: e.target.value as Role })}
+                    >
+                      {ROLES.map((role) => (
+                        <option key={role} value={role}>{ROLE_LABELS[role]}</option>
+                      ))}
+                    </Form.Select>
+                  </Form.Group>
+                </Card.Body>
+              </Card>
+            </Col>
+
+            {/* Preview for a sample sign-in */}
+            <Col md={6} className="mb-4">
+              <Card className="h-100">
+                <Card.Header className="d-flex align-items-center">
+                  <FlaskConical size={16} className="me-2" />
+                  <strong>Test Mapping for a User</strong>
+                </Card.Header>
+                <Card.Body>
+                  <Form onSubmit={(e) => { e.preventDefault(); handleTest(); }}>
+                    <Form.Group className="mb-2">
+                      <Form.Label>Provider</Form.Label>
+                      <Form.Select
+                        value={testIdentity.provider}
+                        onChange={(e) => setTestIdentity({ ...testIdentity, provider: e.target.value })}
+                      >
+                        {providerOptions.map((provider) => (
+                          <option key={provider} value={provider}>{providerName(provider)}</option>
+                        ))}
+                      </Form.Select>
+                    </Form.Group>
+                    <Form.Group className="mb-2">
+                      <Form.Label>Group IDs</Form.Label>
+                      <Form.Control
+                        type="text"
+                        value={testIdentity.groups}
+                        onChange={(e) => setTestIdentity({ ...testIdentity, groups: e.target.value })}
+                        placeholder="Comma-separated"
+                      />
+                    </Form.Group>
+                    <Form.Group className="mb-2">
+                      <Form.Label>App Roles</Form.Label>
+                      <Form.Control
+                        type="text"
+                        value={testIdentity.appRoles}
+                        onChange={(e) => setTestIdentity({ ...testIdentity, appRoles: e.target.value })}
+                        placeholder="Comma-separated"
+                      />
+                    </Form.Group>
+                    <Row className="g-2 mb-3">
+                      {GRAPH_ATTRIBUTES.map((attribute) => (
+                        <Col sm={6} key={attribute}>
+                          <Form.Control
+                            size="sm"
+                            type="text"
+                            value={testIdentity.attributes[attribute] || ''}
+                            onChange={(e) => setTestIdentity({
+                              ...testIdentity,
+                              attributes: { ...testIdentity.attributes, [attribute]: e.target.value }
+                            })}
+                            placeholder={attribute}
+                          />
+                        </Col>
+                      ))}
+                    </Row>
+                    <Button type="submit" variant="outline-primary" disabled={testing} className="d-flex align-items-center">
+                      {testing ? <Spinner size="sm" className="me-1" /> : <FlaskConical size={16} className="me-1" />}
+                      Test
+                    </Button>
+                  </Form>
+
+                  {/* Preview result */}
+                  {testResult && (
+                    <Alert variant="info" className="mt-3 mb-0">
+                      <strong>Departments:</strong> {testResult.departments.join(', ')}<br />
+                      <strong>Role:</strong> <Badge bg="secondary">{ROLE_LABELS[testResult.role]}</Badge><br />
+                      <strong>Matched rules:</strong>{' '}
+                      {testResult.matchedRuleIds.length > 0
+                        ? testResult.matchedRuleIds.map(id => `#${mapping.rules.findIndex(rule => rule.id === id) + 1}`).join(', ')
+                        : 'none (defaults apply)'}
+                    </Alert>
+                  )}
+                </Card.Body>
+              </Card>
+            </Col>
+          </Row>
+        </>
+      )}
+    </>
+  );
+};
+
+export default AdminSsoMapping;
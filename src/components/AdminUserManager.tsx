@@ -0,0 +1,593 @@
+import React, { useState, useEffect } from 'react';
+import { Row, Col, Card, Button, Form, Alert, Spinner, Modal, Table, Badge } from 'react-bootstrap';
+import { Plus, Edit, KeyRound, ShieldOff, Unlock, UserX, UserCheck, Users } from 'lucide-react';
+import { api, ApiSchemas } from '../api/client';
+import { ROLES, ROLE_LABELS, Role, hasPermission } from '@shared/permissions';
+import { FieldErrors, MIN_PASSWORD_LENGTH, createUserSchema, isValidationErrorBody, toFieldErrors, updateUserSchema } from '@shared/schemas';
+
+// Users as returned by the admin API (no password hash)
+type PortalUser = ApiSchemas['AdminUser'];
+
+interface AdminUserManagerProps {
+  currentUserEmail: string;
+  onUsersChange?: () => void; // Callback for when users are added or modified
+}
+
+const emptyForm = {
+  email: '',
+  phone: '',
+  name: '',
+  departments: [] as string[],
+  role: 'viewer' as Role,
+  password: ''
+};
+
+// Badge colours for the role column, from least to most privileged
+const ROLE_BADGES: Record<Role, string> = {
+  'viewer': 'secondary',
+  'department-owner': 'info',
+  'catalog-admin': 'primary',
+  'super-admin': 'dark',
+};
+
+/**
+ * AdminUserManager Component - Interface for managing the manual-login user directory
+ *
+ * This component provides administrators with the ability to:
+ * - View all users with their departments, role and status
+ * - Create users with an initial password
+ * - Edit contact details, department assignments and role
+ * - Disable/enable accounts and reset passwords
+ *
+ * Features:
+ * - Modal-based create/edit form, with field errors (checked here and by the server) shown inline
+ * - One-time display of generated temporary passwords
+ * - Guards against admins disabling or demoting their own account
+ */
+const AdminUserManager: React.FC<AdminUserManagerProps> = ({ currentUserEmail, onUsersChange }) => {
+  // State management for user data and UI controls
+  const [users, setUsers] = useState<PortalUser[]>([]);
+  const [departments, setDepartments] = useState<string[]>([]);
+  const [loading, setLoading] = useState(true);
+  const [saving, setSaving] = useState(false);
+  const [error, setError] = useState('');
+  const [success, setSuccess] = useState('');
+  const [showModal, setShowModal] = useState(false);
+  const [editingUser, setEditingUser] = useState<PortalUser | null>(null);
+  const [formData, setFormData] = useState(emptyForm);
+  const [fieldErrors, setFieldErrors] = useState<FieldErrors>({});
+  const [temporaryPassword, setTemporaryPassword] = useState<{ email: string; password: string } | null>(null);
+
+  /**
+   * Effect hook to load users and departments when component mounts
+   */
+  useEffect(() => {
+    fetchUsers();
+    fetchDepartments();
+  }, []);
+
+  /**
+   * Fetches all users from the backend
+   */
+  const fetchUsers = async () => {
+    setLoading(true);
+    setError('');
+    try {
+      const { data, response } = await api.GET('/api/admin/users');
+
+      if (!data) {
+        if (response.status === 403) {
+          throw new Error('Admin access required');
+        }
+        throw new Error('Failed to fetch users');
+      }
+
+      setUsers(data.users || []);
+    } catch (err) {
+      console.error('Error fetching users:', err);
+      setError((err as Error).message);
+    } finally {
+      setLoading(false);
+    }
+  };
+
+  /**
+   * Fetches the department list used by the department selector
+   */
+  const fetchDepartments = async () => {
+    try {
+      const { data } = await api.GET('/api/admin/departments');
+      if (data) {
+        setDepartments(data.departments || []);
+      }
+    } catch (err) {
+      console.error('Error fetching departments:', err);
+    }
+  };
+
+  /**
+   * Shows a success message and notifies the parent of the change
+   */
+  const handleChangeSuccess = async (message: string) => {
+    setSuccess(message);
+    await fetchUsers();
+    if (onUsersChange) {
+      onUsersChange();
+    }
+    setTimeout(() => setSuccess(''), 3000);
+  };
+
+  /**
+   * Opens the modal for creating a new user
+   */
+  const handleAddUser = () => {
+    setEditingUser(null);
+    setFormData({ ...emptyForm, departments: departments.slice(0, 1) });
+    setFieldErrors({});
+    setShowModal(true);
+  };
+
+  /**
+   * Opens the modal pre-filled with an existing user's details
+   *
+   * @param user - User to edit
+   */
+  const handleEditUser = (user: PortalUser) => {
+    setEditingUser(user);
+    setFormData({
+      email: user.email,
+      phone: user.phone || '',
+      name: user.name || '',
+      departments: user.departments,
+      role: user.role,
+      password: ''
+    });
+    setFieldErrors({});
+    setShowModal(true);
+  };
+
+  /**
+   * Adds or removes a department in the form's department list
+   */
+  const toggleFormDepartment = (department: string, checked: boolean) => {
+    setFormData({
+      ...formData,
+      departments: checked
+        ? [...formData.departments, department]
+        : formData.departments.filter(d => d !== department)
+    });
+  };
+
+  /**
+   * Creates or updates a user depending on the modal mode
+   */
+  const handleSaveUser = async () => {
+    const { email, phone, name, departments, role, password } = formData;
+    const body = { phone, name, departments, role, ...(!editingUser && { email, password }) };
+
+    // Check the form against the server's schema before sending it
+    const parsed = (editingUser ? updateUserSchema : createUserSchema).safeParse(body);
+    setFieldErrors(parsed.success ? {} : toFieldErrors(parsed.error));
+    if (!parsed.success) return;
+
+    setSaving(true);
+    setError('');
+    setSuccess('');
+    try {
+      const { error: errorData } = editingUser
+        ? await api.PUT('/api/admin/users/{id}', { params: { path: { id: editingUser.id } }, body })
+        : await api.POST('/api/admin/users', { body: { ...body, email, password } });
+
+      if (errorData) {
+        // Invalid fields are shown next to the inputs; the modal stays open
+        if (isValidationErrorBody(errorData)) {
+          setFieldErrors(errorData.fieldErrors);
+          return;
+        }
+        throw new Error(errorData.error || 'Failed to save user');
+      }
+
+      setShowModal(false);
+      await handleChangeSuccess(editingUser ? 'User updated successfully!' : 'User created successfully!');
+    } catch (err) {
+      console.error('Error saving user:', err);
+      setError((err as Error).message);
+    } finally {
+      setSaving(false);
+    }
+  };
+
+  /**
+   * Enables or disables a user account
+   *
+   * @param user - User whose status should be toggled
+   */
+  const handleToggleDisabled = async (user: PortalUser) => {
+    const action = user.disabled ? 'enable' : 'disable';
+    if (!confirm(`Are you sure you want to ${action} ${user.email}?`)) {
+      return;
+    }
+
+    setError('');
+    setSuccess('');
+    try {
+      const { error: errorData } = await api.PUT('/api/admin/users/{id}', {
+        params: { path: { id: user.id } },
+        body: { disabled: !user.disabled },
+      });
+
+      if (errorData) {
+        throw new Error(errorData.error || `Failed to ${action} user`);
+      }
+
+      await handleChangeSuccess(`User ${action}d successfully!`);
+    } catch (err) {
+      console.error(`Error trying to ${action} user:`, err);
+      setError((err as Error).message);
+    }
+  };
+
+  /**
+   * Resets a user's password to a server-generated temporary password
+   *
+   * @param user - User whose password should be reset
+   */
+  const handleResetPassword = async (user: PortalUser) => {
+    if (!confirm(`Reset the password for ${user.email}? Their current password will stop working.`)) {
+      return;
+    }
+
+    setError('');
+    setSuccess('');
+    try {
+      const { data, error: errorData } = await api.POST('/api/admin/users/{id}/reset-password', {
+        params: { path: { id: user.id } },
+        body: {},
+      });
+
+      if (!data) {
+        throw new Error(errorData?.error || 'Failed to reset password');
+      }
+
+      setTemporaryPassword({ email: user.email, password: data.temporaryPassword });
+    } catch (err) {
+      console.error('Error resetting password:', err);
+      setError((err as Error).message);
+    }
+  };
+
+  /**
+   * Turns two-factor authentication off for a user who lost their authenticator
+   *
+   * @param user - User whose MFA should be reset
+   */
+  const handleResetMfa = async (user: PortalUser) => {
+    const consequence = user.mfaRequired
+      ? 'They will have to set it up again at their next sign-in.'
+      : 'They will sign in with their password only.';
+    if (!confirm(`Reset two-factor authentication for ${user.email}? ${consequence}`)) {
+      return;
+    }
+
+    setError('');
+    setSuccess('');
+    try {
+      const { error: errorData } = await api.POST('/api/admin/users/{id}/reset-mfa', {
+        params: { path: { id: user.id } },
+      });
+
+      if (errorData) {
+        throw new Error(errorData.error || 'Failed to reset two-factor authentication');
+      }
+
+      await handleChangeSuccess('Two-factor authentication reset successfully!');
+    } catch (err) {
+      console.error('Error resetting MFA:', err);
+      setError((err as Error).message);
+    }
+  };
+
+  /**
+   * Lifts a lockout caused by failed sign-in attempts
+   *
+   * @param user - Locked user
+   */
+  const handleUnlock = async (user: PortalUser) => {
+    setError('');
+    setSuccess('');
+    try {
+      const { error: errorData } = await api.POST('/api/admin/users/{id}/unlock', {
+        params: { path: { id: user.id } },
+      });
+
+      if (errorData) {
+        throw new Error(errorData.error || 'Failed to unlock user');
+      }
+
+      await handleChangeSuccess('User unlocked successfully!');
+    } catch (err) {
+      console.error('Error unlocking user:', err);
+      setError((err as Error).message);
+    }
+  };
+
+  // Loading state display
+  if (loading) {
+    return (
+      <div className="text-center">
+        <Spinner animation="border" variant="primary" />
+        <p className="mt-2">Loading users...</p>
+      </div>
+    );
+  }
+
+  return (
+    <>
+      {/* Header section with title and add button */}
+      <Row className="mb-4">
+        <Col>
+          <div className="d-flex justify-content-between align-items-center">
+            <h5 className="d-flex align-items-center">
+              <Users size={20} className="me-2" />
+              User Management
+            </h5>
+            <Button
+              variant="primary"
+              onClick={handleAddUser}
+              className="d-flex align-items-center"
+            >
+              <Plus size={16} className="me-1" />
+              Add User
+            </Button>
+          </div>
+        </Col>
+      </Row>
+
+      {/* Error and success message displays */}
+      {error && (
+        <Alert variant="danger" className="mb-3">
+          {error}
+        </Alert>
+      )}
+
+      {success && (
+        <Alert variant="success" className="mb-3">
+          {success}
+        </Alert>
+      )}
+
+      {/* Temporary password is only shown once, right after a reset */}
+      {temporaryPassword && (
+        <Alert variant="warning" className="mb-3" dismissible onClose={() => setTemporaryPassword(null)}>
+          Temporary password for <strong>{temporaryPassword.email}</strong>:{' '}
+          <code>{temporaryPassword.password}</code>
+          <br />
+          <small>Share it securely - it will not be shown again.</small>
+        </Alert>
+      )}
+
+      {/* Users table display */}
+      <Card>
+        <Card.Body>
+          {users.length > 0 ? (
+            <Table responsive hover className="mb-0 align-middle">
+              <thead>
+                <tr>
+                  <th>User</th>
+                  <th>Phone</th>
+                  <th>Departments</th>
+                  <th>Role</th>
+                  <th>Status</th>
+                  <th className="text-end">Actions</th>
+                </tr>
+              </thead>
+              <tbody>
+                {users.map((user) => {
+                  const isSelf = user.email === currentUserEmail;
+                  return (
+                    <tr key={user.id} className={user.disabled ? 'opacity-50' : ''}>
+                      <td>
+                        <div className="fw-bold">{user.name || user.email}</div>
+                        {user.name && <small className="text-muted">{user.email}</small>}
+                      </td>
+                      <td>{user.phone || '-'}</td>
+                      <td>{user.departments.join(', ')}</td>
+                      <td>
+                        <Badge bg={ROLE_BADGES[user.role]}>
+                          {ROLE_LABELS[user.role]}
+                        </Badge>
+                      </td>
+                      <td>
+                        <Badge bg={user.disabled ? 'danger' : 'success'}>
+                          {user.disabled ? 'Disabled' : 'Active'}
+                        </Badge>
+                        {user.mfaEnabled ? (
+                          <Badge bg="info" className="ms-1">MFA</Badge>
+                        ) : user.mfaRequired && (
+                          <Badge bg="secondary" className="ms-1" title="Will set up two-factor authentication at next sign-in">
+                            MFA pending
+                          </Badge>
+                        )}
+                        {user.lockedUntil && (
+                          <Badge bg="warning" text="dark" className="ms-1" title={`Locked until ${new Date(user.lockedUntil).toLocaleString()}`}>
+                            Locked
+                          </Badge>
+                        )}
+                      </td>
+                      <td className="text-end">
+                        <div className="d-flex gap-2 justify-content-end">
+                          <Button variant="outline-primary" size="sm" onClick={() => handleEditUser(user)} title="Edit user">
+                            <Edit size={14} />
+                          </Button>
+                          <Button variant="outline-warning" size="sm" onClick={() => handleResetPassword(user)} title="Reset password">
+                            <KeyRound size={14} />
+                          </Button>
+                          {user.mfaEnabled && (
+                            <Button variant="outline-secondary" size="sm" onClick={() => handleResetMfa(user)} title="Reset two-factor authentication">
+                              <ShieldOff size={14} />
+                            </Button>
+                          )}
+                          {user.lockedUntil && (
+                            <Button variant="outline-success" size="sm" onClick={() => handleUnlock(user)} title="Unlock account">
+                              <Unlock size={14} />
+                            </Button>
+                          )}
+                          <Button
+                            variant={user.disabled ? 'outline-success' : 'outline-danger'}
+                            size="sm"
+                            onClick={() => handleToggleDisabled(user)}
+                            disabled={isSelf} // Prevent admins from disabling themselves
+                            title={isSelf ? 'You cannot disable your own account' : user.disabled ? 'Enable user' : 'Disable user'}
+                          >
+                            {user.disabled ? <UserCheck size={14} /> : <UserX size={14} />}
+                          </Button>
+                        </div>
+                      </td>
+                    </tr>
+                  );
+                })}
+              </tbody>
+            </Table>
+          ) : (
+            // Empty state display
+            <div className="text-center py-4">
+              <p className="text-muted mb-0">No users found</p>
+            </div>
+          )}
+        </Card.Body>
+      </Card>
+
+      {/* Add/Edit User Modal */}
+      <Modal show={showModal} onHide={() => setShowModal(false)}>
+        <Modal.Header closeButton>
+          <Modal.Title>{editingUser ? 'Edit User' : 'Add New User'}</Modal.Title>
+        </Modal.Header>
+        <Modal.Body>
+          <Form onSubmit={(e) => { e.preventDefault(); handleSaveUser(); }}>
+            <Form.Group className="mb-3">
+              <Form.Label>Email Address</Form.Label>
+              <Form.Control
+                type="email"
+                value={formData.email}
+                onChange={(e) => setFormData({ ...formData, email: e.target.value })}
+                placeholder="user@company.com"
+                disabled={!!editingUser} // Email is the login identifier and cannot change
+                isInvalid={!!fieldErrors.email}
+                required
+              />
+              <Form.Control.Feedback type="invalid">{fieldErrors.email?.[0]}</Form.Control.Feedback>
+            </Form.Group>
+            <Row>
+              <Col md={6}>
+                <Form.Group className="mb-3">
+                  <Form.Label>Name</Form.Label>
+                  <Form.Control
+                    type="text"
+                    value={formData.name}
+                    onChange={(e) => setFormData({ ...formData, name: e.target.value })}
+                    placeholder="Full name"
+                    isInvalid={!!fieldErrors.name}
+                  />
+                  <Form.Control.Feedback type="invalid">{fieldErrors.name?.[0]}</Form.Control.Feedback>
+                </Form.Group>
+              </Col>
+              <Col md={6}>
+                <Form.Group className="mb-3">
+                  <Form.Label>Phone</Form.Label>
+                  <Form.Control
+                    type="tel"
+                    value={formData.phone}
+                    onChange={(e) => setFormData({ ...formData, phone: e.target.value })}
+                    placeholder="+44 7700 900123"
+                    isInvalid={!!fieldErrors.phone}
+                  />
+                  <Form.Control.Feedback type="invalid">{fieldErrors.phone?.[0]}</Form.Control.Feedback>
+                </Form.Group>
+              </Col>
+            </Row>
+            <Form.Group className="mb-3">
+              <Form.Label>Departments</Form.Label>
+              {/* Keep current values selectable even if the department was removed */}
+              {[...departments, ...formData.departments.filter(d => !departments.includes(d))].map((department) => (
+                <Form.Check
+                  key={department}
+                  type="checkbox"
+                  id={`user-department-${department}`}
+                  label={department}
+                  checked={formData.departments.includes(department)}
+                  onChange={(e) => toggleFormDepartment(department, e.target.checked)}
+                  isInvalid={!!fieldErrors.departments}
+                />
+              ))}
+              {fieldErrors.departments && <div className="invalid-feedback d-block">{fieldErrors.departments[0]}</div>}
+              <Form.Text className="text-muted">
+                Users in several departments can switch between them on their dashboard.
+              </Form.Text>
+            </Form.Group>
+            <Form.Group className="mb-3">
+              <Form.Label>Role</Form.Label>
+              <Form.Select
+                value={formData.role}
+                onChange={(e) => setFormData({ ...formData, role: e.target.value as Role })}
+                isInvalid={!!fieldErrors.role}
+              >
+                {/* Users cannot take away their own access to user management */}
+                {ROLES.map((role) => (
+                  <option
+                    key={role}
+                    value={role}
+                    disabled={editingUser?.email === currentUserEmail && !hasPermission({ role }, 'users:manage')}
+                  >
+                    {ROLE_LABELS[role]}
+                  </option>
+                ))}
+              </Form.Select>
+              <Form.Control.Feedback type="invalid">{fieldErrors.role?.[0]}</Form.Control.Feedback>
+              <Form.Text className="text-muted">
+                Department owners manage their own department's reports; catalog admins manage all reports and departments; super admins also manage users and the audit log.
+              </Form.Text>
+            </Form.Group>
+            {/* Initial password is only set on creation; use reset for existing users */}
+            {!editingUser && (
+              <Form.Group className="mb-3">
+                <Form.Label>Initial Password</Form.Label>
+                <Form.Control
+                  type="password"
+                  value={formData.password}
+                  onChange={(e) => setFormData({ ...formData, password: e.target.value })}
+                  placeholder={`At least ${MIN_PASSWORD_LENGTH} characters`}
+                  minLength={MIN_PASSWORD_LENGTH}
+                  isInvalid={!!fieldErrors.password}
+                  required
+                />
+                <Form.Control.Feedback type="invalid">{fieldErrors.password?.[0]}</Form.Control.Feedback>
+              </Form.Group>
+            )}
+          </Form>
+        </Modal.Body>
+        <Modal.Footer>
+          {/* Modal action buttons */}
+          <Button variant="secondary" onClick={() => setShowModal(false)}>
+            Cancel
+          </Button>
+          <Button
+            variant="primary"
+            onClick={handleSaveUser}
+            disabled={saving || !formData.email.trim() || formData.departments.length === 0 || (!editingUser && formData.password.length < MIN_PASSWORD_LENGTH)}
+          >
+            {saving ? (
+              <>
+                <Spinner animation="border" size="sm" className="me-2" />
+                Saving...
+              </>
+            ) : (
+              editingUser ? 'Update User' : 'Add User'
+            )}
+          </Button>
+        </Modal.Footer>
+      </Modal>
+    </>
+  );
+};
+
+export default AdminUserManager;
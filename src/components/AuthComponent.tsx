@@ -1,54 +1,158 @@
 
-import React, { useState, useEffect } from 'react';
+import React, { useState, useEffect, useCallback } from 'react';
 import { Container, Row, Col, Card, Form, Button, Alert, Spinner } from 'react-bootstrap';
-import { User, Shield, Mail, Lock } from 'lucide-react';
-import { API_ENDPOINTS } from '../config/api';
+import { User, Shield, Lock, ShieldCheck, Smartphone, Mail } from 'lucide-react';
+import { ssoLoginUrl } from '../config/api';
+import { ApiSchemas, publicApi } from '../api/client';
+import { SessionUser, setAuthTokens } from '../lib/auth';
+import { Role } from '@shared/permissions';
+import OtpCodeInput from './OtpCodeInput';
+import MfaEnrollment from './MfaEnrollment';
+import ForgotPasswordForm from './ForgotPasswordForm';
+import PhoneLoginForm, { SignInResponse } from './PhoneLoginForm';
+import MagicLinkForm from './MagicLinkForm';
+
+// SSO identity provider offered by the backend (GET /auth/providers)
+type SsoProvider = ApiSchemas['SsoProvider'];
+
+// Second step of a password login: entering a code, or setting MFA up first when the role requires it
+interface MfaStep {
+  kind: 'verify' | 'enroll';
+  mfaToken: string;
+}
+
+// Test credentials signing in with unsigned mock tokens, only in dev builds with VITE_ALLOW_MOCK_LOGIN=true
+const MOCK_LOGIN_ENABLED = import.meta.env.DEV && import.meta.env.VITE_ALLOW_MOCK_LOGIN === 'true';
 
 interface AuthComponentProps {
-  onLogin: (user: { email: string; department: string; isAdmin?: boolean }) => void;
+  onLogin: (user: SessionUser) => void;
 }
 
 /**
  * AuthComponent handles user authentication with support for:
- * - SSO (Single Sign-On) authentication
- * - Manual email/password login for admins
- * - Token-based authentication via URL parameters
+ * - SSO (Single Sign-On) authentication with one button per configured identity provider
+ * - Manual email/password login for admins, followed by an authenticator code when MFA is on
+ * - Passwordless phone login with a code sent by SMS, followed by MFA the same way
+ * - Passwordless email login with a one-time link (`?magicLink=` on return), also followed by MFA
+ * - Requesting a password reset link by email
+ * - Finishing SSO sign-ins by exchanging the one-time code of the redirect (`?ssoCode=`) for a session
  */
 const AuthComponent: React.FC<AuthComponentProps> = ({ onLogin }) => {
   // State management for login type and form data
-  const [loginType, setLoginType] = useState<'email' | 'phone' | 'sso'>('sso');
-  const [formData, setFormData] = useState({ email: '', phone: '', password: '' });
+  const [loginType, setLoginType] = useState<'email' | 'phone' | 'magic-link' | 'sso'>('sso');
+  const [formData, setFormData] = useState({ email: '', password: '' });
   const [loading, setLoading] = useState(false);
   const [error, setError] = useState('');
+  const [ssoProviders, setSsoProviders] = useState<SsoProvider[] | null>(null);
+  const [redirectingTo, setRedirectingTo] = useState('');
+  const [retryAt, setRetryAt] = useState<number | null>(null);
+  const [mfaStep, setMfaStep] = useState<MfaStep | null>(null);
+  const [mfaCode, setMfaCode] = useState('');
+  const [usingRecoveryCode, setUsingRecoveryCode] = useState(false);
+  const [recoveryCode, setRecoveryCode] = useState('');
+  const [showForgotPassword, setShowForgotPassword] = useState(false);
+  const [exchangingCode, setExchangingCode] = useState(false);
+  const [now, setNow] = useState(Date.now());
+
+  const retrySeconds = retryAt ? Math.max(Math.ceil((retryAt - now) / 1000), 0) : 0;
 
   /**
-   * Effect to handle SSO token authentication from URL parameters
-   * Automatically logs in user if valid token is present in URL
+   * Effect ticking the countdown once a second while sign-in is delayed or locked out
    */
   useEffect(() => {
-    const params = new URLSearchParams(window.location.search);
-    const token = params.get('token');
-
-    if (token) {
-      try {
-        // Store token and decode user information
-        localStorage.setItem('jwt_token', token);
-        const decoded = JSON.parse(atob(token.split('.')[1]));
-        const user = {
-          email: decoded.email,
-          department: decoded.department,
-          isAdmin: decoded.isAdmin || false
-        };
-        onLogin(user);
-        localStorage.setItem('user', JSON.stringify(user));
-        // Clean up URL after successful authentication
-        window.history.replaceState({}, document.title, '/');
-      } catch (err) {
-        console.error('Failed to decode token:', err);
+    if (!retryAt) return;
+    const interval = setInterval(() => {
+      setNow(Date.now());
+      if (Date.now() >= retryAt) {
+        setRetryAt(null);
+        setError('');
       }
-    }
+    }, 1000);
+    return () => clearInterval(interval);
+  }, [retryAt]);
+
+  /**
+   * Effect to load the identity providers shown as SSO buttons
+   */
+  useEffect(() => {
+    publicApi.GET('/auth/providers')
+      .then(({ data, response }) => (data ? data : Promise.reject(new Error(`HTTP ${response.status}`))))
+      .then(data => setSsoProviders(data.providers || []))
+      .catch(err => {
+        console.error('Failed to load SSO providers:', err);
+        setSsoProviders([]);
+      });
+  }, []);
+
+  /**
+   * Stores the tokens of a finished login and triggers the login callback
+   *
+   * @param token - Access token
+   * @param refreshToken - Refresh token of the new session
+   */
+  const completeLogin = useCallback((token: string, refreshToken?: string) => {
+    onLogin(setAuthTokens(token, refreshToken));
   }, [onLogin]);
 
+  /**
+   * Continues after the first factor (password, SMS code or sign-in link): users with MFA
+   * go on to a second step, everyone else is signed in
+   *
+   * @param data - Successful response of the first-factor endpoint
+   */
+  const handleSignInResponse = useCallback((data: SignInResponse) => {
+    setError('');
+    if ((data.mfaRequired || data.mfaEnrollmentRequired) && data.mfaToken) {
+      setMfaStep({ kind: data.mfaRequired ? 'verify' : 'enroll', mfaToken: data.mfaToken });
+      return;
+    }
+    if (data.token) completeLogin(data.token, data.refreshToken);
+  }, [completeLogin]);
+
+  /**
+   * Effect exchanging an emailed sign-in link (`?magicLink=`) for a session.
+   * The parameter is removed first, since the link only works once.
+   */
+  useEffect(() => {
+    const params = new URLSearchParams(window.location.search);
+    const magicLink = params.get('magicLink');
+    if (!magicLink) return;
+
+    window.history.replaceState({}, document.title, window.location.pathname);
+    setExchangingCode(true);
+    publicApi.POST('/auth/magic-link/verify', { body: { token: magicLink } })
+      .then(({ data, error }) => {
+        if (!data) throw new Error(error?.error || 'Sign-in failed');
+        handleSignInResponse(data);
+      })
+      .catch(err => {
+        setLoginType('magic-link');
+        setError((err as Error).message);
+      })
+      .finally(() => setExchangingCode(false));
+  }, [handleSignInResponse]);
+
+  /**
+   * Effect finishing an SSO sign-in: the callback redirects here with a one-time code
+   * (`?ssoCode=`), exchanged for the session's tokens. The parameter is removed first,
+   * staying on the SSO return path, since the code only works once.
+   */
+  useEffect(() => {
+    const params = new URLSearchParams(window.location.search);
+    const ssoCode = params.get('ssoCode');
+    if (!ssoCode) return;
+
+    window.history.replaceState({}, document.title, window.location.pathname);
+    setExchangingCode(true);
+    publicApi.POST('/auth/sso/exchange', { body: { code: ssoCode } })
+      .then(({ data, error }) => {
+        if (!data) throw new Error(error?.error || 'Sign-in failed');
+        completeLogin(data.token, data.refreshToken);
+      })
+      .catch(err => setError((err as Error).message))
+      .finally(() => setExchangingCode(false));
+  }, [completeLogin]);
+
   /**
    * Handles manual login form submission for admin users
    */
@@ -58,70 +162,104 @@ const AuthComponent: React.FC<AuthComponentProps> = ({ onLogin }) => {
     setError('');
 
     try {
-      const { email, phone, password } = formData;
-      const identifier = loginType === 'email' ? email : phone;
+      const { email, password } = formData;
 
       // Validate required fields
-      if (!identifier || !password) throw new Error(`${loginType === 'email' ? 'Email' : 'Phone'} and password are required`);
+      if (!email || !password) throw new Error('Email and password are required');
 
-      // Mock credentials for testing
-      const mockCredentials = [
-        { email: 'admin@test.com', password: 'admin123', department: 'Admin', isAdmin: true },
-        { email: 'user@test.com', password: 'user123', department: 'Sales', isAdmin: false },
+      // Mock credentials for local development; the server only accepts their tokens with ALLOW_MOCK_TOKENS
+      const mockCredentials = !MOCK_LOGIN_ENABLED ? [] : [
+        { email: 'admin@test.com', password: 'admin123', departments: ['Admin'], role: 'super-admin' as Role },
+        { email: 'user@test.com', password: 'user123', departments: ['Sales'], role: 'viewer' as Role },
       ];
 
       // Check if mock credentials are used
       const mockUser = mockCredentials.find(
-        cred => cred.email.toLowerCase() === identifier.toLowerCase() && cred.password === password
+        cred => cred.email.toLowerCase() === email.toLowerCase() && cred.password === password
       );
 
       if (mockUser) {
         // Create mock token and user
         const user = {
           email: mockUser.email,
-          department: mockUser.department,
-          isAdmin: mockUser.isAdmin
+          departments: mockUser.departments,
+          role: mockUser.role
         };
         const mockToken = `mock.${btoa(JSON.stringify(user))}.token`;
         
-        localStorage.setItem('jwt_token', mockToken);
-        localStorage.setItem('user', JSON.stringify(user));
+        setAuthTokens(mockToken);
         onLogin(user);
         return;
       }
 
       // Send login request to backend
-      const res = await fetch(API_ENDPOINTS.manualLogin, {
-        method: 'POST',
-        headers: { 'Content-Type': 'application/json' },
-        body: JSON.stringify({ [loginType]: identifier, password }),
+      const { data, error: errData, response } = await publicApi.POST('/auth/manual-login', {
+        body: { email, password },
       });
 
-      if (!res.ok) {
-        const errData = await res.json();
-        throw new Error(errData.error || 'Login failed');
+      if (!data) {
+        // Too many failed attempts: the server says how long to wait before trying again
+        if (response.status === 429 && errData?.retryAfter) {
+          setNow(Date.now());
+          setRetryAt(Date.now() + errData.retryAfter * 1000);
+        }
+        throw new Error(errData?.error || 'Login failed');
       }
 
       // Process successful login response
-      const { token } = await res.json();
-      const decoded = JSON.parse(atob(token.split('.')[1]));
-      const user = {
-        email: decoded.email,
-        department: decoded.department,
-        isAdmin: decoded.isAdmin || false
-      };
-
-      // Store authentication data and trigger login callback
-      localStorage.setItem('jwt_token', token);
-      localStorage.setItem('user', JSON.stringify(user));
-      onLogin(user);
+      handleSignInResponse(data);
+      setFormData({ ...formData, password: '' });
+    } catch (err) {
+      setError((err as Error).message);
+    } finally {
+      setLoading(false);
+    }
+  };
+
+  /**
+   * Sends the authenticator or recovery code of the second login step
+   *
+   * @param code - Authenticator code; defaults to the entered one
+   */
+  const handleMfaSubmit = async (code = mfaCode) => {
+    if (!mfaStep) return;
+    setLoading(true);
+    setError('');
+
+    try {
+      const { data, error: errData, response } = await publicApi.POST('/auth/mfa/verify', {
+        body: usingRecoveryCode
+          ? { mfaToken: mfaStep.mfaToken, recoveryCode }
+          : { mfaToken: mfaStep.mfaToken, code },
+      });
+
+      if (!data) {
+        if (response.status === 429 && errData?.retryAfter) {
+          setNow(Date.now());
+          setRetryAt(Date.now() + errData.retryAfter * 1000);
+        }
+        throw new Error(errData?.error || 'Verification failed');
+      }
+      completeLogin(data.token, data.refreshToken);
     } catch (err) {
       setError((err as Error).message);
+      setMfaCode('');
     } finally {
       setLoading(false);
     }
   };
 
+  /**
+   * Leaves the second step and returns to the password form
+   */
+  const handleMfaCancel = () => {
+    setMfaStep(null);
+    setMfaCode('');
+    setRecoveryCode('');
+    setUsingRecoveryCode(false);
+    setError('');
+  };
+
   /**
    * Handles input changes for form fields
    */
@@ -130,21 +268,14 @@ const AuthComponent: React.FC<AuthComponentProps> = ({ onLogin }) => {
   };
 
   /**
-   * Initiates SSO login flow by redirecting to SSO provider
+   * Initiates SSO login flow; the backend redirects to the provider and back to this page
+   *
+   * @param provider - ID of the identity provider to sign in with
    */
-  const handleSSOLogin = async () => {
-    setLoading(true);
+  const handleSSOLogin = (provider: string) => {
+    setRedirectingTo(provider);
     setError('');
-    try {
-      // Get SSO login URL from backend
-      const res = await fetch(API_ENDPOINTS.loginUrl);
-      const data = await res.json();
-      // Redirect to SSO provider
-      window.location.href = data.url;
-    } catch (err) {
-      setError('Failed to initiate SSO login');
-      setLoading(false);
-    }
+    window.location.href = ssoLoginUrl(provider, window.location.pathname);
   };
 
   return (
@@ -163,49 +294,162 @@ const AuthComponent: React.FC<AuthComponentProps> = ({ onLogin }) => {
               </div>
 
               {/* Error display */}
-              {error && <Alert variant="danger">{error}</Alert>}
-
-              {/* Login method selection and forms */}
-              <div className="mb-4">
-                {/* Login type toggle buttons */}
-                <div className="d-flex gap-2 mb-2">
-                  <Button variant={loginType === 'sso' ? 'primary' : 'outline-primary'} size="sm" onClick={() => setLoginType('sso')} className="flex-1">
-                    <Lock size={16} className="me-1" /> SSO
-                  </Button>
-                  <Button variant={loginType === 'email' ? 'primary' : 'outline-primary'} size="sm" onClick={() => setLoginType('email')} className="flex-1">
-                    <Shield size={16} className="me-1" /> Admin
-                  </Button>
+              {error && <Alert variant={retryAt ? 'warning' : 'danger'}>{error}</Alert>}
+
+              {/* Sign-in link or SSO code exchange, then the second step of a login */}
+              {exchangingCode ? (
+                // Sign-in link or SSO code being exchanged for a session
+                <div className="text-center text-muted mb-4">
+                  <Spinner animation="border" size="sm" className="me-2" />
+                  Signing you in...
                 </div>
+              ) : mfaStep ? (
+                <div className="mb-4">
+                  <h5 className="d-flex align-items-center justify-content-center mb-3">
+                    <ShieldCheck size={20} className="me-2" />
+                    Two-factor authentication
+                  </h5>
 
-                {/* SSO Login Section */}
-                {loginType === 'sso' ? (
-                  <div className="text-center">
-                    <p className="text-muted mb-3">Single Sign-On Authentication</p>
-                    <Button variant="success" size="lg" className="w-100" onClick={handleSSOLogin} disabled={loading}>
-                      {loading ? (
-                        <>
-                          <Spinner as="span" animation="border" size="sm" className="me-2" />
-                          Redirecting...
-                        </>
+                  {mfaStep.kind === 'enroll' ? (
+                    <>
+                      <Alert variant="info" className="py-2">
+                        <small>Your role requires two-factor authentication. Set it up to finish signing in.</small>
+                      </Alert>
+                      <MfaEnrollment
+                        mfaToken={mfaStep.mfaToken}
+                        onComplete={(result) => result.token && completeLogin(result.token, result.refreshToken)}
+                      />
+                    </>
+                  ) : (
+                    <Form onSubmit={(e) => { e.preventDefault(); handleMfaSubmit(); }}>
+                      {usingRecoveryCode ? (
+                        <Form.Group className="mb-3">
+                          <Form.Label>Recovery code</Form.Label>
+                          <Form.Control
+                            value={recoveryCode}
+                            onChange={(e) => setRecoveryCode(e.target.value)}
+                            placeholder="XXXX-XXXX"
+                            autoFocus
+                            required
+                          />
+                        </Form.Group>
                       ) : (
-                        'Login with SSO'
+                        <Form.Group className="mb-3">
+                          <Form.Label className="d-block text-center">Enter the code from your authenticator app</Form.Label>
+                          <OtpCodeInput
+                            value={mfaCode}
+                            onChange={setMfaCode}
+                            onComplete={(code) => handleMfaSubmit(code)}
+                            disabled={loading || !!retryAt}
+                          />
+                        </Form.Group>
                       )}
+
+                      <Button
+                        type="submit"
+                        variant="primary"
+                        size="lg"
+                        className="w-100 btn-custom mb-2"
+                        disabled={loading || !!retryAt || (usingRecoveryCode ? !recoveryCode : mfaCode.length !== 6)}
+                      >
+                        {retryAt ? (
+                          <>Try again in {retrySeconds}s</>
+                        ) : loading ? (
+                          <>
+                            <Spinner as="span" animation="border" size="sm" className="me-2" />
+                            Verifying...
+                          </>
+                        ) : (
+                          'Verify'
+                        )}
+                      </Button>
+                      <Button variant="link" size="sm" className="w-100" onClick={() => setUsingRecoveryCode(!usingRecoveryCode)}>
+                        {usingRecoveryCode ? 'Use your authenticator app instead' : 'Lost your authenticator? Use a recovery code'}
+                      </Button>
+                    </Form>
+                  )}
+
+                  <Button variant="link" size="sm" className="w-100 text-muted" onClick={handleMfaCancel}>
+                    Back to sign-in
+                  </Button>
+                </div>
+              ) : showForgotPassword ? (
+                // Password reset request
+                <div className="mb-4">
+                  <ForgotPasswordForm onBack={() => setShowForgotPassword(false)} />
+                </div>
+              ) : (
+                // Login method selection and forms
+                <div className="mb-4">
+                  {/* Login type toggle buttons */}
+                  <div className="d-flex gap-2 mb-2">
+                    <Button variant={loginType === 'sso' ? 'primary' : 'outline-primary'} size="sm" onClick={() => setLoginType('sso')} className="flex-1">
+                      <Lock size={16} className="me-1" /> SSO
+                    </Button>
+                    <Button variant={loginType === 'email' ? 'primary' : 'outline-primary'} size="sm" onClick={() => setLoginType('email')} className="flex-1">
+                      <Shield size={16} className="me-1" /> Admin
+                    </Button>
+                    <Button variant={loginType === 'phone' ? 'primary' : 'outline-primary'} size="sm" onClick={() => setLoginType('phone')} className="flex-1">
+                      <Smartphone size={16} className="me-1" /> Phone
+                    </Button>
+                    <Button variant={loginType === 'magic-link' ? 'primary' : 'outline-primary'} size="sm" onClick={() => setLoginType('magic-link')} className="flex-1">
+                      <Mail size={16} className="me-1" /> Email link
                     </Button>
                   </div>
-                 ) : (
-                  // Manual login form for admin users
-                  <Form onSubmit={handleSubmit}>
-                    {/* Test credentials info */}
-                    <Alert variant="info" className="mb-3 py-2">
-                      <small>
-                        <strong>Test Credentials:</strong><br />
-                        Admin: admin@test.com / admin123<br />
-                        User: user@test.com / user123
-                      </small>
-                    </Alert>
-
-                    {/* Email input for admin login */}
-                    {loginType === 'email' && (
+
+                  {/* SSO Login Section */}
+                  {loginType === 'sso' ? (
+                    <div className="text-center">
+                      <p className="text-muted mb-3">Single Sign-On Authentication</p>
+                      {ssoProviders === null ? (
+                        <Spinner animation="border" size="sm" />
+                      ) : ssoProviders.length === 0 ? (
+                        <Alert variant="secondary" className="mb-0">Single sign-on is not configured</Alert>
+                      ) : (
+                        // One button per identity provider
+                        <div className="d-grid gap-2">
+                          {ssoProviders.map((provider) => (
+                            <Button
+                              key={provider.id}
+                              variant="success"
+                              size="lg"
+                              onClick={() => handleSSOLogin(provider.id)}
+                              disabled={!!redirectingTo}
+                            >
+                              {redirectingTo === provider.id ? (
+                                <>
+                                  <Spinner as="span" animation="border" size="sm" className="me-2" />
+                                  Redirecting...
+                                </>
+                              ) : (
+                                `Login with ${provider.name}`
+                              )}
+                            </Button>
+                          ))}
+                        </div>
+                      )}
+                    </div>
+                  ) : loginType === 'phone' ? (
+                    // Passwordless phone login
+                    <PhoneLoginForm onSignedIn={handleSignInResponse} />
+                  ) : loginType === 'magic-link' ? (
+                    // Passwordless email login
+                    <MagicLinkForm />
+                  ) : (
+                    // Manual login form for admin users
+                    <Form onSubmit={handleSubmit}>
+                      {/* Test credentials info */}
+                      {MOCK_LOGIN_ENABLED && (
+                        <Alert variant="info" className="mb-3 py-2">
+                          <small>
+                            <strong>Test Credentials:</strong><br />
+                            Admin: admin@test.com / admin123<br />
+                            User: user@test.com / user123
+                          </small>
+                        </Alert>
+                      )}
+
+                      {/* Email input for admin login */}
                       <Form.Group className="mb-3">
                         <Form.Label>Email Address</Form.Label>
                         <Form.Control
@@ -217,51 +461,42 @@ const AuthComponent: React.FC<AuthComponentProps> = ({ onLogin }) => {
                           required
                         />
                       </Form.Group>
-                    )}
-                    {/* Phone input (legacy support) */}
-                    {loginType === 'phone' && (
-                      <Form.Group className="mb-3">
-                        <Form.Label>Phone Number</Form.Label>
+
+                      {/* Password input */}
+                      <Form.Group className="mb-4">
+                        <Form.Label>Password</Form.Label>
                         <Form.Control
-                          type="tel"
-                          name="phone"
-                          value={formData.phone}
+                          type="password"
+                          name="password"
+                          value={formData.password}
                           onChange={handleInputChange}
-                          placeholder="Enter your phone number"
+                          placeholder="Enter your password"
                           required
                         />
                       </Form.Group>
-                    )}
-
-                    {/* Password input */}
-                    <Form.Group className="mb-4">
-                      <Form.Label>Password</Form.Label>
-                      <Form.Control
-                        type="password"
-                        name="password"
-                        value={formData.password}
-                        onChange={handleInputChange}
-                        placeholder="Enter your password"
-                        required
-                      />
-                    </Form.Group>
-
-                    {/* Submit button */}
-                    <Button type="submit" variant="primary" size="lg" className="w-100 btn-custom" disabled={loading}>
-                      {loading ? (
-                        <>
-                          <Spinner as="span" animation="border" size="sm" className="me-2" />
-                          Signing in...
-                        </>
-                      ) : (
-                        <>
-                          <Lock size={18} className="me-2" /> Sign In
-                        </>
-                      )}
-                    </Button>
-                  </Form>
-                )}
-              </div>
+
+                      {/* Submit button */}
+                      <Button type="submit" variant="primary" size="lg" className="w-100 btn-custom" disabled={loading || !!retryAt}>
+                        {retryAt ? (
+                          <>Try again in {retrySeconds}s</>
+                        ) : loading ? (
+                          <>
+                            <Spinner as="span" animation="border" size="sm" className="me-2" />
+                            Signing in...
+                          </>
+                        ) : (
+                          <>
+                            <Lock size={18} className="me-2" /> Sign In
+                          </>
+                        )}
+                      </Button>
+                      <Button variant="link" size="sm" className="w-100 mt-2" onClick={() => { setError(''); setShowForgotPassword(true); }}>
+                        Forgot your password?
+                      </Button>
+                    </Form>
+                  )}
+                </div>
+              )}
             </Card.Body>
           </Card>
         </Col>
@@ -0,0 +1,48 @@
+import React from 'react';
+import { Table } from 'react-bootstrap';
+import { ApiSchemas } from '../api/client';
+
+// A single before/after difference as returned by the audit and revision APIs
+export type Change = ApiSchemas['Change'];
+
+interface ChangesTableProps {
+  changes: Change[];
+  beforeLabel?: string;
+  afterLabel?: string;
+}
+
+/**
+ * Formats a before/after value for compact display
+ */
+const formatValue = (value: unknown) => {
+  if (value === undefined) return '—';
+  const text = typeof value === 'string' ? value : JSON.stringify(value);
+  return text.length > 120 ? `${text.substring(0, 120)}...` : text;
+};
+
+/**
+ * ChangesTable Component - Compact before/after table for catalog and user changes
+ * Used by the audit log, the report revision history and the save conflict dialog
+ */
+const ChangesTable: React.FC<ChangesTableProps> = ({ changes, beforeLabel = 'Before', afterLabel = 'After' }) => (
+  <Table size="sm" className="mb-0 small">
+    <thead>
+      <tr>
+        <th>Field</th>
+        <th>{beforeLabel}</th>
+        <th>{afterLabel}</th>
+      </tr>
+    </thead>
+    <tbody>
+      {changes.map((change, index) => (
+        <tr key={index}>
+          <td><code>{change.path}</code></td>
+          <td className="text-danger">{formatValue(change.before)}</td>
+          <td className="text-success">{formatValue(change.after)}</td>
+        </tr>
+      ))}
+    </tbody>
+  </Table>
+);
+
+export default ChangesTable;
@@ -1,41 +1,56 @@
-import React, { useState } from 'react';
-import { Container, Row, Col, Card, Navbar, Button, Spinner, Alert } from 'react-bootstrap';
-import { LogOut, FileText, Maximize2, Minimize2 } from 'lucide-react';
+import React, { useState, useEffect } from 'react';
+import { Container, Row, Col, Card, Navbar, Button, ButtonGroup, Dropdown, Form, Spinner, Alert } from 'react-bootstrap';
+import { LogOut, FileText, Maximize2, Minimize2, Building } from 'lucide-react';
 import PowerBIViewer from './PowerBIViewer';
 import ReportIcon from './ReportIcon';
-import { useReports } from '../hooks/useReports';
-import { API_ENDPOINTS } from '../config/api';
+import MfaSettingsModal from './MfaSettingsModal';
+import { DepartmentReport, useReports } from '../hooks/useReports';
+import { api } from '../api/client';
 
 // Interface definitions for type safety
 interface User {
   email: string;
-  department: string;
+  departments: string[];
 }
 
 interface DashboardProps {
   user: User;
-  onLogout: () => void;
+  onLogout: (everywhere?: boolean) => void;
 }
 
-interface MenuOption {
-  id: string;
-  title: string;
-  description: string;
-  icon: string;
-  powerBIReportId: string;
-  reportId?: string;
-  datasetId?: string;
-  sharedDatasetId?: string;
-  embedUrl?: string;
-  embedToken?: string;
+// A report with the embed details generated when it was opened
+interface MenuOption extends DepartmentReport {
+  embedTokenExpiration?: string;
+}
+
+// localStorage key prefix for the department each user last viewed
+const LAST_DEPARTMENT_KEY = 'last_department';
+
+/**
+ * The department to show first: the one the user last viewed if they still belong
+ * to it, else their first department
+ */
+const loadLastDepartment = (user: User) => {
+  const saved = localStorage.getItem(`${LAST_DEPARTMENT_KEY}:${user.email}`);
+  return saved && user.departments.includes(saved) ? saved : user.departments[0] || '';
+};
+
+// Thrown when the server rejects an embed request with 429; retryAfter is in seconds
+class RateLimitedError extends Error {
+  constructor(message: string, readonly retryAfter: number) {
+    super(message);
+  }
 }
 
 /**
  * Dashboard Component - Main user interface for accessing department-specific PowerBI reports
  * 
  * Features:
- * - Displays reports filtered by user's department
+ * - Displays reports filtered by the selected department
+ * - Department switcher for users in several departments, remembering the last choice
  * - Generates dynamic PowerBI embed tokens for secure access
+ * - Renews embed tokens before they expire while a report stays open
+ * - Counts down until reports can be opened again when embed requests are rate limited
  * - Provides fullscreen viewing capabilities
  * - Shows report statistics and navigation
  */
@@ -46,18 +61,38 @@ const Dashboard: React.FC<DashboardProps> = ({ user, onLogout }) => {
   const [isLoadingEmbed, setIsLoadingEmbed] = useState(false);
   const [embedError, setEmbedError] = useState('');
   const [isFullscreen, setIsFullscreen] = useState(false);
+  const [showMfaSettings, setShowMfaSettings] = useState(false);
+  const [department, setDepartment] = useState(() => loadLastDepartment(user));
+  const [retryAt, setRetryAt] = useState<number | null>(null);
+  const [now, setNow] = useState(Date.now());
 
   // Fetch reports data using custom hook
-  const { data: reports, isLoading: isLoadingReports, error: reportsError } = useReports(user.department);
+  const { data: reports, isLoading: isLoadingReports, error: reportsError } = useReports(department);
 
   // Ensure reports is an array and filter active reports
   const reportsArray = Array.isArray(reports) ? reports : [];
   const activeReports = reportsArray.filter(report => report.isActive !== false);
+  const retrySeconds = retryAt ? Math.max(Math.ceil((retryAt - now) / 1000), 0) : 0;
+
+  /**
+   * Effect ticking the rate limit countdown once a second until reports can be opened again
+   */
+  useEffect(() => {
+    if (!retryAt) return;
+    const interval = setInterval(() => {
+      setNow(Date.now());
+      if (Date.now() >= retryAt) {
+        setRetryAt(null);
+        setEmbedError('');
+      }
+    }, 1000);
+    return () => clearInterval(interval);
+  }, [retryAt]);
 
   /**
    * Generates fresh PowerBI embed token and URL for secure report access
    * @param report - Report configuration containing PowerBI IDs
-   * @returns Promise with embedToken and embedUrl
+   * @returns Promise with embedToken, embedUrl and the token's expiration
    */
   const generateEmbedToken = async (report: MenuOption) => {
     // Validate required PowerBI configuration
@@ -65,33 +100,32 @@ const Dashboard: React.FC<DashboardProps> = ({ user, onLogout }) => {
       throw new Error('Missing PowerBI configuration: reportId or datasetId');
     }
 
-    const token = localStorage.getItem('jwt_token');
-    
-    const requestBody: any = {
-      reportId: report.reportId,
-      datasetId: report.datasetId
-    };
-    
-    // Only include sharedDatasetId if it exists
-    if (report.sharedDatasetId) {
-      requestBody.sharedDatasetId = report.sharedDatasetId;
-    }
-    
-    const response = await fetch(`${API_ENDPOINTS.generateEmbed}`, {
-      method: 'POST',
-      headers: {
-        'Authorization': `Bearer ${token}`,
-        'Content-Type': 'application/json'
-      },
-      body: JSON.stringify(requestBody)
+    // The server embeds the datasets of the report's catalog entry
+    const { data, error, response } = await api.POST('/api/reports/generate-embed', {
+      body: { reportId: report.reportId }
     });
 
-    if (!response.ok) {
-      const errorData = await response.json();
-      throw new Error(errorData.error || 'Failed to generate embed token');
+    if (error) {
+      if (response.status === 429) {
+        const retryAfter = Number(response.headers.get('Retry-After')) || error.retryAfter || 60;
+        throw new RateLimitedError(error.error || 'Too many requests', retryAfter);
+      }
+      throw new Error(error.error || 'Failed to generate embed token');
     }
 
-    return await response.json();
+    return data;
+  };
+
+  /**
+   * Switches to another of the user's departments and remembers the choice
+   * @param newDepartment - Department to show reports for
+   */
+  const handleDepartmentChange = (newDepartment: string) => {
+    setDepartment(newDepartment);
+    localStorage.setItem(`${LAST_DEPARTMENT_KEY}:${user.email}`, newDepartment);
+    setSelectedMenuId(null);
+    setSelectedReport(null);
+    setEmbedError('');
   };
 
   /**
@@ -100,7 +134,7 @@ const Dashboard: React.FC<DashboardProps> = ({ user, onLogout }) => {
    */
   const handleMenuClick = async (menuId: string) => {
     const report = reportsArray.find(r => r.id === menuId);
-    if (!report) return;
+    if (!report || retrySeconds > 0) return;
 
     setSelectedMenuId(menuId);
     setIsLoadingEmbed(true);
@@ -108,19 +142,24 @@ const Dashboard: React.FC<DashboardProps> = ({ user, onLogout }) => {
 
     try {
       // Generate fresh embed token and URL for security
-      const { embedToken, embedUrl } = await generateEmbedToken(report);
+      const { embedToken, embedUrl, expiration } = await generateEmbedToken(report);
       
       // Create updated report with fresh embed details
       const updatedReport = {
         ...report,
         embedToken,
-        embedUrl
+        embedUrl,
+        embedTokenExpiration: expiration
       };
       
       setSelectedReport(updatedReport);
     } catch (error) {
       console.error('Error generating embed token:', error);
       setEmbedError((error as Error).message);
+      if (error instanceof RateLimitedError) {
+        setNow(Date.now());
+        setRetryAt(Date.now() + error.retryAfter * 1000);
+      }
       setSelectedMenuId(null);
     } finally {
       setIsLoadingEmbed(false);
@@ -193,6 +232,7 @@ const Dashboard: React.FC<DashboardProps> = ({ user, onLogout }) => {
                 icon: <span>{selectedReport.icon}</span>
               }}
               onBack={handleBackToMenu}
+              onTokenRefresh={() => generateEmbedToken(selectedReport)}
             />
           )}
         </Container>
@@ -207,7 +247,7 @@ const Dashboard: React.FC<DashboardProps> = ({ user, onLogout }) => {
       <Navbar className="navbar-custom" expand="lg" variant="dark">
         <Container fluid>
           <Navbar.Brand className="fw-bold">
-            Business Portal - {user.department}
+            Business Portal - {department}
           </Navbar.Brand>
           
           {/* User info and logout */}
@@ -215,15 +255,27 @@ const Dashboard: React.FC<DashboardProps> = ({ user, onLogout }) => {
             <span className="text-white me-3 d-none d-md-inline">
               {user.email}
             </span>
-            <Button
-              variant="outline-light"
-              size="sm"
-              onClick={onLogout}
-              className="d-flex align-items-center"
-            >
-              <LogOut size={16} className="me-1" />
-              <span className="d-none d-md-inline">Logout</span>
-            </Button>
+            <Dropdown as={ButtonGroup} align="end">
+              <Button
+                variant="outline-light"
+                size="sm"
+                onClick={() => onLogout()}
+                className="d-flex align-items-center"
+              >
+                <LogOut size={16} className="me-1" />
+                <span className="d-none d-md-inline">Logout</span>
+              </Button>
+              <Dropdown.Toggle split variant="outline-light" size="sm" aria-label="More logout options" />
+              <Dropdown.Menu>
+                <Dropdown.Item onClick={() => setShowMfaSettings(true)}>
+                  Two-factor authentication
+                </Dropdown.Item>
+                <Dropdown.Divider />
+                <Dropdown.Item onClick={() => onLogout(true)}>
+                  Log out everywhere
+                </Dropdown.Item>
+              </Dropdown.Menu>
+            </Dropdown>
           </div>
         </Container>
       </Navbar>
@@ -233,12 +285,28 @@ const Dashboard: React.FC<DashboardProps> = ({ user, onLogout }) => {
         <Row className="mb-4">
           <Col>
             <h2 className="fw-bold text-primary mb-3">
-              Welcome to {user.department} Dashboard
+              Welcome to {department} Dashboard
             </h2>
             <p className="text-muted">
               Select a report to view your Power BI analytics
             </p>
           </Col>
+          {/* Department switcher for users in several departments */}
+          {user.departments.length > 1 && (
+            <Col md="auto">
+              <Form.Group controlId="dashboard-department">
+                <Form.Label className="d-flex align-items-center small text-muted">
+                  <Building size={14} className="me-1" />
+                  Department
+                </Form.Label>
+                <Form.Select value={department} onChange={(e) => handleDepartmentChange(e.target.value)}>
+                  {user.departments.map((option) => (
+                    <option key={option} value={option}>{option}</option>
+                  ))}
+                </Form.Select>
+              </Form.Group>
+            </Col>
+          )}
         </Row>
 
         {/* Dashboard statistics */}
@@ -254,6 +322,17 @@ const Dashboard: React.FC<DashboardProps> = ({ user, onLogout }) => {
           </Col>
         </Row>
 
+        {/* Report opening errors; rate limits count down until reports can be opened again */}
+        {retryAt ? (
+          <Alert variant="warning">
+            Too many reports opened in a short time. You can open reports again in <strong>{retrySeconds}s</strong>.
+          </Alert>
+        ) : embedError && (
+          <Alert variant="danger" dismissible onClose={() => setEmbedError('')}>
+            {embedError}
+          </Alert>
+        )}
+
         {/* Reports loading and error states */}
         {isLoadingReports ? (
           <Row>
@@ -295,6 +374,9 @@ const Dashboard: React.FC<DashboardProps> = ({ user, onLogout }) => {
           </Row>
         )}
       </Container>
+
+      {/* Two-factor authentication settings */}
+      <MfaSettingsModal show={showMfaSettings} onHide={() => setShowMfaSettings(false)} />
     </div>
   );
 };
@@ -0,0 +1,89 @@
+import React, { useState } from 'react';
+import { Form, Button, Alert, Spinner } from 'react-bootstrap';
+import { Mail } from 'lucide-react';
+import { publicApi } from '../api/client';
+
+interface ForgotPasswordFormProps {
+  onBack: () => void; // Returns to the sign-in form
+}
+
+/**
+ * ForgotPasswordForm Component - Requests a password reset link by email
+ *
+ * The backend answers the same way whether or not the account exists, so this
+ * form always shows the same confirmation after a successful request.
+ */
+const ForgotPasswordForm: React.FC<ForgotPasswordFormProps> = ({ onBack }) => {
+  const [email, setEmail] = useState('');
+  const [loading, setLoading] = useState(false);
+  const [error, setError] = useState('');
+  const [success, setSuccess] = useState('');
+
+  /**
+   * Sends the reset request for the entered email
+   */
+  const handleSubmit = async (e: React.FormEvent) => {
+    e.preventDefault();
+    setLoading(true);
+    setError('');
+
+    try {
+      const { data, error } = await publicApi.POST('/auth/forgot-password', { body: { email } });
+      if (!data) {
+        throw new Error(error?.error || 'Failed to request a reset link');
+      }
+      setSuccess(data.message);
+    } catch (err) {
+      setError((err as Error).message);
+    } finally {
+      setLoading(false);
+    }
+  };
+
+  return (
+    <Form onSubmit={handleSubmit}>
+      <p className="text-muted">
+        Enter the email address of your account and we will send you a link to choose a new password.
+      </p>
+
+      {/* Error and success message displays */}
+      {error && <Alert variant="danger">{error}</Alert>}
+      {success && <Alert variant="success">{success}</Alert>}
+
+      {!success && (
+        <>
+          <Form.Group className="mb-3">
+            <Form.Label>Email Address</Form.Label>
+            <Form.Control
+              type="email"
+              value={email}
+              onChange={(e) => setEmail(e.target.value)}
+              placeholder="Enter your email"
+              autoFocus
+              required
+            />
+          </Form.Group>
+
+          <Button type="submit" variant="primary" size="lg" className="w-100 btn-custom mb-2" disabled={loading}>
+            {loading ? (
+              <>
+                <Spinner as="span" animation="border" size="sm" className="me-2" />
+                Sending...
+              </>
+            ) : (
+              <>
+                <Mail size={18} className="me-2" /> Send reset link
+              </>
+            )}
+          </Button>
+        </>
+      )}
+
+      <Button variant="link" size="sm" className="w-100 text-muted" onClick={onBack}>
+        Back to sign-in
+      </Button>
+    </Form>
+  );
+};
+
+export default ForgotPasswordForm;
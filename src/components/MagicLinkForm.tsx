@@ -0,0 +1,86 @@
+import React, { useState } from 'react';
+import { Form, Button, Alert, Spinner } from 'react-bootstrap';
+import { Mail } from 'lucide-react';
+import { publicApi } from '../api/client';
+
+/**
+ * MagicLinkForm Component - Requests a one-time sign-in link by email
+ *
+ * Opening the emailed link returns to the sign-in page, which exchanges it for a
+ * session. The backend answers the same way whether or not the account exists, so
+ * this form always shows the same confirmation after a successful request.
+ */
+const MagicLinkForm: React.FC = () => {
+  const [email, setEmail] = useState('');
+  const [loading, setLoading] = useState(false);
+  const [error, setError] = useState('');
+  const [success, setSuccess] = useState('');
+
+  /**
+   * Sends the sign-in link request for the entered email
+   */
+  const handleSubmit = async (e: React.FormEvent) => {
+    e.preventDefault();
+    setLoading(true);
+    setError('');
+
+    try {
+      const { data, error } = await publicApi.POST('/auth/magic-link/request', { body: { email } });
+      if (!data) {
+        throw new Error(error?.error || 'Failed to send a sign-in link');
+      }
+      setSuccess(data.message);
+    } catch (err) {
+      setError((err as Error).message);
+    } finally {
+      setLoading(false);
+    }
+  };
+
+  return (
+    <Form onSubmit={handleSubmit}>
+      <p className="text-muted">
+        No password needed: we will email you a link that signs you in.
+      </p>
+
+      {/* Error and success message displays */}
+      {error && <Alert variant="danger">{error}</Alert>}
+      {success && <Alert variant="success">{success}</Alert>}
+
+      {success ? (
+        <Button variant="link" size="sm" className="w-100" onClick={() => setSuccess('')}>
+          Use a different email
+        </Button>
+      ) : (
+        <>
+          <Form.Group className="mb-4">
+            <Form.Label>Email Address</Form.Label>
+            <Form.Control
+              type="email"
+              value={email}
+              onChange={(e) => setEmail(e.target.value)}
+              placeholder="Enter your email"
+              autoComplete="email"
+              required
+            />
+          </Form.Group>
+
+          <Button type="submit" variant="primary" size="lg" className="w-100 btn-custom" disabled={loading}>
+            {loading ? (
+              <>
+                <Spinner as="span" animation="border" size="sm" className="me-2" />
+                Sending...
+              </>
+            ) : (
+              <>
+                <Mail size={18} className="me-2" /> Email me a sign-in link
+              </>
+            )}
+          </Button>
+        </>
+      )}
+    </Form>
+  );
+};
+
+export default MagicLinkForm;
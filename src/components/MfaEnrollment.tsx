@@ -0,0 +1,159 @@
+import React, { useState, useEffect } from 'react';
+import { Alert, Button, Spinner } from 'react-bootstrap';
+import { ShieldCheck } from 'lucide-react';
+import { api, ApiSchemas, publicApi } from '../api/client';
+import OtpCodeInput from './OtpCodeInput';
+import MfaRecoveryCodes from './MfaRecoveryCodes';
+
+// Result of POST /auth/mfa/enroll/confirm; the tokens are only present when finishing a login
+export type MfaEnrollmentResult = ApiSchemas['MfaEnrollmentResult'];
+
+interface MfaEnrollmentProps {
+  mfaToken?: string; // From a login that must enrol before it completes; otherwise the signed-in user enrols
+  onComplete: (result: MfaEnrollmentResult) => void;
+}
+
+type PendingEnrollment = ApiSchemas['MfaEnrollment'];
+
+/**
+ * Client for the MFA endpoints: a login that must enrol identifies itself with its
+ * mfaToken in the body, a signed-in user with their access token.
+ */
+const enrollmentClient = (mfaToken?: string) => (mfaToken ? publicApi : api);
+
+/**
+ * MfaEnrollment Component - Sets up an authenticator app for two-factor authentication
+ *
+ * Steps:
+ * - Scan the QR code (or type the secret) into an authenticator app
+ * - Confirm with the first 6-digit code, which turns MFA on
+ * - Save the recovery codes, then continue
+ */
+const MfaEnrollment: React.FC<MfaEnrollmentProps> = ({ mfaToken, onComplete }) => {
+  const [pending, setPending] = useState<PendingEnrollment | null>(null);
+  const [result, setResult] = useState<MfaEnrollmentResult | null>(null);
+  const [code, setCode] = useState('');
+  const [loading, setLoading] = useState(false);
+  const [error, setError] = useState('');
+
+  /**
+   * Effect hook to request a new secret when the component mounts
+   */
+  useEffect(() => {
+    startEnrollment(mfaToken);
+  }, [mfaToken]);
+
+  /**
+   * Asks the backend for a new secret and its QR code
+   *
+   * @param token - mfaToken of the login being finished, if any
+   */
+  const startEnrollment = async (token?: string) => {
+    setLoading(true);
+    setError('');
+    try {
+      const { data, error } = await enrollmentClient(token).POST('/auth/mfa/enroll', { body: { mfaToken: token } });
+      if (!data) {
+        throw new Error(error?.error || 'Failed to start two-factor authentication setup');
+      }
+      setPending(data);
+    } catch (err) {
+      console.error('Error starting MFA enrollment:', err);
+      setError((err as Error).message);
+    } finally {
+      setLoading(false);
+    }
+  };
+
+  /**
+   * Confirms the enrolment with the first code from the authenticator app
+   *
+   * @param value - The 6-digit code; defaults to the entered one
+   */
+  const handleConfirm = async (value = code) => {
+    if (!pending || value.length !== 6) return;
+
+    setLoading(true);
+    setError('');
+    try {
+      const { data, error } = await enrollmentClient(mfaToken).POST('/auth/mfa/enroll/confirm', {
+        body: { mfaToken, enrollmentToken: pending.enrollmentToken, code: value },
+      });
+      if (!data) {
+        throw new Error(error?.error || 'Failed to verify the code');
+      }
+      setResult(data);
+    } catch (err) {
+      console.error('Error confirming MFA enrollment:', err);
+      setError((err as Error).message);
+      setCode('');
+    } finally {
+      setLoading(false);
+    }
+  };
+
+  // Enrolled: show the recovery codes before moving on
+  if (result) {
+    return (
+      <>
+        <MfaRecoveryCodes codes={result.recoveryCodes} />
+        <Button variant="primary" className="w-100" onClick={() => onComplete(result)}>
+          I have saved my recovery codes
+        </Button>
+      </>
+    );
+  }
+
+  return (
+    <>
+      {/* Error message display */}
+      {error && (
+        <Alert variant="danger" className="mb-3">
+          {error}
+        </Alert>
+      )}
+
+      {!pending ? (
+        loading && (
+          <div className="text-center">
+            <Spinner animation="border" variant="primary" />
+          </div>
+        )
+      ) : (
+        <>
+          {/* Scan step */}
+          <p className="mb-2">
+            1. Scan this QR code with an authenticator app such as Microsoft Authenticator or Google Authenticator.
+          </p>
+          <div className="text-center mb-2">
+            <img src={pending.qrCode} alt="QR code for your authenticator app" width={200} height={200} />
+          </div>
+          <p className="small text-muted text-center mb-3">
+            Can't scan it? Enter this key instead: <code className="user-select-all">{pending.secret}</code>
+          </p>
+
+          {/* Confirm step */}
+          <p className="mb-2">2. Enter the 6-digit code the app shows.</p>
+          <div className="mb-3">
+            <OtpCodeInput value={code} onChange={setCode} onComplete={handleConfirm} disabled={loading} />
+          </div>
+          <Button
+            variant="primary"
+            className="w-100 d-flex align-items-center justify-content-center"
+            onClick={() => handleConfirm()}
+            disabled={loading || code.length !== 6}
+          >
+            {loading ? (
+              <Spinner as="span" animation="border" size="sm" className="me-2" />
+            ) : (
+              <ShieldCheck size={18} className="me-2" />
+            )}
+            Turn on two-factor authentication
+          </Button>
+        </>
+      )}
+    </>
+  );
+};
+
+export default MfaEnrollment;
@@ -0,0 +1,53 @@
+import React, { useState } from 'react';
+import { Alert, Button } from 'react-bootstrap';
+import { Copy } from 'lucide-react';
+
+interface MfaRecoveryCodesProps {
+  codes: string[];
+}
+
+/**
+ * MfaRecoveryCodes Component - Shows freshly generated recovery codes
+ *
+ * The server only returns recovery codes when they are created, so this is the one
+ * chance to save them. Each code can be used once instead of an authenticator code.
+ */
+const MfaRecoveryCodes: React.FC<MfaRecoveryCodesProps> = ({ codes }) => {
+  const [copied, setCopied] = useState(false);
+
+  /**
+   * Copies all codes to the clipboard, one per line
+   */
+  const handleCopy = async () => {
+    try {
+      await navigator.clipboard.writeText(codes.join('\n'));
+      setCopied(true);
+      setTimeout(() => setCopied(false), 3000);
+    } catch (err) {
+      console.error('Failed to copy recovery codes:', err);
+    }
+  };
+
+  return (
+    <Alert variant="warning" className="mb-3">
+      <p className="mb-2">
+        <strong>Save your recovery codes.</strong> Each one signs you in once if you lose your authenticator.
+        They will not be shown again.
+      </p>
+
+      {/* Codes in two columns */}
+      <div className="row row-cols-2 g-1 font-monospace mb-2">
+        {codes.map((code) => (
+          <div key={code} className="col">{code}</div>
+        ))}
+      </div>
+
+      <Button variant="outline-dark" size="sm" onClick={handleCopy} className="d-flex align-items-center">
+        <Copy size={14} className="me-1" />
+        {copied ? 'Copied!' : 'Copy codes'}
+      </Button>
+    </Alert>
+  );
+};
+
+export default MfaRecoveryCodes;
@@ -0,0 +1,223 @@
+import React, { useState, useEffect } from 'react';
+import { Modal, Alert, Button, Spinner, Badge } from 'react-bootstrap';
+import { ShieldCheck, ShieldOff, KeyRound } from 'lucide-react';
+import { api, ApiSchemas } from '../api/client';
+import OtpCodeInput from './OtpCodeInput';
+import MfaEnrollment from './MfaEnrollment';
+import MfaRecoveryCodes from './MfaRecoveryCodes';
+
+// MFA state of the signed-in user; see GET /auth/mfa in auth-server/server.ts
+// `required`: the user's role must use MFA, so it cannot be turned off
+type MfaStatus = ApiSchemas['MfaStatus'];
+
+interface MfaSettingsModalProps {
+  show: boolean;
+  onHide: () => void;
+}
+
+/**
+ * MfaSettingsModal Component - Two-factor authentication settings of the signed-in user
+ *
+ * This component lets password users:
+ * - Turn on two-factor authentication with an authenticator app
+ * - Replace their recovery codes
+ * - Turn two-factor authentication off, unless their role requires it
+ *
+ * Changes need a current code from the authenticator app. SSO users are told their
+ * identity provider handles this.
+ */
+const MfaSettingsModal: React.FC<MfaSettingsModalProps> = ({ show, onHide }) => {
+  const [status, setStatus] = useState<MfaStatus | null>(null);
+  const [enrolling, setEnrolling] = useState(false);
+  const [recoveryCodes, setRecoveryCodes] = useState<string[] | null>(null);
+  const [code, setCode] = useState('');
+  const [loading, setLoading] = useState(false);
+  const [error, setError] = useState('');
+  const [success, setSuccess] = useState('');
+
+  /**
+   * Effect hook to load the current status each time the modal opens
+   */
+  useEffect(() => {
+    if (!show) return;
+    setEnrolling(false);
+    setRecoveryCodes(null);
+    setCode('');
+    setSuccess('');
+    fetchStatus();
+  }, [show]);
+
+  /**
+   * Fetches the user's MFA status from the backend
+   */
+  const fetchStatus = async () => {
+    setLoading(true);
+    setError('');
+    try {
+      const { data, error } = await api.GET('/auth/mfa');
+      if (!data) {
+        throw new Error(error?.error || 'Failed to load two-factor authentication settings');
+      }
+      setStatus(data);
+    } catch (err) {
+      console.error('Error fetching MFA status:', err);
+      setStatus(null);
+      setError((err as Error).message);
+    } finally {
+      setLoading(false);
+    }
+  };
+
+  /**
+   * Sends a change that needs the current authenticator code
+   *
+   * @param send - Sends the request with the given body
+   * @param failure - Message shown when the server gives none
+   * @returns The response body, or undefined when the change failed
+   */
+  const submitWithCode = async <T,>(
+    send: (body: { code: string }) => Promise<{ data?: T; error?: { error?: string } }>,
+    failure: string
+  ) => {
+    setLoading(true);
+    setError('');
+    setSuccess('');
+    try {
+      const { data, error } = await send({ code });
+      if (!data) {
+        throw new Error(error?.error || failure);
+      }
+      return data;
+    } catch (err) {
+      console.error(failure, err);
+      setError((err as Error).message);
+      return undefined;
+    } finally {
+      setCode('');
+      setLoading(false);
+    }
+  };
+
+  /**
+   * Replaces the recovery codes and shows the new ones
+   */
+  const handleRegenerateCodes = async () => {
+    const data = await submitWithCode(body => api.POST('/auth/mfa/recovery-codes', { body }), 'Failed to create new recovery codes');
+    if (!data) return;
+    setRecoveryCodes(data.recoveryCodes);
+    setStatus(current => current && { ...current, recoveryCodesRemaining: data.recoveryCodes.length });
+  };
+
+  /**
+   * Turns two-factor authentication off
+   */
+  const handleDisable = async () => {
+    if (!confirm('Turn off two-factor authentication? Signing in will only need your password.')) {
+      return;
+    }
+    const data = await submitWithCode(body => api.POST('/auth/mfa/disable', { body }), 'Failed to turn off two-factor authentication');
+    if (!data) return;
+    setSuccess('Two-factor authentication turned off');
+    setTimeout(() => setSuccess(''), 3000);
+    await fetchStatus();
+  };
+
+  /**
+   * Shows the recovery codes of a finished enrolment and the new status
+   */
+  const handleEnrolled = async () => {
+    setEnrolling(false);
+    setSuccess('Two-factor authentication turned on');
+    setTimeout(() => setSuccess(''), 3000);
+    await fetchStatus();
+  };
+
+  return (
+    <Modal show={show} onHide={onHide}>
+      <Modal.Header closeButton>
+        <Modal.Title className="d-flex align-items-center">
+          <ShieldCheck size={20} className="me-2" />
+          Two-factor authentication
+        </Modal.Title>
+      </Modal.Header>
+      <Modal.Body>
+        {/* Error and success message displays */}
+        {error && (
+          <Alert variant={status ? 'danger' : 'info'} className="mb-3">
+            {error}
+          </Alert>
+        )}
+
+        {success && (
+          <Alert variant="success" className="mb-3">
+            {success}
+          </Alert>
+        )}
+
+        {loading && !status ? (
+          <div className="text-center">
+            <Spinner animation="border" variant="primary" />
+          </div>
+        ) : enrolling ? (
+          // Enrolment steps; recovery codes are shown before handing back here
+          <MfaEnrollment onComplete={handleEnrolled} />
+        ) : status && !status.enabled ? (
+          <>
+            <p>
+              Protect your account with a code from an authenticator app in addition to your password.
+              {status.required && ' Your role requires it; you will be asked to set it up at your next sign-in.'}
+            </p>
+            <Button variant="primary" onClick={() => setEnrolling(true)} className="d-flex align-items-center">
+              <ShieldCheck size={16} className="me-1" />
+              Set up two-factor authentication
+            </Button>
+          </>
+        ) : status?.enabled ? (
+          <>
+            {/* Current status */}
+            <p className="mb-2">
+              <Badge bg="success" className="me-2">On</Badge>
+              Since {status.enabledAt ? new Date(status.enabledAt).toLocaleDateString() : 'unknown'}
+              {status.required && <small className="text-muted"> (required for your role)</small>}
+            </p>
+            <p className={status.recoveryCodesRemaining ? 'text-muted' : 'text-danger'}>
+              {status.recoveryCodesRemaining ?? 0} unused recovery codes left
+            </p>
+
+            {recoveryCodes && <MfaRecoveryCodes codes={recoveryCodes} />}
+
+            {/* Changes need a current code */}
+            <p className="mb-2">Enter a code from your authenticator app to make changes:</p>
+            <div className="mb-3">
+              <OtpCodeInput value={code} onChange={setCode} disabled={loading} />
+            </div>
+            <div className="d-flex gap-2">
+              <Button
+                variant="outline-primary"
+                onClick={handleRegenerateCodes}
+                disabled={loading || code.length !== 6}
+                className="d-flex align-items-center"
+              >
+                <KeyRound size={16} className="me-1" />
+                New recovery codes
+              </Button>
+              {!status.required && (
+                <Button
+                  variant="outline-danger"
+                  onClick={handleDisable}
+                  disabled={loading || code.length !== 6}
+                  className="d-flex align-items-center"
+                >
+                  <ShieldOff size={16} className="me-1" />
+                  Turn off
+                </Button>
+              )}
+            </div>
+          </>
+        ) : null}
+      </Modal.Body>
+    </Modal>
+  );
+};
+
+export default MfaSettingsModal;
@@ -0,0 +1,38 @@
+import React from 'react';
+import { REGEXP_ONLY_DIGITS } from 'input-otp';
+import { InputOTP, InputOTPGroup, InputOTPSlot } from './ui/input-otp';
+
+interface OtpCodeInputProps {
+  value: string;
+  onChange: (value: string) => void;
+  onComplete?: (value: string) => void; // Called once every digit has been entered
+  disabled?: boolean;
+  length?: number;
+}
+
+/**
+ * OtpCodeInput Component - One box per digit for one-time codes
+ *
+ * Used for the codes of authenticator apps. Only digits are accepted, and pasting
+ * a whole code fills every box.
+ */
+const OtpCodeInput: React.FC<OtpCodeInputProps> = ({ value, onChange, onComplete, disabled, length = 6 }) => (
+  <InputOTP
+    maxLength={length}
+    pattern={REGEXP_ONLY_DIGITS}
+    value={value}
+    onChange={onChange}
+    onComplete={onComplete}
+    disabled={disabled}
+    autoFocus
+    containerClassName="justify-center"
+  >
+    <InputOTPGroup>
+      {Array.from({ length }, (_, index) => (
+        <InputOTPSlot key={index} index={index} />
+      ))}
+    </InputOTPGroup>
+  </InputOTP>
+);
+
+export default OtpCodeInput;
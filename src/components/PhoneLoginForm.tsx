@@ -0,0 +1,175 @@
+import React, { useState, useEffect } from 'react';
+import { Form, Button, Alert, Spinner } from 'react-bootstrap';
+import { MessageSquare } from 'lucide-react';
+import { ApiSchemas, publicApi } from '../api/client';
+import OtpCodeInput from './OtpCodeInput';
+
+// Successful response of POST /auth/sms/verify: a session, or the MFA step that still has to follow
+export type SignInResponse = ApiSchemas['SignInResult'];
+
+interface PhoneLoginFormProps {
+  onSignedIn: (response: SignInResponse) => void;
+}
+
+/**
+ * PhoneLoginForm Component - Passwordless sign-in with a code sent by SMS
+ *
+ * Steps:
+ * - Enter the phone number registered on the account and request a code
+ * - Enter the 6-digit code from the text message
+ *
+ * Codes expire after a few minutes and only a few wrong guesses are allowed before a
+ * new code is needed; the server enforces both.
+ */
+const PhoneLoginForm: React.FC<PhoneLoginFormProps> = ({ onSignedIn }) => {
+  const [phone, setPhone] = useState('');
+  const [codeSent, setCodeSent] = useState(false);
+  const [code, setCode] = useState('');
+  const [resendAt, setResendAt] = useState<number | null>(null);
+  const [now, setNow] = useState(Date.now());
+  const [loading, setLoading] = useState(false);
+  const [error, setError] = useState('');
+  const [info, setInfo] = useState('');
+
+  const resendSeconds = resendAt ? Math.max(Math.ceil((resendAt - now) / 1000), 0) : 0;
+
+  /**
+   * Effect ticking the countdown once a second until another code may be requested
+   */
+  useEffect(() => {
+    if (!resendAt) return;
+    const interval = setInterval(() => {
+      setNow(Date.now());
+      if (Date.now() >= resendAt) setResendAt(null);
+    }, 1000);
+    return () => clearInterval(interval);
+  }, [resendAt]);
+
+  /**
+   * Asks the backend to text a sign-in code to the entered number
+   */
+  const handleRequestCode = async (e?: React.FormEvent) => {
+    e?.preventDefault();
+    setLoading(true);
+    setError('');
+
+    try {
+      const { data, error } = await publicApi.POST('/auth/sms/request', { body: { phone } });
+      if (!data) {
+        throw new Error(error?.error || 'Failed to send a code');
+      }
+      setCodeSent(true);
+      setCode('');
+      setInfo(data.message);
+      setNow(Date.now());
+      setResendAt(Date.now() + (data.resendAfter || 60) * 1000);
+    } catch (err) {
+      setError((err as Error).message);
+    } finally {
+      setLoading(false);
+    }
+  };
+
+  /**
+   * Signs in with the code from the text message
+   *
+   * @param value - The 6-digit code; defaults to the entered one
+   */
+  const handleVerify = async (value = code) => {
+    if (value.length !== 6) return;
+    setLoading(true);
+    setError('');
+
+    try {
+      const { data, error } = await publicApi.POST('/auth/sms/verify', { body: { phone, code: value } });
+      if (!data) {
+        throw new Error(error?.error || 'Sign-in failed');
+      }
+      onSignedIn(data);
+    } catch (err) {
+      setError((err as Error).message);
+      setCode('');
+    } finally {
+      setLoading(false);
+    }
+  };
+
+  /**
+   * Goes back to entering the phone number
+   */
+  const handleChangeNumber = () => {
+    setCodeSent(false);
+    setCode('');
+    setInfo('');
+    setError('');
+  };
+
+  return (
+    <>
+      {/* Error and info message displays */}
+      {error && <Alert variant="danger">{error}</Alert>}
+      {info && !error && <Alert variant="info" className="py-2"><small>{info}</small></Alert>}
+
+      {!codeSent ? (
+        // Step 1: phone number
+        <Form onSubmit={handleRequestCode}>
+          <Form.Group className="mb-4">
+            <Form.Label>Phone Number</Form.Label>
+            <Form.Control
+              type="tel"
+              value={phone}
+              onChange={(e) => setPhone(e.target.value)}
+              placeholder="+44 7700 900123"
+              autoComplete="tel"
+              required
+            />
+            <Form.Text className="text-muted">The number registered on your account, with country code</Form.Text>
+          </Form.Group>
+
+          <Button type="submit" variant="primary" size="lg" className="w-100 btn-custom" disabled={loading || !phone.trim()}>
+            {loading ? (
+              <>
+                <Spinner as="span" animation="border" size="sm" className="me-2" />
+                Sending...
+              </>
+            ) : (
+              <>
+                <MessageSquare size={18} className="me-2" /> Send code
+              </>
+            )}
+          </Button>
+        </Form>
+      ) : (
+        // Step 2: code from the text message
+        <Form onSubmit={(e) => { e.preventDefault(); handleVerify(); }}>
+          <Form.Group className="mb-3">
+            <Form.Label className="d-block text-center">Enter the code sent to {phone}</Form.Label>
+            <OtpCodeInput value={code} onChange={setCode} onComplete={handleVerify} disabled={loading} />
+          </Form.Group>
+
+          <Button type="submit" variant="primary" size="lg" className="w-100 btn-custom mb-2" disabled={loading || code.length !== 6}>
+            {loading ? (
+              <>
+                <Spinner as="span" animation="border" size="sm" className="me-2" />
+                Verifying...
+              </>
+            ) : (
+              'Sign In'
+            )}
+          </Button>
+
+          <div className="d-flex justify-content-between">
+            <Button variant="link" size="sm" onClick={handleChangeNumber}>
+              Change number
+            </Button>
+            <Button variant="link" size="sm" onClick={() => handleRequestCode()} disabled={loading || !!resendAt}>
+              {resendAt ? `Resend code in ${resendSeconds}s` : 'Resend code'}
+            </Button>
+          </div>
+        </Form>
+      )}
+    </>
+  );
+};
+
+export default PhoneLoginForm;
@@ -2,7 +2,7 @@
 import React, { useState, useEffect } from 'react';
 import { Button } from 'react-bootstrap';
 import { ArrowLeft, Maximize, Minimize } from 'lucide-react';
-import PowerBIEmbed from './powerbi/PowerBIEmbed';
+import PowerBIEmbed, { EmbedTokenRefresh } from './powerbi/PowerBIEmbed';
 
 /**
  * PowerBIViewer Component - Wrapper for PowerBI report embedding with controls
@@ -12,6 +12,7 @@ import PowerBIEmbed from './powerbi/PowerBIEmbed';
  * - Fullscreen functionality using browser APIs
  * - Navigation controls and report metadata display
  * - Automatic fullscreen state management
+ * - Embed token renewal before expiry when a refresh callback is given
  */
 
 // Props interface for PowerBI viewer
@@ -19,23 +20,22 @@ interface PowerBIViewerProps {
   menu: {
     id: string;
     title: string;
-    description: string;
+    description?: string;
     icon: React.ReactNode;
-    powerBIReportId: string;
+    powerBIReportId?: string;
     reportId?: string;
     embedUrl?: string;
     embedToken?: string;
+    embedTokenExpiration?: string;
     tenantId?: string;
     clientId?: string;
   };
   onBack: () => void;
+  onTokenRefresh?: () => Promise<EmbedTokenRefresh>; // Fetches a new embed token for this report
 }
 
-const PowerBIViewer = ({ menu, onBack }: PowerBIViewerProps) => {
+const PowerBIViewer = ({ menu, onBack, onTokenRefresh }: PowerBIViewerProps) => {
   const [isFullscreen, setIsFullscreen] = useState(false);
-  
-  // Debug logging for troubleshooting
-  console.log('PowerBI Viewer menu data:', menu);
 
   /**
    * Handles fullscreen mode toggle using browser's Fullscreen API
@@ -154,6 +154,8 @@ const PowerBIViewer = ({ menu, onBack }: PowerBIViewerProps) => {
             embedToken={menu.embedToken || ''}
             tokenType="1" // Embed token type
             className="h-100"
+            tokenExpiration={menu.embedTokenExpiration}
+            onTokenRefresh={onTokenRefresh}
           />
         </div>
       </div>
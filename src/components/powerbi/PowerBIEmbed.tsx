@@ -7,14 +7,27 @@ import {
   Report
 } from 'powerbi-client';
 
+// A fresh embed token and when it expires, as returned by the generate-embed endpoints
+export interface EmbedTokenRefresh {
+  embedToken: string;
+  expiration: string;
+}
+
 interface PowerBIEmbedProps {
   embedToken: string;
   embedUrl: string;
   reportId: string;
   tokenType?: '0' | '1'; // 0 for AAD, 1 for Embed
   className?: string;
+  tokenExpiration?: string; // ISO expiry of embedToken; enables automatic refresh with onTokenRefresh
+  onTokenRefresh?: () => Promise<EmbedTokenRefresh>;
 }
 
+// Refresh this long before the token expires. Kept below the server's 5 minute cache
+// margin so a refresh never gets the same cached token back.
+const TOKEN_REFRESH_MARGIN_MS = 2 * 60 * 1000;
+const TOKEN_REFRESH_RETRY_MS = 30 * 1000;
+
 const powerbiService = new service.Service(
   factories.hpmFactory,
   factories.wpmpFactory,
@@ -26,18 +39,21 @@ const PowerBIEmbed = ({
   embedUrl,
   reportId,
   tokenType = '1',
-  className = ''
+  className = '',
+  tokenExpiration,
+  onTokenRefresh
 }: PowerBIEmbedProps) => {
   const embedContainerRef = useRef<HTMLDivElement>(null);
   const reportRef = useRef<Report | null>(null);
+  // Latest refresh callback, read by the timer without rescheduling on every render
+  const onTokenRefreshRef = useRef(onTokenRefresh);
 
   useEffect(() => {
-    if (!embedToken || !embedUrl || !reportId || !embedContainerRef.current) {
-      console.log('Missing required props:', { embedToken: !!embedToken, embedUrl: !!embedUrl, reportId: !!reportId });
-      return;
-    }
+    onTokenRefreshRef.current = onTokenRefresh;
+  }, [onTokenRefresh]);
 
-    console.log('Embedding PowerBI with:', { reportId, embedUrl: embedUrl.substring(0, 50) + '...', tokenType });
+  useEffect(() => {
+    if (!embedToken || !embedUrl || !reportId || !embedContainerRef.current) return;
 
     const config = {
       type: 'report',
@@ -104,6 +120,60 @@ const PowerBIEmbed = ({
     };
   }, [embedToken, embedUrl, reportId, tokenType]);
 
+  // Keep the embedded report alive: swap in a new token shortly before the current one
+  // expires. The report is not re-embedded, so the user keeps their page and filters.
+  useEffect(() => {
+    if (!embedToken || !tokenExpiration) return;
+
+    let expiresAt = Date.parse(tokenExpiration);
+    let timer: ReturnType<typeof setTimeout> | undefined;
+    let refreshing = false;
+    let cancelled = false;
+
+    const schedule = (minDelay = 0) => {
+      clearTimeout(timer);
+      timer = setTimeout(refresh, Math.max(expiresAt - TOKEN_REFRESH_MARGIN_MS - Date.now(), minDelay));
+    };
+
+    const refresh = async () => {
+      const refreshToken = onTokenRefreshRef.current;
+      if (refreshing || !refreshToken || !reportRef.current) return;
+
+      refreshing = true;
+      try {
+        const { embedToken: newToken, expiration } = await refreshToken();
+        if (cancelled) return;
+        await reportRef.current.setAccessToken(newToken);
+        expiresAt = Date.parse(expiration);
+        schedule(TOKEN_REFRESH_RETRY_MS);
+      } catch (error) {
+        console.error('❌ Embed token refresh failed:', error);
+        if (!cancelled) {
+          clearTimeout(timer);
+          timer = setTimeout(refresh, TOKEN_REFRESH_RETRY_MS);
+        }
+      } finally {
+        refreshing = false;
+      }
+    };
+
+    // Timers do not fire while the device sleeps, so re-check when the tab is shown again
+    const handleVisibilityChange = () => {
+      if (document.visibilityState === 'visible' && Date.now() >= expiresAt - TOKEN_REFRESH_MARGIN_MS) {
+        refresh();
+      }
+    };
+
+    schedule();
+    document.addEventListener('visibilitychange', handleVisibilityChange);
+
+    return () => {
+      cancelled = true;
+      clearTimeout(timer);
+      document.removeEventListener('visibilitychange', handleVisibilityChange);
+    };
+  }, [embedToken, tokenExpiration]);
+
   if (!embedToken || !embedUrl || !reportId) {
     return (
       <div className={`text-center p-4 ${className}`} style={{ width: '100%', height: '600px' }}>
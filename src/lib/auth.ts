@@ -1,14 +1,212 @@
+import { jwtDecode } from 'jwt-decode';
+import { api, publicApi } from '../api/client';
+import { Role, RoleHolder, resolveDepartments, resolveRole } from '@shared/permissions';
 
-export const getAuthToken = (): string | null => {
-  const urlParams = new URLSearchParams(window.location.search);
-  const tokenFromUrl = urlParams.get('token');
+const TOKEN_KEY = 'jwt_token';
+const REFRESH_TOKEN_KEY = 'refresh_token';
+const USER_KEY = 'user';
 
-  if (tokenFromUrl) {
-    localStorage.setItem('jwt_token', tokenFromUrl);
-    // Remove token from URL to clean it up
-    window.history.replaceState({}, document.title, window.location.pathname);
-    return tokenFromUrl;
+// Renew the access token when less than this is left on it
+const REFRESH_MARGIN_MS = 60 * 1000;
+const REFRESH_RETRY_MS = 30 * 1000;
+
+// Dispatched on window when the session cannot be renewed and the user has to sign in again
+export const SESSION_EXPIRED_EVENT = 'auth:session-expired';
+
+// Dispatched on window with the signed-in user as `detail` when a refreshed token changes it
+export const USER_UPDATED_EVENT = 'auth:user-updated';
+
+// The signed-in user as read from the access token
+export interface SessionUser {
+  email: string;
+  departments: string[];
+  role: Role;
+}
+
+export const getAuthToken = (): string | null => localStorage.getItem(TOKEN_KEY);
+
+/**
+ * Reads the user from an access token. Older tokens carry an admin flag and one department.
+ */
+export const userFromToken = (token: string): SessionUser => {
+  const claims = jwtDecode<Pick<RoleHolder, 'role' | 'isAdmin'> & { email: string; departments?: unknown; department?: unknown }>(token);
+  return { email: claims.email, departments: resolveDepartments(claims), role: resolveRole(claims) };
+};
+
+/**
+ * Stores the access token and, when given, the refresh token that renews it, along with
+ * the user read from the access token
+ *
+ * @returns The user of the token
+ */
+export const setAuthTokens = (token: string, refreshToken?: string): SessionUser => {
+  const user = userFromToken(token);
+  localStorage.setItem(TOKEN_KEY, token);
+  localStorage.setItem(USER_KEY, JSON.stringify(user));
+  if (refreshToken) {
+    localStorage.setItem(REFRESH_TOKEN_KEY, refreshToken);
+  }
+  return user;
+};
+
+export const clearAuthTokens = () => {
+  localStorage.removeItem(TOKEN_KEY);
+  localStorage.removeItem(REFRESH_TOKEN_KEY);
+};
+
+/**
+ * Expiry of a JWT in milliseconds, or null for tokens without one (e.g. mock tokens)
+ */
+const tokenExpiry = (token: string): number | null => {
+  try {
+    const { exp } = jwtDecode<{ exp?: number }>(token);
+    return typeof exp === 'number' ? exp * 1000 : null;
+  } catch {
+    return null;
+  }
+};
+
+const isExpiring = (token: string) => {
+  const expiresAt = tokenExpiry(token);
+  return expiresAt !== null && expiresAt - REFRESH_MARGIN_MS <= Date.now();
+};
+
+const endSession = () => {
+  clearAuthTokens();
+  window.dispatchEvent(new Event(SESSION_EXPIRED_EVENT));
+};
+
+const requestRefresh = async (staleToken: string | null): Promise<string | null> => {
+  // Another tab may have renewed the session while this one waited for the lock
+  const current = localStorage.getItem(TOKEN_KEY);
+  if (current && current !== staleToken && !isExpiring(current)) return current;
+
+  const refreshToken = localStorage.getItem(REFRESH_TOKEN_KEY);
+  if (!refreshToken) {
+    endSession();
+    return null;
+  }
+
+  const { data, response } = await publicApi.POST('/auth/refresh', { body: { refreshToken } });
+
+  // The session is gone (expired, revoked or reused); other failures are worth retrying
+  if (response.status === 400 || response.status === 401) {
+    endSession();
+    return null;
+  }
+  if (!data) {
+    throw new Error('Failed to refresh session');
+  }
+
+  // Refreshes pick up role and department changes made in the directory
+  const user = setAuthTokens(data.token, data.refreshToken);
+  window.dispatchEvent(new CustomEvent<SessionUser>(USER_UPDATED_EVENT, { detail: user }));
+  return data.token;
+};
+
+let pendingRefresh: Promise<string | null> | null = null;
+
+/**
+ * Renews the access token with the stored refresh token. Concurrent calls share one
+ * request, and a Web Lock keeps tabs from spending the same refresh token twice,
+ * which the server treats as token theft and answers by revoking the session.
+ *
+ * @returns The new access token, or null when the user has to sign in again
+ */
+export const refreshAuthToken = (staleToken: string | null = localStorage.getItem(TOKEN_KEY)): Promise<string | null> => {
+  if (!pendingRefresh) {
+    const run = () => requestRefresh(staleToken);
+    pendingRefresh = (navigator.locks ? navigator.locks.request('auth-refresh', run) : run()).finally(() => {
+      pendingRefresh = null;
+    });
+  }
+  return pendingRefresh;
+};
+
+/**
+ * Returns an access token that is not about to expire, renewing it first when needed.
+ * Use this instead of reading the token from localStorage before API calls.
+ */
+export const getValidAuthToken = async (): Promise<string | null> => {
+  const token = getAuthToken();
+  if (!token || !isExpiring(token)) return token;
+
+  try {
+    return await refreshAuthToken(token);
+  } catch (error) {
+    console.error('Token refresh failed:', error);
+    return token;
   }
+};
+
+/**
+ * Ends the session on the server, revoking the access and refresh tokens, then clears
+ * them locally. With `everywhere` all of the user's sessions on other devices end too.
+ * Local sign-out happens even when the server cannot be reached.
+ */
+export const logout = async (everywhere = false): Promise<void> => {
+  // An expired access token would be rejected before the session could be revoked
+  const token = await getValidAuthToken();
+  clearAuthTokens();
+  if (!token || token.startsWith('mock.')) return;
+
+  try {
+    const { response } = await api.POST('/auth/logout', {
+      body: { everywhere },
+      headers: { 'Authorization': `Bearer ${token}` },
+    });
+    if (!response.ok) {
+      console.error('Server logout failed:', response.status);
+    }
+  } catch (error) {
+    console.error('Server logout failed:', error);
+  }
+};
+
+/**
+ * Keeps the session alive while the app is open by renewing the access token shortly
+ * before it expires, also after the device wakes from sleep.
+ *
+ * @returns Cleanup function that stops the timer
+ */
+export const startSilentRefresh = (): (() => void) => {
+  let timer: ReturnType<typeof setTimeout> | undefined;
+
+  const run = async () => {
+    try {
+      await refreshAuthToken();
+      schedule();
+    } catch (error) {
+      console.error('Silent token refresh failed:', error);
+      clearTimeout(timer);
+      timer = setTimeout(run, REFRESH_RETRY_MS);
+    }
+  };
+
+  const schedule = () => {
+    clearTimeout(timer);
+    const token = localStorage.getItem(TOKEN_KEY);
+    const expiresAt = token ? tokenExpiry(token) : null;
+    if (expiresAt === null || !localStorage.getItem(REFRESH_TOKEN_KEY)) return;
+
+    timer = setTimeout(run, Math.max(expiresAt - REFRESH_MARGIN_MS - Date.now(), 0));
+  };
+
+  // Timers do not fire while the device sleeps, and other tabs may rotate the tokens
+  const handleVisibilityChange = () => {
+    if (document.visibilityState === 'visible') schedule();
+  };
+  const handleStorage = (event: StorageEvent) => {
+    if (event.key === TOKEN_KEY) schedule();
+  };
+
+  schedule();
+  document.addEventListener('visibilitychange', handleVisibilityChange);
+  window.addEventListener('storage', handleStorage);
 
-  return localStorage.getItem('jwt_token');
+  return () => {
+    clearTimeout(timer);
+    document.removeEventListener('visibilitychange', handleVisibilityChange);
+    window.removeEventListener('storage', handleStorage);
+  };
 };
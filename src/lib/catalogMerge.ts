@@ -0,0 +1,108 @@
+// Three-way merge of report catalogs, used when a catalog save is rejected as stale.
+// `base` is the catalog as it was loaded, `mine` has the local edits and `theirs`
+// is what the server holds now.
+
+type Catalog<R> = Record<string, R[]>;
+
+export type MergeChoice = 'mine' | 'theirs';
+
+// A report changed differently on both sides; a missing side means it was deleted there
+export interface ReportConflict<R> {
+  key: string;
+  department: string;
+  reportId: string;
+  mine?: R;
+  theirs?: R;
+}
+
+const same = (a: unknown, b: unknown) => JSON.stringify(a) === JSON.stringify(b);
+
+const unique = (values: string[]) => Array.from(new Set(values));
+
+const indexReports = <R extends { id: string }>(reports: R[] = []) =>
+  new Map(reports.map(report => [report.id, report]));
+
+export const conflictKey = (department: string, reportId: string) => `${department}/${reportId}`;
+
+/**
+ * Calls `fn` for every report in the merged catalog's departments, in the order the
+ * merged catalog uses: their order first, then reports that only exist locally.
+ * Departments deleted on one side and left untouched on the other are skipped.
+ */
+const forEachReport = <R extends { id: string }>(
+  base: Catalog<R>,
+  mine: Catalog<R>,
+  theirs: Catalog<R>,
+  fn: (department: string, reportId: string, base?: R, mine?: R, theirs?: R) => void
+): string[] => {
+  const departments = unique([...Object.keys(theirs), ...Object.keys(mine)]).filter(department => {
+    if (mine[department] && theirs[department]) return true;
+    const kept = mine[department] || theirs[department];
+    return !base[department] || !same(kept, base[department]);
+  });
+
+  departments.forEach(department => {
+    const baseReports = indexReports(base[department]);
+    const myReports = indexReports(mine[department]);
+    const theirReports = indexReports(theirs[department]);
+    const reportIds = unique([...theirReports.keys(), ...myReports.keys()]);
+
+    reportIds.forEach(reportId =>
+      fn(department, reportId, baseReports.get(reportId), myReports.get(reportId), theirReports.get(reportId))
+    );
+  });
+
+  return departments;
+};
+
+/**
+ * Reports that were changed (or deleted) differently locally and on the server.
+ * Everything else merges on its own.
+ */
+export const findConflicts = <R extends { id: string }>(
+  base: Catalog<R>,
+  mine: Catalog<R>,
+  theirs: Catalog<R>
+): ReportConflict<R>[] => {
+  const conflicts: ReportConflict<R>[] = [];
+
+  forEachReport(base, mine, theirs, (department, reportId, baseReport, myReport, theirReport) => {
+    if (!same(myReport, theirReport) && !same(myReport, baseReport) && !same(theirReport, baseReport)) {
+      conflicts.push({ key: conflictKey(department, reportId), department, reportId, mine: myReport, theirs: theirReport });
+    }
+  });
+
+  return conflicts;
+};
+
+/**
+ * Merges the local edits into the server catalog. A report changed on only one side
+ * takes that side; conflicting reports follow `choices` (keyed by conflictKey) and
+ * default to the local version.
+ */
+export const mergeCatalogs = <R extends { id: string }>(
+  base: Catalog<R>,
+  mine: Catalog<R>,
+  theirs: Catalog<R>,
+  choices: Record<string, MergeChoice> = {}
+): Catalog<R> => {
+  const merged: Catalog<R> = {};
+
+  const departments = forEachReport(base, mine, theirs, (department, reportId, baseReport, myReport, theirReport) => {
+    let report: R | undefined;
+    if (same(myReport, theirReport) || same(theirReport, baseReport)) {
+      report = myReport;
+    } else if (same(myReport, baseReport)) {
+      report = theirReport;
+    } else {
+      report = choices[conflictKey(department, reportId)] === 'theirs' ? theirReport : myReport;
+    }
+
+    if (report) {
+      (merged[department] = merged[department] || []).push(report);
+    }
+  });
+
+  // Departments that merged down to no reports still exist
+  return Object.fromEntries(departments.map(department => [department, merged[department] || []]));
+};
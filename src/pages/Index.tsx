@@ -1,113 +1,84 @@
 
 import React, { useState, useEffect } from 'react';
-import { jwtDecode } from 'jwt-decode';
 import AuthComponent from '../components/AuthComponent';
 import Dashboard from '../components/Dashboard';
 import AdminDashboard from '../components/AdminDashboard';
-
-// Type definitions for user and JWT token structure
-interface User {
-  email: string;
-  department: string;
-  isAdmin?: boolean;
-}
-
-interface DecodedToken {
-  email: string;
-  department: string;
-  isAdmin?: boolean;
-  exp?: number;
-}
+import { logout, startSilentRefresh, SessionUser, SESSION_EXPIRED_EVENT, USER_UPDATED_EVENT } from '../lib/auth';
+import { hasAdminAccess, resolveDepartments, resolveRole } from '@shared/permissions';
 
 /**
  * Index Component - Main application entry point and routing logic
  * 
  * Responsibilities:
- * - JWT token validation and user authentication state management
- * - Routing between authentication, user dashboard, and admin dashboard
+ * - User authentication state management
+ * - Routing between authentication, user dashboard, and admin dashboard by role
  * - Persistent login state management using localStorage
- * - Token-based authentication from URL parameters (SSO flow)
+ * - Silent access token renewal while signed in, and sign-out when the session ends
  */
 const Index = () => {
-  const [user, setUser] = useState<User | null>(null);
+  const [user, setUser] = useState<SessionUser | null>(null);
 
   /**
-   * Effect hook for handling authentication state initialization
-   * Processes JWT tokens from URL parameters or localStorage
+   * Effect hook restoring the user of a stored session; new sign-ins, including the
+   * return from SSO, are finished by AuthComponent
    */
   useEffect(() => {
-    // Check for SSO token in URL parameters
-    const params = new URLSearchParams(window.location.search);
-    const token = params.get('token');
-
-    if (token) {
-      try {
-        // Decode and validate JWT token from SSO redirect
-        const decoded = jwtDecode<DecodedToken>(token);
+    // Older sessions saved an admin flag and one department
+    const savedUser = localStorage.getItem('user');
+    if (savedUser) {
+      const parsed = JSON.parse(savedUser);
+      setUser({ email: parsed.email, departments: resolveDepartments(parsed), role: resolveRole(parsed) });
+    }
+  }, []);
 
-        // Validate required token payload fields
-        if (!decoded.email || !decoded.department) {
-          throw new Error('Invalid token payload');
-        }
+  const signedIn = user !== null;
 
-        // Create user object from token payload
-        const userFromToken: User = {
-          email: decoded.email,
-          department: decoded.department,
-          isAdmin: decoded.isAdmin || false
-        };
+  /**
+   * Effect hook to keep the access token fresh while signed in
+   * Picks up role and department changes from refreshed tokens, and signs the user out
+   * when the session can no longer be renewed
+   */
+  useEffect(() => {
+    if (!signedIn) return;
 
-        // Store user data and token for persistent authentication
-        setUser(userFromToken);
-        localStorage.setItem('user', JSON.stringify(userFromToken));
-        localStorage.setItem('jwt_token', token);
+    const stopSilentRefresh = startSilentRefresh();
+    const handleSessionExpired = () => handleLogout();
+    const handleUserUpdated = (event: Event) => setUser((event as CustomEvent<SessionUser>).detail);
+    window.addEventListener(SESSION_EXPIRED_EVENT, handleSessionExpired);
+    window.addEventListener(USER_UPDATED_EVENT, handleUserUpdated);
 
-        // Clean URL after processing token to improve UX
-        window.history.replaceState({}, '', '/');
-      } catch (err) {
-        console.error('Failed to decode JWT:', err);
-      }
-    } else {
-      // Attempt to restore user session from localStorage
-      const savedUser = localStorage.getItem('user');
-      if (savedUser) {
-        setUser(JSON.parse(savedUser));
-      }
-    }
-  }, []);
+    return () => {
+      stopSilentRefresh();
+      window.removeEventListener(SESSION_EXPIRED_EVENT, handleSessionExpired);
+      window.removeEventListener(USER_UPDATED_EVENT, handleUserUpdated);
+    };
+  }, [signedIn]);
 
   /**
-   * Handles successful user login from AuthComponent
+   * Handles successful user login from AuthComponent, which has stored the user
    * @param userData - User information from authentication process
    */
-  const handleLogin = (userData: User) => {
-    // Ensure admin flag is preserved during login
-    const userWithAdmin = {
-      ...userData,
-      isAdmin: userData.isAdmin || false
-    };
-    setUser(userWithAdmin);
-    localStorage.setItem('user', JSON.stringify(userWithAdmin));
-    console.log('User logged in:', userWithAdmin);
+  const handleLogin = (userData: SessionUser) => {
+    setUser(userData);
   };
 
   /**
    * Handles user logout and cleanup
-   * Clears all stored authentication data
+   * Revokes the session on the server and clears all stored authentication data
+   * @param everywhere - Also end the user's sessions on all other devices
    */
-  const handleLogout = () => {
+  const handleLogout = (everywhere = false) => {
     setUser(null);
     localStorage.removeItem('user');
-    localStorage.removeItem('jwt_token');
-    console.log('User logged out');
+    void logout(everywhere);
   };
 
   // Conditional rendering based on authentication state and user role
   return (
     <>
       {user ? (
-        // Route to appropriate dashboard based on user role
-        user.isAdmin ? (
+        // Roles that can edit reports get the admin portal, everyone else the report dashboard
+        hasAdminAccess(user) ? (
           <AdminDashboard user={user} onLogout={handleLogout} />
         ) : (
           <Dashboard user={user} onLogout={handleLogout} />
@@ -0,0 +1,126 @@
+import React, { useState } from 'react';
+import { useSearchParams, Link } from 'react-router-dom';
+import { Container, Row, Col, Card, Form, Button, Alert, Spinner } from 'react-bootstrap';
+import { KeyRound } from 'lucide-react';
+import { publicApi } from '../api/client';
+import { MIN_PASSWORD_LENGTH } from '@shared/schemas';
+
+/**
+ * ResetPassword Page - Target of the emailed password reset link
+ *
+ * Reads the one-time token from the `token` query parameter and lets the user choose
+ * a new password. The link works once; afterwards all of the user's sessions are
+ * ended and they sign in again with the new password.
+ */
+const ResetPassword = () => {
+  const [searchParams] = useSearchParams();
+  const token = searchParams.get('token') || '';
+  const [password, setPassword] = useState('');
+  const [confirmPassword, setConfirmPassword] = useState('');
+  const [loading, setLoading] = useState(false);
+  const [error, setError] = useState('');
+  const [success, setSuccess] = useState('');
+
+  /**
+   * Submits the new password with the token from the link
+   */
+  const handleSubmit = async (e: React.FormEvent) => {
+    e.preventDefault();
+    setError('');
+
+    if (password.length < MIN_PASSWORD_LENGTH) {
+      setError(`Password must be at least ${MIN_PASSWORD_LENGTH} characters`);
+      return;
+    }
+    if (password !== confirmPassword) {
+      setError('Passwords do not match');
+      return;
+    }
+
+    setLoading(true);
+    try {
+      const { data, error } = await publicApi.POST('/auth/reset-password', { body: { token, password } });
+      if (!data) {
+        throw new Error(error?.error || 'Failed to reset password');
+      }
+      setSuccess(data.message);
+    } catch (err) {
+      setError((err as Error).message);
+    } finally {
+      setLoading(false);
+    }
+  };
+
+  return (
+    <Container fluid className="app-container d-flex align-items-center justify-content-center p-4">
+      <Row className="w-100 justify-content-center">
+        <Col xs={12} sm={10} md={8} lg={6} xl={4}>
+          <Card className="auth-card p-4">
+            <Card.Body>
+              {/* Centered header with key icon */}
+              <div className="text-center mb-3">
+                <div className="d-flex justify-content-center align-items-center mb-2">
+                  <KeyRound size={60} className="text-primary" />
+                </div>
+                <h2 className="fw-bold text-primary">Choose a new password</h2>
+              </div>
+
+              {/* Error and success message displays */}
+              {error && <Alert variant="danger">{error}</Alert>}
+              {success && <Alert variant="success">{success}</Alert>}
+
+              {!token ? (
+                <Alert variant="warning">
+                  This page needs the link from your password reset email. Request a new one from the sign-in page.
+                </Alert>
+              ) : !success && (
+                <Form onSubmit={handleSubmit}>
+                  <Form.Group className="mb-3">
+                    <Form.Label>New password</Form.Label>
+                    <Form.Control
+                      type="password"
+                      value={password}
+                      onChange={(e) => setPassword(e.target.value)}
+                      autoComplete="new-password"
+                      autoFocus
+                      required
+                    />
+                    <Form.Text className="text-muted">At least {MIN_PASSWORD_LENGTH} characters</Form.Text>
+                  </Form.Group>
+
+                  <Form.Group className="mb-4">
+                    <Form.Label>Confirm new password</Form.Label>
+                    <Form.Control
+                      type="password"
+                      value={confirmPassword}
+                      onChange={(e) => setConfirmPassword(e.target.value)}
+                      autoComplete="new-password"
+                      required
+                    />
+                  </Form.Group>
+
+                  <Button type="submit" variant="primary" size="lg" className="w-100 btn-custom" disabled={loading}>
+                    {loading ? (
+                      <>
+                        <Spinner as="span" animation="border" size="sm" className="me-2" />
+                        Saving...
+                      </>
+                    ) : (
+                      'Reset password'
+                    )}
+                  </Button>
+                </Form>
+              )}
+
+              <div className="text-center mt-3">
+                <Link to="/">Back to sign-in</Link>
+              </div>
+            </Card.Body>
+          </Card>
+        </Col>
+      </Row>
+    </Container>
+  );
+};
+
+export default ResetPassword;
@@ -17,6 +17,8 @@ export default defineConfig(({ mode }) => ({
   resolve: {
     alias: {
       "@": path.resolve(__dirname, "./src"),
+      // Code shared with the auth server (e.g. the role/permission matrix)
+      "@shared": path.resolve(__dirname, "./auth-server/shared"),
     },
   },
 }));